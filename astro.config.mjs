@@ -5,4 +5,11 @@ import mdx from '@astrojs/mdx';
 // https://docs.astro.build/en/reference/configuration-reference/
 export default defineConfig({
   integrations: [mdx(), critters({ preload: 'swap', pruneSource: true })],
+  vite: {
+    build: {
+      // Keep every script a file under /_astro/: the Content-Security-Policy in public/_headers
+      // allows scripts from 'self' only, so an inlined or data: script would be blocked.
+      assetsInlineLimit: (file) => (/\.[cm]?[jt]s$/.test(file) ? false : undefined),
+    },
+  },
 });
@@ -1,5 +1,9 @@
-const HTML_CACHE = 'html-v1';
+const HTML_CACHE = 'html-v3';
 const STATIC_CACHE = 'static-v2';
+// Search index shards and the on-this-day index are content-hashed, so a cached copy never goes
+// stale.
+const HASHED_DATA_CACHE = 'hashed-data-v1';
+const HASHED_DATA_PATHS = ['/search-index/', '/on-this-day-index/'];
 const SHELL_URLS = ['/'];
 
 self.addEventListener('install', (event) => {
@@ -16,7 +20,7 @@ self.addEventListener('install', (event) => {
 self.addEventListener('activate', (event) => {
   event.waitUntil(
     (async () => {
-      const expectedCaches = new Set([HTML_CACHE, STATIC_CACHE]);
+      const expectedCaches = new Set([HTML_CACHE, STATIC_CACHE, HASHED_DATA_CACHE]);
       const cacheNames = await caches.keys();
       await Promise.all(
         cacheNames
@@ -70,6 +74,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  if (HASHED_DATA_PATHS.some((path) => url.pathname.startsWith(path))) {
+    event.respondWith(handleHashedDataRequest(request));
+    return;
+  }
+
   const isFontRequest = request.destination === 'font' || url.pathname.endsWith('.woff2');
 
   if (
@@ -87,7 +96,8 @@ const handleHtmlRequest = (event) => {
 
   return (async () => {
     const cache = await caches.open(HTML_CACHE);
-    const cachedResponse = await cache.match(request);
+    // Pages are static, so query strings (e.g. /on-this-day/?date=…) never change the HTML.
+    const cachedResponse = await cache.match(request, { ignoreSearch: true });
 
     const networkFetch = fetch(request)
       .then((response) => {
@@ -138,3 +148,28 @@ const handleStaticAssetRequest = async (request) => {
     throw error;
   }
 };
+
+/**
+ * `/search-index/tokens-a.0123456789.json` → `/search-index/tokens-a`, so a new build's file
+ * replaces the old one.
+ */
+const getUnhashedPath = (pathname) => pathname.split('.')[0];
+
+const handleHashedDataRequest = async (request) => {
+  const cache = await caches.open(HASHED_DATA_CACHE);
+  const cachedResponse = await cache.match(request);
+  if (cachedResponse) {
+    return cachedResponse;
+  }
+
+  const response = await fetch(request);
+  if (response && response.ok) {
+    const unhashedPath = getUnhashedPath(new URL(request.url).pathname);
+    const staleKeys = (await cache.keys()).filter(
+      (key) => getUnhashedPath(new URL(key.url).pathname) === unhashedPath
+    );
+    await Promise.all(staleKeys.map((key) => cache.delete(key)));
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
@@ -0,0 +1,201 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+import matter from 'gray-matter';
+
+import { spotifyCatalog } from '../../src/lib/spotify-catalog.js';
+import { generateAlbumArtSlugStrict } from '../../src/lib/album-art-slug.js';
+import { createSongKey } from '../../src/lib/song-key.js';
+import {
+  parseAlbumArtOverrides,
+  type AlbumArtOverrides,
+} from '../../src/lib/album-art-overrides.js';
+import {
+  createAlbumArtCache,
+  type AlbumArtCache,
+  type AlbumArtTrack,
+} from '../../src/lib/album-art-pipeline.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+export const ROOT_DIR = path.resolve(__dirname, '../..');
+export const RAW_DIR = path.resolve(ROOT_DIR, 'raw-album-art');
+export const OUTPUT_DIR = path.resolve(ROOT_DIR, 'public/images/covers');
+const CACHE_PATH = path.resolve(ROOT_DIR, 'scripts/cache/wiki-art.json');
+const MANIFEST_PATH = path.resolve(ROOT_DIR, 'scripts/cache/cover-manifest.json');
+const YEARS_DIR = path.resolve(ROOT_DIR, 'src/content/years');
+const SONGS_PATH = path.resolve(ROOT_DIR, 'src/data/songs.json');
+const OVERRIDES_PATH = path.resolve(ROOT_DIR, 'scripts/album-art/overrides.json');
+
+export const slugify = (title: string, artist: string) => generateAlbumArtSlugStrict(title, artist);
+
+export const ensureDir = async (target: string) => {
+  await fs.mkdir(target, { recursive: true });
+};
+
+export const fileExists = async (filePath: string) => {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Repository-relative path with forward slashes, as stored in the cache. */
+export const toRelative = (filePath: string) =>
+  path.relative(ROOT_DIR, filePath).replace(/\\/g, '/');
+
+export const fromRelative = (relativePath: string) => path.resolve(ROOT_DIR, relativePath);
+
+/**
+ * Write to a sibling temp file and rename it into place, so a crash never leaves a truncated
+ * cache or image behind.
+ */
+export const writeFileAtomic = async (target: string, contents: string | Uint8Array) => {
+  const temporary = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, contents);
+  await fs.rename(temporary, target);
+};
+
+export const readAlbumArtCache = async (): Promise<AlbumArtCache> => {
+  try {
+    const raw = await fs.readFile(CACHE_PATH, 'utf8');
+    return JSON.parse(raw) as AlbumArtCache;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return createAlbumArtCache();
+    }
+
+    throw error;
+  }
+};
+
+export const writeAlbumArtCache = async (cache: AlbumArtCache) => {
+  await writeFileAtomic(CACHE_PATH, `${JSON.stringify(cache, null, 2)}\n`);
+};
+
+/**
+ * Save the cache every `interval` changes and once more at the end, so a crash loses at most a
+ * handful of completed steps (which the next run simply repeats).
+ */
+export const createCheckpoint = (cache: AlbumArtCache, interval = 25) => {
+  let pending = 0;
+  return {
+    async record() {
+      pending += 1;
+      if (pending >= interval) {
+        pending = 0;
+        await writeAlbumArtCache(cache);
+      }
+    },
+    async flush() {
+      pending = 0;
+      await writeAlbumArtCache(cache);
+    },
+  };
+};
+
+export const readAlbumArtOverrides = async (): Promise<AlbumArtOverrides> => {
+  try {
+    return parseAlbumArtOverrides(JSON.parse(await fs.readFile(OVERRIDES_PATH, 'utf8')));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+export const writeAlbumArtOverrides = async (overrides: AlbumArtOverrides) => {
+  const sorted = Object.fromEntries(
+    Object.entries(overrides).sort(([a], [b]) => a.localeCompare(b))
+  );
+  await writeFileAtomic(OVERRIDES_PATH, `${JSON.stringify(sorted, null, 2)}\n`);
+};
+
+/**
+ * Rebuild the slug → thumbnail manifest the site reads from every entry with thumbnails, with
+ * the track and provenance the credits page lists.
+ */
+export const writeCoverManifest = async (cache: AlbumArtCache) => {
+  const manifest = Object.fromEntries(
+    Object.entries(cache.entries)
+      .filter(([, entry]) => entry.status === 'ok' && entry.optimized)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([slug, entry]) => [
+        slug,
+        {
+          ...entry.optimized,
+          source: entry.rawFile,
+          title: entry.title,
+          artist: entry.artist,
+          provenance: entry.provenance,
+        },
+      ])
+  );
+  await writeFileAtomic(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`);
+  return Object.keys(manifest).length;
+};
+
+/**
+ * Every track that needs artwork: the Spotify mapping first, then each year's #1 hits. `year` is
+ * the first year the track was at #1, when it charted in a year file.
+ */
+export const gatherTracks = async (): Promise<AlbumArtTrack[]> => {
+  const seen = new Map<string, AlbumArtTrack>();
+
+  for (const entry of spotifyCatalog.entries) {
+    const key = createSongKey(entry.title, entry.artist);
+    if (!seen.has(key)) {
+      seen.set(key, {
+        title: entry.title,
+        artist: entry.artist,
+        slug: slugify(entry.title, entry.artist),
+      });
+    }
+  }
+
+  try {
+    const files = await fs.readdir(YEARS_DIR);
+    for (const file of files) {
+      if (!file.endsWith('.mdx')) continue;
+      const filePath = path.join(YEARS_DIR, file);
+      const contents = await fs.readFile(filePath, 'utf8');
+      const parsed = matter(contents);
+      const numberOnes = parsed.data?.numberOnes as unknown;
+      if (!Array.isArray(numberOnes)) continue;
+
+      const year = typeof parsed.data?.year === 'number' ? parsed.data.year : undefined;
+
+      for (const item of numberOnes) {
+        if (!item || typeof item !== 'object') continue;
+        const title = 'title' in item ? String(item.title) : null;
+        const artist = 'artist' in item ? String(item.artist) : null;
+        if (!title || !artist) continue;
+        const key = createSongKey(title, artist);
+        const existing = seen.get(key);
+        if (!existing) {
+          seen.set(key, {
+            title,
+            artist,
+            slug: slugify(title, artist),
+            year,
+          });
+        } else if (year !== undefined && (existing.year === undefined || year < existing.year)) {
+          existing.year = year;
+        }
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  return Array.from(seen.values()).sort((a, b) => a.slug.localeCompare(b.slug));
+};
+
+/** Album-art slugs the song registry points at, which must survive a prune. */
+export const readRegistryArtSlugs = async (): Promise<Set<string>> => {
+  const songs = JSON.parse(await fs.readFile(SONGS_PATH, 'utf8')) as { albumArt?: string }[];
+  return new Set(songs.flatMap((song) => (song.albumArt ? [song.albumArt] : [])));
+};
@@ -0,0 +1,158 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import {
+  isAlbumArtOverrideApplied,
+  isAlbumArtOverridePinned,
+} from '../../src/lib/album-art-overrides.js';
+import {
+  ensureAlbumArtEntry,
+  isAlbumArtStepDue,
+  markAlbumArtFetched,
+  markAlbumArtMissing,
+  markAlbumArtSkipped,
+  matchesAlbumArtSelection,
+  type AlbumArtOptions,
+} from '../../src/lib/album-art-pipeline.js';
+import { findArtwork } from '../../src/lib/artwork-providers.js';
+import {
+  createCheckpoint,
+  ensureDir,
+  fromRelative,
+  gatherTracks,
+  RAW_DIR,
+  readAlbumArtCache,
+  readAlbumArtOverrides,
+  toRelative,
+  writeCoverManifest,
+  writeFileAtomic,
+} from './cache.js';
+import {
+  createArtworkProviders,
+  createPinnedArtworkProvider,
+  DEFAULT_FIXTURES_PATH,
+  readArtworkFixtures,
+} from './providers.js';
+
+/**
+ * Download the raw artwork for every `pending` or `missing` track (all selected ones with
+ * `--force`), asking each provider in priority order. Tracks with an override use the cover it
+ * pins, or are skipped when it marks them missing, and are refetched when the override changes.
+ */
+export const runFetch = async (options: AlbumArtOptions) => {
+  await ensureDir(RAW_DIR);
+
+  const fixturesPath = options.fixtures ? path.resolve(options.fixtures) : DEFAULT_FIXTURES_PATH;
+  const providers = await createArtworkProviders({ names: options.providers, fixturesPath });
+  if (!providers.length) throw new Error('No artwork providers are available.');
+  const recorded = options.record ? await readArtworkFixtures(fixturesPath) : null;
+
+  const cache = await readAlbumArtCache();
+  const overrides = await readAlbumArtOverrides();
+  const checkpoint = createCheckpoint(cache);
+  const tracks = await gatherTracks();
+
+  let processed = 0;
+  let fetched = 0;
+  let skipped = 0;
+  for (const track of tracks) {
+    if (options.limit !== null && processed >= options.limit) break;
+    if (!matchesAlbumArtSelection(track.slug, cache.entries[track.slug], options)) continue;
+
+    const entry = ensureAlbumArtEntry(cache, track);
+    const override = overrides[track.slug];
+    const label = `${track.title} — ${track.artist}`;
+    if (override?.missing) {
+      if (entry.status !== 'skipped') {
+        markAlbumArtSkipped(
+          entry,
+          override.note ?? 'Marked missing in the overrides file.',
+          new Date().toISOString()
+        );
+        console.log(`Skipped ${label}: marked missing in the overrides file`);
+        skipped += 1;
+        await checkpoint.record();
+      }
+      continue;
+    }
+
+    const force = options.force || !isAlbumArtOverrideApplied(entry, override);
+    if (!isAlbumArtStepDue(entry, 'fetch', { force })) continue;
+    processed += 1;
+
+    const candidates =
+      override && isAlbumArtOverridePinned(override)
+        ? [createPinnedArtworkProvider(override)]
+        : providers;
+    try {
+      const { artwork, failures } = await findArtwork(candidates, track);
+      failures.forEach((failure) => console.warn(`${label}: ${failure}`));
+      if (!artwork) {
+        if (recorded && !failures.length) recorded[track.slug] = null;
+        const error = failures.length
+          ? `No provider returned artwork (${failures.join('; ')})`
+          : `No artwork found by ${candidates.map((provider) => provider.name).join(', ')}`;
+        markAlbumArtMissing(entry, error, new Date().toISOString());
+        console.warn(`No artwork found for ${label}`);
+        await checkpoint.record();
+        continue;
+      }
+
+      const bytes = await artwork.load();
+      const destination = path.join(RAW_DIR, `${track.slug}${artwork.extension}`);
+      await writeFileAtomic(destination, bytes);
+
+      // A download with a different extension replaces the previous one.
+      if (entry.rawFile && fromRelative(entry.rawFile) !== destination) {
+        await fs.rm(fromRelative(entry.rawFile), { force: true });
+      }
+
+      if (artwork.spotify) {
+        entry.spotify = artwork.spotify;
+      } else {
+        delete entry.spotify;
+      }
+      markAlbumArtFetched(
+        entry,
+        {
+          rawFile: toRelative(destination),
+          source: artwork.provider,
+          imageUrl: artwork.url,
+          credit: artwork.credit,
+        },
+        new Date().toISOString()
+      );
+      if (recorded) {
+        recorded[track.slug] = {
+          url: artwork.url,
+          width: artwork.width,
+          height: artwork.height,
+          data: Buffer.from(bytes).toString('base64'),
+        };
+      }
+      fetched += 1;
+      console.log(`Fetched artwork for ${label} from ${artwork.provider}`);
+    } catch (error) {
+      markAlbumArtMissing(
+        entry,
+        error instanceof Error ? error.message : String(error),
+        new Date().toISOString()
+      );
+      console.error(`Failed to fetch ${label}:`, error);
+    }
+    await checkpoint.record();
+  }
+
+  cache.meta.lastFetchRun = new Date().toISOString();
+  await checkpoint.flush();
+  // Skipped covers leave the site straight away rather than after the next resize.
+  if (skipped) await writeCoverManifest(cache);
+  if (recorded) {
+    await writeFileAtomic(fixturesPath, `${JSON.stringify(recorded, null, 2)}\n`);
+    console.log(`Recorded lookups to ${toRelative(fixturesPath)}.`);
+  }
+
+  console.log(
+    `Fetched ${fetched} of ${processed} track${processed === 1 ? '' : 's'}; run \`album-art resize\` next.`
+  );
+};
@@ -0,0 +1,97 @@
+import process from 'node:process';
+import { setTimeout as delay } from 'node:timers/promises';
+
+const MAX_RETRIES = 4;
+const RETRY_BASE_DELAY = 400;
+
+// MusicBrainz and Wikipedia ask clients to identify themselves with a way to get in touch.
+const contact = process.env.ALBUM_ART_CONTACT;
+export const USER_AGENT = `Billboard-Hot-100-Art-Fetcher/1.0${contact ? ` (${contact})` : ''}`;
+
+/** Space calls at least `intervalMs` apart; each provider keeps its own pace. */
+export const createRateLimiter = (intervalMs: number) => {
+  let nextAvailable = Date.now();
+  return async () => {
+    const now = Date.now();
+    if (now < nextAvailable) {
+      await delay(nextAvailable - now);
+    }
+    nextAvailable = Date.now() + intervalMs;
+  };
+};
+
+/** An HTTP error response; only rate limiting and server errors are worth retrying. */
+export class HttpStatusError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+
+  get retryable() {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+export const withRetries = async <T>(operation: () => Promise<T>): Promise<T> => {
+  let attempt = 0;
+  let lastError: unknown;
+  while (attempt <= MAX_RETRIES) {
+    try {
+      return await operation();
+    } catch (error) {
+      lastError = error;
+      if (error instanceof HttpStatusError && !error.retryable) break;
+      attempt += 1;
+      if (attempt > MAX_RETRIES) break;
+      const delayMs = RETRY_BASE_DELAY * 2 ** (attempt - 1);
+      await delay(delayMs + Math.random() * 150);
+    }
+  }
+  throw lastError;
+};
+
+/** Throw an `HttpStatusError` describing a failed response. */
+export const assertOk = async (response: Response, context: string) => {
+  if (response.ok) return;
+  const body = await response.text();
+  throw new HttpStatusError(
+    response.status,
+    `${context}: ${response.status} ${response.statusText}${body ? ` – ${body.slice(0, 200)}` : ''}`
+  );
+};
+
+/**
+ * GET `url` at the limiter's pace, retrying transient failures. Resolves to `null` for a 404,
+ * which providers treat as "no artwork".
+ */
+export const getWithRetries = async (
+  url: string,
+  limiter: () => Promise<void>,
+  headers: Record<string, string> = {}
+): Promise<Response | null> =>
+  withRetries(async () => {
+    await limiter();
+    const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT, ...headers } });
+    if (response.status === 404) return null;
+    await assertOk(response, 'Request failed');
+    return response;
+  });
+
+export const getJson = async <T>(
+  url: string,
+  limiter: () => Promise<void>,
+  headers: Record<string, string> = {}
+): Promise<T | null> => {
+  const response = await getWithRetries(url, limiter, headers);
+  return response ? ((await response.json()) as T) : null;
+};
+
+/** Download an image; the caller already knows it exists, so a 404 is an error here. */
+export const getBytes = async (url: string, limiter: () => Promise<void>) => {
+  const response = await getWithRetries(url, limiter);
+  if (!response) throw new HttpStatusError(404, `Image not found: ${url}`);
+  return new Uint8Array(await response.arrayBuffer());
+};
@@ -0,0 +1,29 @@
+import 'dotenv/config';
+import process from 'node:process';
+
+import { parseAlbumArtArgs, type AlbumArtCommand } from '../../src/lib/album-art-pipeline.js';
+import { runFetch } from './fetch.js';
+import { runPrune } from './prune.js';
+import { runResize } from './resize.js';
+import { runReview } from './review.js';
+import { runStatus } from './status.js';
+import { runValidate } from './validate.js';
+
+const commands: Record<AlbumArtCommand, typeof runFetch> = {
+  fetch: runFetch,
+  resize: runResize,
+  validate: runValidate,
+  status: runStatus,
+  prune: runPrune,
+  review: runReview,
+};
+
+const main = async () => {
+  const options = parseAlbumArtArgs(process.argv.slice(2));
+  await commands[options.command](options);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,375 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+
+import { getSpotifyTrackId } from '../../src/lib/spotify-catalog.js';
+import type { AlbumArtOverride } from '../../src/lib/album-art-overrides.js';
+import {
+  artworkProviderNames,
+  artworkUsageNotes,
+  createFixtureProvider,
+  createSpotifyArtworkCredit,
+  getArtworkExtension,
+  pickCoverArtArchiveImage,
+  pickLargestImage,
+  pickMusicBrainzReleases,
+  pickWikipediaPageImage,
+  type Artwork,
+  type ArtworkFixtures,
+  type ArtworkProvider,
+  type ArtworkProviderName,
+  type CoverArtArchiveRelease,
+  type MusicBrainzRecordingSearch,
+  type WikipediaPageImageQuery,
+} from '../../src/lib/artwork-providers.js';
+import { fileExists, fromRelative, ROOT_DIR, toRelative } from './cache.js';
+import {
+  assertOk,
+  createRateLimiter,
+  getBytes,
+  getJson,
+  HttpStatusError,
+  withRetries,
+} from './http.js';
+
+export const LOCAL_ART_DIR = path.resolve(ROOT_DIR, 'local-album-art');
+export const DEFAULT_FIXTURES_PATH = path.resolve(ROOT_DIR, 'scripts/album-art/fixtures.json');
+
+const LOCAL_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+interface SpotifyTokenResponse {
+  access_token: string;
+  expires_in?: number;
+}
+
+interface SpotifyAlbumResponse {
+  id?: string;
+  name?: string;
+  album_type?: string;
+  release_date?: string;
+  release_date_precision?: string;
+  images?: { url?: string; width?: number; height?: number }[];
+}
+
+interface SpotifyTrackResponse {
+  id?: string;
+  name?: string;
+  album?: SpotifyAlbumResponse;
+}
+
+const toLocalArtwork = (filePath: string): Artwork => {
+  const extension = getArtworkExtension(filePath);
+  return {
+    provider: 'local',
+    url: toRelative(filePath),
+    extension: extension === '.jpeg' ? '.jpg' : extension,
+    credit: { sourceUrl: toRelative(filePath), license: artworkUsageNotes.local },
+    load: async () => new Uint8Array(await fs.readFile(filePath)),
+  };
+};
+
+/** Covers dropped into `local-album-art/<slug>.<ext>` by hand. */
+const createLocalProvider = (): ArtworkProvider => ({
+  name: 'local',
+  find: async (track) => {
+    for (const extension of LOCAL_EXTENSIONS) {
+      const filePath = path.join(LOCAL_ART_DIR, `${track.slug}${extension}`);
+      if (await fileExists(filePath)) return toLocalArtwork(filePath);
+    }
+    return null;
+  },
+});
+
+const createSpotifyTokenManager = (clientId: string, clientSecret: string) => {
+  let accessToken: string | null = null;
+  let expiresAt = 0;
+
+  const requestToken = async () => {
+    const auth = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+    const response = await fetch('https://accounts.spotify.com/api/token', {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${auth}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ grant_type: 'client_credentials' }),
+    });
+    await assertOk(response, 'Failed to obtain Spotify access token');
+
+    const data = (await response.json()) as SpotifyTokenResponse;
+    accessToken = data.access_token;
+    const lifetimeSeconds = typeof data.expires_in === 'number' ? data.expires_in : 3600;
+    const safetyWindowSeconds = 60;
+    const effectiveLifetime = Math.max(lifetimeSeconds - safetyWindowSeconds, 60);
+    expiresAt = Date.now() + effectiveLifetime * 1000;
+  };
+
+  const getToken = async () => {
+    if (!accessToken || Date.now() >= expiresAt) {
+      await withRetries(requestToken);
+    }
+    return accessToken!;
+  };
+
+  const invalidate = () => {
+    accessToken = null;
+    expiresAt = 0;
+  };
+
+  return { getToken, invalidate };
+};
+
+/** Spotify Web API lookups sharing one access token and rate limit. */
+const createSpotifyClient = (clientId: string, clientSecret: string) => {
+  const tokens = createSpotifyTokenManager(clientId, clientSecret);
+  const limiter = createRateLimiter(250);
+
+  const get = async <T>(resource: string) => {
+    const url = `https://api.spotify.com/v1/${resource}`;
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      const token = await tokens.getToken();
+      try {
+        return await getJson<T>(url, limiter, {
+          Authorization: `Bearer ${token}`,
+        });
+      } catch (error) {
+        // An expired token is refreshed once before giving up.
+        if (attempt === 0 && error instanceof HttpStatusError && error.status === 401) {
+          tokens.invalidate();
+          continue;
+        }
+        throw error;
+      }
+    }
+    throw new Error('Spotify authentication failed after refresh attempt.');
+  };
+
+  return {
+    limiter,
+    getTrack: (trackId: string) =>
+      get<SpotifyTrackResponse>(`tracks/${encodeURIComponent(trackId)}`),
+    getAlbum: (albumId: string) =>
+      get<SpotifyAlbumResponse>(`albums/${encodeURIComponent(albumId)}`),
+  };
+};
+
+type SpotifyClient = ReturnType<typeof createSpotifyClient>;
+
+let spotifyClient: SpotifyClient | undefined;
+
+/** The shared Spotify client, or `null` when its credentials are not set. */
+const getSpotifyClient = (): SpotifyClient | null => {
+  const clientId = process.env.SPOTIFY_CLIENT_ID;
+  const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
+  if (!clientId || !clientSecret) return null;
+  spotifyClient ??= createSpotifyClient(clientId, clientSecret);
+  return spotifyClient;
+};
+
+const missingSpotifyCredentials = () =>
+  new Error('Missing SPOTIFY_CLIENT_ID or SPOTIFY_CLIENT_SECRET environment variable.');
+
+const toSpotifyArtwork = (
+  client: SpotifyClient,
+  album: SpotifyAlbumResponse | null | undefined,
+  track: { trackId?: string; trackName?: string }
+): Artwork | null => {
+  const image = pickLargestImage(album?.images);
+  if (!image) return null;
+
+  const spotify = {
+    ...track,
+    albumId: album?.id ?? undefined,
+    albumName: album?.name ?? undefined,
+    albumType: album?.album_type ?? undefined,
+    releaseDate: album?.release_date ?? undefined,
+    releaseDatePrecision: album?.release_date_precision ?? undefined,
+    imageUrl: image.url,
+    imageWidth: image.width,
+    imageHeight: image.height,
+  };
+  return {
+    provider: 'spotify',
+    url: image.url,
+    extension: getArtworkExtension(image.url),
+    width: image.width,
+    height: image.height,
+    spotify,
+    credit: createSpotifyArtworkCredit(spotify),
+    load: () => getBytes(image.url, client.limiter),
+  };
+};
+
+/** Album art for tracks in the Spotify catalog, via the Spotify Web API. */
+const createSpotifyProvider = (client: SpotifyClient): ArtworkProvider => ({
+  name: 'spotify',
+  find: async (track) => {
+    const trackId = getSpotifyTrackId(track.title, track.artist);
+    if (!trackId) return null;
+
+    const trackData = await client.getTrack(trackId);
+    return toSpotifyArtwork(client, trackData?.album, {
+      trackId,
+      trackName: trackData?.name ?? undefined,
+    });
+  },
+});
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+/** Front covers from the Cover Art Archive, for releases MusicBrainz matches to the track. */
+const createMusicBrainzProvider = (): ArtworkProvider => {
+  // MusicBrainz allows one request per second.
+  const musicBrainz = createRateLimiter(1100);
+  const coverArtArchive = createRateLimiter(250);
+
+  return {
+    name: 'musicbrainz',
+    find: async (track) => {
+      const query = `recording:${quote(track.title)} AND artist:${quote(track.artist)}`;
+      const search = await getJson<MusicBrainzRecordingSearch>(
+        `https://musicbrainz.org/ws/2/recording/?query=${encodeURIComponent(query)}&fmt=json&limit=5`,
+        musicBrainz
+      );
+
+      for (const release of pickMusicBrainzReleases(search ?? {}).slice(0, 3)) {
+        const images = await getJson<CoverArtArchiveRelease>(
+          `https://coverartarchive.org/release/${release.id}`,
+          coverArtArchive
+        );
+        const url = images && pickCoverArtArchiveImage(images);
+        if (url) {
+          return {
+            provider: 'musicbrainz',
+            url,
+            extension: getArtworkExtension(url),
+            credit: {
+              sourceUrl: `https://musicbrainz.org/release/${release.id}`,
+              albumName: release.title,
+              releaseDate: release.date,
+              license: artworkUsageNotes.musicbrainz,
+            },
+            load: () => getBytes(url, coverArtArchive),
+          };
+        }
+      }
+      return null;
+    },
+  };
+};
+
+/** The lead image of the song's English Wikipedia article, usually the single's sleeve. */
+const createWikipediaProvider = (): ArtworkProvider => {
+  const limiter = createRateLimiter(250);
+
+  return {
+    name: 'wikipedia',
+    find: async (track) => {
+      const params = new URLSearchParams({
+        action: 'query',
+        format: 'json',
+        generator: 'search',
+        gsrsearch: `${quote(track.title)} ${track.artist} song`,
+        gsrlimit: '3',
+        prop: 'pageimages',
+        piprop: 'original|name',
+      });
+      const response = await getJson<WikipediaPageImageQuery>(
+        `https://en.wikipedia.org/w/api.php?${params}`,
+        limiter
+      );
+      const image = response && pickWikipediaPageImage(response);
+      if (!image) return null;
+
+      return {
+        provider: 'wikipedia',
+        url: image.source,
+        extension: getArtworkExtension(image.source),
+        width: image.width,
+        height: image.height,
+        credit: {
+          sourceUrl: image.pageUrl ?? image.source,
+          license: artworkUsageNotes.wikipedia,
+        },
+        load: () => getBytes(image.source, limiter),
+      };
+    },
+  };
+};
+
+export const readArtworkFixtures = async (fixturesPath: string): Promise<ArtworkFixtures> => {
+  try {
+    return JSON.parse(await fs.readFile(fixturesPath, 'utf8')) as ArtworkFixtures;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+/**
+ * Build the providers `fetch` asks, in order. Spotify is left out with a warning when its
+ * credentials are not set, unless it was asked for explicitly.
+ */
+export const createArtworkProviders = async ({
+  names,
+  fixturesPath = DEFAULT_FIXTURES_PATH,
+}: {
+  names?: ArtworkProviderName[];
+  fixturesPath?: string;
+}): Promise<ArtworkProvider[]> => {
+  const providers: ArtworkProvider[] = [];
+  for (const name of names ?? artworkProviderNames) {
+    if (name === 'local') {
+      providers.push(createLocalProvider());
+    } else if (name === 'spotify') {
+      const client = getSpotifyClient();
+      if (client) {
+        providers.push(createSpotifyProvider(client));
+      } else if (names) {
+        throw missingSpotifyCredentials();
+      } else {
+        console.warn('Skipping Spotify: SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET are not set.');
+      }
+    } else if (name === 'musicbrainz') {
+      providers.push(createMusicBrainzProvider());
+    } else if (name === 'wikipedia') {
+      providers.push(createWikipediaProvider());
+    } else {
+      providers.push(createFixtureProvider(await readArtworkFixtures(fixturesPath)));
+    }
+  }
+  return providers;
+};
+
+/**
+ * The cover an override pins, asked instead of the usual providers: a file in the repository, or
+ * the artwork of a specific Spotify album.
+ */
+export const createPinnedArtworkProvider = (override: AlbumArtOverride): ArtworkProvider => {
+  const { file, spotifyAlbumId } = override;
+  if (file) {
+    return {
+      name: 'local',
+      find: async () => {
+        const filePath = fromRelative(file);
+        if (!(await fileExists(filePath))) throw new Error(`Pinned file ${file} does not exist.`);
+        return toLocalArtwork(filePath);
+      },
+    };
+  }
+  if (spotifyAlbumId) {
+    return {
+      name: 'spotify',
+      find: async (track) => {
+        const client = getSpotifyClient();
+        if (!client) throw missingSpotifyCredentials();
+        const album = await client.getAlbum(spotifyAlbumId);
+        if (!album) throw new Error(`Pinned Spotify album ${spotifyAlbumId} does not exist.`);
+        return toSpotifyArtwork(client, album, {
+          trackId: getSpotifyTrackId(track.title, track.artist),
+        });
+      },
+    };
+  }
+  throw new Error('The override does not pin a cover.');
+};
@@ -0,0 +1,94 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import {
+  listAlbumArtVariantFiles,
+  matchesAlbumArtSelection,
+  retireAlbumArtWidths,
+  type AlbumArtOptions,
+} from '../../src/lib/album-art-pipeline.js';
+import {
+  fromRelative,
+  gatherTracks,
+  OUTPUT_DIR,
+  RAW_DIR,
+  readAlbumArtCache,
+  readRegistryArtSlugs,
+  writeAlbumArtCache,
+  writeCoverManifest,
+} from './cache.js';
+
+const listFiles = async (directory: string) => {
+  try {
+    const files = await fs.readdir(directory);
+    return files.filter((file) => !file.startsWith('.')).map((file) => path.join(directory, file));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+};
+
+/**
+ * Drop cache entries for tracks that are no longer charted or referenced by the song registry,
+ * and thumbnail widths `ALBUM_ART_WIDTHS` no longer lists, then delete raw downloads, thumbnails
+ * and interrupted temp files that no entry points at.
+ */
+export const runPrune = async (options: AlbumArtOptions) => {
+  const cache = await readAlbumArtCache();
+  const [tracks, registrySlugs] = await Promise.all([gatherTracks(), readRegistryArtSlugs()]);
+  const wanted = new Set([...tracks.map((track) => track.slug), ...registrySlugs]);
+
+  const staleEntries = Object.entries(cache.entries)
+    .filter(([slug, entry]) => !wanted.has(slug) && matchesAlbumArtSelection(slug, entry, options))
+    .map(([slug]) => slug);
+  const removedSlugs = new Set(staleEntries);
+  const retiredWidths = Object.entries(cache.entries).filter(
+    ([slug, entry]) =>
+      !removedSlugs.has(slug) &&
+      matchesAlbumArtSelection(slug, entry, options) &&
+      entry.optimized &&
+      retireAlbumArtWidths(entry.optimized)
+  ).length;
+
+  const referenced = new Set(
+    Object.entries(cache.entries)
+      .filter(([slug]) => !removedSlugs.has(slug))
+      .flatMap(([, entry]) => [
+        ...(entry.rawFile ? [entry.rawFile] : []),
+        ...(entry.optimized ? listAlbumArtVariantFiles(entry.optimized) : []),
+      ])
+      .map(fromRelative)
+  );
+  // Raw downloads are named `<slug>.<ext>`; thumbnails `<slug>-<width>.<ext>`, though slugs can
+  // end in digits themselves.
+  const isSelected = (file: string) => {
+    const name = path.basename(file).split('.')[0];
+    const slug = name in cache.entries ? name : name.replace(/-\d+$/, '');
+    return matchesAlbumArtSelection(slug, cache.entries[slug], options);
+  };
+  const staleFiles = [...(await listFiles(RAW_DIR)), ...(await listFiles(OUTPUT_DIR))]
+    .filter(isSelected)
+    .filter((file) => !referenced.has(file));
+
+  const verb = options.dryRun ? 'Would remove' : 'Removed';
+  staleEntries.forEach((slug) => console.log(`${verb} cache entry ${slug}`));
+  staleFiles.forEach((file) => console.log(`${verb} ${path.relative(process.cwd(), file)}`));
+
+  if (!options.dryRun) {
+    staleEntries.forEach((slug) => delete cache.entries[slug]);
+    await Promise.all(staleFiles.map((file) => fs.rm(file, { force: true })));
+    if (staleEntries.length || retiredWidths) {
+      await writeAlbumArtCache(cache);
+      await writeCoverManifest(cache);
+    }
+  }
+
+  if (retiredWidths) {
+    console.log(
+      `${options.dryRun ? 'Would drop' : 'Dropped'} retired widths from ${retiredWidths} cover${retiredWidths === 1 ? '' : 's'}.`
+    );
+  }
+  console.log(
+    `${verb} ${staleEntries.length} cache entr${staleEntries.length === 1 ? 'y' : 'ies'} and ${staleFiles.length} file${staleFiles.length === 1 ? '' : 's'}.`
+  );
+};
@@ -0,0 +1,112 @@
+import { promises as fs } from 'node:fs';
+import sharp from 'sharp';
+
+import {
+  albumArtVariantTemplate,
+  getAlbumArtVariantPath,
+  isAlbumArtStepDue,
+  listAlbumArtVariantFiles,
+  markAlbumArtResized,
+  matchesAlbumArtSelection,
+  selectAlbumArtWidths,
+  type AlbumArtOptions,
+  type AlbumArtVariants,
+} from '../../src/lib/album-art-pipeline.js';
+import {
+  createCheckpoint,
+  ensureDir,
+  fromRelative,
+  OUTPUT_DIR,
+  readAlbumArtCache,
+  toRelative,
+  writeCoverManifest,
+  writeFileAtomic,
+} from './cache.js';
+
+const PLACEHOLDER_WIDTH = 16;
+
+const toHex = ({ r, g, b }: { r: number; g: number; b: number }) =>
+  `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+
+/** Write every width in both formats, plus the blurred placeholder and dominant colour. */
+const createVariants = async (slug: string, rawFile: string): Promise<AlbumArtVariants> => {
+  const source = sharp(fromRelative(rawFile));
+  const [{ width = 0, height = 0 }, { dominant }] = await Promise.all([
+    source.metadata(),
+    source.stats(),
+  ]);
+  const directory = toRelative(OUTPUT_DIR);
+  const variants: Omit<AlbumArtVariants, 'placeholder'> = {
+    widths: selectAlbumArtWidths(Math.min(width, height)),
+    webp: albumArtVariantTemplate(directory, slug, 'webp'),
+    avif: albumArtVariantTemplate(directory, slug, 'avif'),
+    color: toHex(dominant),
+  };
+
+  for (const size of variants.widths) {
+    const image = source.clone().resize(size, size, { fit: 'cover' });
+    await writeFileAtomic(
+      fromRelative(getAlbumArtVariantPath(variants.webp, size)),
+      await image.clone().webp({ quality: 75 }).toBuffer()
+    );
+    await writeFileAtomic(
+      fromRelative(getAlbumArtVariantPath(variants.avif, size)),
+      await image.clone().avif({ quality: 50 }).toBuffer()
+    );
+  }
+
+  const placeholder = await source
+    .clone()
+    .resize(PLACEHOLDER_WIDTH, PLACEHOLDER_WIDTH, { fit: 'cover' })
+    .blur()
+    .webp({ quality: 40 })
+    .toBuffer();
+  return {
+    ...variants,
+    placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+  };
+};
+
+/** Generate responsive thumbnails for every `fetched` entry (and `ok` ones with `--force`). */
+export const runResize = async (options: AlbumArtOptions) => {
+  await ensureDir(OUTPUT_DIR);
+
+  const cache = await readAlbumArtCache();
+  const checkpoint = createCheckpoint(cache);
+
+  let processed = 0;
+  let resized = 0;
+  for (const [slug, entry] of Object.entries(cache.entries)) {
+    if (options.limit !== null && processed >= options.limit) break;
+    if (!matchesAlbumArtSelection(slug, entry, options)) continue;
+    if (!entry.rawFile || !isAlbumArtStepDue(entry, 'resize', options)) continue;
+    processed += 1;
+
+    try {
+      const previous = entry.optimized ? listAlbumArtVariantFiles(entry.optimized) : [];
+      const variants = await createVariants(slug, entry.rawFile);
+      // A smaller replacement download leaves its widest variants behind.
+      const current = new Set(listAlbumArtVariantFiles(variants));
+      await Promise.all(
+        previous
+          .filter((file) => !current.has(file))
+          .map((file) => fs.rm(fromRelative(file), { force: true }))
+      );
+
+      markAlbumArtResized(entry, variants, new Date().toISOString());
+      resized += 1;
+    } catch (error) {
+      // The entry stays `fetched`, so the next run tries again.
+      console.error(`Failed to resize ${entry.rawFile}:`, error);
+    }
+    await checkpoint.record();
+  }
+
+  cache.meta.lastResizeRun = new Date().toISOString();
+  await checkpoint.flush();
+  const covers = await writeCoverManifest(cache);
+
+  console.log(
+    `Generated thumbnails for ${resized} of ${processed} track${processed === 1 ? '' : 's'}; ${covers} covers in the manifest.`
+  );
+};
@@ -0,0 +1,83 @@
+import {
+  assessAlbumArtMatch,
+  isAlbumArtOverridePinned,
+} from '../../src/lib/album-art-overrides.js';
+import {
+  matchesAlbumArtSelection,
+  type AlbumArtEntry,
+  type AlbumArtOptions,
+  type AlbumArtTrack,
+} from '../../src/lib/album-art-pipeline.js';
+import {
+  gatherTracks,
+  readAlbumArtCache,
+  readAlbumArtOverrides,
+  writeAlbumArtOverrides,
+} from './cache.js';
+
+interface FlaggedCover {
+  track: AlbumArtTrack;
+  entry: AlbumArtEntry;
+  reasons: string[];
+}
+
+const describeCover = ({ entry }: FlaggedCover) => {
+  const albumName = entry.provenance?.albumName ?? entry.spotify?.albumName;
+  const releaseDate = entry.provenance?.releaseDate ?? entry.spotify?.releaseDate;
+  const album = albumName ? `"${albumName}"${releaseDate ? ` (${releaseDate})` : ''}` : 'artwork';
+  return `${album} from ${entry.source ?? 'an unknown provider'}`;
+};
+
+/**
+ * List downloaded covers that may show the wrong release, so a person can pin a better one in
+ * the overrides file or accept them with `--approve --only <slug>`. Pinned and approved covers
+ * are not listed again until their image changes.
+ */
+export const runReview = async (options: AlbumArtOptions) => {
+  const cache = await readAlbumArtCache();
+  const overrides = await readAlbumArtOverrides();
+  const tracks = await gatherTracks();
+
+  const flagged: FlaggedCover[] = [];
+  for (const track of tracks) {
+    const entry = cache.entries[track.slug];
+    if (!entry?.imageUrl || (entry.status !== 'ok' && entry.status !== 'fetched')) continue;
+    if (!matchesAlbumArtSelection(track.slug, entry, options)) continue;
+
+    const override = overrides[track.slug];
+    if (isAlbumArtOverridePinned(override) || override?.approved === entry.imageUrl) continue;
+    const reasons = assessAlbumArtMatch(entry, track.year);
+    if (reasons.length) flagged.push({ track, entry, reasons });
+  }
+
+  if (options.approve) {
+    if (!options.only?.length) {
+      throw new Error('--approve needs --only <slug> to name the covers being accepted.');
+    }
+    for (const { track, entry } of flagged) {
+      overrides[track.slug] = { ...overrides[track.slug], approved: entry.imageUrl };
+      console.log(`Approved ${track.slug}`);
+    }
+    if (flagged.length) await writeAlbumArtOverrides(overrides);
+    console.log(`Approved ${flagged.length} cover${flagged.length === 1 ? '' : 's'}.`);
+    return;
+  }
+
+  const shown = options.limit === null ? flagged : flagged.slice(0, options.limit);
+  for (const cover of shown) {
+    const { track, reasons } = cover;
+    const charted = track.year ? ` (#1 in ${track.year})` : '';
+    console.log(
+      `${track.slug}\n  ${track.title} — ${track.artist}${charted}: ${describeCover(cover)}`
+    );
+    reasons.forEach((reason) => console.log(`  - ${reason}`));
+  }
+  if (shown.length < flagged.length) {
+    console.log(`…and ${flagged.length - shown.length} more.`);
+  }
+  console.log(
+    flagged.length
+      ? `${flagged.length} cover${flagged.length === 1 ? '' : 's'} to review. Pin a better one in scripts/album-art/overrides.json, or accept with \`album-art review --approve --only <slug>\`.`
+      : 'No covers need review.'
+  );
+};
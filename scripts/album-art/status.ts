@@ -0,0 +1,55 @@
+import {
+  albumArtStatuses,
+  countAlbumArtStatuses,
+  matchesAlbumArtSelection,
+  type AlbumArtOptions,
+} from '../../src/lib/album-art-pipeline.js';
+import { gatherTracks, readAlbumArtCache } from './cache.js';
+
+/** Summarise the cache and list every selected entry that still needs work. */
+export const runStatus = async (options: AlbumArtOptions) => {
+  const cache = await readAlbumArtCache();
+  const tracks = await gatherTracks();
+
+  const selected = Object.entries(cache.entries).filter(([slug, entry]) =>
+    matchesAlbumArtSelection(slug, entry, options)
+  );
+  const untracked = tracks.filter(
+    (track) =>
+      !cache.entries[track.slug] && matchesAlbumArtSelection(track.slug, undefined, options)
+  );
+
+  const counts = countAlbumArtStatuses(selected.map(([, entry]) => entry));
+  counts.pending += untracked.length;
+  console.log(
+    albumArtStatuses.map((status) => `${status}: ${counts[status]}`).join('  ') +
+      `  (${selected.length + untracked.length} tracks)`
+  );
+  const sources = new Map<string, number>();
+  selected.forEach(([, entry]) => {
+    if (entry.source) sources.set(entry.source, (sources.get(entry.source) ?? 0) + 1);
+  });
+  if (sources.size) {
+    console.log(
+      `Artwork from ${Array.from(sources, ([source, count]) => `${source}: ${count}`).join(', ')}.`
+    );
+  }
+  console.log(
+    `Last fetch ${cache.meta.lastFetchRun ?? 'never'}, resize ${cache.meta.lastResizeRun ?? 'never'}, validation ${cache.meta.lastValidationRun ?? 'never'}.`
+  );
+
+  const outstanding = [
+    ...untracked.map((track) => `pending   ${track.slug} (not in the cache yet)`),
+    ...selected
+      .filter(([slug, entry]) => entry.status !== 'ok' || options.only?.includes(slug))
+      .map(
+        ([slug, entry]) =>
+          `${entry.status.padEnd(9)} ${slug}${entry.error ? ` – ${entry.error}` : ''}`
+      ),
+  ];
+  const shown = options.limit === null ? outstanding : outstanding.slice(0, options.limit);
+  shown.forEach((line) => console.log(`  ${line}`));
+  if (shown.length < outstanding.length) {
+    console.log(`  …and ${outstanding.length - shown.length} more.`);
+  }
+};
@@ -0,0 +1,94 @@
+import {
+  ensureAlbumArtEntry,
+  findMissingAlbumArtProvenance,
+  getAlbumArtVariantPath,
+  matchesAlbumArtSelection,
+  reconcileAlbumArtEntry,
+  type AlbumArtEntry,
+  type AlbumArtOptions,
+} from '../../src/lib/album-art-pipeline.js';
+import {
+  fileExists,
+  fromRelative,
+  gatherTracks,
+  readAlbumArtCache,
+  writeAlbumArtCache,
+  writeCoverManifest,
+} from './cache.js';
+
+const allExist = async (files: string[]) =>
+  (await Promise.all(files.map((file) => fileExists(fromRelative(file))))).every(Boolean);
+
+const checkFiles = async ({ rawFile, optimized }: AlbumArtEntry) => ({
+  raw: rawFile ? await fileExists(fromRelative(rawFile)) : false,
+  webp: optimized
+    ? await allExist(optimized.widths.map((width) => getAlbumArtVariantPath(optimized.webp, width)))
+    : false,
+  avif: optimized
+    ? await allExist(optimized.widths.map((width) => getAlbumArtVariantPath(optimized.avif, width)))
+    : false,
+});
+
+/**
+ * Check that every track has artwork on disk. Entries whose files have gone are moved back to
+ * the step that recreates them, so `fetch` and `resize` repair them on their next run.
+ */
+export const runValidate = async (options: AlbumArtOptions) => {
+  const cache = await readAlbumArtCache();
+  const tracks = await gatherTracks();
+  const now = new Date().toISOString();
+
+  const issues: string[] = [];
+  let checked = 0;
+  let demoted = false;
+  for (const track of tracks) {
+    if (!matchesAlbumArtSelection(track.slug, cache.entries[track.slug], options)) continue;
+    const entry = ensureAlbumArtEntry(cache, track);
+    const label = `${track.title} — ${track.artist}`;
+    checked += 1;
+
+    const previousStatus = entry.status;
+    const problems = reconcileAlbumArtEntry(entry, await checkFiles(entry), now);
+    problems.forEach((problem) => issues.push(`${label}: ${problem}`));
+    demoted ||= previousStatus === 'ok' && entry.status !== 'ok';
+
+    if (entry.status !== 'ok' && entry.status !== 'skipped') {
+      issues.push(
+        `${label} is '${entry.status}' instead of 'ok'${entry.error ? ` (${entry.error})` : ''}`
+      );
+    }
+
+    if (entry.status === 'ok') {
+      if (!entry.lastFetched) {
+        issues.push(`${label}: cache entry is missing its lastFetched timestamp`);
+      }
+      if (!entry.source || !entry.imageUrl) {
+        issues.push(`${label}: the artwork's provider or origin URL is not recorded`);
+      }
+      if (entry.source === 'spotify' && !entry.spotify?.trackId) {
+        issues.push(`${label}: Spotify track metadata is missing`);
+      }
+      const gaps = findMissingAlbumArtProvenance(entry);
+      if (gaps.includes('provenance')) {
+        issues.push(`${label}: the cover has no provenance`);
+      } else if (gaps.length) {
+        issues.push(`${label}: the cover's provenance is missing ${gaps.join(', ')}`);
+      }
+    }
+
+    entry.lastValidated = now;
+  }
+
+  cache.meta.lastValidationRun = now;
+  await writeAlbumArtCache(cache);
+  if (demoted) await writeCoverManifest(cache);
+
+  if (issues.length > 0) {
+    const message = ['Album art validation failed:', ...issues.map((issue) => ` - ${issue}`)].join(
+      '\n'
+    );
+    throw new Error(message);
+  }
+
+  console.log(`Validated album artwork for ${checked} tracks.`);
+};
@@ -0,0 +1,43 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import {
+  createContentSecurityPolicy,
+  findContentSecurityPolicyViolations,
+} from '../src/lib/content-security-policy.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DIST_DIRECTORY = path.resolve(__dirname, '../dist');
+
+/**
+ * Check every page in `dist/` against the Content-Security-Policy, so a script, handler or image
+ * the policy would block fails CI instead of breaking in the browser. Run it after `astro build`.
+ */
+const main = async () => {
+  const policy = createContentSecurityPolicy();
+  const files = (await fs.readdir(DIST_DIRECTORY, { recursive: true })).filter((file) =>
+    file.endsWith('.html')
+  );
+  if (!files.length) throw new Error('No built pages in dist/; run `npm run build` first.');
+
+  // Most pages share a layout, so report each violation once with the first page it appeared on.
+  const violations = new Map<string, string>();
+  for (const file of files) {
+    const html = await fs.readFile(path.join(DIST_DIRECTORY, file), 'utf8');
+    findContentSecurityPolicyViolations(html, policy).forEach((violation) => {
+      if (!violations.has(violation)) violations.set(violation, file);
+    });
+  }
+
+  violations.forEach((file, violation) => console.error(`${file}: ${violation}`));
+  console.log(
+    `Checked ${files.length} pages against the Content-Security-Policy: ${violations.size} violations.`
+  );
+  if (violations.size) process.exitCode = 1;
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
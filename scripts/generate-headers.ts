@@ -0,0 +1,32 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import {
+  applyContentSecurityPolicy,
+  createContentSecurityPolicy,
+  getFrameSources,
+} from '../src/lib/content-security-policy.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const HEADERS_PATH = path.resolve(__dirname, '../public/_headers');
+
+/**
+ * Write the Content-Security-Policy into `public/_headers`. Run it after turning a streaming
+ * provider on or off in `src/lib/track-links.ts`; a test fails while the file is out of date.
+ */
+const main = async () => {
+  const headers = await fs.readFile(HEADERS_PATH, 'utf8');
+  const updated = applyContentSecurityPolicy(headers, createContentSecurityPolicy());
+  await fs.writeFile(HEADERS_PATH, updated, 'utf8');
+
+  const frameSources = getFrameSources();
+  console.log(
+    `${updated === headers ? 'public/_headers is up to date' : 'Updated public/_headers'}; players allowed from ${frameSources.length ? frameSources.join(', ') : 'no provider'}.`
+  );
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,108 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import matter from 'gray-matter';
+import { isMap, isSeq, parseDocument } from 'yaml';
+
+import { countChartRunWeeks, extractChartRuns, type ChartRun } from '../src/lib/chart-runs.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(__dirname, '..');
+const SOURCE_FILE = path.resolve(ROOT_DIR, 'docs', 'hot100_#1s.txt');
+const YEARS_DIR = path.resolve(ROOT_DIR, 'src/content/years');
+
+const FRONTMATTER_PATTERN = /^---\n([\s\S]*?)\n---\n/;
+
+/**
+ * Collect the chart-run annotation (or its absence) for every #1 line, grouped by year in
+ * source order. Only the numbered lines above each year's OVERALL RANKING are #1 entries.
+ */
+const readSourceRuns = async () => {
+  const raw = await fs.readFile(SOURCE_FILE, 'utf8');
+  const lines = raw.replace(/\r\n/g, '\n').split('\n');
+  const years = new Map<number, (ChartRun[] | undefined)[]>();
+  let current: (ChartRun[] | undefined)[] | null = null;
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    // Year markers may carry a label, as in "2021 (BONUS YEAR)".
+    const year = /^(\d{4})\b/.exec(lines[index + 1]?.trim() ?? '')?.[1];
+    if (trimmed === '----' && year) {
+      current = [];
+      years.set(Number(year), current);
+    } else if (trimmed === 'OVERALL RANKING') {
+      current = null;
+    } else if (current && /^\d+\./.test(trimmed)) {
+      current.push(extractChartRuns(trimmed).chartRuns);
+    }
+  });
+
+  return years;
+};
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const main = async () => {
+  const sourceRuns = await readSourceRuns();
+  const files = (await fs.readdir(YEARS_DIR)).filter((file) => file.endsWith('.mdx')).sort();
+  const warnings: string[] = [];
+  let updatedEntries = 0;
+  let updatedFiles = 0;
+
+  for (const file of files) {
+    const filePath = path.join(YEARS_DIR, file);
+    const contents = await fs.readFile(filePath, 'utf8');
+    const year = Number(matter(contents).data.year);
+    const runs = sourceRuns.get(year);
+    if (!runs?.some(Boolean)) continue;
+
+    const frontmatter = contents.match(FRONTMATTER_PATTERN);
+    if (!frontmatter) {
+      warnings.push(`${file}: no frontmatter block found.`);
+      continue;
+    }
+
+    // Edit the YAML document in place so hand-corrected titles, notes, and quoting survive.
+    const document = parseDocument(frontmatter[1]);
+    const numberOnes = document.get('numberOnes');
+    if (!isSeq(numberOnes) || numberOnes.items.length !== runs.length) {
+      warnings.push(
+        `${file}: ${runs.length} #1s in ${path.relative(ROOT_DIR, SOURCE_FILE)} but ${
+          isSeq(numberOnes) ? numberOnes.items.length : 0
+        } in numberOnes; skipped.`
+      );
+      continue;
+    }
+
+    numberOnes.items.forEach((item, index) => {
+      const chartRuns = runs[index];
+      if (!chartRuns || !isMap(item)) return;
+      item.set('weeksAtNumberOne', countChartRunWeeks(chartRuns));
+      item.set(
+        'chartRuns',
+        chartRuns.map((run) => ({ start: toIsoDate(run.start), weeks: run.weeks }))
+      );
+      updatedEntries += 1;
+    });
+
+    const yaml = document.toString({ lineWidth: 0 });
+    await fs.writeFile(
+      filePath,
+      `---\n${yaml}---\n${contents.slice(frontmatter[0].length)}`,
+      'utf8'
+    );
+    updatedFiles += 1;
+  }
+
+  warnings.forEach((warning) => console.warn(warning));
+  console.log(`Wrote chart runs for ${updatedEntries} #1s across ${updatedFiles} year files.`);
+
+  if (warnings.length) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
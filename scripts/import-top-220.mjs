@@ -1,7 +1,10 @@
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { stringify } from 'yaml';
+import { parse, stringify } from 'yaml';
+
+import { parseRankingYear } from '../src/lib/ranking-year.js';
+import { createSongKey } from '../src/lib/song-key.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -9,6 +12,24 @@ const projectRoot = path.resolve(__dirname, '..');
 
 const SOURCE_FILE = path.resolve(projectRoot, 'docs', '#1_hits_full_list.txt');
 const TARGET_DIR = path.resolve(projectRoot, 'src', 'content', 'rankings');
+const SONGS_FILE = path.resolve(projectRoot, 'src', 'data', 'songs.json');
+
+const FRONTMATTER_PATTERN = /^---\n([\s\S]*?)\n---\n/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseArgs = (argv) => {
+  const options = { chartWeek: new Date().toISOString().slice(0, 10) };
+  for (let index = 0; index < argv.length; index += 1) {
+    if (argv[index] === '--chart-week') {
+      options.chartWeek = argv[index + 1];
+      index += 1;
+    }
+  }
+  if (!DATE_PATTERN.test(options.chartWeek ?? '')) {
+    throw new Error('--chart-week expects a YYYY-MM-DD date.');
+  }
+  return options;
+};
 
 const stripQuotes = (value) => {
   const trimmed = value.trim();
@@ -47,7 +68,10 @@ const parseRankingLine = (line) => {
 
   const yearMatch = artistSection.match(/\(([^)]+)\)$/);
   if (yearMatch) {
-    year = yearMatch[1].trim();
+    year = parseRankingYear(yearMatch[1]);
+    if (!year) {
+      throw new Error(`Unable to parse year "${yearMatch[1]}" for: ${line}`);
+    }
     artistSection = artistSection.slice(0, yearMatch.index).trim();
   }
 
@@ -120,12 +144,82 @@ const buildFrontmatter = ({ title, slug, ranking, subset, entries, commentary, e
   tags: ['hot-100', 'research'],
 });
 
+const loadSongIds = async () => {
+  const songs = JSON.parse(await readFile(SONGS_FILE, 'utf8'));
+  const songIds = new Map();
+  for (const song of songs) {
+    for (const credit of [song, ...song.aliases]) {
+      const key = createSongKey(credit.title, credit.artist);
+      if (!songIds.has(key)) songIds.set(key, song.id);
+    }
+  }
+  return songIds;
+};
+
+const readExistingFrontmatter = async (file) => {
+  try {
+    const match = (await readFile(file, 'utf8')).match(FRONTMATTER_PATTERN);
+    return match ? parse(match[1]) : undefined;
+  } catch (error) {
+    if (error.code === 'ENOENT') return undefined;
+    throw error;
+  }
+};
+
+/**
+ * Keep the ranking's revision history across imports. Every order is recorded as a revision
+ * (registry song IDs from #1 down) dated by the chart_week it took effect, the last one being the
+ * current order. When the order changes, the new one takes the `--chart-week` date; histories
+ * written before the current order was recorded get the order being replaced added first.
+ */
+const withRevisionHistory = async ({ file, frontmatter, songIds, chartWeek }) => {
+  const toOrder = (entries) =>
+    [...entries]
+      .sort((a, b) => a.position - b.position)
+      .map((entry) => {
+        const id = songIds.get(createSongKey(entry.title, entry.artist));
+        if (!id) {
+          throw new Error(
+            `"${entry.title}" by ${entry.artist} is not in the song registry; run npm run sync:songs first.`
+          );
+        }
+        return id;
+      });
+
+  const order = toOrder(frontmatter.entries);
+  const existing = await readExistingFrontmatter(file);
+  if (!existing?.entries?.length) {
+    return { ...frontmatter, revisions: [{ chart_week: frontmatter.chart_week, order }] };
+  }
+
+  const sameDate = (a, b) => String(a).slice(0, 10) === String(b).slice(0, 10);
+  const revisions = existing.revisions ?? [];
+  const previousOrder = toOrder(existing.entries);
+  const recorded = revisions.at(-1);
+  const history =
+    recorded && sameDate(recorded.chart_week, existing.chart_week)
+      ? revisions
+      : [...revisions, { chart_week: existing.chart_week, order: previousOrder }];
+
+  if (previousOrder.join('\n') === order.join('\n')) {
+    return { ...frontmatter, chart_week: existing.chart_week, revisions: history };
+  }
+
+  return {
+    ...frontmatter,
+    chart_week: chartWeek,
+    revisions: [...history, { chart_week: chartWeek, order }],
+  };
+};
+
 const buildMdx = (frontmatter, body) => {
   const yaml = stringify(frontmatter, { lineWidth: 0 });
   return `---\n${yaml}---\n\n${body}\n`;
 };
 
 const main = async () => {
+  const { chartWeek } = parseArgs(process.argv.slice(2));
+  const songIds = await loadSongIds();
   const raw = await readFile(SOURCE_FILE, 'utf8');
   const lines = raw.replace(/\r\n/g, '\n').split('\n');
   const entries = parseEntries(lines);
@@ -149,7 +243,13 @@ const main = async () => {
 
   const topBody = 'Imported from docs/#1_hits_full_list.txt with commentary for each placement.';
   const topFile = path.resolve(TARGET_DIR, 'top-220-hot-100-number-ones.mdx');
-  await writeFile(topFile, buildMdx(topFrontmatter, topBody), 'utf8');
+  const topWithHistory = await withRevisionHistory({
+    file: topFile,
+    frontmatter: topFrontmatter,
+    songIds,
+    chartWeek,
+  });
+  await writeFile(topFile, buildMdx(topWithHistory, topBody), 'utf8');
 
   const bottomEntries = entries.slice(-60);
   const bottomFrontmatter = buildFrontmatter({
@@ -165,7 +265,13 @@ const main = async () => {
 
   const bottomBody = 'A focused view on positions 161–220 from the master list.';
   const bottomFile = path.resolve(TARGET_DIR, 'bottom-60-hot-100-number-ones.mdx');
-  await writeFile(bottomFile, buildMdx(bottomFrontmatter, bottomBody), 'utf8');
+  const bottomWithHistory = await withRevisionHistory({
+    file: bottomFile,
+    frontmatter: bottomFrontmatter,
+    songIds,
+    chartWeek,
+  });
+  await writeFile(bottomFile, buildMdx(bottomWithHistory, bottomBody), 'utf8');
 
   console.log(
     `Imported ${entries.length} ranking entries from ${path.relative(projectRoot, SOURCE_FILE)} (bottom ${bottomEntries.length} extracted).`
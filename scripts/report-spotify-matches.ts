@@ -0,0 +1,23 @@
+import songs from '../src/data/songs.json';
+import { reportSpotifyCatalogCoverage } from '../src/lib/spotify-catalog.js';
+
+/**
+ * List archive songs with no track in the Spotify catalog, and catalog tracks no song uses.
+ * Fix a miss by adding the archive's credit to the right track's `aliases` in
+ * `src/data/spotify-catalog.json`, or by adding the track to the playlist and syncing again.
+ */
+const { matched, unmatched, unused } = reportSpotifyCatalogCoverage(songs);
+
+if (unmatched.length) {
+  console.log('Archive songs without a Spotify track:');
+  unmatched.forEach((song) => console.log(`  ${song.title} — ${song.artist} (${song.id})`));
+}
+if (unused.length) {
+  console.log('Catalog tracks no archive song matches:');
+  unused.forEach((entry) =>
+    console.log(`  ${entry.title} — ${entry.artist} (${entry.spotifyTrackId})`)
+  );
+}
+console.log(
+  `${matched} of ${songs.length} songs have a Spotify track; ${unmatched.length} unmatched, ${unused.length} catalog track${unused.length === 1 ? '' : 's'} unused.`
+);
@@ -0,0 +1,275 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import matter from 'gray-matter';
+
+import { getSpotifyTrackId } from '../src/lib/spotify-catalog.js';
+import { getRankingYearRange, type RankingYear } from '../src/lib/ranking-year.js';
+import {
+  createSongId,
+  createSongKey,
+  normalizeSongText,
+  type SongCredit,
+} from '../src/lib/song-key.js';
+import coverManifest from './cache/cover-manifest.json';
+
+interface SongRecord extends SongCredit {
+  id: string;
+  aliases: SongCredit[];
+  spotifyTrackId?: string;
+  albumArt?: string;
+}
+
+interface YearSource {
+  year: number;
+  numberOnes: SongCredit[];
+  overallRanking: SongCredit[];
+}
+
+interface RankingSource {
+  slug: string;
+  entries: (SongCredit & { years: number[] })[];
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(__dirname, '..');
+const REGISTRY_PATH = path.resolve(ROOT_DIR, 'src/data/songs.json');
+const YEARS_DIR = path.resolve(ROOT_DIR, 'src/content/years');
+const RANKINGS_DIR = path.resolve(ROOT_DIR, 'src/content/rankings');
+
+const MAX_TITLE_DISTANCE = 2;
+
+const manifest = coverManifest as Record<string, unknown>;
+
+const toCredit = (item: unknown): SongCredit | null => {
+  if (!item || typeof item !== 'object') return null;
+  const title = 'title' in item ? String(item.title) : null;
+  const artist = 'artist' in item ? String(item.artist) : null;
+  if (!title || !artist) return null;
+  return { title, artist };
+};
+
+const toRankingYears = (value: unknown): number[] => {
+  if (!value || typeof value !== 'object' || !('start' in value)) return [];
+  return getRankingYearRange(value as RankingYear);
+};
+
+const readFrontmatter = async (directory: string) => {
+  const files = (await fs.readdir(directory)).filter((file) => file.endsWith('.mdx')).sort();
+  return Promise.all(
+    files.map(async (file) => {
+      const contents = await fs.readFile(path.join(directory, file), 'utf8');
+      return { file, data: matter(contents).data as Record<string, unknown> };
+    })
+  );
+};
+
+const readYears = async (): Promise<YearSource[]> => {
+  const documents = await readFrontmatter(YEARS_DIR);
+  return documents
+    .filter(({ data }) => typeof data.year === 'number')
+    .map(({ data }) => ({
+      year: data.year as number,
+      numberOnes: (Array.isArray(data.numberOnes) ? data.numberOnes : [])
+        .map(toCredit)
+        .filter((credit): credit is SongCredit => Boolean(credit)),
+      overallRanking: (Array.isArray(data.overallRanking) ? data.overallRanking : [])
+        .map(toCredit)
+        .filter((credit): credit is SongCredit => Boolean(credit)),
+    }))
+    .sort((a, b) => a.year - b.year);
+};
+
+const readRankings = async (): Promise<RankingSource[]> => {
+  const documents = await readFrontmatter(RANKINGS_DIR);
+  return documents.map(({ file, data }) => ({
+    slug: typeof data.slug === 'string' ? data.slug : path.basename(file, '.mdx'),
+    entries: (Array.isArray(data.entries) ? data.entries : []).flatMap((item) => {
+      const credit = toCredit(item);
+      if (!credit) return [];
+      const year = item && typeof item === 'object' && 'year' in item ? item.year : undefined;
+      return [{ ...credit, years: toRankingYears(year) }];
+    }),
+  }));
+};
+
+const readRegistry = async (): Promise<SongRecord[]> => {
+  try {
+    const raw = await fs.readFile(REGISTRY_PATH, 'utf8');
+    return JSON.parse(raw) as SongRecord[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+};
+
+const writeRegistry = async (records: SongRecord[]) => {
+  const serialized = `${JSON.stringify(records, null, 2)}\n`;
+  await fs.writeFile(REGISTRY_PATH, serialized, 'utf8');
+};
+
+const baseTitle = (title: string) => normalizeSongText(title.replace(/\s*\([^)]*\)/g, ''));
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+const createRegistry = (existing: SongRecord[]) => {
+  const records = new Map<string, SongRecord>();
+  const keyIndex = new Map<string, SongRecord>();
+  const yearIndex = new Map<number, SongRecord[]>();
+
+  const indexCredit = (record: SongRecord, credit: SongCredit) => {
+    const key = createSongKey(credit.title, credit.artist);
+    if (!keyIndex.has(key)) keyIndex.set(key, record);
+  };
+
+  const addAlias = (record: SongRecord, credit: SongCredit) => {
+    const key = createSongKey(credit.title, credit.artist);
+    const known = [record, ...record.aliases].some(
+      (item) => createSongKey(item.title, item.artist) === key
+    );
+    if (known) return;
+    record.aliases.push({ title: credit.title, artist: credit.artist });
+    indexCredit(record, credit);
+  };
+
+  for (const record of existing) {
+    const normalized: SongRecord = { ...record, aliases: [...(record.aliases ?? [])] };
+    records.set(normalized.id, normalized);
+    indexCredit(normalized, normalized);
+    normalized.aliases.forEach((alias) => indexCredit(normalized, alias));
+  }
+
+  const find = (credit: SongCredit) => keyIndex.get(createSongKey(credit.title, credit.artist));
+
+  const register = (credit: SongCredit, year: number) => {
+    let record = find(credit);
+    if (!record) {
+      const baseId = createSongId(credit.title, credit.artist) || `song-${year}`;
+      let id = baseId;
+      for (let suffix = 2; records.has(id); suffix += 1) {
+        id = `${baseId}-${suffix}`;
+      }
+      record = { id, title: credit.title, artist: credit.artist, aliases: [] };
+      records.set(id, record);
+      indexCredit(record, credit);
+    }
+    const bucket = yearIndex.get(year) ?? [];
+    if (!bucket.includes(record)) bucket.push(record);
+    yearIndex.set(year, bucket);
+    return record;
+  };
+
+  /**
+   * Link a credit that is spelled differently from its #1 entry by looking for the same title
+   * (or a near-identical or parenthetical-free title by the same artist) among the songs that
+   * topped the chart in the given years.
+   */
+  const link = (credit: SongCredit, years: number[]) => {
+    const direct = find(credit);
+    if (direct) return direct;
+
+    const title = normalizeSongText(credit.title);
+    const artist = normalizeSongText(credit.artist);
+    const candidates = years.flatMap((year) => yearIndex.get(year) ?? []);
+
+    const match =
+      candidates.find((record) => normalizeSongText(record.title) === title) ??
+      candidates.find(
+        (record) =>
+          normalizeSongText(record.artist) === artist &&
+          (levenshtein(normalizeSongText(record.title), title) <= MAX_TITLE_DISTANCE ||
+            baseTitle(record.title) === baseTitle(credit.title))
+      );
+
+    if (match) addAlias(match, credit);
+    return match ?? null;
+  };
+
+  return { records, register, link };
+};
+
+const resolveAlbumArt = (record: SongRecord) =>
+  [record, ...record.aliases]
+    .map((credit) => createSongId(credit.title, credit.artist))
+    .find((slug) => slug && slug in manifest);
+
+const resolveSpotifyTrackId = (record: SongRecord) => {
+  for (const credit of [record, ...record.aliases]) {
+    const trackId = getSpotifyTrackId(credit.title, credit.artist);
+    if (trackId) return trackId;
+  }
+  return undefined;
+};
+
+const main = async () => {
+  const [years, rankings, existing] = await Promise.all([
+    readYears(),
+    readRankings(),
+    readRegistry(),
+  ]);
+  const registry = createRegistry(existing);
+  const unresolved: string[] = [];
+
+  for (const { year, numberOnes } of years) {
+    numberOnes.forEach((credit) => registry.register(credit, year));
+  }
+
+  for (const { year, overallRanking } of years) {
+    for (const credit of overallRanking) {
+      if (!registry.link(credit, [year])) {
+        unresolved.push(`${year} overall ranking: ${credit.title} — ${credit.artist}`);
+      }
+    }
+  }
+
+  for (const ranking of rankings) {
+    for (const entry of ranking.entries) {
+      if (!registry.link(entry, entry.years)) {
+        unresolved.push(`${ranking.slug}: ${entry.title} — ${entry.artist}`);
+      }
+    }
+  }
+
+  const records = Array.from(registry.records.values())
+    .map((record) => {
+      const { albumArt: _albumArt, spotifyTrackId: _spotifyTrackId, ...rest } = record;
+      const albumArt = resolveAlbumArt(record);
+      const spotifyTrackId = resolveSpotifyTrackId(record);
+      return {
+        ...rest,
+        ...(spotifyTrackId ? { spotifyTrackId } : {}),
+        ...(albumArt ? { albumArt } : {}),
+      } satisfies SongRecord;
+    })
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  await writeRegistry(records);
+
+  unresolved.forEach((message) => console.warn(`No registry song found for ${message}`));
+  console.log(
+    `Wrote ${records.length} songs to ${path.relative(ROOT_DIR, REGISTRY_PATH)} (${unresolved.length} unresolved credit${unresolved.length === 1 ? '' : 's'}).`
+  );
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
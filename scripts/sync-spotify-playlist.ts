@@ -0,0 +1,101 @@
+import 'dotenv/config';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { spotifyCatalog } from '../src/lib/spotify-catalog.js';
+import {
+  createFixtureFetch,
+  fetchSpotifyPlaylist,
+  formatSpotifyCatalogDiff,
+  mergeSpotifyCatalog,
+  parseSpotifySyncArgs,
+  type SpotifyFetch,
+  type SpotifyPlaylistFixtures,
+} from '../src/lib/spotify-playlist-sync.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(__dirname, '..');
+const CATALOG_PATH = path.resolve(ROOT_DIR, 'src/data/spotify-catalog.json');
+
+const ensureEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing required ${name} environment variable.`);
+  return value;
+};
+
+const requestAccessToken = async () => {
+  const auth = Buffer.from(
+    `${ensureEnv('SPOTIFY_CLIENT_ID')}:${ensureEnv('SPOTIFY_CLIENT_SECRET')}`
+  ).toString('base64');
+  const res = await fetch('https://accounts.spotify.com/api/token', {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${auth}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ grant_type: 'client_credentials' }),
+  });
+  if (!res.ok) throw new Error(`Failed to obtain access token (${res.status})`);
+  const data = (await res.json()) as { access_token: string };
+  return data.access_token;
+};
+
+const readFixtures = async (fixturesPath: string): Promise<SpotifyPlaylistFixtures> => {
+  try {
+    return JSON.parse(await fs.readFile(fixturesPath, 'utf8')) as SpotifyPlaylistFixtures;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+/** Wrap `fetch` so every successful response is also saved under its URL. */
+const recordingFetch =
+  (recorded: SpotifyPlaylistFixtures): SpotifyFetch =>
+  async (url, init) => {
+    const res = await fetch(url, init);
+    if (res.ok) recorded[url] = await res.clone().json();
+    return res;
+  };
+
+const main = async () => {
+  const options = parseSpotifySyncArgs(process.argv.slice(2));
+  const fixturesPath = options.fixtures ? path.resolve(options.fixtures) : null;
+  const recorded = fixturesPath && options.record ? await readFixtures(fixturesPath) : null;
+
+  let request: SpotifyFetch;
+  let token: string | undefined;
+  if (fixturesPath && !recorded) {
+    request = createFixtureFetch(await readFixtures(fixturesPath));
+  } else {
+    request = recorded ? recordingFetch(recorded) : fetch;
+    token = await requestAccessToken();
+  }
+
+  const tracks = [];
+  for (const playlistId of options.playlistIds) {
+    const playlist = await fetchSpotifyPlaylist(playlistId, { fetch: request, token });
+    console.log(`Read ${playlist.length} tracks from playlist ${playlistId}.`);
+    tracks.push(...playlist);
+  }
+
+  const { catalog, diff } = mergeSpotifyCatalog(spotifyCatalog.entries, tracks, options);
+  formatSpotifyCatalogDiff(diff, options).forEach((line) => console.log(line));
+
+  if (recorded && fixturesPath) {
+    await fs.writeFile(fixturesPath, `${JSON.stringify(recorded, null, 2)}\n`, 'utf8');
+    console.log(`Recorded responses to ${path.relative(ROOT_DIR, fixturesPath)}.`);
+  }
+  if (options.dryRun) {
+    console.log('Dry run: the catalog was not written.');
+    return;
+  }
+  await fs.writeFile(CATALOG_PATH, `${JSON.stringify(catalog, null, 2)}\n`, 'utf8');
+  console.log(`Wrote ${catalog.length} tracks to ${path.relative(ROOT_DIR, CATALOG_PATH)}.`);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
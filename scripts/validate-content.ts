@@ -0,0 +1,217 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import matter from 'gray-matter';
+import { z } from 'zod';
+
+import { createContentSchemas } from '../src/lib/content-schemas.js';
+import {
+  checkContentIntegrity,
+  type ContentIssue,
+  type IntegrityRankingDocument,
+  type IntegritySongRecord,
+  type IntegrityYearDocument,
+} from '../src/lib/content-integrity.js';
+
+type CollectionName = 'years' | 'rankings' | 'meta' | 'decades';
+
+interface ValidationReport {
+  generatedAt: string;
+  summary: {
+    files: number;
+    errors: number;
+    warnings: number;
+  };
+  issues: ContentIssue[];
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(__dirname, '..');
+const CONTENT_DIR = path.resolve(ROOT_DIR, 'src/content');
+const SONGS_PATH = path.resolve(ROOT_DIR, 'src/data/songs.json');
+const COLLECTIONS: CollectionName[] = ['years', 'rankings', 'meta', 'decades'];
+
+// Frontmatter stores song references as plain IDs.
+const schemas = createContentSchemas(z.string());
+
+const relative = (filePath: string) => path.relative(ROOT_DIR, filePath);
+
+const toSchemaIssues = (file: string, error: z.ZodError): ContentIssue[] =>
+  error.issues.map((issue) => ({
+    code: 'schema',
+    severity: 'error',
+    file,
+    path: issue.path.length ? issue.path.join('.') : undefined,
+    message: issue.message,
+  }));
+
+const readCollection = async (collection: CollectionName) => {
+  const directory = path.join(CONTENT_DIR, collection);
+  let files: string[];
+  try {
+    files = (await fs.readdir(directory)).filter((file) => /\.mdx?$/.test(file)).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return Promise.all(
+    files.map(async (file) => {
+      const filePath = path.join(directory, file);
+      const contents = await fs.readFile(filePath, 'utf8');
+      return { file: relative(filePath), name: file, data: matter(contents).data as unknown };
+    })
+  );
+};
+
+const parseArgs = (argv: string[]) => {
+  const options = {
+    json: false,
+    verbose: false,
+    unranked: false,
+    reportPath: undefined as string | undefined,
+  };
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--verbose') {
+      options.verbose = true;
+    } else if (arg === '--unranked') {
+      options.unranked = true;
+    } else if (arg === '--report') {
+      options.reportPath = argv[index + 1];
+      index += 1;
+    } else if (arg.startsWith('--report=')) {
+      options.reportPath = arg.slice('--report='.length);
+    }
+  }
+  return options;
+};
+
+/**
+ * Errors are always listed individually. Warnings are summarized by code unless `--verbose` is
+ * passed, since `--unranked` adds a warning for every #1 the Top 220 leaves out.
+ */
+const formatText = (report: ValidationReport, verbose: boolean) => {
+  const lines: string[] = [];
+  const byFile = new Map<string, ContentIssue[]>();
+  const hiddenWarnings = new Map<string, number>();
+  for (const issue of report.issues) {
+    if (issue.severity === 'warning' && !verbose) {
+      hiddenWarnings.set(issue.code, (hiddenWarnings.get(issue.code) ?? 0) + 1);
+      continue;
+    }
+    const bucket = byFile.get(issue.file) ?? [];
+    bucket.push(issue);
+    byFile.set(issue.file, bucket);
+  }
+
+  for (const [file, issues] of byFile) {
+    lines.push(file);
+    for (const issue of issues) {
+      const location = issue.path ? ` ${issue.path}` : '';
+      lines.push(`  ${issue.severity} [${issue.code}]${location}: ${issue.message}`);
+    }
+    lines.push('');
+  }
+
+  for (const [code, count] of hiddenWarnings) {
+    lines.push(`${count} ${code} warning${count === 1 ? '' : 's'} (use --verbose to list them)`);
+  }
+  if (hiddenWarnings.size) lines.push('');
+
+  const { files, errors, warnings } = report.summary;
+  lines.push(
+    `Checked ${files} files: ${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${
+      warnings === 1 ? '' : 's'
+    }.`
+  );
+  return lines.join('\n');
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const issues: ContentIssue[] = [];
+  const years: IntegrityYearDocument[] = [];
+  const rankings: IntegrityRankingDocument[] = [];
+  let fileCount = 0;
+
+  for (const collection of COLLECTIONS) {
+    const documents = await readCollection(collection);
+    fileCount += documents.length;
+
+    for (const document of documents) {
+      const result = schemas[collection].safeParse(document.data);
+      if (!result.success) {
+        issues.push(...toSchemaIssues(document.file, result.error));
+        continue;
+      }
+
+      if (collection === 'years') {
+        const data = result.data as z.infer<typeof schemas.years>;
+        years.push({
+          file: document.file,
+          year: data.year,
+          numberOnes: data.numberOnes,
+          overallRanking: data.overallRanking,
+        });
+      } else if (collection === 'rankings') {
+        const data = result.data as z.infer<typeof schemas.rankings>;
+        rankings.push({
+          file: document.file,
+          slug: data.slug ?? path.basename(document.name, path.extname(document.name)),
+          subset: data.subset,
+          chartWeek: data.chart_week,
+          entries: data.entries,
+          revisions: data.revisions?.map((revision) => ({
+            chartWeek: revision.chart_week,
+            order: revision.order,
+          })),
+        });
+      }
+    }
+  }
+
+  const songs: IntegritySongRecord[] = [];
+  const songsFile = relative(SONGS_PATH);
+  const songsResult = z
+    .array(schemas.songs.extend({ id: z.string() }))
+    .safeParse(JSON.parse(await fs.readFile(SONGS_PATH, 'utf8')));
+  fileCount += 1;
+  if (songsResult.success) {
+    songs.push(...songsResult.data);
+  } else {
+    issues.push(...toSchemaIssues(songsFile, songsResult.error));
+  }
+
+  issues.push(
+    ...checkContentIntegrity({ years, rankings, songs, reportUnranked: options.unranked })
+  );
+
+  const report: ValidationReport = {
+    generatedAt: new Date().toISOString(),
+    summary: {
+      files: fileCount,
+      errors: issues.filter((issue) => issue.severity === 'error').length,
+      warnings: issues.filter((issue) => issue.severity === 'warning').length,
+    },
+    issues,
+  };
+
+  if (options.reportPath) {
+    const reportPath = path.resolve(process.cwd(), options.reportPath);
+    await fs.writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`, 'utf8');
+  }
+
+  console.log(options.json ? JSON.stringify(report, null, 2) : formatText(report, options.verbose));
+
+  if (report.summary.errors > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
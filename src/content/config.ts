@@ -1,85 +1,36 @@
-import { defineCollection, z } from 'astro:content';
+import { defineCollection, reference } from 'astro:content';
+import { file } from 'astro/loaders';
+import { createContentSchemas } from '../lib/content-schemas';
 
-const coverImageSchema = z
-  .object({
-    src: z.string(),
-    width: z.number().int().positive(),
-    height: z.number().int().positive(),
-    alt: z.string(),
-    format: z.enum(['jpg', 'png', 'webp', 'avif']).optional(),
-  })
-  .optional();
-
-const baseTrackSchema = z.object({
-  title: z.string(),
-  slug: z.string().optional(),
-  release_date: z.coerce.date(),
-  artist: z.string(),
-  ranking: z.number().int().min(1),
-  commentary_excerpt: z.string(),
-  commentary: z.string(),
-  cover_image: coverImageSchema,
-  tags: z.array(z.string()).optional(),
-});
-
-const numberOneEntrySchema = z.object({
-  title: z.string(),
-  artist: z.string(),
-  notes: z.array(z.string()).default([]),
-});
-
-const overallRankingEntrySchema = z.object({
-  position: z.number().int().min(1),
-  title: z.string(),
-  artist: z.string(),
-  spotifyTrackId: z.string().optional(),
-});
-
-const rankingEntrySchema = z.object({
-  position: z.number().int().min(1),
-  title: z.string(),
-  artist: z.string(),
-  year: z.string().optional(),
-  genres: z.array(z.string()).optional(),
-  commentary: z.string(),
-});
+const schemas = createContentSchemas(reference('songs'));
 
 const years = defineCollection({
   type: 'content',
-  schema: baseTrackSchema.extend({
-    year: z.number().int(),
-    numberOnes: z.array(numberOneEntrySchema).default([]),
-    overallRanking: z.array(overallRankingEntrySchema).default([]),
-    yearSummary: z.string().optional(),
-  }),
+  schema: schemas.years,
 });
 
 const rankings = defineCollection({
   type: 'content',
-  schema: baseTrackSchema.extend({
-    chart_week: z.coerce.date(),
-    subset: z.enum(['top-220', 'bottom-60']).optional(),
-    entries: z.array(rankingEntrySchema).default([]),
-  }),
+  schema: schemas.rankings,
 });
 
 const meta = defineCollection({
   type: 'content',
-  schema: baseTrackSchema.extend({
-    category: z.string(),
-  }),
+  schema: schemas.meta,
 });
 
 const decades = defineCollection({
   type: 'content',
-  schema: baseTrackSchema.extend({
-    decade: z.number().int(),
-    summary: z.string(),
-    summaryHighlights: z.array(z.string()).default([]),
-  }),
+  schema: schemas.decades,
+});
+
+const songs = defineCollection({
+  loader: file('src/data/songs.json'),
+  schema: schemas.songs,
 });
 
 export const collections = {
+  songs,
   years,
   rankings,
   meta,
@@ -1,3528 +0,0 @@
-export interface SpotifyTrackEntry {
-  title: string;
-  artist: string;
-  spotifyTrackId: string;
-}
-
-const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
-const createKey = (title: string, artist: string) => `${normalize(title)}::${normalize(artist)}`;
-
-const tracks: SpotifyTrackEntry[] = [
-  {
-    title: '...Baby One More Time',
-    artist: 'Britney Spears',
-    spotifyTrackId: '3MjUtNVVq3C8Fn0MP3zhXa',
-  },
-  {
-    title: "(Can't Live Without Your) Love And Affection",
-    artist: 'Nelson',
-    spotifyTrackId: '3JjY2L2bqql54j1SjnjQ23',
-  },
-  {
-    title: '(Everything I Do) I Do It For You - 2017 Ultimate Edit',
-    artist: 'Bryan Adams',
-    spotifyTrackId: '7yK5w04SqaqMPzIR80D3XV',
-  },
-  {
-    title: "(Hey Won't You Play) Another Somebody Done Somebody Wrong Song",
-    artist: 'B.J. Thomas',
-    spotifyTrackId: '0b7qiL1rLbUUpGXczt7p5T',
-  },
-  {
-    title: "(I Can't Get No) Satisfaction",
-    artist: 'The Rolling Stones',
-    spotifyTrackId: '2PzU4IB8Dr6mxV3lHuaG34',
-  },
-  {
-    title: "(I Can't Help) Falling In Love With You",
-    artist: 'UB40',
-    spotifyTrackId: '7ojJ4XvqBhBcteM0zjMebT',
-  },
-  {
-    title: '(I Just) Died In Your Arms',
-    artist: 'Cutting Crew',
-    spotifyTrackId: '4ByEFOBuLXpCqvO1kw8Wdm',
-  },
-  {
-    title: '(I\'ve Had) The Time Of My Life - From "Dirty Dancing" Soundtrack',
-    artist: 'Bill Medley',
-    spotifyTrackId: '6W7ztLBiRzBN46ZaPAcQ0F',
-  },
-  {
-    title: '(Just Like) Starting Over',
-    artist: 'John Lennon',
-    spotifyTrackId: '7tqQI7nmRAqX0g8bIYDXmF',
-  },
-  {
-    title: '(Love Is) Thicker Than Water',
-    artist: 'Andy Gibb',
-    spotifyTrackId: '2bOYEeq52xjn0l4lRGSsPF',
-  },
-  {
-    title: '(Shake, Shake, Shake) Shake Your Booty',
-    artist: 'KC & The Sunshine Band',
-    spotifyTrackId: '3Is0Nnz59rzbNZE491URlY',
-  },
-  {
-    title: "(Sittin' On) the Dock of the Bay",
-    artist: 'Otis Redding',
-    spotifyTrackId: '3zBhihYUHBmGd2bcQIobrF',
-  },
-  {
-    title: '(They Long To Be) Close To You',
-    artist: 'Carpenters',
-    spotifyTrackId: '50q2aUjWoTn6CJIfSPRJQA',
-  },
-  {
-    title: "(You're My) Soul And Inspiration",
-    artist: 'The Righteous Brothers',
-    spotifyTrackId: '5ZHOiRqKOzgFMfMAu8cwzp',
-  },
-  {
-    title: "(You're) Having My Baby",
-    artist: 'Paul Anka',
-    spotifyTrackId: '5PuAFxKmqG72uKyoo11zpQ',
-  },
-  { title: '21 Questions', artist: '50 Cent', spotifyTrackId: '41bIQPBE1lFN0mmw6Lmssz' },
-  { title: '3', artist: 'Britney Spears', spotifyTrackId: '2d7fRuDlFZfKIoSuf8bhGv' },
-  {
-    title: '4 Seasons Of Loneliness',
-    artist: 'Boyz II Men',
-    spotifyTrackId: '027tq4cWr0kRxLTfdxvM1L',
-  },
-  {
-    title: '50 Ways to Leave Your Lover',
-    artist: 'Paul Simon',
-    spotifyTrackId: '6Qb7gtV6Q4MnUjSbkFcopl',
-  },
-  { title: '7 rings', artist: 'Ariana Grande', spotifyTrackId: '6ocbgoVGwYJhOv1GgI9NsF' },
-  { title: '9 to 5', artist: 'Dolly Parton', spotifyTrackId: '4w3tQBXhn5345eUXDGBWZG' },
-  { title: '96 Tears', artist: '? & The Mysterians', spotifyTrackId: '4PEeZ2U4UfP2Jo8EtIOjus' },
-  { title: 'A Bar Song (Tipsy)', artist: 'Shaboozey', spotifyTrackId: '2FQrifJ1N335Ljm3TjTVVf' },
-  {
-    title: "A Big Hunk O' Love",
-    artist: 'Elvis Presley',
-    spotifyTrackId: '6PUsG2iMvCjnPFLjydO1RR',
-  },
-  {
-    title: 'A Fifth Of Beethoven',
-    artist: 'Walter Murphy',
-    spotifyTrackId: '1hR3TNe1neCWRQatSVOFfX',
-  },
-  {
-    title: 'A Groovy Kind of Love',
-    artist: 'Phil Collins',
-    spotifyTrackId: '5OHUTC4EvTbL0DuZQRIGGX',
-  },
-  { title: "A Hard Day's Night", artist: 'The Beatles', spotifyTrackId: '5J2CHimS7dWYMImCHkEFaJ' },
-  { title: 'A Horse with No Name', artist: 'America', spotifyTrackId: '54eZmuggBFJbV7k248bTTt' },
-  {
-    title: 'A Moment Like This',
-    artist: 'Kelly Clarkson',
-    spotifyTrackId: '4kvdX9zzsix7jYHsRVkVUH',
-  },
-  { title: 'A View to a Kill', artist: 'Duran Duran', spotifyTrackId: '6I4snLrVOrJsLdd43isc27' },
-  {
-    title: "A Whole New World (Aladdin's Theme)",
-    artist: 'Peabo Bryson',
-    spotifyTrackId: '4tS8xQfyPGc7f4lJ1JP6BX',
-  },
-  {
-    title: 'A World Without Love',
-    artist: 'Peter & Gordon',
-    spotifyTrackId: '1A0j6qANKHgk7VZ6uvYO06',
-  },
-  { title: 'ABC', artist: 'The Jackson 5', spotifyTrackId: '6wDviYDtmSDZ0S6TVMM9Vc' },
-  { title: 'About Damn Time', artist: 'Lizzo', spotifyTrackId: '6HMtHNpW6YPi1hrw9tgF8P' },
-  { title: 'Abracadabra', artist: 'Steve Miller Band', spotifyTrackId: '0fnTADkpDxvjA3v0Ss5bpb' },
-  {
-    title: 'Addicted To Love - Edit',
-    artist: 'Robert Palmer',
-    spotifyTrackId: '1xBZEEpCBic1hVpRiIEL5Q',
-  },
-  { title: 'Africa', artist: 'TOTO', spotifyTrackId: '6IxVBuU77tPkhhFeh0SLMd' },
-  {
-    title: 'Afternoon Delight',
-    artist: 'Starland Vocal Band',
-    spotifyTrackId: '3uLk0uQ4zMS26h89Of8XOD',
-  },
-  { title: 'Again', artist: 'Janet Jackson', spotifyTrackId: '0IaMMHVbpJ0LrRAeigWOXr' },
-  {
-    title: 'Against All Odds (Take a Look at Me Now)',
-    artist: 'Phil Collins',
-    spotifyTrackId: '63CHa6rmamv9OsehkRD8oz',
-  },
-  {
-    title: "Ain't It Funny (Murder Mix)",
-    artist: 'Jennifer Lopez feat. Ja Rule',
-    spotifyTrackId: '3B3nsrgVpBiidfl7wvTEWD',
-  },
-  {
-    title: "Ain't No Mountain High Enough",
-    artist: 'Diana Ross',
-    spotifyTrackId: '1KbuhBnzMHp4eq1q6flhWd',
-  },
-  { title: 'All 4 Love', artist: 'Color Me Badd', spotifyTrackId: '4XmsMIMjvDIFEjeY3ycMzW' },
-  {
-    title: 'All About That Bass',
-    artist: 'Meghan Trainor',
-    spotifyTrackId: '5jE48hhRu8E6zBDPRSkEq7',
-  },
-  {
-    title: 'All For Love',
-    artist: 'Bryan Adams / Rod Stewart / Sting',
-    spotifyTrackId: '035aFnfIrO25Hy4PRP6GC7',
-  },
-  { title: 'All For You', artist: 'Janet Jackson', spotifyTrackId: '28IZUzBnFsBxyrgdsdlQPg' },
-  {
-    title: 'All I Have (feat. LL Cool J)',
-    artist: 'Jennifer Lopez',
-    spotifyTrackId: '3kgutGd839IOYRl6ekeq6V',
-  },
-  {
-    title: 'All I Want for Christmas Is You',
-    artist: 'Mariah Carey',
-    spotifyTrackId: '0bYg9bo50gSsH3LtXe2SQn',
-  },
-  { title: 'All My Life', artist: 'K-Ci & JoJo', spotifyTrackId: '0HiHOHBdV0JCpSWxfVPVMq' },
-  {
-    title: 'All Night Long (All Night)',
-    artist: 'Lionel Richie',
-    spotifyTrackId: '2Wb9ejnmy27DUTUe9YF5Ew',
-  },
-  { title: 'All of Me', artist: 'John Legend', spotifyTrackId: '3U4isOIWM3VvDubwSI3y7a' },
-  {
-    title: 'All The Man That I Need',
-    artist: 'Whitney Houston',
-    spotifyTrackId: '07M76e7IXxYdnC1BBiJxEX',
-  },
-  {
-    title: "All Too Well (Taylor's Version)",
-    artist: 'Taylor Swift',
-    spotifyTrackId: '5enxwA8aAbwZbf5qCHORXi',
-  },
-  {
-    title: 'All You Need Is Love',
-    artist: 'The Beatles',
-    spotifyTrackId: '68BTFws92cRztMS1oQ7Ewj',
-  },
-  { title: 'Alley Oop', artist: 'The Hollywood Argyles', spotifyTrackId: '3VIICyg0nnfrY4PKef2GkW' },
-  { title: 'Alone', artist: 'Heart', spotifyTrackId: '54b8qPFqYqIndfdxiLApea' },
-  {
-    title: 'Alone Again (Naturally)',
-    artist: "Gilbert O'Sullivan",
-    spotifyTrackId: '6vuEG9sZtC4W2zT64f7zLF',
-  },
-  {
-    title: 'Always - Single Edit',
-    artist: 'Atlantic Starr',
-    spotifyTrackId: '4UHyEovKL1cxdi5Q1CVtuf',
-  },
-  { title: 'Always Be My Baby', artist: 'Mariah Carey', spotifyTrackId: '2aBxt229cbLDOvtL7Xbb9x' },
-  { title: 'Always On Time', artist: 'Ja Rule', spotifyTrackId: '4hrae8atte6cRlSC9a7VCO' },
-  { title: 'Amanda', artist: 'Boston', spotifyTrackId: '4gpext9x0CbdD9NWaa4nDj' },
-  { title: 'Amazed (AC Mix)', artist: 'Lonestar', spotifyTrackId: '4e0Od5AHEa4STvQ3lU0Nc6' },
-  { title: 'American Pie', artist: 'Don McLean', spotifyTrackId: '2QgWuCtBpNIpl5trmKCxRf' },
-  {
-    title: 'American Woman',
-    artist: 'The Guess Who',
-    spotifyTrackId: '5LPGZnsy07YNxeuTI1X3RT',
-  },
-  { title: 'Angel', artist: 'Shaggy', spotifyTrackId: '5WHfrWmJKzITCyW6k0IRZI' },
-  { title: 'Angel of Mine', artist: 'Monica', spotifyTrackId: '1AM1o0mKbgAK5oMpY8B3Z7' },
-  { title: 'Angie', artist: 'The Rolling Stones', spotifyTrackId: '1GcVa4jFySlun4jLSuMhiq' },
-  { title: 'Angie Baby', artist: 'Helen Reddy', spotifyTrackId: '7Jx87mZSCjUWlVDCLiRFK6' },
-  { title: "Annie's Song", artist: 'John Denver', spotifyTrackId: '4J0DbyODwZJcmIAiTSJfMF' },
-  {
-    title: 'Another Brick in the Wall Pt. 2',
-    artist: 'Pink Floyd',
-    spotifyTrackId: '4gMgiXfqyzZLMhsksGmbQV',
-  },
-  {
-    title: 'Another Day in Paradise',
-    artist: 'Phil Collins',
-    spotifyTrackId: '1NCuYqMc8hKMb4cpNTcJbD',
-  },
-  {
-    title: 'Another One Bites The Dust',
-    artist: 'Queen',
-    spotifyTrackId: '57JVGBtBLCfHw2muk5416J',
-  },
-  { title: 'Anti-Hero', artist: 'Taylor Swift', spotifyTrackId: '0V3wPSX9ygBnCm8psDIegu' },
-  {
-    title: 'Anything for You',
-    artist: 'Miami Sound Machine',
-    spotifyTrackId: '6UmY8qsMnm8N2FyMnrrLvW',
-  },
-  {
-    title: 'Aquarius / Let The Sunshine In',
-    artist: 'The 5th Dimension',
-    spotifyTrackId: '0HZlND4giwzgolBpaNIRGV',
-  },
-  {
-    title: 'Are You Lonesome Tonight',
-    artist: 'Elvis Presley',
-    spotifyTrackId: '6vXZs9rEQF7Nd6O8Ue7NrT',
-  },
-  {
-    title: "Arthur's Theme (Best That You Can Do)",
-    artist: 'Christopher Cross',
-    spotifyTrackId: '5fnOrhQ4KgT5irGCjIccGH',
-  },
-  { title: 'As It Was', artist: 'Harry Styles', spotifyTrackId: '4Dvkj6JhhA12EX05fT7y2e' },
-  {
-    title: 'At This Moment',
-    artist: 'Billy Vera & The Beaters',
-    spotifyTrackId: '136nAEqaPwbQguey2Unze7',
-  },
-  { title: 'Babe', artist: 'Styx', spotifyTrackId: '5W7YROOF6bFfBexY81LFjt' },
-  {
-    title: 'Baby Boy (feat. Sean Paul)',
-    artist: 'Beyoncé',
-    spotifyTrackId: '4WY3HyGXsWqjFRCVD6gnTe',
-  },
-  { title: 'Baby Come Back', artist: 'Player', spotifyTrackId: '2eRYuzlSOBk3HlMsCSOLPJ' },
-  {
-    title: "Baby Don't Forget My Number",
-    artist: 'Milli Vanilli',
-    spotifyTrackId: '3t4EJY6cTsb6FyP1EQzajK',
-  },
-  {
-    title: "Baby Don't Get Hooked on Me",
-    artist: 'Mac Davis',
-    spotifyTrackId: '4z51Gf7Ppt9Lmu5zmnUIz9',
-  },
-  { title: 'Baby Got Back', artist: 'Sir Mix-A-Lot', spotifyTrackId: '1SAkL1mYNJlaqnBQxVZrRl' },
-  { title: 'Baby Love', artist: 'The Supremes', spotifyTrackId: '5uES1C2NgkdrNHiCwf9jRr' },
-  { title: 'Baby, Baby', artist: 'Amy Grant', spotifyTrackId: '3IDsegNBHC4pjGCOMTQYlU' },
-  { title: 'Baby, Come To Me', artist: 'Patti Austin', spotifyTrackId: '03Wma4AcL2NXi0HPqhKJ1v' },
-  {
-    title: 'Baby, I Love Your Way / Freebird',
-    artist: 'Will To Power',
-    spotifyTrackId: '0kzSooCGpuphLwn8iTuO9h',
-  },
-  {
-    title: 'Back In My Arms Again - Juke Box Single',
-    artist: 'The Supremes',
-    spotifyTrackId: '451KG3bQWl8NQfZzFqpxsy',
-  },
-  {
-    title: 'Bad ',
-    artist: 'Michael Jackson',
-    spotifyTrackId: '5lWFrW5T3JtxVCLDb7etPu',
-  },
-  {
-    title: 'Bad and Boujee (feat. Lil Uzi Vert)',
-    artist: 'Migos',
-    spotifyTrackId: '4Km5HrUvYTaSUfiSGPJeQR',
-  },
-  { title: 'Bad Blood', artist: 'Neil Sedaka', spotifyTrackId: '5ABrBYbzepxzcW9pLIWw1j' },
-  { title: 'Bad Blood', artist: 'Taylor Swift', spotifyTrackId: '6xsEAm6w9oMQYYg3jkEkMT' },
-  { title: 'Bad Day', artist: 'Daniel Powter', spotifyTrackId: '0mUyMawtxj1CJ76kn9gIZK' },
-  { title: 'Bad Girls', artist: 'Donna Summer', spotifyTrackId: '1ibRqifchaAfeNdQGpbRVW' },
-  { title: 'bad guy', artist: 'Billie Eilish', spotifyTrackId: '2Fxmhks0bxGSBdJ92vM42m' },
-  { title: 'Bad Habit', artist: 'Steve Lacy', spotifyTrackId: '5CM4UuQ9Gnd6K2YyKGPMoK' },
-  { title: 'Bad Medicine', artist: 'Bon Jovi', spotifyTrackId: '5rOAMKWl4YF5HSEpGiQ8Y4' },
-  { title: 'Bad, Bad Leroy Brown', artist: 'Jim Croce', spotifyTrackId: '14nBn3kUcfhDnGyKRUrVHr' },
-  { title: 'Bailamos', artist: 'Enrique Iglesias', spotifyTrackId: '2bbeNsFmjZqdoDhjLsKNWe' },
-  {
-    title: 'Band On The Run ',
-    artist: 'Paul McCartney',
-    spotifyTrackId: '1H4idkmruFoJBg1DvUv2tY',
-  },
-  { title: 'Batdance', artist: 'Prince', spotifyTrackId: '4DbUk1qwcz9KKcUY4t8f8u' },
-  { title: 'Be With You', artist: 'Enrique Iglesias', spotifyTrackId: '1lZ4j5WBURBwZ0M5TT46wP' },
-  { title: 'Beat It', artist: 'Michael Jackson', spotifyTrackId: '1OOtq8tRnDM8kG2gqUPjAj' },
-  {
-    title: 'Beautiful Girls - Radio Edit',
-    artist: 'Sean Kingston',
-    spotifyTrackId: '2c9LgIsT8wzzSueFttylFF',
-  },
-  {
-    title: 'Because I Love You (The Postman Song)',
-    artist: 'Stevie B',
-    spotifyTrackId: '3ascUshvq54dHsR2u8wdPN',
-  },
-  {
-    title: 'Because You Loved Me (Theme from "Up Close and Personal")',
-    artist: 'Céline Dion',
-    spotifyTrackId: '28UMiBhn383n9S7GL4tsxD',
-  },
-  {
-    title: 'Before The Next Teardrop Falls',
-    artist: 'Freddy Fender',
-    spotifyTrackId: '2SVW5774QbmEjWfbHOEnz3',
-  },
-  { title: 'Believe', artist: 'Cher', spotifyTrackId: '2goLsvvODILDzeeiT4dAoR' },
-  {
-    title: 'Ben',
-    artist: 'Michael Jackson',
-    spotifyTrackId: '0ZFqB9g2FujbmMSrjqsL3j',
-  },
-  { title: 'Bennie & The Jets', artist: 'Elton John', spotifyTrackId: '0LHzd11GIXVmND7TfQnGiy' },
-  { title: 'Bent', artist: 'Matchbox Twenty', spotifyTrackId: '6fA7akEuTUL3dW1V0GELaZ' },
-  {
-    title: 'Best of My Love',
-    artist: 'The Emotions',
-    spotifyTrackId: '7bznzicO9bLBhe6SufE0Vw',
-  },
-  { title: 'Bette Davis Eyes', artist: 'Kim Carnes', spotifyTrackId: '0odIT9B9BvOCnXfS0e4lB5' },
-  { title: 'Big Bad John', artist: 'Jimmy Dean', spotifyTrackId: '61uAY9xdzYiIbYJ07XvKso' },
-  {
-    title: "Big Girls Don't Cry",
-    artist: 'Frankie Valli & The Four Seasons',
-    spotifyTrackId: '00meczE1jpLTX0BBzIGrAR',
-  },
-  {
-    title: "Big Girls Don't Cry (Personal)",
-    artist: 'Fergie',
-    spotifyTrackId: '3Q4WeJmzxuDpzMu9QjQqbM',
-  },
-  { title: 'Billie Jean', artist: 'Michael Jackson', spotifyTrackId: '5ChkMS8OtdzJeqyybCc9R5' },
-  {
-    title: 'Bills, Bills, Bills',
-    artist: "Destiny's Child",
-    spotifyTrackId: '1Oi2zpmL81Q0yScF1zxaC0',
-  },
-  {
-    title: "Billy, Don't Be A Hero",
-    artist: 'Bo Donaldson & The Heywoods',
-    spotifyTrackId: '6ZqgJAbxuEUjazBLN5V0U4',
-  },
-  { title: 'Black And White', artist: 'Three Dog Night', spotifyTrackId: '4XcUADpOth9Wroq5EVMFJq' },
-  { title: 'Black and Yellow', artist: 'Wiz Khalifa', spotifyTrackId: '5A6OHHy73AR5tLxgTc98zz' },
-  { title: 'Black Beatles', artist: 'Rae Sremmurd', spotifyTrackId: '6fujklziTHa8uoM5OQSfIo' },
-  { title: 'Black Cat', artist: 'Janet Jackson', spotifyTrackId: '4tYpYYoOI7WDxbCnPninwE' },
-  {
-    title: 'Black or White',
-    artist: 'Michael Jackson',
-    spotifyTrackId: '2Cy7QY8HPLk925AyNAt6OG',
-  },
-  { title: 'Black Velvet', artist: 'Alannah Myles', spotifyTrackId: '1KU5EHSz04JhGg3rReGJ0N' },
-  {
-    title: 'Black Water',
-    artist: 'The Doobie Brothers',
-    spotifyTrackId: '3x1v32I3SZNvC7q7bDhcGm',
-  },
-  {
-    title: 'Blame It on the Rain',
-    artist: 'Milli Vanilli',
-    spotifyTrackId: '2rCepRZ8PYZvEaRBMqnft1',
-  },
-  { title: 'Blank Space', artist: 'Taylor Swift', spotifyTrackId: '1p80LdxRV74UKvL8gnD7ky' },
-  { title: 'Blaze Of Glory', artist: 'Jon Bon Jovi', spotifyTrackId: '0XwjdpwvEwukcg3XU4Ibzt' },
-  { title: 'Bleeding Love', artist: 'Leona Lewis', spotifyTrackId: '2JNymwSBmLkvrnl5vVenSP' },
-  {
-    title: 'Blinded By The Light - Single edit',
-    artist: "Manfred Mann's Earth Band",
-    spotifyTrackId: '3jOBL79jV8RAEBQMSBzBvV',
-  },
-  { title: 'Blinding Lights', artist: 'The Weeknd', spotifyTrackId: '6qYkmqFsXbj8CQjAdbYz07' },
-  { title: 'Blue Moon', artist: 'The Marcels', spotifyTrackId: '75ewj77lCHHLKOlyx5KvGw' },
-  { title: 'Blue Velvet', artist: 'Bobby Vinton', spotifyTrackId: '4QelFzhVgLomeQhvKrwM1S' },
-  { title: 'Blurred Lines', artist: 'Robin Thicke', spotifyTrackId: '5PUvinSo4MNqW7vmomGRS7' },
-  { title: 'Bodak Yellow', artist: 'Cardi B', spotifyTrackId: '6KBYefIoo7KydImq1uUQlL' },
-  { title: 'Boogie Fever', artist: 'The Sylvers', spotifyTrackId: '3FZB0xezeoc1ddx72eg7iF' },
-  {
-    title: 'Boogie Oogie Oogie',
-    artist: 'A Taste Of Honey',
-    spotifyTrackId: '0y0QpmcF1G3F79rjk3fjUx',
-  },
-  {
-    title: 'Boom Boom Pow - Edit',
-    artist: 'Black Eyed Peas',
-    spotifyTrackId: '7aQwcjaZk9rdhJkBb6yROc',
-  },
-  { title: 'Bootylicious', artist: "Destiny's Child", spotifyTrackId: '2UUpC9X9i9whQRPehjR3En' },
-  { title: 'Born This Way', artist: 'Lady Gaga', spotifyTrackId: '6r2BECwMgEoRb5yLfp0Hca' },
-  { title: 'Brand New Key', artist: 'Melanie', spotifyTrackId: '3tm6LVXZJg0lG4hQm5ytrT' },
-  {
-    title: "Brandy (You're a Fine Girl)",
-    artist: 'Looking Glass',
-    spotifyTrackId: '2BY7ALEWdloFHgQZG6VMLA',
-  },
-  { title: 'BREAK MY SOUL', artist: 'Beyoncé', spotifyTrackId: '2KukL7UlQ8TdvpaA7bY3ZJ' },
-  { title: 'Break Your Heart', artist: 'Taio Cruz', spotifyTrackId: '1CdqVF1ywD0ZO1zXtB9yWa' },
-  {
-    title: 'Breaking Up Is Hard to Do',
-    artist: 'Neil Sedaka',
-    spotifyTrackId: '2x6pbpjVGjiWCcH89IK8AX',
-  },
-  {
-    title: 'Bridge Over Troubled Water',
-    artist: 'Simon & Garfunkel',
-    spotifyTrackId: '6l8EbYRtQMgKOyc1gcDHF9',
-  },
-  { title: 'Broken Wings', artist: 'Mr. Mister', spotifyTrackId: '4A5VaeDFaX7XKV0JnsRSxw' },
-  { title: 'Brother Louie', artist: 'Stories', spotifyTrackId: '5kbSslE6zBMZnULSrE4SdZ' },
-  { title: 'Brown Sugar', artist: 'The Rolling Stones', spotifyTrackId: '61UuPxxYUvacEH6SHIK3sU' },
-  { title: "Bump n' Grind", artist: 'R. Kelly', spotifyTrackId: '0DBIL8arX0Zo6eAuxNIpik' },
-  {
-    title: 'Bump, Bump, Bump (feat. P. Diddy)',
-    artist: 'B2K',
-    spotifyTrackId: '74jMwg2zsFMICzW3Wems6h',
-  },
-  { title: 'Burn - Radio Mix', artist: 'Usher', spotifyTrackId: '6gpEUabUe4Qtc0jek4BC50' },
-  { title: 'Butter', artist: 'BTS', spotifyTrackId: '1mWdTewIgB3gtBM3TOSFhB' },
-  { title: 'Butterfly', artist: 'Crazy Town', spotifyTrackId: '3FJ9hfm9SCDHMFIItwAfSY' },
-  {
-    title: "Buy U a Drank (Shawty Snappin') (feat. Yung Joc)",
-    artist: 'T-Pain',
-    spotifyTrackId: '1tkMs9wDPknQ3ZHcKDw1ES',
-  },
-  { title: 'Calcutta', artist: 'Lawrence Welk', spotifyTrackId: '1ticNNhVs2fqtFXPsYJ8bD' },
-  { title: 'California Gurls', artist: 'Katy Perry', spotifyTrackId: '6tS3XVuOyu10897O3ae7bi' },
-  { title: 'Call Me', artist: 'Blondie', spotifyTrackId: '7HKxTNVlkHsfMLhigmhC0I' },
-  { title: 'Call Me Maybe', artist: 'Carly Rae Jepsen', spotifyTrackId: '3TGRqZ0a2l1LRblBkJoaDx' },
-  { title: "Can't Buy Me Love", artist: 'The Beatles', spotifyTrackId: '38Vb1J5W5LOs0i7SAF76pa' },
-  { title: "Can't Feel My Face", artist: 'The Weeknd', spotifyTrackId: '22VdIZQfgXJea34mQxlt81' },
-  {
-    title: "Can't Fight This Feeling",
-    artist: 'REO Speedwagon',
-    spotifyTrackId: '5WwqdeavrQrbeAMDxGawse',
-  },
-  {
-    title: "Can't Get Enough Of Your Love, Babe",
-    artist: 'Barry White',
-    spotifyTrackId: '3hHGb6HOXwis5EgpFYFwSw',
-  },
-  {
-    title: "Can't Hold Us (feat. Ray Dalton)",
-    artist: 'Macklemore',
-    spotifyTrackId: '3bidbhpOYeV4knp8AIu8Xn',
-  },
-  {
-    title: "Can't Nobody Hold Me Down (feat. Mase)",
-    artist: 'Puff Daddy',
-    spotifyTrackId: '1EM23A621Z0QyTlWKu7T1l',
-  },
-  {
-    title: 'CAN\'T STOP THE FEELING! (from DreamWorks Animation\'s "TROLLS")',
-    artist: 'Justin Timberlake',
-    spotifyTrackId: '1WkMMavIMc4JZ8cfMmxHkI',
-  },
-  {
-    title: 'Candle In The Wind 1997',
-    artist: 'Elton John',
-    spotifyTrackId: '3DUcaEvPO72PijivCjtZcU',
-  },
-  { title: 'Candy Shop', artist: '50 Cent', spotifyTrackId: '5D2mYZuzcgjpchVY1pmTPh' },
-  {
-    title: 'Car Wash',
-    artist: 'Rose Royce',
-    spotifyTrackId: '1cb1BdMP8J2Oi2RifPblHR',
-  },
-  { title: 'cardigan', artist: 'Taylor Swift', spotifyTrackId: '4R2kfaDFhslZEMJqAFNpdd' },
-  { title: 'Careless Whisper', artist: 'George Michael', spotifyTrackId: '4jDmJ51x1o9NZB5Nxxc7gY' },
-  {
-    title: 'Caribbean Queen (No More Love On the Run)',
-    artist: 'Billy Ocean',
-    spotifyTrackId: '62LP0PEbzoEZQNLBzgiSii',
-  },
-  {
-    title: 'CARNIVAL (feat. Rich The Kid, Playboi Carti)',
-    artist: '¥$',
-    spotifyTrackId: '0U1bfnMhuViHvUhDfxp1NX',
-  },
-  {
-    title: "Cat's in the Cradle",
-    artist: 'Harry Chapin',
-    spotifyTrackId: '2obblQ6tcePeOEVJV6nEGD',
-  },
-  {
-    title: "Cathy's Clown",
-    artist: 'The Everly Brothers',
-    spotifyTrackId: '1MA9StLzlFftLbuqOmoWij',
-  },
-  {
-    title: 'Celebration',
-    artist: 'Kool & The Gang',
-    spotifyTrackId: '0CUEc6T65lrU6rVW3HVYsl',
-  },
-  { title: 'Centerfold', artist: 'The J. Geils Band', spotifyTrackId: '1ynmMEK1fkyiZ6Z6F3ThEt' },
-  { title: 'Chapel of Love', artist: 'The Dixie Cups', spotifyTrackId: '4JchWgAG3RZmCLHcEGf9DZ' },
-  { title: 'Chariots Of Fire', artist: 'Vangelis', spotifyTrackId: '3zmXCcrMKpGho2sTRZG1Ux' },
-  {
-    title: 'Cheap Thrills (feat. Sean Paul)',
-    artist: 'Sia',
-    spotifyTrackId: '6b3b7lILUJqXcp6w9wNQSm',
-  },
-  {
-    title: 'Check On It (feat. Bun B & Slim Thug)',
-    artist: 'Beyoncé',
-    spotifyTrackId: '2RWxrpsFshOBFwRBRstUlQ',
-  },
-  {
-    title: 'Cheerleader - Felix Jaehn Remix Radio Edit',
-    artist: 'OMI',
-    spotifyTrackId: '023OVLNzXhX0j7CxswUt6D',
-  },
-  { title: 'Cherish', artist: 'The Association', spotifyTrackId: '5fmtvzDvwlfvNjdNrOj8TA' },
-  { title: 'Circles', artist: 'Post Malone', spotifyTrackId: '21jGcNKet2qwijlDFuPiPb' },
-  { title: 'Close To You', artist: 'Maxi Priest', spotifyTrackId: '0Kbd5dlhNJUpoKFMcHS3Pc' },
-  { title: 'Closer', artist: 'The Chainsmokers', spotifyTrackId: '7BKLCZ1jbUBVqRi2FVlTVw' },
-  { title: 'Cold Hearted', artist: 'Paula Abdul', spotifyTrackId: '6jrp8qBMJO6vhAeYVAsdk9' },
-  {
-    title: 'Come On Eileen',
-    artist: 'Dexys Midnight Runners',
-    spotifyTrackId: '7jWXoa3AZu5wBAkiHmi5IK',
-  },
-  {
-    title: 'Come on over Baby (All I Want Is You)',
-    artist: 'Christina Aguilera',
-    spotifyTrackId: '7A0apkTSTvMbSI7yplcmlh',
-  },
-  { title: 'Come See About Me', artist: 'The Supremes', spotifyTrackId: '307kcWJQNMdiYYKj1LgClU' },
-  {
-    title: 'Come Softly To Me',
-    artist: 'The Fleetwoods',
-    spotifyTrackId: '603N4XGJUTbK760GLCvIIs',
-  },
-  { title: 'Come Together', artist: 'The Beatles', spotifyTrackId: '2EqlS6tkEnglzr7tkKAAYD' },
-  {
-    title: 'Coming Out of the Dark',
-    artist: 'Gloria Estefan',
-    spotifyTrackId: '5x9MJycRilBm2SNavzt9yF',
-  },
-  {
-    title: 'Coming Up',
-    artist: 'Paul McCartney',
-    spotifyTrackId: '0Ix1999mTT1A3TF6Bywgv5',
-  },
-  { title: 'Confessions Pt. 2', artist: 'Usher', spotifyTrackId: '7wBThXx7BGZHJJ3aN3OPvv' },
-  { title: 'Convoy', artist: 'C.W. McCall', spotifyTrackId: '6dGWq08LXuIw6T2oUeHECh' },
-  { title: "Could've Been", artist: 'Tiffany', spotifyTrackId: '1xvGuRbLxTkpb5UdUG7HME' },
-  { title: 'Crack A Bottle', artist: 'Eminem', spotifyTrackId: '4dK00wCxlqWEeN8BoM1BHT' },
-  {
-    title: "Cracklin' Rosie",
-    artist: 'Neil Diamond',
-    spotifyTrackId: '5pkd9ib1RgbkAd1R9bIOCa',
-  },
-  {
-    title: 'Crank That (Soulja Boy)',
-    artist: 'Soulja Boy',
-    spotifyTrackId: '66TRwr5uJwPt15mfFkzhbi',
-  },
-  { title: 'Crazy for You', artist: 'Madonna', spotifyTrackId: '6B4oVElDIKRNcNUary0WG7' },
-  {
-    title: 'Crazy In Love (feat. JAY-Z)',
-    artist: 'Beyoncé',
-    spotifyTrackId: '5IVuqXILoxVWvWEPm82Jxr',
-  },
-  {
-    title: 'Crazy Little Thing Called Love',
-    artist: 'Queen',
-    spotifyTrackId: '35ItUJlMtjOQW3SSiTCrrw',
-  },
-  { title: 'Cream', artist: 'Prince', spotifyTrackId: '4QnjK45IBBZRVRWTEeZ3T8' },
-  { title: 'Creep - Radio Edit', artist: 'TLC', spotifyTrackId: '6Entpvfzak837q0yFA1olE' },
-  {
-    title: 'Crimson & Clover',
-    artist: 'Tommy James & The Shondells',
-    spotifyTrackId: '1vXuYPpkLjn1v06E2EsWQY',
-  },
-  { title: 'Crocodile Rock', artist: 'Elton John', spotifyTrackId: '6WCeFNVAXUtNczb7lqLiZU' },
-  { title: 'Cruel Summer', artist: 'Taylor Swift', spotifyTrackId: '0NQOXTDg2p7hFYlFq6tZKW' },
-  { title: 'Da Doo Ron Ron', artist: 'Shaun Cassidy', spotifyTrackId: '0BTjoeNHz0mSjXCZO4hzad' },
-  { title: 'Dancing Queen', artist: 'ABBA', spotifyTrackId: '4NtUY5IGzHCaqfZemmAu56' },
-  {
-    title: 'Dark Horse',
-    artist: 'Katy Perry feat. Juicy J',
-    spotifyTrackId: '5jrdCoLpJSvHHorevXBATy',
-  },
-  { title: 'Dark Lady', artist: 'Cher', spotifyTrackId: '16ShgoIW9TtfzUFHOJJIvC' },
-  {
-    title: 'Daydream Believer',
-    artist: 'The Monkees',
-    spotifyTrackId: '0k07yGN0noDIE9GpGVboaa',
-  },
-  {
-    title: 'December, 1963 (Oh What a Night!)',
-    artist: 'The Four Seasons',
-    spotifyTrackId: '1hQFF33xi8ruavZNyovtUN',
-  },
-  {
-    title: 'Deep Purple',
-    artist: 'Nino Tempo & April Stevens',
-    spotifyTrackId: '5kJez8nvgq0HqhWy3UTQFx',
-  },
-  { title: 'Delta Dawn', artist: 'Helen Reddy', spotifyTrackId: '53RGKUb4zvhHaDCmjgUrIP' },
-  {
-    title: 'Despacito (Remix)',
-    artist: 'Luis Fonsi & Daddy Yankee feat. Justin Bieber',
-    spotifyTrackId: '6rPO02ozF3bM7NnOV4h6s2',
-  },
-  { title: 'Diamonds', artist: 'Rihanna', spotifyTrackId: '1z9kQ14XBSN0r2v6fx4IdG' },
-  {
-    title: "Didn't We Almost Have It All",
-    artist: 'Whitney Houston',
-    spotifyTrackId: '7N1nADkT4qQbaF7W49V6TV',
-  },
-  {
-    title: 'Die For You (with Ariana Grande) - Remix',
-    artist: 'The Weeknd',
-    spotifyTrackId: '4JNdwEfqwFRiAeEISC8RU8',
-  },
-  { title: 'Die With A Smile', artist: 'Lady Gaga', spotifyTrackId: '2plbrEY59IikOBgBGLjaoe' },
-  { title: 'Dilemma', artist: 'Nelly', spotifyTrackId: '0ARK753YaiJbpLUk7z5yIM' },
-  { title: 'Dirty Diana', artist: 'Michael Jackson', spotifyTrackId: '6JZYMxvcoeLD4IifJPvDux' },
-  {
-    title: 'Disco Duck',
-    artist: 'Rick Dees & His Cast Of Idiots',
-    spotifyTrackId: '5gQ3nMRR1eph1wZJpoQweg',
-  },
-  { title: 'Disco Lady', artist: 'Johnnie Taylor', spotifyTrackId: '1tMyqN7bNCokdg7jWgKPc8' },
-  { title: 'Disturbia', artist: 'Rihanna', spotifyTrackId: '2VOomzT6VavJOGBeySqaMc' },
-  { title: 'Dizzy', artist: 'Tommy Roe', spotifyTrackId: '3jJKKhg0t4HpdfNDyGiZDy' },
-  {
-    title: 'Do I Make You Proud',
-    artist: 'Taylor Hicks',
-    spotifyTrackId: '2jv9Ppwz9u3lqWfXV0q2sW',
-  },
-  {
-    title: 'Do That To Me One More Time',
-    artist: 'Captain & Tennille',
-    spotifyTrackId: '5vyNCVCLgr4rdKd7rutDfM',
-  },
-  { title: 'Do Wah Diddy Diddy', artist: 'Manfred Mann', spotifyTrackId: '7gEpTMp9MQc1uJwivtL37R' },
-  {
-    title: "Do Ya Think I'm Sexy",
-    artist: 'Rod Stewart',
-    spotifyTrackId: '3wsPg2KrRYZFi0inIFa41x',
-  },
-  {
-    title: "Doesn't Really Matter",
-    artist: 'Janet Jackson',
-    spotifyTrackId: '0calZiHD3eVfJrHDCwzjW6',
-  },
-  { title: 'Dominique', artist: 'The Singing Nun', spotifyTrackId: '5tYNc5FJfBq2NfkjV2EubB' },
-  {
-    title: "Don't Break The Heart That Loves You",
-    artist: 'Connie Francis',
-    spotifyTrackId: '5rBeUeRQh1Ou7m3giAX5p5',
-  },
-  {
-    title: "Don't Forget About Us",
-    artist: 'Mariah Carey',
-    spotifyTrackId: '1HkVSmzBbdZ5Bzdd00IZgh',
-  },
-  { title: "Don't give up on us", artist: 'David Soul', spotifyTrackId: '23IWhAK0cYRwnBT5EE8i3u' },
-  {
-    title: "Don't Go Breaking My Heart",
-    artist: 'Elton John',
-    spotifyTrackId: '5pKJtX4wBeby9qIfFhyOJj',
-  },
-  {
-    title: "Don't Leave Me This Way",
-    artist: 'Thelma Houston',
-    spotifyTrackId: '2rBBhFXtuMoGuwYTSDpAdF',
-  },
-  {
-    title: "Don't Let the Sun Go Down on Me",
-    artist: 'George Michael',
-    spotifyTrackId: '0q90594hk25yo0xZmBTqCd',
-  },
-  { title: "Don't Matter - Radio Edit", artist: 'Akon', spotifyTrackId: '2v8ZadgbDqsjcxIRYkK085' },
-  {
-    title: "Don't Stop 'Til You Get Enough",
-    artist: 'Michael Jackson',
-    spotifyTrackId: '46eu3SBuFCXWsPT39Yg3tJ',
-  },
-  {
-    title: "Don't Wanna Lose You",
-    artist: 'Gloria Estefan',
-    spotifyTrackId: '4tEpvocDTdNVR9DYxnJTFy',
-  },
-  {
-    title: "Don't Worry Be Happy",
-    artist: 'Bobby McFerrin',
-    spotifyTrackId: '4hObp5bmIJ3PP3cKA9K9GY',
-  },
-  {
-    title: "Don't You (Forget About Me)",
-    artist: 'Simple Minds',
-    spotifyTrackId: '3fH4KjXFYMmljxrcGrbPj9',
-  },
-  {
-    title: "Don't You Want Me",
-    artist: 'The Human League',
-    spotifyTrackId: '3L7RtEcu1Hw3OXrpnthngx',
-  },
-  {
-    title: 'Doo Wop (That Thing)',
-    artist: 'Ms. Lauryn Hill',
-    spotifyTrackId: '41Vs28E6Es3QdxIRqDnBv1',
-  },
-  { title: 'Down', artist: 'Jay Sean', spotifyTrackId: '6cmm1LMvZdB5zsCwX5BjqE' },
-  { title: 'Down Under', artist: 'Men At Work', spotifyTrackId: '46RVKt5Edm1zl0rXhPJZxz' },
-  { title: 'Downtown', artist: 'Petula Clark', spotifyTrackId: '0hgWgToJgb7O1tT12YWRCz' },
-  { title: 'Dreamlover', artist: 'Mariah Carey', spotifyTrackId: '6HcQZfMrw3KwGyzrKw1Pjy' },
-  {
-    title: 'Dreams',
-    artist: 'Fleetwood Mac',
-    spotifyTrackId: '0ofHAoxe9vBkTCp2UQIavz',
-  },
-  { title: 'drivers license', artist: 'Olivia Rodrigo', spotifyTrackId: '5wANPM4fQCJwkGd4rN57mH' },
-  {
-    title: "Drop It Like It's Hot - Radio Edit",
-    artist: 'Snoop Dogg',
-    spotifyTrackId: '7MJPJTtIcjtMkBftLvprJE',
-  },
-  { title: 'Duke of Earl', artist: 'Gene Chandler', spotifyTrackId: '6Hy22YDN9HJMRlJP1LwnJy' },
-  { title: 'Dynamite', artist: 'BTS', spotifyTrackId: '5QDLhrAOJJdNAmCTJ8xMyW' },
-  { title: 'E.T.', artist: 'Katy Perry', spotifyTrackId: '36ux3YuUsGTWPT8fXclS45' },
-  { title: 'Easier Said Than Done', artist: 'The Essex', spotifyTrackId: '2C5p7j2gw7Jr2VAZDiNP4u' },
-  { title: 'Easy On Me', artist: 'Adele', spotifyTrackId: '0gplL1WMoJ6iYaPgMCL0gX' },
-  { title: 'Ebony And Ivory', artist: 'Paul McCartney', spotifyTrackId: '1h3bcnnIm72UnemGIfm0iZ' },
-  { title: 'Eight Days A Week', artist: 'The Beatles', spotifyTrackId: '1Dg4dFJr3HW7sbA7vPejre' },
-  { title: 'El Paso', artist: 'Marty Robbins', spotifyTrackId: '4f8hBeMXMvssn6HtFAtblo' },
-  { title: 'Emotions', artist: 'Mariah Carey', spotifyTrackId: '0cELvuwJW1acISUHYB6suj' },
-  { title: 'Empire State Of Mind', artist: 'JAY-Z', spotifyTrackId: '2igwFfvr1OAGX9SKDCPBwO' },
-  { title: 'End Of The Road', artist: 'Boyz II Men', spotifyTrackId: '3l3xTXsUXeWlkPqzMs7mPD' },
-  {
-    title: 'Endless Love - From "The Endless Love" Soundtrack',
-    artist: 'Lionel Richie',
-    spotifyTrackId: '0FGxAEMIE5GhyFqFMHRWaO',
-  },
-  { title: 'Escapade', artist: 'Janet Jackson', spotifyTrackId: '5HAv1Ckfe50DUjv8ghwTrz' },
-  {
-    title: 'Escape (The Piña Colada Song)',
-    artist: 'Rupert Holmes',
-    spotifyTrackId: '2AlHVX2HLyu4iZjiByPdWG',
-  },
-  { title: 'Eternal Flame', artist: 'The Bangles', spotifyTrackId: '5MoDQWMDMaAGDEiWsJfeCi' },
-  {
-    title: 'Eve Of Destruction',
-    artist: 'Barry McGuire',
-    spotifyTrackId: '1x95pWB3KeK3evKa1VrW6e',
-  },
-  {
-    title: 'Evergreen (Love Theme from A Star Is Born)',
-    artist: 'Barbra Streisand',
-    spotifyTrackId: '2IcqY68BxP1ONPi3ME6aje',
-  },
-  {
-    title: 'Every Breath You Take',
-    artist: 'The Police',
-    spotifyTrackId: '4U3Ggqyv2XgnS1u82HOGQX',
-  },
-  { title: 'Every Rose Has Its Thorn', artist: 'Poison', spotifyTrackId: '5qaSekPPKHIEA1Yn0qkCaC' },
-  {
-    title: 'Every Time You Go Away - Radio Edit',
-    artist: 'Paul Young',
-    spotifyTrackId: '05fHQeRbCSjKVS6z0WbQKJ',
-  },
-  {
-    title: 'Everybody Loves Somebody',
-    artist: 'Dean Martin',
-    spotifyTrackId: '5I9sHwLDX28tLtzVgKLtpr',
-  },
-  {
-    title: 'Everybody Wants To Rule The World',
-    artist: 'Tears For Fears',
-    spotifyTrackId: '4RvWPyQ5RL0ao9LPZeSouE',
-  },
-  {
-    title: "Everybody's Somebody's Fool",
-    artist: 'Connie Francis',
-    spotifyTrackId: '6jdONXtmF2ZmLyRgZfwDRj',
-  },
-  {
-    title: 'Everyday People',
-    artist: 'Sly & The Family Stone',
-    spotifyTrackId: '7lL2lMWNtzOcf5HnEudNgn',
-  },
-  {
-    title: 'Everything Is Beautiful',
-    artist: 'Ray Stevens',
-    spotifyTrackId: '3umWiurM394C5MG7txFqZ4',
-  },
-  { title: 'Everything She Wants', artist: 'Wham!', spotifyTrackId: '5hXEcqQhEjfZdbIZLO8mf2' },
-  {
-    title: 'Everything You Want',
-    artist: 'Vertical Horizon',
-    spotifyTrackId: '4cKGldbhGJniI8BrB3K6tb',
-  },
-  {
-    title: 'Exhale (Shoop Shoop) - from "Waiting to Exhale" - Original Soundtrack',
-    artist: 'Whitney Houston',
-    spotifyTrackId: '1X3ypzPnyerpZuMqrDFK29',
-  },
-  { title: 'Eye of the Tiger', artist: 'Survivor', spotifyTrackId: '0jSRZBsn3RqAhBDzAefHAD' },
-  { title: 'Faith', artist: 'George Michael', spotifyTrackId: '0HEmnAUT8PHznIAAmVXqFJ' },
-  {
-    title: "Fallin'",
-    artist: 'Alicia Keys',
-    spotifyTrackId: '1ZrwJeM1SPoMmYGsh958l6',
-  },
-  { title: "Fallin' in Love", artist: 'Hamilton', spotifyTrackId: '07doQWH3nCpJ36kNrw2WrV' },
-  {
-    title: 'Fame',
-    artist: 'David Bowie',
-    spotifyTrackId: '0yCLzEkifujrH2UD21Ubne',
-  },
-  {
-    title: 'Family Affair',
-    artist: 'Mary J. Blige',
-    spotifyTrackId: '39DVaoOyXiXRtQfnuRY2xQ',
-  },
-  {
-    title: 'Family Affair',
-    artist: 'Sly & The Family Stone',
-    spotifyTrackId: '2GVEs1sn5Q1jB1976vQoAX',
-  },
-  { title: 'Fancy', artist: 'Iggy Azalea', spotifyTrackId: '3oiMJQAWVaxSubJ7b2VUtX' },
-  { title: 'Fantasy', artist: 'Mariah Carey', spotifyTrackId: '6xkryXuiZU360Lngd4sx13' },
-  { title: 'Father Figure', artist: 'George Michael', spotifyTrackId: '0SCk8WpBKSvK6QkSyixRAY' },
-  {
-    title: "Feel Like Makin' Love",
-    artist: 'Roberta Flack',
-    spotifyTrackId: '7gkboYtvhuXNS4EUwmFPcw',
-  },
-  {
-    title: 'Fingertips Pt. 2',
-    artist: 'Little Stevie Wonder',
-    spotifyTrackId: '4DNVD63V2Tst0P2rhtv1Du',
-  },
-  { title: 'Fire', artist: 'Ohio Players', spotifyTrackId: '01kmJXmeQaNlSZFRyFlSmz' },
-  { title: 'Fireflies', artist: 'Owl City', spotifyTrackId: '3DamFFqW32WihKkTVlwTYQ' },
-  { title: 'Firework', artist: 'Katy Perry', spotifyTrackId: '4r6eNCsrZnQWJzzvFh4nlg' },
-  { title: 'First Class', artist: 'Jack Harlow', spotifyTrackId: '0wHFktze2PHC5jDt3B17DC' },
-  {
-    title: 'First Person Shooter (feat. J. Cole)',
-    artist: 'Drake',
-    spotifyTrackId: '7aqfrAY2p9BUSiupwk3svU',
-  },
-  {
-    title: 'Flashdance... What A Feeling',
-    artist: 'Irene Cara',
-    spotifyTrackId: '1gbL6TqKuJOaUstIvMBMNc',
-  },
-  { title: 'Flowers', artist: 'Miley Cyrus', spotifyTrackId: '7DSAEUvxU8FajXtRloy8M0' },
-  { title: 'Fly Robin Fly', artist: 'Silver Convention', spotifyTrackId: '3iyswZTrdkcsy5afVjWCXK' },
-  { title: 'Foolish', artist: 'Ashanti', spotifyTrackId: '6zMUIb4uce1CzpbjR3vMdN' },
-  { title: 'Foolish Beat', artist: 'Debbie Gibson', spotifyTrackId: '0KhiesN7gLBPEQhKsBmrI1' },
-  {
-    title: 'Footloose - From "Footloose" Soundtrack',
-    artist: 'Kenny Loggins',
-    spotifyTrackId: '2vz1CsL5WBsbpBcwgboTAw',
-  },
-  { title: 'Forever Your Girl', artist: 'Paula Abdul', spotifyTrackId: '0lmS0Wofcv7B7uFYssSKta' },
-  {
-    title: 'Fortnight (feat. Post Malone)',
-    artist: 'Taylor Swift',
-    spotifyTrackId: '2OzhQlSqBEmt7hmkYxfT6m',
-  },
-  {
-    title: 'FRANCHISE (feat. Young Thug & M.I.A.)',
-    artist: 'Travis Scott',
-    spotifyTrackId: '4jVBIpuOiMj1crqd8LoCrJ',
-  },
-  {
-    title: 'Frankenstein',
-    artist: 'The Edgar Winter Group',
-    spotifyTrackId: '7zroYYPtZPZDQozgDz48Im',
-  },
-  { title: 'Freak Me', artist: 'Silk', spotifyTrackId: '5CdJveJgiGXoGwDFqF6afp' },
-  { title: 'Funkytown', artist: 'Lipps Inc.', spotifyTrackId: '0KQh7AuuZvpTKWhcJa8Pbr' },
-  { title: "Gangsta's Paradise", artist: 'Coolio', spotifyTrackId: '7lQWRAjyhTpCWFC0jmclT4' },
-  {
-    title: 'Genie In a Bottle',
-    artist: 'Christina Aguilera',
-    spotifyTrackId: '11mwFrKvLXCbcVGNxffGyP',
-  },
-  {
-    title: 'Georgia on My Mind',
-    artist: 'Ray Charles',
-    spotifyTrackId: '47mA6f44zxLtdATOoY7GjN',
-  },
-  { title: 'Get Back', artist: 'The Beatles', spotifyTrackId: '6zmQ8bzlDIfngjy0Ba3w46' },
-  { title: 'Get Busy', artist: 'Sean Paul', spotifyTrackId: '5qTvkDrSfvwDv6RBjjcfQr' },
-  {
-    title: 'Get Down Tonight',
-    artist: 'KC & The Sunshine Band',
-    spotifyTrackId: '0bqVfQ9d21HEFItGpia2fD',
-  },
-  {
-    title: 'Get Off Of My Cloud',
-    artist: 'The Rolling Stones',
-    spotifyTrackId: '3Slqc9I5VrWEBdoqqkodi2',
-  },
-  {
-    title: 'Get Outta My Dreams, Get Into My Car',
-    artist: 'Billy Ocean',
-    spotifyTrackId: '2D4D3hiOf5U0W6SvJoCQph',
-  },
-  { title: "Gettin' Jiggy Wit It", artist: 'Will Smith', spotifyTrackId: '0weAUscowxeqDtpCgtbpgp' },
-  { title: 'Ghostbusters', artist: 'Ray Parker Jr.', spotifyTrackId: '300zfRaCgTmEm5Eqe3HqZZ' },
-  { title: 'Girlfriend', artist: 'Avril Lavigne', spotifyTrackId: '45hOioMDJktr86iKDHC8gr' },
-  {
-    title: 'Girls Like You (feat. Cardi B)',
-    artist: 'Maroon 5',
-    spotifyTrackId: '6V1bu6o1Yo5ZXnsCJU8Ovk',
-  },
-  { title: 'Give It To Me', artist: 'Timbaland', spotifyTrackId: '0wbDgMuAoy7O7pL3a69uZx' },
-  {
-    title: 'Give Me Everything (feat. Nayer)',
-    artist: 'Pitbull',
-    spotifyTrackId: '4QNpBfC0zvjKqPJcyqBy9W',
-  },
-  {
-    title: 'Give Me Love (Give Me Peace On Earth)',
-    artist: 'George Harrison',
-    spotifyTrackId: '4XMRt4xFqLzGs4wDKkSSeu',
-  },
-  { title: 'Glamorous', artist: 'Fergie', spotifyTrackId: '4KTtYhxFtFL7mBwnjkKfLm' },
-  { title: 'Glory of Love', artist: 'Peter Cetera', spotifyTrackId: '1eyq8cjUQ2daFthW2PC2GM' },
-  {
-    title: 'Go Away Little Girl',
-    artist: 'Steve Lawrence',
-    spotifyTrackId: '1u95ob3bO6JoN555N4LjoY',
-  },
-  {
-    title: 'Go Away Little Girl',
-    artist: 'Donny Osmond',
-    spotifyTrackId: '4kjOWauuYptQVSnuac4dsr',
-  },
-  { title: "God's Plan", artist: 'Drake', spotifyTrackId: '6DCZcSspjsKoFjzjrWoCdn' },
-  {
-    title: 'Gold Digger',
-    artist: 'Kanye West feat. Jamie Foxx',
-    spotifyTrackId: '1PS1QMdUqOal0ai3Gt7sDQ',
-  },
-  { title: 'Gonna Fly Now', artist: 'Bill Conti', spotifyTrackId: '6C2PfemHQul77DVpnvuAIs' },
-  {
-    title: 'Gonna Make You Sweat (Everybody Dance Now)',
-    artist: 'C+C Music Factory feat. Freedom Williams',
-    spotifyTrackId: '7eheoW4hxrH51ww2QePVwF',
-  },
-  { title: 'good 4 u', artist: 'Olivia Rodrigo', spotifyTrackId: '4ZtFanR9U6ndgddUvNcjcG' },
-  {
-    title: "Good Lovin'",
-    artist: 'The Young Rascals',
-    spotifyTrackId: '0XnhQGfqfi5CnZXcONJuI5',
-  },
-  { title: 'Good Luck Charm', artist: 'Elvis Presley', spotifyTrackId: '19gotedXtqeE8dWju6WURW' },
-  { title: 'Good Thing', artist: 'Fine Young Cannibals', spotifyTrackId: '6lRkdG1HurVS72F9GoBeWJ' },
-  { title: 'Good Times', artist: 'CHIC', spotifyTrackId: '7wIGzmojSIy837dLVhYZqq' },
-  { title: 'Good Vibrations', artist: 'The Beach Boys', spotifyTrackId: '5t9KYe0Fhd5cW6UYT4qP8f' },
-  {
-    title: 'Good Vibrations',
-    artist: 'Marky Mark & The Funky Bunch',
-    spotifyTrackId: '5hWdgGVcfTeLPAiHM6EZG9',
-  },
-  {
-    title: 'Goodies (feat. Petey Pablo)',
-    artist: 'Ciara',
-    spotifyTrackId: '3dFwpxh2yH7C7p9BGEKLVB',
-  },
-  {
-    title: 'Got My Mind Set On You',
-    artist: 'George Harrison',
-    spotifyTrackId: '3OeUlriM0EZHdWleJtjoVr',
-  },
-  {
-    title: 'Got To Give It Up',
-    artist: 'Marvin Gaye',
-    spotifyTrackId: '7ohR0qPH6f2Vuj2pUNanJG',
-  },
-  {
-    title: 'Grazing In The Grass',
-    artist: 'Hugh Masekela',
-    spotifyTrackId: '2P6Buc8kWRgShx7aHIadqu',
-  },
-  {
-    title: 'Grease - From “Grease”',
-    artist: 'Frankie Valli',
-    spotifyTrackId: '6X1D6qbVmK48uoOD9nIvVV',
-  },
-  {
-    title: 'Greatest Love of All',
-    artist: 'Whitney Houston',
-    spotifyTrackId: '6yJxCltgtmGxIgKOS6ndnu',
-  },
-  {
-    title: 'Green Tambourine',
-    artist: 'The Lemon Pipers',
-    spotifyTrackId: '70jnaGaj1rtpyABfUURpvr',
-  },
-  { title: 'Grenade', artist: 'Bruno Mars', spotifyTrackId: '2tJulUYLDKOg9XrtVkMgcJ' },
-  { title: 'Grillz', artist: 'Nelly', spotifyTrackId: '0Aqlt4N5h6rUtKnd09VXpr' },
-  { title: "Groovin'", artist: 'The Young Rascals', spotifyTrackId: '3c2kMiSB86tVq1J4oULmvL' },
-  { title: 'Gypsys, Tramps & Thieves', artist: 'Cher', spotifyTrackId: '6fsSZbNL7XP9gf1kJ2l155' },
-  { title: 'Half-Breed', artist: 'Cher', spotifyTrackId: '23jaOlnV7vHmly51DPBr35' },
-  { title: 'Hang on Sloopy', artist: 'The McCoys', spotifyTrackId: '27nSMBSuBs6b3OCEHPhXhu' },
-  {
-    title: 'Hangin\' Tough - 7" Remix',
-    artist: 'New Kids On The Block',
-    spotifyTrackId: '5tTGUzm5CeeKqoa9MQ7qE9',
-  },
-  {
-    title: 'Hanky Panky',
-    artist: 'Tommy James & The Shondells',
-    spotifyTrackId: '3uqEiaO6MUoM89nLSIs05c',
-  },
-  {
-    title: 'Happy - From "Despicable Me 2"',
-    artist: 'Pharrell Williams',
-    spotifyTrackId: '60nZcImufyMA1MKQY3dcCH',
-  },
-  { title: 'Happy Together', artist: 'The Turtles', spotifyTrackId: '1JO1xLtVc8mWhIoE3YaCL0' },
-  {
-    title: "Hard to Say I'm Sorry",
-    artist: 'Chicago',
-    spotifyTrackId: '5nDSJO4909uNzMcZH3CggS',
-  },
-  { title: 'Harlem Shake', artist: 'Baauer', spotifyTrackId: '01XFgRZfZI7oBagNf1Loml' },
-  {
-    title: 'Harper Valley PTA',
-    artist: 'Jeannie C. Riley',
-    spotifyTrackId: '2sZIclzhHlH8tzf7wry9hK',
-  },
-  {
-    title: 'Havana (feat. Young Thug)',
-    artist: 'Camila Cabello',
-    spotifyTrackId: '1rfofaqEpACxVEHIZBJe6W',
-  },
-  { title: 'Have You Ever', artist: 'Brandy', spotifyTrackId: '6tBD4yjOf9P8rWwUlXdJFm' },
-  {
-    title: 'Have You Ever Really Loved A Woman?',
-    artist: 'Bryan Adams',
-    spotifyTrackId: '32Gf5A7Hr8RdgggXG0Fdks',
-  },
-  {
-    title: 'Have You Never Been Mellow',
-    artist: 'Olivia Newton-John',
-    spotifyTrackId: '5ehVOC0zSdwWqyZlhomJSi',
-  },
-  {
-    title: "He Don't Love You (Like I Love You)",
-    artist: 'Tony Orlando & Dawn',
-    spotifyTrackId: '0XaaoZUWQFzcFiQbXKhABU',
-  },
-  { title: "He's a Rebel", artist: 'The Crystals', spotifyTrackId: '0mG8Hety4RELeo6p808fcy' },
-  { title: "He's So Fine", artist: 'The Chiffons', spotifyTrackId: '2Bs1Lw9LX8hBm70t1iGdlh' },
-  {
-    title: 'Head to Toe',
-    artist: 'Lisa Lisa & Cult Jam',
-    spotifyTrackId: '5VzqFMyPERPObMOzZdELuK',
-  },
-  { title: 'Heart Of Glass', artist: 'Blondie', spotifyTrackId: '4v2rkl1mC3zVAz0nXMx9r4' },
-  {
-    title: 'Heart of Gold',
-    artist: 'Neil Young',
-    spotifyTrackId: '1Q1b8eVkUPGlpSArl8JAVw',
-  },
-  {
-    title: 'Heartache Tonight',
-    artist: 'Eagles',
-    spotifyTrackId: '2bzgKuK3pVez40qUvo8sYr',
-  },
-  {
-    title: 'Heartaches By The Number',
-    artist: 'Guy Mitchell',
-    spotifyTrackId: '0mmveflIg5uKskiCOdRV3e',
-  },
-  {
-    title: 'Heartbreaker (feat. JAY-Z)',
-    artist: 'Mariah Carey',
-    spotifyTrackId: '0jsANwwkkHyyeNyuTFq2XO',
-  },
-  { title: 'Heartless', artist: 'The Weeknd', spotifyTrackId: '6bnF93Rx87YqUBLSgjiMU8' },
-  { title: 'Heat Waves', artist: 'Glass Animals', spotifyTrackId: '3USxtqRwSYz57Ewm6wWRMp' },
-  { title: 'Heaven', artist: 'Bryan Adams', spotifyTrackId: '7Ewz6bJ97vUqk5HdkvguFQ' },
-  {
-    title: 'Heaven Is A Place On Earth',
-    artist: 'Belinda Carlisle',
-    spotifyTrackId: '15vASgdsk0J4BrkZhVTxFG',
-  },
-  { title: 'Hello', artist: 'Lionel Richie', spotifyTrackId: '0mHyWYXmmCB9iQyK18m3FQ' },
-  { title: 'Hello', artist: 'Adele', spotifyTrackId: '3AuzZHPlohKLpildLyORSM' },
-  { title: 'Hello, Dolly!', artist: 'Louis Armstrong', spotifyTrackId: '1ahQsOwEQMuqh7DgUvYSGN' },
-  { title: 'Hello, Goodbye', artist: 'The Beatles', spotifyTrackId: '0hqjsgWRfMBf2s8xsvRq1M' },
-  { title: 'Hello, I Love You', artist: 'The Doors', spotifyTrackId: '3bWGaqVeYKMlLss40mPgNn' },
-  { title: 'Help Me, Rhonda', artist: 'The Beach Boys', spotifyTrackId: '4qvdAp6MMl59RjaTOti9QD' },
-  { title: 'Help!', artist: 'The Beatles', spotifyTrackId: '7DD7eSuYSC5xk2ArU62esN' },
-  {
-    title: 'Henry The VIII, I Am',
-    artist: "Herman's Hermits",
-    spotifyTrackId: '1vJeuxgfo1DnpfkjYrqBuz',
-  },
-  {
-    title: 'Here Comes the Hotstepper',
-    artist: 'iNi Kamoze',
-    spotifyTrackId: '6LiK3fDottplOUsLHfhXto',
-  },
-  {
-    title: 'Here I Go Again',
-    artist: 'Whitesnake',
-    spotifyTrackId: '6e5QLlTaBHxMhUDd8E19vs',
-  },
-  { title: 'Hero', artist: 'Mariah Carey', spotifyTrackId: '4FCb4CUbFCMNRkI6lYc1zI' },
-  { title: 'Hey Jude', artist: 'The Beatles', spotifyTrackId: '0aym2LBJBk9DAYuHHutrIl' },
-  { title: 'Hey Mickey', artist: 'Toni Basil', spotifyTrackId: '5G9KcZaxfCysfv4EryCB9b' },
-  { title: 'Hey Paula', artist: 'Paul & Paula', spotifyTrackId: '50tTePJn69dlpGxVfWWHWM' },
-  {
-    title: 'Hey There Delilah',
-    artist: "Plain White T's",
-    spotifyTrackId: '52mdL9k7mOCbKfL54Bw8Tq',
-  },
-  { title: 'Hey Ya!', artist: 'Outkast', spotifyTrackId: '3AszgPDZd9q0DpDFt4HFBy' },
-  {
-    title: 'Hey! Baby',
-    artist: 'Bruce Channel',
-    spotifyTrackId: '6T8enFgxOUn1bq1C37w59C',
-  },
-  {
-    title: 'Higher Love',
-    artist: 'Steve Winwood',
-    spotifyTrackId: '2HcokWTBGI5EjGeNVLgd8Q',
-  },
-  {
-    title: 'HIGHEST IN THE ROOM',
-    artist: 'Travis Scott',
-    spotifyTrackId: '3eekarcy7kvN4yt5ZFzltW',
-  },
-  {
-    title: "Hips Don't Lie (feat. Wyclef Jean)",
-    artist: 'Shakira',
-    spotifyTrackId: '3ZFTkvIE7kyPt6Nu3PEa7V',
-  },
-  { title: 'HISS', artist: 'Megan Thee Stallion', spotifyTrackId: '79AHPJd8upvNxyK2qQcY8J' },
-  { title: 'Hit the Road Jack', artist: 'Ray Charles', spotifyTrackId: '5yQFVCQkupKqTJecbXA7qT' },
-  {
-    title: 'Hold It Against Me',
-    artist: 'Britney Spears',
-    spotifyTrackId: '7Dyq1bhhjknLKEGg4k5NLr',
-  },
-  {
-    title: 'Hold On - Single Edit',
-    artist: 'Wilson Phillips',
-    spotifyTrackId: '6ZEH41nhWFoVbNZxHb24Ji',
-  },
-  {
-    title: 'Hold On To The Nights',
-    artist: 'Richard Marx',
-    spotifyTrackId: '3F2YXxSOC9dPmxXdrh6mYl',
-  },
-  {
-    title: 'Holding Back the Years',
-    artist: 'Simply Red',
-    spotifyTrackId: '0rfjkUk2KGZsOhDAhFbZtw',
-  },
-  { title: 'Hollaback Girl', artist: 'Gwen Stefani', spotifyTrackId: '0LzrhCZFXW94Y8nwtTuRlw' },
-  { title: 'Honey', artist: 'Bobby Goldsboro', spotifyTrackId: '2Qhvi6R73Zj3cpzRYzcAww' },
-  { title: 'Honey', artist: 'Mariah Carey', spotifyTrackId: '5NaOWLOmVjcA3M5spRATN9' },
-  {
-    title: 'Honky Tonk Women',
-    artist: 'The Rolling Stones',
-    spotifyTrackId: '3RZMzCvYsmJ0u2ioKTOsmJ',
-  },
-  { title: 'Hooked On A Feeling', artist: 'Blue Swede', spotifyTrackId: '5dJSrn1RKceOPDyb4DAe4w' },
-  {
-    title: 'Hot Child in the City - Extended Remix',
-    artist: 'Nick Gilder',
-    spotifyTrackId: '4F1DV1FrB68LNpmlvQs01N',
-  },
-  { title: 'Hot In Herre', artist: 'Nelly', spotifyTrackId: '04KTF78FFg8sOHC1BADqbY' },
-  {
-    title: 'Hot Stuff',
-    artist: 'Donna Summer',
-    spotifyTrackId: '2KNCPZQDalFIK3zZXlp6fd',
-  },
-  {
-    title: 'Hotel California',
-    artist: 'Eagles',
-    spotifyTrackId: '40riOy7x9W7GXjyGp4pjAv',
-  },
-  {
-    title: 'House of the Rising Sun',
-    artist: 'The Animals',
-    spotifyTrackId: '3XC7Jd6SfrQYKZJ6inyRHK',
-  },
-  {
-    title: 'How Am I Supposed to Live Without You',
-    artist: 'Michael Bolton',
-    spotifyTrackId: '2ES5c7aKmTgIxqsuRVNu89',
-  },
-  {
-    title: 'How Can You Mend A Broken Heart',
-    artist: 'Bee Gees',
-    spotifyTrackId: '1jy0RbDHyBMTupSdc98XbG',
-  },
-  { title: 'How Deep Is Your Love', artist: 'Bee Gees', spotifyTrackId: '2JoZzpdeP2G6Csfdq5aLXP' },
-  {
-    title: 'How Do U Want It / California Love',
-    artist: '2Pac feat. K-Ci & Jojo / feat. Dr. Dre & Roger Troutman',
-    spotifyTrackId: '7E2o6JBXMi3tz5QejAUBs2',
-  },
-  {
-    title: 'How Do You Talk To An Angel?',
-    artist: 'The Heights',
-    spotifyTrackId: '2QVHmiFTjFsHyxONRdbkcq',
-  },
-  { title: 'How Will I Know', artist: 'Whitney Houston', spotifyTrackId: '5tdKaKLnC4SgtDZ6RlWeal' },
-  { title: 'How You Remind Me', artist: 'Nickelback', spotifyTrackId: '0gmbgwZ8iqyMPmXefof8Yf' },
-  { title: 'Human', artist: 'The Human League', spotifyTrackId: '3gE2Af7Tgd1iZOO1xbTqoh' },
-  { title: 'HUMBLE.', artist: 'Kendrick Lamar', spotifyTrackId: '7KXjTSCq5nL1LoYtL7XAwS' },
-  {
-    title: 'Hypnotize',
-    artist: 'The Notorious B.I.G.',
-    spotifyTrackId: '6Tsu3OsuMz4KEGKbOYd6A0',
-  },
-  { title: 'I Adore Mi Amor', artist: 'Color Me Badd', spotifyTrackId: '05R2lE5g9hnaSmxIrUl3C0' },
-  { title: 'I Am Woman', artist: 'Helen Reddy', spotifyTrackId: '509QUFi9JI1gGHNbMu6B7T' },
-  { title: 'I Believe', artist: 'Fantasia', spotifyTrackId: '3EavRQ4NZTRzSyX82bxABG' },
-  { title: 'I Can Help', artist: 'Billy Swan', spotifyTrackId: '4oW1lGOw5Q5OLvoJv92qoE' },
-  {
-    title: 'I Can See Clearly Now - Edit',
-    artist: 'Johnny Nash',
-    spotifyTrackId: '0DcrhZ12WcCqruCs8ibXSf',
-  },
-  {
-    title: "I Can't Get Next To You",
-    artist: 'The Temptations',
-    spotifyTrackId: '6aL6pPBaTMGgM558mplSnj',
-  },
-  {
-    title: "I Can't Go For That (No Can Do)",
-    artist: 'Daryl Hall & John Oates',
-    spotifyTrackId: '1bwgAeL1xmQf5iGm8768zm',
-  },
-  {
-    title: "I Can't Help Myself (Sugar Pie Honey Bunch)",
-    artist: 'Four Tops',
-    spotifyTrackId: '0O7qtTVXI5fYIEJTNEZNxQ',
-  },
-  {
-    title: "I Can't Stop Loving You",
-    artist: 'Ray Charles',
-    spotifyTrackId: '79nJj5dMyTsUzKvN5jUXsJ',
-  },
-  {
-    title: "I Don't Have the Heart",
-    artist: 'James Ingram',
-    spotifyTrackId: '5In7xBveNACCRX2uWNoPuW',
-  },
-  { title: "I Don't Wanna Cry", artist: 'Mariah Carey', spotifyTrackId: '1hFtJ5rV3aAm58ErijHdFO' },
-  {
-    title: "I Don't Want to Miss a Thing",
-    artist: 'Aerosmith',
-    spotifyTrackId: '225xvV8r1yKMHErSWivnow',
-  },
-  { title: 'I Feel Fine', artist: 'The Beatles', spotifyTrackId: '5hhF25sWnZvXhimOHLjTRE' },
-  {
-    title: 'I Get Around (Mono)',
-    artist: 'The Beach Boys',
-    spotifyTrackId: '3v9xlH6BpmRbqL7hgNJhfT',
-  },
-  { title: 'I Got You Babe', artist: 'Sonny & Cher', spotifyTrackId: '2SWBfqj1FrS8t8z56G55rP' },
-  { title: 'I Gotta Feeling', artist: 'Black Eyed Peas', spotifyTrackId: '4vp2J1l5RD4gMZwGFLfRAu' },
-  {
-    title: 'I Had Some Help (Feat. Morgan Wallen)',
-    artist: 'Post Malone',
-    spotifyTrackId: '7221xIgOnuakPdLqT0F3nP',
-  },
-  {
-    title: 'I Hear A Symphony',
-    artist: 'The Supremes',
-    spotifyTrackId: '2V3zW8IBJL1Pykpl6ddOo7',
-  },
-  {
-    title: 'I Heard It Through The Grapevine',
-    artist: 'Marvin Gaye',
-    spotifyTrackId: '37j56IWzpplKE5zrlQRmxc',
-  },
-  {
-    title: 'I Just Called To Say I Love You',
-    artist: 'Stevie Wonder',
-    spotifyTrackId: '5WV5TvXnhGNd5eysAIdM2Q',
-  },
-  {
-    title: "I Just Can't Stop Loving You (feat. Siedah Garrett) ",
-    artist: 'Michael Jackson',
-    spotifyTrackId: '2fytePz8UsbUr8n33QBEcm',
-  },
-  {
-    title: 'I Just Want To Be Your Everything',
-    artist: 'Andy Gibb',
-    spotifyTrackId: '1v2lPBvWjO9ywTzIeULYCQ',
-  },
-  { title: 'I Kissed A Girl', artist: 'Katy Perry', spotifyTrackId: '005lwxGU1tms6HGELIcUv9' },
-  {
-    title: 'I Knew I Loved You',
-    artist: 'Savage Garden',
-    spotifyTrackId: '6nozDLxeL0TE4MS9GqYU1v',
-  },
-  {
-    title: 'I Knew You Were Waiting (For Me)',
-    artist: 'George Michael',
-    spotifyTrackId: '2XgDgIsVUOt9Lov5G4Wruy',
-  },
-  { title: 'I Like It', artist: 'Cardi B', spotifyTrackId: '58q2HKrzhC3ozto2nDdN4z' },
-  { title: 'I Like The Way', artist: 'Hi-Five', spotifyTrackId: '0flZtKtmkZMNqFF7V7Yfmu' },
-  {
-    title: 'I Love a Rainy Night',
-    artist: 'Eddie Rabbitt',
-    spotifyTrackId: '0zvNHIL7ci0ZzIoWU6RO2u',
-  },
-  {
-    title: "I Love Rock N' Roll",
-    artist: 'Joan Jett & The Blackhearts',
-    spotifyTrackId: '2Cdvbe2G4hZsnhNMKyGrie',
-  },
-  {
-    title: 'I Love You, I Honestly Love You',
-    artist: 'Olivia Newton-John',
-    spotifyTrackId: '5q8UoqDHPe9bU4R5bbvcJF',
-  },
-  {
-    title: 'I Remember Everything (feat. Kacey Musgraves)',
-    artist: 'Zach Bryan',
-    spotifyTrackId: '4KULAymBBJcPRpk1yO4dOG',
-  },
-  { title: 'I Shot The Sheriff', artist: 'Eric Clapton', spotifyTrackId: '10LWVafpsc00GjdXTQqITk' },
-  {
-    title: "I Still Haven't Found What I'm Looking For",
-    artist: 'U2',
-    spotifyTrackId: '6wpGqhRvJGNNXwWlPmkMyO',
-  },
-  { title: 'I Swear', artist: 'All-4-One', spotifyTrackId: '4loLrBWoRuZdb55ze3JxP0' },
-  {
-    title: 'I Think I Love You',
-    artist: 'The Partridge Family',
-    spotifyTrackId: '2hb6LFp0TwBjkhf37od4G3',
-  },
-  { title: "I Think We're Alone Now", artist: 'Tiffany', spotifyTrackId: '4uvjOKsp7mSjrDhWdkLPBY' },
-  {
-    title: 'I Wanna Dance with Somebody (Who Loves Me)',
-    artist: 'Whitney Houston',
-    spotifyTrackId: '2tUBqZG2AbRi7Q0BIrVrEj',
-  },
-  { title: 'I Wanna Love You', artist: 'Akon', spotifyTrackId: '4xAk8Lw82G3YoVSOdVAsBx' },
-  {
-    title: 'I Want To Be Wanted (Per Tutta La Vita)',
-    artist: 'Brenda Lee',
-    spotifyTrackId: '3J073InBcpiVVLIqmPdYXE',
-  },
-  {
-    title: 'I Want To Hold Your Hand',
-    artist: 'The Beatles',
-    spotifyTrackId: '4pbG9SUmWIvsROVLF0zF9s',
-  },
-  {
-    title: 'I Want to Know What Love Is',
-    artist: 'Foreigner',
-    spotifyTrackId: '1JLn8RhQzHz3qDqsChcmBl',
-  },
-  { title: 'I Want You Back', artist: 'The Jackson 5', spotifyTrackId: '4CbUtLtAcgLJ7mAIeooJS8' },
-  {
-    title: 'I Will Always Love You',
-    artist: 'Whitney Houston',
-    spotifyTrackId: '4eHbdreAnSOrDDsFfc4Fpm',
-  },
-  { title: 'I Will Follow Him', artist: 'Peggy March', spotifyTrackId: '3GQETOg4ZXyQ1jEFqfMoac' },
-  {
-    title: 'I Will Survive',
-    artist: 'Gloria Gaynor',
-    spotifyTrackId: '7cv28LXcjAC3GsXbUvXKbX',
-  },
-  {
-    title: 'I Wish - Single Edit',
-    artist: 'Stevie Wonder',
-    spotifyTrackId: '6Fk2d1IMWZ5yOqUOvLfKdg',
-  },
-  {
-    title: 'I Write the Songs - Single Edit',
-    artist: 'Barry Manilow',
-    spotifyTrackId: '3XmIxdK4YX8m94XWmwKheA',
-  },
-  {
-    title: "I'd Do Anything For Love (But I Won't Do That) - Single Edit",
-    artist: 'Meat Loaf',
-    spotifyTrackId: '391CwgcBxvUHmEKda2b5In',
-  },
-  {
-    title: "I'll Be Loving You (Forever)",
-    artist: 'New Kids On The Block',
-    spotifyTrackId: '1cy5US2dffz6QGBAIzOGkq',
-  },
-  {
-    title: "I'll Be Missing You",
-    artist: 'Puff Daddy & Faith Evans feat. 112',
-    spotifyTrackId: '3QHONiXGMGU3z68mQInncF',
-  },
-  { title: "I'll Be There", artist: 'The Jackson 5', spotifyTrackId: '5RdhBLmB4DyFHLglRrfx63' },
-  {
-    title:
-      "I'll Be There (feat. Trey Lorenz) - Live at MTV Unplugged, Kaufman Astoria Studios, New York - March 1992",
-    artist: 'Mariah Carey',
-    spotifyTrackId: '5jI2ApByK8KJeWVU39oRO4',
-  },
-  { title: "I'll Be There For You", artist: 'Bon Jovi', spotifyTrackId: '67YIAxlMlfSNmbnt83zGKh' },
-  {
-    title: "I'll Be Your Everything",
-    artist: 'Tommy Page',
-    spotifyTrackId: '4K0fYuC7qJx5P7Yh0Ch2zo',
-  },
-  {
-    title: "I'll Make Love To You",
-    artist: 'Boyz II Men',
-    spotifyTrackId: '61sQYdFNS6sEBYCyr1q5gn',
-  },
-  {
-    title: "I'll Take You There",
-    artist: 'The Staple Singers',
-    spotifyTrackId: '5YLnfy7R2kueN0BRPkjiEG',
-  },
-  { title: "I'm a Believer", artist: 'The Monkees', spotifyTrackId: '1CSLeVCXmetBh8IkTPMFdL' },
-  {
-    title: "I'm Gonna Miss You",
-    artist: 'Milli Vanilli',
-    spotifyTrackId: '1ffAMndLMFbKHpXuIDBwc1',
-  },
-  {
-    title: "I'm Leaving It Up To You",
-    artist: 'Dale & Grace',
-    spotifyTrackId: '3DuI3YfteR3qHsAGGTA7oV',
-  },
-  {
-    title: "I'm Real (Murder Mix)",
-    artist: 'Jennifer Lopez feat. Ja Rule',
-    spotifyTrackId: '6MLsahMK3VvH9NUwXOktdS',
-  },
-  { title: "I'm Sorry", artist: 'John Denver', spotifyTrackId: '5opuphTIXgUUClEs5mnIQN' },
-  {
-    title: "I'm Sorry",
-    artist: 'Brenda Lee',
-    spotifyTrackId: '5VyBNCSb8VXoSxD281PRod',
-  },
-  {
-    title: "I'm Telling You Now",
-    artist: 'Freddie & The Dreamers',
-    spotifyTrackId: '3qC08srhXBJ6DEQ7CwPMB0',
-  },
-  {
-    title: "I'm the One (feat. Justin Bieber, Quavo, Chance the Rapper & Lil Wayne)",
-    artist: 'DJ Khaled',
-    spotifyTrackId: '1jYiIOC5d6soxkJP81fxq2',
-  },
-  { title: "I'm Too Sexy", artist: 'Right Said Fred', spotifyTrackId: '2WElktskrNJEwgpp5Vouxk' },
-  {
-    title: "I'm Your Angel (with Céline Dion)",
-    artist: 'R. Kelly',
-    spotifyTrackId: '0QWFiyhOqFu9RP8qzP6z5L',
-  },
-  {
-    title: "I'm Your Baby Tonight",
-    artist: 'Whitney Houston',
-    spotifyTrackId: '3SmPl0CGxvvkQCrTv7edEE',
-  },
-  {
-    title: "I'm Your Boogie Man",
-    artist: 'KC & The Sunshine Band',
-    spotifyTrackId: '6mjlbRIgMTf2nqY0kq1rOJ',
-  },
-  {
-    title: "I've Been Thinking About You - New Recording",
-    artist: 'Londonbeat',
-    spotifyTrackId: '4SIQ6uaFiz5AvNEsvfplfL',
-  },
-  {
-    title: 'Ice Ice Baby - Radio Mix',
-    artist: 'Vanilla Ice',
-    spotifyTrackId: '2P4Y31mU1boKDnmAR4epnf',
-  },
-  {
-    title: "If I Can't Have You",
-    artist: 'Yvonne Elliman',
-    spotifyTrackId: '0QjPiq9Wka9I1b4uzWETYI',
-  },
-  {
-    title: 'If Wishes Came True',
-    artist: 'Sweet Sensation',
-    spotifyTrackId: '5gAdATsfINRIljv4LbrKX2',
-  },
-  {
-    title: "If You Don't Know Me by Now",
-    artist: 'Simply Red',
-    spotifyTrackId: '7DFawVSjI88xR9mjnWwURg',
-  },
-  {
-    title: 'If You Had My Love',
-    artist: 'Jennifer Lopez',
-    spotifyTrackId: '3x4yV0hW5Ve3TKhFkXSqFn',
-  },
-  { title: 'If You Leave Me Now', artist: 'Chicago', spotifyTrackId: '0KMGxYKeUzK9wc5DZCt3HT' },
-  {
-    title: 'If You Wanna Be Happy',
-    artist: 'Jimmy Soul',
-    spotifyTrackId: '7D97JnBT73FWUh9KmRvP9M',
-  },
-  { title: 'Imma Be', artist: 'Black Eyed Peas', spotifyTrackId: '5OiLJ8tjUPFiPX2gVM8fxJ' },
-  { title: 'In Da Club', artist: '50 Cent', spotifyTrackId: '4RY96Asd9IefaL3X4LOLZ8' },
-  { title: 'In My Feelings', artist: 'Drake', spotifyTrackId: '2G7V7zsVDxg1yRsu7Ew9RJ' },
-  {
-    title: 'In the Year 2525 (Exordium & Terminus)',
-    artist: 'Zager & Evans',
-    spotifyTrackId: '5UVsbUV0Kh033cqsZ5sLQi',
-  },
-  {
-    title: 'Incense And Peppermints',
-    artist: 'Strawberry Alarm Clock',
-    spotifyTrackId: '16iApoNZYaN6gbMtRRVV6B',
-  },
-  { title: 'Incomplete', artist: 'Sisqó', spotifyTrackId: '3w8Mw9GHYepoTWOSdiyosj' },
-  {
-    title: 'Independent Women Pt. 1',
-    artist: "Destiny's Child",
-    spotifyTrackId: '00IEQOqwlB0hngGY9zD3Bw',
-  },
-  {
-    title: 'Indian Reservation (The Lament of the Cherokee Reservation Indian)',
-    artist: 'Paul Revere & The Raiders',
-    spotifyTrackId: '3mDOHVY9MWZOTODSNF5GBj',
-  },
-  {
-    title: 'Industry Baby',
-    artist: "Lil' Nas X feat. Jack Harlow",
-    spotifyTrackId: '27NovPIUIRrOZoCHxABJwK',
-  },
-  { title: 'Informer', artist: 'Snow', spotifyTrackId: '2LjiPAQOVazT8sRyXL3XRs' },
-  {
-    title: 'Inside Your Heaven (Bonus Track)',
-    artist: 'Carrie Underwood',
-    spotifyTrackId: '3w8xlZi49MQuQkyyB5bi5e',
-  },
-  {
-    title: 'Invisible Touch',
-    artist: 'Genesis',
-    spotifyTrackId: '0xpBr84T3FTm9j4D1MdPtk',
-  },
-  { title: 'Irreplaceable', artist: 'Beyoncé', spotifyTrackId: '6RX5iL93VZ5fKmyvNXvF1r' },
-  {
-    title: "Is It Over Now? (Taylor's Version)",
-    artist: 'Taylor Swift',
-    spotifyTrackId: '1Iq8oo9XkmmvCQiGOfORiz',
-  },
-  { title: 'Island Girl', artist: 'Elton John', spotifyTrackId: '7i0WAy1ISQXAIuyBxbGoKe' },
-  {
-    title: 'Islands In the Stream',
-    artist: 'Dolly Parton',
-    spotifyTrackId: '6dnco8haegnJYtylV26cBq',
-  },
-  {
-    title: 'It Must Have Been Love - From the Film "Pretty Woman"',
-    artist: 'Roxette',
-    spotifyTrackId: '6kvoHl80mfCVTv7XnZkjQn',
-  },
-  { title: "It Wasn't Me", artist: 'Shaggy', spotifyTrackId: '3WkibOpDF7cQ5xntM1epyf' },
-  {
-    title: "It's All In The Game",
-    artist: 'Tommy Edwards',
-    spotifyTrackId: '01OFUZ8btJxFI6n5igQUqx',
-  },
-  { title: "It's Gonna Be Me", artist: '*NSYNC', spotifyTrackId: '2AW37v0bDyuOzGP3XnmFuA' },
-  { title: "It's My Party", artist: 'Lesley Gore', spotifyTrackId: '1Pq47iFLC5U7j8xeNiNcuS' },
-  { title: "It's Now or Never", artist: 'Elvis Presley', spotifyTrackId: '1XunTmhOcj3xwh4b8P3isX' },
-  {
-    title: "It's Only Make Believe",
-    artist: 'Conway Twitty',
-    spotifyTrackId: '6neFMH7Beu1uVcs3w65bNw',
-  },
-  {
-    title: "It's Still Rock and Roll to Me",
-    artist: 'Billy Joel',
-    spotifyTrackId: '64UioB4Nmwgn2f4cbIpAkl',
-  },
-  { title: "It's Too Late", artist: 'Carole King', spotifyTrackId: '12q3V8ShACq2PSWINMc2rC' },
-  {
-    title: 'Itsy Bitsy Teenie Weenie Yellow Polka-Dot Bikini',
-    artist: 'Brian Hyland',
-    spotifyTrackId: '3Aug2RunJbjGiz2CTtWu5l',
-  },
-  { title: 'Jack & Diane', artist: 'John Mellencamp', spotifyTrackId: '43btz2xjMKpcmjkuRsvxyg' },
-  {
-    title: "Jacob's Ladder",
-    artist: 'Huey Lewis & The News',
-    spotifyTrackId: '0huRoriGPIi0vSHFV2f3C9',
-  },
-  { title: "Jessie's Girl", artist: 'Rick Springfield', spotifyTrackId: '5RsUlxLto4NZbhJpqJbHfN' },
-  {
-    title: 'Jimmy Cooks (feat. 21 Savage)',
-    artist: 'Drake',
-    spotifyTrackId: '3F5CgOj3wFlRv51JsHbxhe',
-  },
-  { title: "Jive Talkin'", artist: 'Bee Gees', spotifyTrackId: '4t0Pj3iBnSCZv5pDEPNmzG' },
-  {
-    title: 'Johnny Angel',
-    artist: 'Shelley Fabares',
-    spotifyTrackId: '5j4CGIpT35ipZrF93ejrhl',
-  },
-  {
-    title: 'Joy To The World',
-    artist: 'Three Dog Night',
-    spotifyTrackId: '2ymeOsYijJz09LfKw3yM2x',
-  },
-  {
-    title: 'Joyride',
-    artist: 'Roxette',
-    spotifyTrackId: '3Skwc4sh1QHUGcWrFBFWSF',
-  },
-  {
-    title: 'Judy In Disguise (With Glasses)',
-    artist: 'John Fred and His Playboy Band',
-    spotifyTrackId: '0QvMXCVPXSSWx2NB9ewx6O',
-  },
-  { title: 'Jump', artist: 'Van Halen', spotifyTrackId: '6Fba9RZtC6vTY814JToDtP' },
-  { title: 'Jump', artist: 'Kris Kross', spotifyTrackId: '3fi7RPKkn7PMEFX7tBFUFK' },
-  { title: 'Just Dance', artist: 'Lady Gaga', spotifyTrackId: '2x7MyWybabEz6Y6wvHuwGE' },
-  {
-    title: 'Just Give Me a Reason (feat. Nate Ruess)',
-    artist: 'P!nk',
-    spotifyTrackId: '1mKXFLRA179hdOWQBwUk9e',
-  },
-  {
-    title: 'Just My Imagination (Running Away With Me)',
-    artist: 'The Temptations',
-    spotifyTrackId: '39Bd345OWEhRNyfayhp9gv',
-  },
-  { title: 'Just the Way You Are', artist: 'Bruno Mars', spotifyTrackId: '7BqBn9nzAq8spo5e7cZ0dJ' },
-  { title: 'Justify My Love', artist: 'Madonna', spotifyTrackId: '6BWRvw630R8z2vNMok6quI' },
-  { title: 'Kansas City', artist: 'Wilbert Harrison', spotifyTrackId: '0Z1UZtbNvJPXthNyvBXknL' },
-  { title: 'Karma Chameleon', artist: 'Culture Club', spotifyTrackId: '3otx5SswvH4GNOQfEm4gdt' },
-  {
-    title: 'Keep on Loving You',
-    artist: 'REO Speedwagon',
-    spotifyTrackId: '4rcHWl68ai6KvpXlc8vbnE',
-  },
-  {
-    title: "Keep On Truckin'",
-    artist: 'Eddie Kendricks',
-    spotifyTrackId: '7xeTutX5iU2V769vZHPZ0Y',
-  },
-  { title: 'Kill Bill', artist: 'SZA', spotifyTrackId: '3OHfY25tqY28d16oZczHc8' },
-  {
-    title: 'Killing Me Softly With His Song',
-    artist: 'Roberta Flack',
-    spotifyTrackId: '3gsCAGsWr6pUm1Vy7CPPob',
-  },
-  { title: 'Kind of a Drag', artist: 'The Buckinghams', spotifyTrackId: '3RnsnfrquBAy6kIejQzc2C' },
-  { title: 'Kiss', artist: 'Prince', spotifyTrackId: '5uBOaCN5vDdk9JqsefjQSh' },
-  {
-    title: 'Kiss and Say Goodbye',
-    artist: 'The Manhattans',
-    spotifyTrackId: '0rHiGIRASJq8snJGFJMpnI',
-  },
-  { title: 'Kiss from a Rose', artist: 'Seal', spotifyTrackId: '0z5E34e7ZT3XKMYQNXh6tH' },
-  {
-    title: 'Kiss Kiss (feat. T-Pain)',
-    artist: 'Chris Brown',
-    spotifyTrackId: '6K1ppbXeslg4ATviINa6rO',
-  },
-  {
-    title: 'Kiss on My List',
-    artist: 'Daryl Hall & John Oates',
-    spotifyTrackId: '2uxlGf62lgfqUdIVHMnyKS',
-  },
-  { title: 'Kiss You All Over', artist: 'Exile', spotifyTrackId: '2DizXuCkbDsLcGYu0XtE1I' },
-  {
-    title: 'Knock on Wood - 7" Edit',
-    artist: 'Amii Stewart',
-    spotifyTrackId: '7vMRj40Rw8PPgZiDcbyUdj',
-  },
-  {
-    title: 'Knock Three Times',
-    artist: 'Tony Orlando & Dawn',
-    spotifyTrackId: '6gvfXd7pEUSPuNEMWwOJUH',
-  },
-  { title: 'Kokomo', artist: 'The Beach Boys', spotifyTrackId: '1CnMKxIztQzO9DM9qADbP8' },
-  { title: 'Kung Fu Fighting', artist: 'Carl Douglas', spotifyTrackId: '40NRm1ZLvZpUSCUXAGGZ8J' },
-  {
-    title: 'Kyrie',
-    artist: 'Mr. Mister',
-    spotifyTrackId: '5BXj1QDRU77J1ngVavG1tI',
-  },
-  { title: 'La Bamba', artist: 'Los Lobos', spotifyTrackId: '0uMMLry3hzWGn3q3loqMkm' },
-  { title: 'Lady', artist: 'Kenny Rogers', spotifyTrackId: '5Pj5zrq2nbKcAekH1AxbrO' },
-  { title: 'Lady Marmalade', artist: 'Patti LaBelle', spotifyTrackId: '3GGcwG519BTMdvMeFy7meT' },
-  {
-    title: 'Lady Marmalade - From "Moulin Rouge" Soundtrack',
-    artist: 'Christina Aguilera',
-    spotifyTrackId: '7GQqj9jRtDkMp8zByehXQI',
-  },
-  { title: 'Laffy Taffy', artist: 'D4L', spotifyTrackId: '2ajhenDRiiAnCHHjsIOHhJ' },
-  {
-    title: 'Last Friday Night (T.G.I.F.)',
-    artist: 'Katy Perry',
-    spotifyTrackId: '3avYqdwHKEq8beXbeWCKqJ',
-  },
-  { title: 'Last Night', artist: 'Morgan Wallen', spotifyTrackId: '59uQI0PADDKeE6UZDTJEe8' },
-  {
-    title: 'Last Train to Clarksville',
-    artist: 'The Monkees',
-    spotifyTrackId: '3dgyDSKfzaNBtlZuUxc8IW',
-  },
-  { title: 'Lately - Main Edit', artist: 'Divine', spotifyTrackId: '7e8cmqCqhyd9f6Nvd2Y3ON' },
-  {
-    title: 'Laughter In The Rain',
-    artist: 'Neil Sedaka',
-    spotifyTrackId: '2ozTcQyZQmm9tSmc4VZfwU',
-  },
-  { title: 'Le Freak - Edit', artist: 'CHIC', spotifyTrackId: '6Lphpr9Z6H282Sguw0dUWa' },
-  {
-    title: 'Leader Of The Pack',
-    artist: 'The Shangri-Las',
-    spotifyTrackId: '6O5PIO5pAWxdoxvaUFQ02G',
-  },
-  { title: 'Lean Back', artist: 'Terror Squad', spotifyTrackId: '2Ozc0me9PV5vlt8cokwdvI' },
-  { title: 'Lean on Me', artist: 'Bill Withers', spotifyTrackId: '3M8FzayQWtkvOhqMn2V4T2' },
-  { title: 'Lean on Me', artist: 'Club Nouveau', spotifyTrackId: '6HhKj3GiPxDI6ME9Pjx0YU' },
-  { title: 'Leave The Door Open', artist: 'Bruno Mars', spotifyTrackId: '4pryE6cN2gFL1FVF5fYINl' },
-  {
-    title: 'Leaving on a Jet Plane',
-    artist: 'Peter, Paul and Mary',
-    spotifyTrackId: '6ZSTinOwx5dKFYc6iYyGDn',
-  },
-  { title: 'Let It Be', artist: 'The Beatles', spotifyTrackId: '4qsVPnhbvEooD1bSNqvvh0' },
-  { title: 'Let Me Love You', artist: 'Mario', spotifyTrackId: '3ibKnFDaa3GhpPGlOUj7ff' },
-  {
-    title: 'Let Your Love Flow',
-    artist: 'The Bellamy Brothers',
-    spotifyTrackId: '064SVQsmWl5EF0zahmzkQk',
-  },
-  {
-    title: "Let's Dance",
-    artist: 'David Bowie',
-    spotifyTrackId: '0F1O42piteiHP3dRvKUz6p',
-  },
-  {
-    title: "Let's Do It Again",
-    artist: 'The Staple Singers',
-    spotifyTrackId: '1YQIOrrOg1UDqZCGcZWQ0a',
-  },
-  {
-    title: "Let's Get It On",
-    artist: 'Marvin Gaye',
-    spotifyTrackId: '101CzL9V7HGxsrbtEd2YJC',
-  },
-  {
-    title: "Let's Go Crazy",
-    artist: 'Prince',
-    spotifyTrackId: '21Zwa4cIGqMUE3kRAhQyFB',
-  },
-  {
-    title: 'Let\'s Hear It for the Boy - From "Footloose" Original Soundtrack',
-    artist: 'Deniece Williams',
-    spotifyTrackId: '4VyU9Tg4drTj2mOUZHSK2u',
-  },
-  { title: "Let's Stay Together", artist: 'Al Green', spotifyTrackId: '63xdwScd1Ai1GigAwQxE8y' },
-  { title: 'Life Goes On', artist: 'BTS', spotifyTrackId: '5FVbvttjEvQ8r2BgUcJgNg' },
-  { title: 'Light My Fire', artist: 'The Doors', spotifyTrackId: '7aghcqWLL9hGMIb0VFdbyD' },
-  { title: "Lightnin' Strikes", artist: 'Lou Christie', spotifyTrackId: '2OQhFe5jjTnMWaaDRZxz31' },
-  { title: 'Like A G6', artist: 'Far East Movement', spotifyTrackId: '4DvhkX2ic4zWkQeWMwQ2qf' },
-  { title: 'Like a Prayer', artist: 'Madonna', spotifyTrackId: '2v7ywbUzCgcVohHaKUcacV' },
-  { title: 'Like a Virgin', artist: 'Madonna', spotifyTrackId: '1ZPlNanZsJSPK5h9YZZFbZ' },
-  { title: 'Like Crazy', artist: 'Jimin', spotifyTrackId: '3Ua0m0YmEjrMi9XErKcNiR' },
-  { title: 'Like That', artist: 'Future', spotifyTrackId: '2tudvzsrR56uom6smgOcSf' },
-  {
-    title: 'Listen To What The Man Said',
-    artist: 'Wings',
-    spotifyTrackId: '3hFYMKAolw99FZMXEGgGwv',
-  },
-  {
-    title: 'Listen to Your Heart - Swedish Single Edit',
-    artist: 'Roxette',
-    spotifyTrackId: '31u1aA9JV0nqTF9bEszY1p',
-  },
-  { title: 'Little Star', artist: 'The Elegants', spotifyTrackId: '3c7KT5CN8uYRaK3xThhdYt' },
-  { title: 'Live to Tell', artist: 'Madonna', spotifyTrackId: '0OjKjWYMF8nrcHX8kj8D45' },
-  { title: 'Live Your Life', artist: 'T.I.', spotifyTrackId: '3jlbL2OTD5YmIunYzgQTAN' },
-  {
-    title: "Livin' la Vida Loca",
-    artist: 'Ricky Martin',
-    spotifyTrackId: '0Ph6L4l8dYUuXFmb71Ajnd',
-  },
-  { title: "Livin' On A Prayer", artist: 'Bon Jovi', spotifyTrackId: '37ZJ0p5Jm13JPevGcx4SkF' },
-  { title: 'Locked out of Heaven', artist: 'Bruno Mars', spotifyTrackId: '3w3y8KPTfNeOKPiqUTakBh' },
-  {
-    title: 'Lollipop',
-    artist: "Lil' Wayne feat. Static Major",
-    spotifyTrackId: '4P7VFiaZb3xrXoqGwZXC3J',
-  },
-  { title: 'London Bridge', artist: 'Fergie', spotifyTrackId: '7jRoWfRlLnGYEIEn4t4kbq' },
-  { title: 'Lonely Boy', artist: 'Paul Anka', spotifyTrackId: '4kh2S9hRpPvoF9JkwZcYGN' },
-  { title: 'Look Away', artist: 'Chicago', spotifyTrackId: '5VpJrXw5GRP0tSFXAzrRM5' },
-  {
-    title: 'Look What You Made Me Do',
-    artist: 'Taylor Swift',
-    spotifyTrackId: '1P17dC1amhFzptugyAO7Il',
-  },
-  {
-    title: 'Looks Like We Made It',
-    artist: 'Barry Manilow',
-    spotifyTrackId: '3QqO9FxVrikwo7kS5ls3kQ',
-  },
-  { title: 'Lose Control', artist: 'Teddy Swims', spotifyTrackId: '6usohdchdzW9oML7VC4Uhk' },
-  {
-    title: 'Lose You To Love Me',
-    artist: 'Selena Gomez',
-    spotifyTrackId: '4l0Mvzj72xxOpRrp6h8nHi',
-  },
-  {
-    title: 'Lose Yourself - From "8 Mile" Soundtrack',
-    artist: 'Eminem',
-    spotifyTrackId: '3u0W3gJQNV5gegMmntzby8',
-  },
-  {
-    title: "Lost In Emotion (Can't Find Myself)",
-    artist: 'Lisa Lisa & Cult Jam',
-    spotifyTrackId: '4TEdVBAALhBv5bKrOpwSbc',
-  },
-  { title: 'Lost in Your Eyes', artist: 'Debbie Gibson', spotifyTrackId: '6PMDILZiYo4YzMBbE0dGK9' },
-  { title: 'Love Bites', artist: 'Def Leppard', spotifyTrackId: '3Dfy8YIxq89i84t108TvMi' },
-  {
-    title: 'Love Child',
-    artist: 'Diana Ross & The Supremes',
-    spotifyTrackId: '69EILuL34ggLWQsa626bes',
-  },
-  {
-    title: 'Love Hangover',
-    artist: 'Diana Ross',
-    spotifyTrackId: '3gbnQ7TJEx1EI9chRZXVXl',
-  },
-  {
-    title: 'Love in This Club (feat. Young Jeezy)',
-    artist: 'Usher',
-    spotifyTrackId: '5j0McHPthKpOXRr3fBq8M0',
-  },
-  { title: 'Love is Blue', artist: 'Paul Mauriat', spotifyTrackId: '0tS7Mli5NtOcpeCqC25GWd' },
-  {
-    title: "Love Is Here And Now You're Gone",
-    artist: 'The Supremes',
-    spotifyTrackId: '4KUGhh0lsJ8GxQJ1Um8UrB',
-  },
-  {
-    title: 'Love Machine Pt. 1',
-    artist: 'The Miracles',
-    spotifyTrackId: '1b833AsiKCEhLLxmdQu9Hw',
-  },
-  { title: 'Love Me Do', artist: 'The Beatles', spotifyTrackId: '3VbGCXWRiouAq8VyMYN2MI' },
-  { title: 'Love Rollercoaster', artist: 'Ohio Players', spotifyTrackId: '1hRDHWWealh2Pk3fnpIe75' },
-  { title: 'Love Somebody', artist: 'Morgan Wallen', spotifyTrackId: '7hR22TOX3RorxJPcsz5Wbo' },
-  { title: 'Love Takes Time', artist: 'Mariah Carey', spotifyTrackId: '48l7PNpT2fBoT4cdLW6EzP' },
-  { title: 'Love The Way You Lie', artist: 'Eminem', spotifyTrackId: '15JINEqzVMv3SvJTAXAKED' },
-  {
-    title: 'Love Theme from Romeo & Juliet',
-    artist: 'Henry Mancini',
-    spotifyTrackId: '0oFkaYVT0tVb9v5sOaMvJv',
-  },
-  { title: 'Love Train', artist: "The O'Jays", spotifyTrackId: '28285KFbyCq8sJofn58qlD' },
-  {
-    title: 'Love Will Keep Us Together',
-    artist: 'Captain & Tennille',
-    spotifyTrackId: '4pCNJwixy2ImFncaPY2yE2',
-  },
-  {
-    title: 'Love Will Lead You Back',
-    artist: 'Taylor Dayne',
-    spotifyTrackId: '3HLgjHYaEhKFvV4SSvI9Te',
-  },
-  {
-    title: 'Love Will Never Do (Without You)',
-    artist: 'Janet Jackson',
-    spotifyTrackId: '0DUOrTcD58Kt7cUrSoNUq9',
-  },
-  { title: 'Love You Inside Out', artist: 'Bee Gees', spotifyTrackId: '73V1mhbDb7K0lqlHB82iN5' },
-  { title: 'Love Yourself', artist: 'Justin Bieber', spotifyTrackId: '50kpGaPAhYJ3sGmk6vplg0' },
-  {
-    title: "Love's Theme",
-    artist: 'Love Unlimited Orchestra',
-    spotifyTrackId: '4VpLTZ81muzN8ixvIvhmAt',
-  },
-  { title: 'Lovin On Me', artist: 'Jack Harlow', spotifyTrackId: '4xhsWYTOGcal8zt0J161CU' },
-  { title: "Lovin' You", artist: 'Minnie Riperton', spotifyTrackId: '4twhYPDyCP6ICeW3TtQVxP' },
-  { title: 'Low (feat. T-Pain)', artist: 'Flo Rida', spotifyTrackId: '0CAfXk7DXMnon4gLudAp7J' },
-  {
-    title: 'Lucy In The Sky With Diamonds',
-    artist: 'Elton John',
-    spotifyTrackId: '13JsYnkF16pHKuOFG6uI1C',
-  },
-  {
-    title: 'Macarena (Bayside Boys Mix)',
-    artist: 'Los del Río',
-    spotifyTrackId: '7obdw7ZGr6l1GqSBkFiY11',
-  },
-  {
-    title: 'MacArthur Park',
-    artist: 'Donna Summer',
-    spotifyTrackId: '42tYHqMxXxXHAAWqLaoOfQ',
-  },
-  { title: 'Mack the Knife', artist: 'Bobby Darin', spotifyTrackId: '0YTgZJfVLmJ0b8XAMZKRKg' },
-  {
-    title: 'Maggie May',
-    artist: 'Rod Stewart',
-    spotifyTrackId: '6G9C2SzXsGLkoknwoWI9C8',
-  },
-  { title: 'Magic', artist: 'Olivia Newton-John', spotifyTrackId: '1H5A1GNZUv4eUf1t9RFdid' },
-  { title: 'Make It with You', artist: 'Bread', spotifyTrackId: '11gfsr13S8qsfN48IILcHU' },
-  { title: 'Makes Me Wonder', artist: 'Maroon 5', spotifyTrackId: '1lHXlGlve5Zx8tXLhyjDwM' },
-  {
-    title: 'Mama Told Me (Not To Come)',
-    artist: 'Three Dog Night',
-    spotifyTrackId: '1CAO7hiNOxJRPW4nFv2aRO',
-  },
-  {
-    title: 'Man in the Mirror ',
-    artist: 'Michael Jackson',
-    spotifyTrackId: '3c7Ctlw9MKlIQPxRH3fOTt',
-  },
-  { title: 'Mandy', artist: 'Barry Manilow', spotifyTrackId: '6iXQrhhgBisdfvS34EMTZ3' },
-  {
-    title: 'Maneater',
-    artist: 'Daryl Hall & John Oates',
-    spotifyTrackId: '7j74lucZ59vqN67Ipe2ZcY',
-  },
-  { title: 'Maniac', artist: 'Michael Sembello', spotifyTrackId: '0QKfiqpEU4h9ycPSzIFwYe' },
-  {
-    title: 'Maria Maria (feat. The Product G&B)',
-    artist: 'Santana',
-    spotifyTrackId: '3XKIUb7HzIF1Vu9usunMzc',
-  },
-  { title: 'Me and Bobby McGee', artist: 'Janis Joplin', spotifyTrackId: '1IqFh00G2kvvMm8pRMpehA' },
-  { title: 'Me and Mrs. Jones', artist: 'Billy Paul', spotifyTrackId: '6Ro2z4RtAUew9Kz2HZWZUi' },
-  { title: 'Miami Vice Theme', artist: 'Jan Hammer', spotifyTrackId: '2UoF4VlADu3IkPCR6LGkpS' },
-  {
-    title: 'Michael (Row The Boat Ashore)',
-    artist: 'The Highwaymen',
-    spotifyTrackId: '25TcXSVruQ3Oox1RyqRCFf',
-  },
-  {
-    title: 'Midnight Train to Georgia',
-    artist: 'Gladys Knight & The Pips',
-    spotifyTrackId: '1PTfB3maUTw9LrpjuoqKSo',
-  },
-  { title: 'Miss You', artist: 'The Rolling Stones', spotifyTrackId: '6pS94GqlFrCy82GA1b7TrI' },
-  { title: 'Miss You Much', artist: 'Janet Jackson', spotifyTrackId: '4r5VaK6H1bq0cTGPMTN97Z' },
-  { title: 'Missing You', artist: 'John Waite', spotifyTrackId: '4XZKqYHM8CvebWksalLCrS' },
-  { title: 'MMMBop', artist: 'Hanson', spotifyTrackId: '2HNZxbvFvasRtlOJ9M6DgR' },
-  {
-    title: 'Mo Money Mo Problems (feat. Puff Daddy & Mase)',
-    artist: 'The Notorious B.I.G.',
-    spotifyTrackId: '4INDiWSKvqSKDEu7mh8HFz',
-  },
-  {
-    title: 'Monday, Monday',
-    artist: 'The Mamas & The Papas',
-    spotifyTrackId: '3EFb1qDgIqf9MegIryKtDj',
-  },
-  {
-    title: 'Money For Nothing - Edit',
-    artist: 'Dire Straits',
-    spotifyTrackId: '1hXtY9yeMAcxZlBvWzjwJn',
-  },
-  { title: 'Money Maker', artist: 'Ludacris', spotifyTrackId: '2JpUkUR0OsOlUUfm6iS8ic' },
-  {
-    title: 'Monkey',
-    artist: 'George Michael',
-    spotifyTrackId: '57s9IreDisp8yqCrywEiQ4',
-  },
-  {
-    title: 'Monster Mash',
-    artist: `Bobby 'Boris' Pickett & The Crypt-Kickers`,
-    spotifyTrackId: '0xxZY5C9xxij3D1HkzbnfC',
-  },
-  {
-    title: 'Montero (Call Me By Your Name)',
-    artist: "Lil' Nas X",
-    spotifyTrackId: '67BtfxlNbhBmCDR2L2l8qd',
-  },
-  { title: 'Mony Mony - Live', artist: 'Billy Idol', spotifyTrackId: '34g39urr0UaTMVltUI9jp4' },
-  { title: 'Mood (feat. iann dior)', artist: '24kGoldn', spotifyTrackId: '4jPy3l0RUwlUI9T5XHBW2m' },
-  { title: 'Moody River', artist: 'Pat Boone', spotifyTrackId: '3JhwxN5fPtpWh8O4qCBjYO' },
-  { title: 'More Than Words - Edit', artist: 'Extreme', spotifyTrackId: '7dVX6T7DWM2ten6pxdYkv2' },
-  {
-    title: 'Morning Train (Nine to Five)',
-    artist: 'Sheena Easton',
-    spotifyTrackId: '6CEKntwndUlmWhSRflWA5X',
-  },
-  {
-    title: 'Mother-in-Law',
-    artist: 'Ernie K-Doe',
-    spotifyTrackId: '6rN6xdKMu0dWnsKNePZItp',
-  },
-  {
-    title: 'Moves Like Jagger - Studio Recording From "The Voice" Performance',
-    artist: 'Maroon 5',
-    spotifyTrackId: '7LcfRTgAVTs5pQGEQgUEzN',
-  },
-  { title: 'Mr. Blue', artist: 'The Fleetwoods', spotifyTrackId: '6bnFjTW3EnMG4BwreDnSHK' },
-  { title: 'Mr. Custer', artist: 'Larry Verne', spotifyTrackId: '4NiaY83tGozcx5lKsNNXdQ' },
-  { title: 'Mr. Lonely', artist: 'Bobby Vinton', spotifyTrackId: '5KG2ahk1cONbHvg3dBdTbx' },
-  { title: 'Mr. Tambourine Man', artist: 'The Byrds', spotifyTrackId: '2HCaIYjkvWSZzaSKUoOh3d' },
-  {
-    title: "Mrs. Brown, You've Got A Lovely Daughter",
-    artist: "Herman's Hermits",
-    spotifyTrackId: '1GJCJpKYfzRUsYnSRy4Mfz',
-  },
-  { title: 'Mrs. Robinson', artist: 'Simon & Garfunkel', spotifyTrackId: '3CJ60azPXtva8OdBsxSA7a' },
-  { title: 'Ms. Jackson - Radio Mix', artist: 'Outkast', spotifyTrackId: '4hTZNimQzSOpFI1NljSFEA' },
-  { title: 'Music', artist: 'Madonna', spotifyTrackId: '2BcOZ4vOeu2qZowIHrvTYy' },
-  { title: 'My All', artist: 'Mariah Carey', spotifyTrackId: '3RSpK5Y0y5tl25qvssrwJ6' },
-  { title: 'My Boo', artist: 'Usher', spotifyTrackId: '68vgtRHr7iZHpzGpon6Jlo' },
-  { title: "My Boyfriend's Back", artist: 'The Angels', spotifyTrackId: '5NiFSI8iIDtVm1NCwdYrHS' },
-  {
-    title: 'My Ding-A-Ling - Live At Lanchester Arts Festival,1972',
-    artist: 'Chuck Berry',
-    spotifyTrackId: '2R1CGhRSsNFwCsqRxYAZK7',
-  },
-  {
-    title: 'My Eyes Adored You',
-    artist: 'Frankie Valli',
-    spotifyTrackId: '2yDQVcj26tpi9IUJhw9xDs',
-  },
-  { title: 'My Girl', artist: 'The Temptations', spotifyTrackId: '6jWkZvd1URGktyTTwcpPpB' },
-  { title: 'My Guy', artist: 'Mary Wells', spotifyTrackId: '4591VqUIXysNlmI5NcAIUd' },
-  {
-    title: 'My Heart Has A Mind Of Its Own',
-    artist: 'Connie Francis',
-    spotifyTrackId: '5HAmwYFcUysSXUhKHVNUxp',
-  },
-  {
-    title: 'My Heart Will Go On - Love Theme from "Titanic"',
-    artist: 'Céline Dion',
-    spotifyTrackId: '33LC84JgLvK2KuW43MfaNq',
-  },
-  {
-    title: 'My Life Would Suck Without You',
-    artist: 'Kelly Clarkson',
-    spotifyTrackId: '4Dm32oO01YpIubCHaAtKkN',
-  },
-  { title: 'My Love', artist: 'Petula Clark', spotifyTrackId: '2j1GzI1DwpEado5Rjw0wxk' },
-  { title: 'My Love', artist: 'Wings', spotifyTrackId: '0wvlN2D0MHQioAoo9h2v78' },
-  {
-    title: 'My Love (feat. T.I.)',
-    artist: 'Justin Timberlake',
-    spotifyTrackId: '2iWljCivLjWnLkwItPZdRV',
-  },
-  { title: 'My Prerogative', artist: 'Bobby Brown', spotifyTrackId: '5N6Ut5FG8iOuM1w7vTXbxr' },
-  {
-    title: 'My Sharona',
-    artist: 'The Knack',
-    spotifyTrackId: '4MsRRf9TVTzPWLNRfkHWqh',
-  },
-  { title: 'My Sweet Lord', artist: 'George Harrison', spotifyTrackId: '0qdQUeKVyevrbKhAo0ibxS' },
-  { title: 'My Universe', artist: 'Coldplay', spotifyTrackId: '3FeVmId7tL5YN8B7R3imoM' },
-  {
-    title: 'Na Na Hey Hey Kiss Him Goodbye',
-    artist: 'Steam',
-    spotifyTrackId: '1mrSHPNTDdMkXpR4BiSiD7',
-  },
-  { title: 'Need You Tonight', artist: 'INXS', spotifyTrackId: '5eU8qMd0TpaLqTGDZJaLDs' },
-  {
-    title: 'Nel Blu Dipinto Di Blu',
-    artist: 'Domenico Modugno',
-    spotifyTrackId: '5zyrEv4F3FaLECI8TOKpFM',
-  },
-  {
-    title: 'Never Gonna Give You Up',
-    artist: 'Rick Astley',
-    spotifyTrackId: '7GhIk7Il098yCjg4BQjzvb',
-  },
-  {
-    title: 'New Kid in Town',
-    artist: 'Eagles',
-    spotifyTrackId: '6Zyz8lsnMFpIrCTuvGurCB',
-  },
-  {
-    title: 'Nice & Slow',
-    artist: 'Usher',
-    spotifyTrackId: '5L0KDoZklMgs9GPoonneEl',
-  },
-  { title: 'Nice For What', artist: 'Drake', spotifyTrackId: '3CA9pLiwRIGtUBiMjbZmRw' },
-  {
-    title: 'Night Fever - From "Saturday Night Fever" Soundtrack',
-    artist: 'Bee Gees',
-    spotifyTrackId: '5KgbyD2lQQlIupAaPjgiXg',
-  },
-  { title: 'No Diggity', artist: 'Blackstreet', spotifyTrackId: '6D4XtE6FdjsCYFOmHECj8R' },
-  {
-    title: 'No More Tears (Enough Is Enough)',
-    artist: 'Donna Summer',
-    spotifyTrackId: '2WOxDSMVbPy8rsK9oMtWuj',
-  },
-  { title: 'No One', artist: 'Alicia Keys', spotifyTrackId: '6IwKcFdiRQZOWeYNhUiWIv' },
-  { title: 'No Scrubs', artist: 'TLC', spotifyTrackId: '1KGi9sZVMeszgZOWivFpxs' },
-  { title: 'Not Afraid', artist: 'Eminem', spotifyTrackId: '7Ie9W94M7OjPoZVV216Xus' },
-  { title: 'Not Like Us', artist: 'Kendrick Lamar', spotifyTrackId: '6AI3ezQ4o3HUoP6Dhudph3' },
-  {
-    title: "Nothin' on You (feat. Bruno Mars)",
-    artist: 'B.o.B',
-    spotifyTrackId: '59dLtGBS26x7kc0rHbaPrq',
-  },
-  {
-    title: 'Nothing Compares 2 U',
-    artist: "Sinéad O'Connor",
-    spotifyTrackId: '3nvuPQTw2zuFAVuLsC9IYQ',
-  },
-  {
-    title: 'Nothing From Nothing',
-    artist: 'Billy Preston',
-    spotifyTrackId: '5n9QhVJS3XSjSc9kNJNEIU',
-  },
-  {
-    title: "Nothing's Gonna Stop Us Now",
-    artist: 'Starship',
-    spotifyTrackId: '3X7uFMzJrEE0sxn62qd8Ch',
-  },
-  { title: 'Ode To Billie Joe', artist: 'Bobbie Gentry', spotifyTrackId: '4FdDorlbJTVHcH3djLbIfn' },
-  { title: 'Oh Girl', artist: 'The Chi-Lites', spotifyTrackId: '0cFlXjTxFdMGGPfLVpt3Wv' },
-  { title: 'Oh Sheila', artist: 'Ready For The World', spotifyTrackId: '4PKBGe2H9DARoYZLQND63N' },
-  { title: 'Oh, Pretty Woman', artist: 'Roy Orbison', spotifyTrackId: '48i055G1OT5KxGGftwFxWy' },
-  {
-    title: 'Old Town Road',
-    artist: "Lil' Nas X feat. Billy Ray Cyrus",
-    spotifyTrackId: '2YpeDb67231RjR0MgVLzsG',
-  },
-  { title: 'OMG (feat. will.i.am)', artist: 'Usher', spotifyTrackId: '1bM50INir8voAkVoKuvEUI' },
-  { title: 'On Bended Knee', artist: 'Boyz II Men', spotifyTrackId: '7MYmo0JJJDmu4MZTSAF9y3' },
-  { title: 'On My Own', artist: 'Patti LaBelle', spotifyTrackId: '5HrVgmO1govSOrPUehW1VV' },
-  { title: 'One Bad Apple', artist: 'The Osmonds', spotifyTrackId: '50UoJUrslRVqG0cg6uboyn' },
-  { title: 'One Dance', artist: 'Drake', spotifyTrackId: '1zi7xx7UVEFkmKfv06H8x0' },
-  { title: 'One More Night', artist: 'Maroon 5', spotifyTrackId: '4XNrMwGx1SqP01sqkGTDmo' },
-  {
-    title: 'One More Night',
-    artist: 'Phil Collins',
-    spotifyTrackId: '6fkvIT9KFKxO8poBeKfaEf',
-  },
-  { title: 'One More Try', artist: 'George Michael', spotifyTrackId: '4tcRxE0u4DESAjidCNYD2i' },
-  { title: 'One More Try', artist: 'Timmy T', spotifyTrackId: '2drQ6wg2hdl6RDslarifh8' },
-  {
-    title: 'One of These Nights',
-    artist: 'Eagles',
-    spotifyTrackId: '603KXhZ58l2fqgiyuIsEj8',
-  },
-  { title: 'One Sweet Day', artist: 'Mariah Carey', spotifyTrackId: '7ySbfLwdCwl1EM0zNCJZ38' },
-  { title: 'One Week', artist: 'Barenaked Ladies', spotifyTrackId: '29hBRadFZf9QTGRHZmxm65' },
-  {
-    title: 'Only Girl (In The World)',
-    artist: 'Rihanna',
-    spotifyTrackId: '2ENexcMEMsYk0rVJigVD3i',
-  },
-  { title: 'Open Your Heart', artist: 'Madonna', spotifyTrackId: '6poribUG9PSY1eudyCjJTS' },
-  {
-    title: 'Opposites Attract - 7" Edit',
-    artist: 'Paula Abdul',
-    spotifyTrackId: '4mbyVgqUfyajwkXp4GnWFG',
-  },
-  {
-    title: 'Our Day Will Come',
-    artist: 'Ruby & The Romantics',
-    spotifyTrackId: '3ngYXFSYtF5mHguNCA3JZ0',
-  },
-  {
-    title: 'Out of Touch',
-    artist: 'Daryl Hall & John Oates',
-    spotifyTrackId: '169oHBed4Nj1Q073yu9bFB',
-  },
-  {
-    title: 'Over and Over - 2019',
-    artist: 'The Dave Clark Five',
-    spotifyTrackId: '5ic6OCyWBxpNUY9rFxFxW5',
-  },
-  { title: 'Owner of a Lonely Heart', artist: 'Yes', spotifyTrackId: '0GTK6TesV108Jj5D3MHsYb' },
-  {
-    title: 'Paint It, Black',
-    artist: 'The Rolling Stones',
-    spotifyTrackId: '63T7DJ1AFDD6Bn8VzG6JE8',
-  },
-  { title: 'Paint The Town Red', artist: 'Doja Cat', spotifyTrackId: '2IGMVunIBsBLtEQyoI1Mu7' },
-  { title: 'Panda', artist: 'Desiigner', spotifyTrackId: '275a9yzwGB6ncAW4SxY7q3' },
-  { title: "Papa Don't Preach", artist: 'Madonna', spotifyTrackId: '0Oa9Qtd0FuhcmLi3sWTF9F' },
-  {
-    title: "Papa Was A Rollin' Stone",
-    artist: 'The Temptations',
-    spotifyTrackId: '7MiLmLbwNoyf47xQ4TCVYp',
-  },
-  { title: 'Paperback Writer', artist: 'The Beatles', spotifyTrackId: '0Ui8KPWZbJJQ2Y0CIQuVqX' },
-  { title: 'Part Of Me', artist: 'Katy Perry', spotifyTrackId: '1nZzRJbFvCEct3uzu04ZoL' },
-  {
-    title: 'Part-Time Lover',
-    artist: 'Stevie Wonder',
-    spotifyTrackId: '798bKohvGZenetnHsKzUC6',
-  },
-  { title: 'Party Rock Anthem', artist: 'LMFAO', spotifyTrackId: '0IkKz2J93C94Ei4BvDop7P' },
-  {
-    title: 'Peaches (feat. Daniel Caesar & Giveon)',
-    artist: 'Justin Bieber',
-    spotifyTrackId: '4iJyoBOLtHqaGxP12qzhQI',
-  },
-  { title: 'Penny Lane', artist: 'The Beatles', spotifyTrackId: '1h04XMpzGzmAudoI6VHBgA' },
-  {
-    title: 'People Got to Be Free',
-    artist: 'The Rascals',
-    spotifyTrackId: '5tUEIByLWg1sYWajZ2x5zx',
-  },
-  { title: 'Peppermint Twist', artist: 'Joey Dee', spotifyTrackId: '3qaxvM6GoaZEiOySyYV4e2' },
-  {
-    title: 'Perfect Duet (Ed Sheeran & Beyoncé)',
-    artist: 'Ed Sheeran',
-    spotifyTrackId: '1bhUWB0zJMIKr9yVPrkEuI',
-  },
-  { title: 'Permission to Dance', artist: 'BTS', spotifyTrackId: '3XYRV7ZSHqIRDG87DKTtry' },
-  { title: 'Philadelphia Freedom', artist: 'Elton John', spotifyTrackId: '2hl9ONQ7YGgZGYx0OSHvIq' },
-  { title: 'Photograph', artist: 'Ringo Starr', spotifyTrackId: '1hwN2eAwsXgktvw9Qe8TrP' },
-  { title: 'Physical', artist: 'Olivia Newton-John', spotifyTrackId: '3hVrI7snZMTmHCnbwME47u' },
-  {
-    title: 'Pick Up the Pieces',
-    artist: 'Average White Band',
-    spotifyTrackId: '4ZfQSP0oWb8LvxrTm8fTGR',
-  },
-  { title: 'PILLOWTALK', artist: 'ZAYN', spotifyTrackId: '0PDUDa38GO8lMxLCRc4lL1' },
-  {
-    title: 'Play That Funky Music',
-    artist: 'Wild Cherry',
-    spotifyTrackId: '1Zg71dOvDOf63sXwYEnGol',
-  },
-  {
-    title: "Please Don't Go",
-    artist: 'KC & The Sunshine Band',
-    spotifyTrackId: '6dw6BquK0Mv72p6HpusqKN',
-  },
-  { title: 'Please Mr. Postman', artist: 'Carpenters', spotifyTrackId: '74jZhGv0fdLaf9q8AZZ15k' },
-  {
-    title: 'Please Mr. Postman / Mono',
-    artist: 'The Marvelettes',
-    spotifyTrackId: '6jX5mso4x00c1EiNMrTU9U',
-  },
-  {
-    title: 'Please Please Please',
-    artist: 'Sabrina Carpenter',
-    spotifyTrackId: '0pIHhMBUHAIJDv7TpLALOq',
-  },
-  { title: 'Poker Face', artist: 'Lady Gaga', spotifyTrackId: '5R8dQOPq8haW94K7mgERlO' },
-  { title: 'Pony Time', artist: 'Chubby Checker', spotifyTrackId: '0EyNUHXX9VifiAXL61wC5f' },
-  {
-    title: 'Poor Little Fool',
-    artist: 'Ricky Nelson',
-    spotifyTrackId: '33FPsMEl3UwpytDuyf9VYq',
-  },
-  {
-    title: 'Pop Muzik',
-    artist: 'M / Robin Scott',
-    spotifyTrackId: '0FBeVAGy58YREuZK2rpRVm',
-  },
-  { title: 'positions', artist: 'Ariana Grande', spotifyTrackId: '35mvY5S1H3J2QZyna3TFe0' },
-  { title: 'Praying for Time', artist: 'George Michael', spotifyTrackId: '6yLZc9Tmei7eDX4Z62x4bW' },
-  {
-    title: 'Private Eyes',
-    artist: 'Daryl Hall & John Oates',
-    spotifyTrackId: '5HQ639Z3ms3hnZx0KfWnkp',
-  },
-  { title: 'Promiscuous', artist: 'Nelly Furtado', spotifyTrackId: '2gam98EZKrF9XuOkU13ApN' },
-  {
-    title: 'Psycho (feat. Ty Dolla $ign)',
-    artist: 'Post Malone',
-    spotifyTrackId: '3swc6WTsr7rl9DqQKQA55C',
-  },
-  {
-    title: 'Quarter To Three',
-    artist: 'Gary U.S. Bonds',
-    spotifyTrackId: '7aHn8rGeEGkDkQiUV0DpW1',
-  },
-  {
-    title: 'Rag Doll',
-    artist: 'Frankie Valli & The Four Seasons',
-    spotifyTrackId: '6kAROIu6CLVjulTqSPYmAP',
-  },
-  {
-    title: 'Rain On Me (with Ariana Grande)',
-    artist: 'Lady Gaga',
-    spotifyTrackId: '24ySl2hOPGCDcxBxFIqWBu',
-  },
-  {
-    title: "Raindrops Keep Fallin' On My Head",
-    artist: 'B.J. Thomas',
-    spotifyTrackId: '0zRtBDhwtIFTfoK2HuURbM',
-  },
-  { title: 'Raise Your Glass', artist: 'P!nk', spotifyTrackId: '1gv4xPanImH17bKZ9rOveR' },
-  { title: 'RAPSTAR', artist: 'Polo G', spotifyTrackId: '18vXApRmJSgQ6wG2ll9AOg' },
-  { title: 'Rapture', artist: 'Blondie', spotifyTrackId: '0D6qZlc6vNR7PDW2RKGPsV' },
-  {
-    title: "Reach Out I'll Be There",
-    artist: 'Four Tops',
-    spotifyTrackId: '11npGmmHAsN9i11Vcnwtko',
-  },
-  { title: 'Red Red Wine', artist: 'UB40', spotifyTrackId: '4uOKFydzAejjSFqYbv1XPt' },
-  {
-    title: 'Release Me - Radio Edit',
-    artist: 'Wilson Phillips',
-    spotifyTrackId: '1McnWWb8UleocVQFipc8fx',
-  },
-  { title: 'Respect', artist: 'Aretha Franklin', spotifyTrackId: '7s25THrKz86DM225dOYwnr' },
-  { title: 'Reunited', artist: 'Peaches & Herb', spotifyTrackId: '7wbPfd2mXbStoZZSnHNd2V' },
-  { title: 'Rhinestone Cowboy', artist: 'Glen Campbell', spotifyTrackId: '0VwTeYNjcl30DyQlt3GPe0' },
-  {
-    title: 'Rich Girl',
-    artist: 'Daryl Hall & John Oates',
-    spotifyTrackId: '0qRR9d89hIS0MHRkQ0ejxX',
-  },
-  {
-    title: 'Rich Men North of Richmond',
-    artist: 'Oliver Anthony Music',
-    spotifyTrackId: '78Du4CMFgnhdlG33gblkiP',
-  },
-  { title: "Ridin'", artist: 'Chamillionaire', spotifyTrackId: '3kZoay4ANo86ehb6s4RwS9' },
-  { title: 'Right Here Waiting', artist: 'Richard Marx', spotifyTrackId: '4LFwNJWoj74Yd71fIr1W8x' },
-  {
-    title: 'Right Round',
-    artist: 'Flo Rida',
-    spotifyTrackId: '4YoC8fBlp60PE0jXNeBeyi',
-  },
-  { title: 'Ring My Bell', artist: 'Anita Ward', spotifyTrackId: '2BEArHIJsI5fxYEpCZv2sF' },
-  { title: 'Ringo', artist: 'Lorne Greene', spotifyTrackId: '5GHbWzjRy1XfnTf5rkA8bf' },
-  { title: 'Rise', artist: 'Herb Alpert', spotifyTrackId: '7znZstuIvZjldNIO1E11U4' },
-  { title: 'Roar', artist: 'Katy Perry', spotifyTrackId: '6F5c58TMEs1byxUstkzVeM' },
-  { title: 'Rock Me Amadeus', artist: 'Falco', spotifyTrackId: '0DfG1ltJnZyq4Tx3ZLL7ZU' },
-  { title: 'Rock Me Gently', artist: 'Andy Kim', spotifyTrackId: '2qh2VGAOYFXLsMbdATRf6w' },
-  { title: 'Rock On', artist: 'Michael Damian', spotifyTrackId: '6e3O5XkMEhMAatdKnOlZPh' },
-  { title: 'Rock the Boat', artist: 'Hues Corporation', spotifyTrackId: '7fu3Tv5rcoGD1PZV7s57WW' },
-  {
-    title: 'Rock with You',
-    artist: 'Michael Jackson',
-    spotifyTrackId: '36eWbpGbM3DxpErvZImHgD',
-  },
-  { title: 'Rock Your Baby', artist: 'George McCrae', spotifyTrackId: '0SvxTjFJjTS4i7CecvjRrY' },
-  { title: "Rock'n Me", artist: 'Steve Miller Band', spotifyTrackId: '1orVKbp6vqtfAPOmvRofVq' },
-  {
-    title: "Rockin' Around The Christmas Tree",
-    artist: 'Brenda Lee',
-    spotifyTrackId: '2EjXfH91m7f8HiJN1yQg97',
-  },
-  {
-    title: 'rockstar (feat. 21 Savage)',
-    artist: 'Post Malone',
-    spotifyTrackId: '0e7ipj03S05BNilyu5bRzt',
-  },
-  {
-    title: 'ROCKSTAR (feat. Roddy Ricch)',
-    artist: 'DaBaby',
-    spotifyTrackId: '7ytR5pFWmSjzHJIeQkgog4',
-  },
-  { title: 'Roll With It', artist: 'Steve Winwood', spotifyTrackId: '71CIvGnyrdlq0edZCrXyRf' },
-  { title: 'Rolling in the Deep', artist: 'Adele', spotifyTrackId: '1c8gk2PeTE04A1pIDH9YMk' },
-  { title: 'Romantic', artist: 'Karyn White', spotifyTrackId: '1eDCizNe4EQMj7okkjIeXo' },
-  {
-    title: 'Roses Are Red (My Love)',
-    artist: 'Bobby Vinton',
-    spotifyTrackId: '0qYok0f8O5DE8yJSo146dn',
-  },
-  { title: 'Royals', artist: 'Lorde', spotifyTrackId: '2dLLR6qlu5UJ5gk0dKz0h3' },
-  { title: 'Ruby Tuesday', artist: 'The Rolling Stones', spotifyTrackId: '4hupcimlg3UBbW1kAQ6vrT' },
-  { title: 'Rude', artist: 'MAGIC!', spotifyTrackId: '6RtPijgfPKROxEzTHNRiDp' },
-  { title: 'Rude Boy', artist: 'Rihanna', spotifyTrackId: '60jzFy6Nn4M0iD1d94oteF' },
-  {
-    title: 'Run It! (feat. Juelz Santana)',
-    artist: 'Chris Brown',
-    spotifyTrackId: '7xYnUQigPoIDAMPVK79NEq',
-  },
-  { title: 'Runaround Sue', artist: 'Dion', spotifyTrackId: '1DndHckdH9m5rp6gYP086b' },
-  {
-    title: 'Runaway',
-    artist: 'Del Shannon',
-    spotifyTrackId: '6jGMai6vxGIF1e0YLMmasR',
-  },
-  { title: 'Running Bear', artist: 'Johnny Preston', spotifyTrackId: '1RYznli2VNO7FCbW1Hq4KM' },
-  { title: 'Running Scared', artist: 'Roy Orbison', spotifyTrackId: '6sbj89WozjblBMa5u41orw' },
-  {
-    title: 'Rush Rush',
-    artist: 'Paula Abdul',
-    spotifyTrackId: '2E9mNXXfzn4SGgRMLOFXI1',
-  },
-  { title: 'S&M Remix', artist: 'Rihanna', spotifyTrackId: '44FAj28ivN0HJ0xVYwQ9nL' },
-  { title: 'Sad Eyes', artist: 'Robert John', spotifyTrackId: '121DwVd9wx2fA2QIqKOeoY' },
-  { title: 'SAD!', artist: 'XXXTENTACION', spotifyTrackId: '3ee8Jmje8o58CHK66QrVC2' },
-  { title: 'Sailing', artist: 'Christopher Cross', spotifyTrackId: '6Hu6dzwlvoyg3zBUC8k4BK' },
-  { title: 'Sara', artist: 'Starship', spotifyTrackId: '0HzjKCZmFhwcO2vnnHpj9q' },
-  { title: 'Satisfied', artist: 'Richard Marx', spotifyTrackId: '4V87hYB94wu8DFtd901riK' },
-  { title: 'Saturday Night', artist: 'Bay City Rollers', spotifyTrackId: '78zYiMv9yNTHgmm6kaUPCm' },
-  {
-    title: 'Savage Love (Laxed-Siren Beat)',
-    artist: 'Jawsh 685, Jason Derulo & BTS',
-    spotifyTrackId: '4TgxFMOn5yoESW6zCidCXL',
-  },
-  {
-    title: 'Savage Remix (feat. Beyoncé)',
-    artist: 'Megan Thee Stallion',
-    spotifyTrackId: '5v4GgrXPMghOnBBLmveLac',
-  },
-  {
-    title: 'Save The Best For Last',
-    artist: 'Vanessa Williams',
-    spotifyTrackId: '7okbmgA8lRBGl5limZ7LFM',
-  },
-  {
-    title: 'Save the Last Dance for Me',
-    artist: 'The Drifters',
-    spotifyTrackId: '391TUcoPonqYykPkSZ5Z9U',
-  },
-  {
-    title: 'Save Your Tears (with Ariana Grande) (Remix)',
-    artist: 'The Weeknd',
-    spotifyTrackId: '37BZB0z9T8Xu7U3e65qxFy',
-  },
-  {
-    title: 'Saving All My Love for You',
-    artist: 'Whitney Houston',
-    spotifyTrackId: '1lx8ddGT5wCD6W2xmLeRKG',
-  },
-  { title: 'Say It Right', artist: 'Nelly Furtado', spotifyTrackId: '2aI21FnmY7TJVKeMaoQZ0t' },
-  {
-    title: "Say My Name - #1's Edit",
-    artist: "Destiny's Child",
-    spotifyTrackId: '63CH0YPPYNcjuOJQQBqLdU',
-  },
-  { title: 'Say Say Say', artist: 'Paul McCartney', spotifyTrackId: '4InXjGfCi4hJVWlqPuY6Im' },
-  {
-    title: 'Say So (feat. Nicki Minaj)',
-    artist: 'Doja Cat',
-    spotifyTrackId: '11VApNQCWLJdzxWrlmwzUa',
-  },
-  { title: 'Say You, Say Me', artist: 'Lionel Richie', spotifyTrackId: '17CPezzLWzvGfpZW6X8XT0' },
-  {
-    title: 'Seasons Change',
-    artist: 'Exposé',
-    spotifyTrackId: '0f24hVOA4gLM8imuvoQ0Uh',
-  },
-  { title: 'Seasons in the Sun', artist: 'Terry Jacks', spotifyTrackId: '5xmPrIshA1ojB9OzFTrF5E' },
-  {
-    title: 'See You Again (feat. Charlie Puth)',
-    artist: 'Wiz Khalifa',
-    spotifyTrackId: '2JzZzZUQj3Qff7wapcbKjc',
-  },
-  { title: 'Señorita', artist: 'Shawn Mendes', spotifyTrackId: '0TK2YIli7K1leLovkQiNik' },
-  {
-    title: 'Separate Lives',
-    artist: 'Phil Collins',
-    spotifyTrackId: '6DEFVerhYVJ6ZkPJiPl5Sm',
-  },
-  {
-    title: 'Set Adrift On Memory Bliss',
-    artist: 'P.M. Dawn',
-    spotifyTrackId: '7vo0ILIm1He4wo30ikYBHh',
-  },
-  { title: 'Set Fire to the Rain', artist: 'Adele', spotifyTrackId: '73CMRj62VK8nUS4ezD2wvi' },
-  { title: 'Seven (feat. Latto)', artist: 'Jung Kook', spotifyTrackId: '7x9aauaA9cu6tyfpHnqDLo' },
-  { title: 'Sexy And I Know It', artist: 'LMFAO', spotifyTrackId: '0obBFrPYkSoBJbvHfUIhkv' },
-  {
-    title: 'SexyBack (feat. Timbaland)',
-    artist: 'Justin Timberlake',
-    spotifyTrackId: '0O45fw2L5vsWpdsOdXwNAR',
-  },
-  { title: 'Shadow Dancing', artist: 'Andy Gibb', spotifyTrackId: '3unwRUV5qbjMmH3NJtaODy' },
-  { title: 'Shake It Off', artist: 'Taylor Swift', spotifyTrackId: '5xTtaWoae3wi06K5WfVUUH' },
-  {
-    title: 'Shake Ya Tailfeather - Radio Edit',
-    artist: 'Murphy Lee',
-    spotifyTrackId: '4TJduXYW1Pg96EDNnfiwxJ',
-  },
-  { title: 'Shake You Down', artist: 'Gregory Abbott', spotifyTrackId: '7wQ9alB79WZb0F5gFLbxSh' },
-  { title: 'Shakedown', artist: 'Bob Seger', spotifyTrackId: '303oOLP2Jf6M4rke52qItM' },
-  { title: 'Shallow - Radio Edit', artist: 'Lady Gaga', spotifyTrackId: '6QfS2wq5sSC1xAJCQsTSlj' },
-  { title: 'Shape of You', artist: 'Ed Sheeran', spotifyTrackId: '7qiZfU4dY1lWllzX7mPBI3' },
-  {
-    title: "She Ain't Worth It",
-    artist: 'Glenn Medeiros',
-    spotifyTrackId: '1esdA1BlJS31LTE7VCN9IL',
-  },
-  {
-    title: 'She Drives Me Crazy',
-    artist: 'Fine Young Cannibals',
-    spotifyTrackId: '4d6eqRtpDX7tydHJGDZUBQ',
-  },
-  {
-    title: 'She Loves You',
-    artist: 'The Beatles',
-    spotifyTrackId: '6nEkxYIEnrbYH7h1hJ8Xn6',
-  },
-  { title: 'Sheila', artist: 'Tommy Roe', spotifyTrackId: '5Mzu8smN6fRBCaUaTytD1W' },
-  {
-    title: 'Sherry',
-    artist: 'Frankie Valli & The Four Seasons',
-    spotifyTrackId: '0NpvdCO506uO58D4AbKzki',
-  },
-  { title: 'Shining Star', artist: 'Earth, Wind & Fire', spotifyTrackId: '0RgcOUQg4qYAEt9RIdf3oB' },
-  {
-    title: 'Shout - U.S. Single Edit',
-    artist: 'Tears For Fears',
-    spotifyTrackId: '4DslGA2PbmlDszhIoQGQe8',
-  },
-  { title: 'Show and Tell', artist: 'Al Wilson', spotifyTrackId: '2vhW1OmaZDYi63Da9d8R5o' },
-  { title: 'SICKO MODE', artist: 'Travis Scott', spotifyTrackId: '2xLMifQCjDGFmkHkpNLD9h' },
-  { title: 'Silly Love Songs', artist: 'Wings', spotifyTrackId: '3bC0IKk62yB6TDaratb1s2' },
-  {
-    title: 'Single Ladies (Put a Ring on It)',
-    artist: 'Beyoncé',
-    spotifyTrackId: '5R9a4t5t5O0IsznsrKPVro',
-  },
-  { title: 'Sir Duke', artist: 'Stevie Wonder', spotifyTrackId: '4pNiE4LCVV74vfIBaUHm1b' },
-  { title: 'Sister Golden Hair', artist: 'America', spotifyTrackId: '5VSAonaAPhhGn0G7hMYwWK' },
-  { title: 'Sledgehammer', artist: 'Peter Gabriel', spotifyTrackId: '39qReOn8AFxQ4yTj2DmdwE' },
-  { title: 'Sleepwalk', artist: 'Santo & Johnny', spotifyTrackId: '1u1PzGnsWKjAwSZ9Rg1kjD' },
-  { title: 'Slime You Out (feat. SZA)', artist: 'Drake', spotifyTrackId: '3RaCGXCiiMufRPoexXxGkV' },
-  {
-    title: 'Slow Jamz (feat. Kanye West & Jamie Foxx)',
-    artist: 'Twista',
-    spotifyTrackId: '17Kh3I18Pl2QFzT1B0rYvQ',
-  },
-  { title: 'Slow Motion', artist: 'JUVENILE', spotifyTrackId: '6ihObRBTB8xdSH2mlERtOX' },
-  {
-    title: 'Smoke Gets In Your Eyes',
-    artist: 'The Platters',
-    spotifyTrackId: '1jTkRvUHQhh2v77G5KOyYW',
-  },
-  {
-    title: 'Smooth (feat. Rob Thomas) - Radio Edit',
-    artist: 'Santana',
-    spotifyTrackId: '4WND3h9Yi3zqQrHkugZBvS',
-  },
-  { title: 'So Emotional', artist: 'Whitney Houston', spotifyTrackId: '4l2Edgdj4vla02GCh7YyAv' },
-  {
-    title: 'So Much In Love/Bonus Track',
-    artist: 'The Tymes',
-    spotifyTrackId: '6r2443Uvg4L9WOR9m2mHSx',
-  },
-  { title: 'So Sick', artist: 'Ne-Yo', spotifyTrackId: '6brl7bwOHmGFkNw3MBqssT' },
-  { title: 'So What', artist: 'P!nk', spotifyTrackId: '0JiY190vktuhSGN6aqJdrt' },
-  { title: 'Soldier Boy', artist: 'The Shirelles', spotifyTrackId: '6g4Oyy8IwraOjPl7nqnROq' },
-  {
-    title: 'Somebody That I Used To Know',
-    artist: 'Gotye',
-    spotifyTrackId: '4wCmqSrbyCgxEXROQE6vtV',
-  },
-  { title: 'Someday', artist: 'Mariah Carey', spotifyTrackId: '6TSM5vkz0WzyZsNAKKYDcw' },
-  {
-    title: "Someday We'll Be Together",
-    artist: 'Diana Ross & The Supremes',
-    spotifyTrackId: '79Yk6AlSKi5dxDFINID2hS',
-  },
-  { title: 'Someone Like You', artist: 'Adele', spotifyTrackId: '1zwMYTA5nlNjZxYrvBB2pV' },
-  { title: 'Someone You Loved', artist: 'Lewis Capaldi', spotifyTrackId: '7qEHsqek33rTcFNT9PFqLf' },
-  { title: "Somethin' Stupid", artist: 'Frank Sinatra', spotifyTrackId: '4feXcsElKIVsGwkbnTHAfV' },
-  {
-    title: 'Song Sung Blue',
-    artist: 'Neil Diamond',
-    spotifyTrackId: '6HRf1OVW3V0pvy3Idph1Ap',
-  },
-  { title: 'Sorry', artist: 'Justin Bieber', spotifyTrackId: '09CtPGIpYB4BrO8qb1RGsF' },
-  { title: 'SOS', artist: 'Rihanna', spotifyTrackId: '30cSNer6TV8x2utjULVeQ5' },
-  { title: 'Southern Nights', artist: 'Glen Campbell', spotifyTrackId: '7kv7zBjMtVf0eIJle2VZxn' },
-  { title: 'squabble up', artist: 'Kendrick Lamar', spotifyTrackId: '0nj9Bq5sHDiTxSHunhgkFb' },
-  {
-    title: "St. Elmo's Fire (Man in Motion)",
-    artist: 'John Parr',
-    spotifyTrackId: '1A2PWRltFrX8iB8IP3CUgo',
-  },
-  { title: 'Stagger Lee', artist: 'Lloyd Price', spotifyTrackId: '4MUGG9mgDUP8dlaS3AAeg0' },
-  { title: 'Stand Up', artist: 'Ludacris', spotifyTrackId: '2CtCwQhY0ZLvr8L2l8Bo6e' },
-  {
-    title: 'Star Wars Theme / Cantina Band',
-    artist: 'Meco',
-    spotifyTrackId: '4MVA30NmvNtpbDon1ZG7mk',
-  },
-  { title: 'Starboy', artist: 'The Weeknd', spotifyTrackId: '7MXVkk9YMctZqd1Srtv4MB' },
-  {
-    title: 'Stars On 45 - Original Single Edit',
-    artist: 'Stars On 45',
-    spotifyTrackId: '59BkBWQitTPgS1inzGfyI5',
-  },
-  { title: 'Stay', artist: 'Maurice Williams', spotifyTrackId: '5R2DZitRTDYtrkCoJiddct' },
-  { title: 'Stay', artist: 'Lisa Loeb & Nine Stories', spotifyTrackId: '0jlgrHvssAloyAidZ1aJzs' },
-  {
-    title: 'STAY (with Justin Bieber)',
-    artist: 'The Kid LAROI',
-    spotifyTrackId: '5HCyWlXZPP0y6Gqq8TgA20',
-  },
-  { title: "Stayin' Alive", artist: 'Bee Gees', spotifyTrackId: '7qK3JFriCqLorQivsJYG2X' },
-  {
-    title: 'Step by Step',
-    artist: 'New Kids On The Block',
-    spotifyTrackId: '6J6RWKCPN5RFKHUKEUFjxS',
-  },
-  {
-    title: 'Still',
-    artist: 'Commodores',
-    spotifyTrackId: '7ytXwEHRIWv1PaUuc8epmS',
-  },
-  {
-    title: 'Stop! In The Name Of Love',
-    artist: 'The Supremes',
-    spotifyTrackId: '5yfrc6CGOXxDWx3nGUDcNj',
-  },
-  { title: 'Straight Up', artist: 'Paula Abdul', spotifyTrackId: '50UWuJ9gl5aNBt8TMe8mDv' },
-  {
-    title: 'Stranger On The Shore',
-    artist: 'Acker Bilk',
-    spotifyTrackId: '6EwVwaoy9j9mfKAvksVwC8',
-  },
-  {
-    title: 'Strangers In The Night',
-    artist: 'Frank Sinatra',
-    spotifyTrackId: '74VR3AkGPhbYXnxcOYa16x',
-  },
-  { title: 'Stronger', artist: 'Kanye West', spotifyTrackId: '4fzsfWzRhPawzqhX8Qt9F3' },
-  {
-    title: "Stronger (What Doesn't Kill You)",
-    artist: 'Kelly Clarkson',
-    spotifyTrackId: '6D60klaHqbCl9ySc8VcRss',
-  },
-  { title: 'Stuck on You', artist: 'Elvis Presley', spotifyTrackId: '39zODpVtRvghMyfNjZ3BVK' },
-  {
-    title: 'Stuck with U (with Justin Bieber)',
-    artist: 'Ariana Grande',
-    spotifyTrackId: '4HBZA5flZLE435QTztThqH',
-  },
-  {
-    title: 'Stuck With You',
-    artist: 'Huey Lewis & The News',
-    spotifyTrackId: '2cFl7utlqyZjCXN1G5nRvA',
-  },
-  {
-    title: 'Stutter (Double Take Remix)',
-    artist: 'Joe feat. Mystikal',
-    spotifyTrackId: '7FWuzwapuKHTEyDJIcQOw3',
-  },
-  { title: 'Sucker', artist: 'Jonas Brothers', spotifyTrackId: '22vgEDb5hykfaTwLuskFGD' },
-  {
-    title: 'Sugar Shack',
-    artist: 'Jimmy Gilmer & The Fireballs',
-    spotifyTrackId: '2nLLenueHlqs60IcDn9lan',
-  },
-  { title: 'Sugar, Sugar', artist: 'The Archies', spotifyTrackId: '3iSws76HjaU7k49EqJVTfF' },
-  { title: 'Sukiyaki', artist: 'Kyu Sakamoto', spotifyTrackId: '3Oxz7SOWcyzIKG9bO9jtYT' },
-  {
-    title: 'Summer in the City',
-    artist: "The Lovin' Spoonful",
-    spotifyTrackId: '7AzFID6u1b3zIWbd9pb8Dk',
-  },
-  { title: 'Sundown', artist: 'Gordon Lightfoot', spotifyTrackId: '0SjnBEHZVXgCKvOrpvzL2k' },
-  {
-    title: 'Sunflower - Spider-Man: Into the Spider-Verse',
-    artist: 'Post Malone',
-    spotifyTrackId: '3KkXRkHbMCARz0aVfEt68P',
-  },
-  {
-    title: 'Sunshine On My Shoulders',
-    artist: 'John Denver',
-    spotifyTrackId: '3m8lTUL5GxGUNSaycI77ND',
-  },
-  { title: 'Sunshine Superman', artist: 'Donovan', spotifyTrackId: '4RGxUjaCmVtD30pIhtEi7w' },
-  { title: 'Super Freaky Girl', artist: 'Nicki Minaj', spotifyTrackId: '4C6Uex2ILwJi9sZXRdmqXp' },
-  {
-    title: 'Superstition',
-    artist: 'Stevie Wonder',
-    spotifyTrackId: '1h2xVEoJORqrg71HocgqXd',
-  },
-  { title: 'Surf City', artist: 'Jan & Dean', spotifyTrackId: '1Oewmmr12xuhgzvUJ9Q0cf' },
-  { title: 'Surrender', artist: 'Elvis Presley', spotifyTrackId: '5Qkixf9OjJp5a4XphaONKO' },
-  { title: 'Suspicious Minds', artist: 'Elvis Presley', spotifyTrackId: '1H5IfYyIIAlgDX8zguUzns' },
-  {
-    title: 'Sussudio',
-    artist: 'Phil Collins',
-    spotifyTrackId: '4qM461TqtpnP4GLRIXwEnW',
-  },
-  {
-    title: "Sweet Child O' Mine",
-    artist: "Guns N' Roses",
-    spotifyTrackId: '7snQQk1zcKl8gZ92AnueZW',
-  },
-  {
-    title: 'Sweet Dreams (Are Made of This)',
-    artist: 'Eurythmics',
-    spotifyTrackId: '1TfqLAPs4K3s2rJMoCokcS',
-  },
-  { title: 'Take a Bow', artist: 'Madonna', spotifyTrackId: '7izFzcBTx3DVXFeFYDeZKB' },
-  { title: 'Take A Bow', artist: 'Rihanna', spotifyTrackId: '3goSVuTt3fDYDP6kRnFwuL' },
-  {
-    title: 'Take Good Care Of My Babyed',
-    artist: 'Bobby Vee',
-    spotifyTrackId: '1MR7XamWS0XH6vZxeeRdE0',
-  },
-  { title: 'Take My Breath Away', artist: 'Berlin', spotifyTrackId: '50jEs9EZZgXJ1oDZVAv7Wp' },
-  { title: 'Take on Me', artist: 'a-ha', spotifyTrackId: '2WfaOiMkCvy7F5fcp2zZ8L' },
-  { title: 'Teen Angel', artist: 'Mark Dinning', spotifyTrackId: '2VbwU6FU8BlgJaAzE23S11' },
-  { title: 'Teenage Dream', artist: 'Katy Perry', spotifyTrackId: '5jzKL4BDMClWqRguW5qZvh' },
-  { title: 'Tell Her About It', artist: 'Billy Joel', spotifyTrackId: '6kCJMxv445L2okuTiou1fR' },
-  { title: 'Telstar', artist: 'The Tornados', spotifyTrackId: '2rtaHm5SkgFzVa5Gr8oTW6' },
-  { title: 'Temperature', artist: 'Sean Paul', spotifyTrackId: '0k2GOhqsrxDTAbFFSdNJjT' },
-  { title: "TEXAS HOLD 'EM", artist: 'Beyoncé', spotifyTrackId: '0Z7nGFVCLfixWctgePsRk9' },
-  {
-    title: 'Tha Crossroads',
-    artist: 'Bone Thugs-N-Harmony',
-    spotifyTrackId: '5KSJ9k1FYjFLnIRlJT2wF8',
-  },
-  {
-    title: 'Thank God I Found You (feat. Joe & 98°)',
-    artist: 'Mariah Carey',
-    spotifyTrackId: '1RS3LStQYhju50eBdD9Uul',
-  },
-  {
-    title:
-      "Thank God I'm a Country Boy - Live at the Universal Amphitheatre, Los Angeles, CA - August/September 1974",
-    artist: 'John Denver',
-    spotifyTrackId: '7sVfJHBjH9cr4XsTYAwNYI',
-  },
-  { title: 'thank u, next', artist: 'Ariana Grande', spotifyTrackId: '3e9HZxeyfWwjeyPAMmWSSQ' },
-  {
-    title: 'Thank You (Falettinme Be Mice Elf Agin) / Everybody Is a Star',
-    artist: 'Sly & The Family Stone',
-    spotifyTrackId: '74iQ3gahRTOGc19bYadBE3',
-  },
-  {
-    title: "That's the Way (I Like It)",
-    artist: 'KC & The Sunshine Band',
-    spotifyTrackId: '1qiQduM84A0VeH8Y2uAbqi',
-  },
-  {
-    title: "That's The Way Love Goes",
-    artist: 'Janet Jackson',
-    spotifyTrackId: '29rQJydAlO0uMyWvRIZxQg',
-  },
-  {
-    title: "That's What Friends Are For",
-    artist: 'Dionne & Friends',
-    spotifyTrackId: '1cOj24fUMnBSXhtp7waHVW',
-  },
-  { title: "That's What I Like", artist: 'Bruno Mars', spotifyTrackId: '0KKkJNfGyhkQ5aFogxQAPU' },
-  {
-    title: 'The Ballad Of The Green Berets',
-    artist: 'SSgt Barry Sadler',
-    spotifyTrackId: '0yjNmllr3Ew6f97TqPuEqa',
-  },
-  {
-    title: 'The Battle Of New Orleans',
-    artist: 'Johnny Horton',
-    spotifyTrackId: '6mt8cEX6IlXHLxBqyKTwdh',
-  },
-  {
-    title: 'The Best of My Love',
-    artist: 'Eagles',
-    spotifyTrackId: '3qKrl67wybDK9MR7miZhW7',
-  },
-  { title: 'The Box', artist: 'Roddy Ricch', spotifyTrackId: '0nbXyq5TXYPCO7pr3N8S4I' },
-  {
-    title: 'The Boy Is Mine - Radio Edit',
-    artist: 'Brandy',
-    spotifyTrackId: '2iiWecE0JBGagWwlBgeoF9',
-  },
-  { title: 'The Candy Man', artist: 'Sammy Davis Jr.', spotifyTrackId: '6jGb3Hhy6Dfhci1Eb3au0R' },
-  {
-    title: "The Chipmunk Song (Christmas Don't Be Late)",
-    artist: 'The Chipmunks with David Seville',
-    spotifyTrackId: '02NKMA9cIkq6VuBNu9q9Wf',
-  },
-  { title: 'The First Night', artist: 'Monica', spotifyTrackId: '5rWzxloNXvbRPhlC1O2b6T' },
-  { title: 'The First Time', artist: 'Surface', spotifyTrackId: '0NFMOIvms3oKXx7s1XM583' },
-  {
-    title: 'The First Time Ever I Saw Your Face',
-    artist: 'Roberta Flack',
-    spotifyTrackId: '0SxFyA4FqmEQqZVuAlg8lf',
-  },
-  {
-    title: 'The Flame',
-    artist: 'Cheap Trick',
-    spotifyTrackId: '1pKubpcbRCOLY4wbvSDqzt',
-  },
-  {
-    title: 'The Game Of Love',
-    artist: 'Wayne Fontana & The Mindbenders',
-    spotifyTrackId: '0jUfBCWrfrZGueD8MjvgMo',
-  },
-  { title: 'The Happening', artist: 'The Supremes', spotifyTrackId: '2SusUbsUQnw8OJDq56ZMbE' },
-  {
-    title: 'The Happy Organ',
-    artist: 'Dave "Baby" Cortez',
-    spotifyTrackId: '2ByaTRkrAnioKrKN07kyMt',
-  },
-  { title: 'The Hills', artist: 'The Weeknd', spotifyTrackId: '7fBv7CLKzipRk6EC6TWHOB' },
-  {
-    title: 'The Hustle - Original Mix',
-    artist: 'Van McCoy',
-    spotifyTrackId: '4wzUmBC4ZrF92IE1hPCTJp',
-  },
-  { title: 'The Joker', artist: 'Steve Miller Band', spotifyTrackId: '6FKU84JHM1lbiy5Dx0Dyqd' },
-  { title: 'The Letter', artist: 'The Box Tops', spotifyTrackId: '6RJK553YhstRzyKA4mug09' },
-  {
-    title: 'The Lion Sleeps Tonight (Wimoweh)',
-    artist: 'The Tokens',
-    spotifyTrackId: '2F4FNcz68howQWD4zaGJSi',
-  },
-  {
-    title: 'The Living Years',
-    artist: 'Mike + The Mechanics',
-    spotifyTrackId: '7tJnjRY2js0yXtNUWE4fgF',
-  },
-  {
-    title: 'The Loco-Motion',
-    artist: 'Grand Funk Railroad',
-    spotifyTrackId: '6saMwrHYHbgSm8WiAbH5RV',
-  },
-  { title: 'The Loco-Motion', artist: 'Little Eva', spotifyTrackId: '5xzdDMhFYiuUONB0Mha9VS' },
-  {
-    title: 'The Long And Winding Road',
-    artist: 'The Beatles',
-    spotifyTrackId: '5xhP99gVBIkpr7omcdCeiy',
-  },
-  { title: 'The Look', artist: 'Roxette', spotifyTrackId: '79LdvxXi5JYUjhnO7v9Fi3' },
-  { title: 'The Love You Save', artist: 'The Jackson 5', spotifyTrackId: '2dYdai0GywuwYq6blSwDBV' },
-  { title: 'The Monster', artist: 'Eminem', spotifyTrackId: '48RrDBpOSSl1aLVCalGl5C' },
-  {
-    title: 'The Morning After',
-    artist: 'Maureen McGovern',
-    spotifyTrackId: '62QRbVm7DqR3eoqgT7pEfs',
-  },
-  {
-    title: 'The Most Beautiful Girl',
-    artist: 'Charlie Rich',
-    spotifyTrackId: '5kXmiepRVuKhhz0SxyCVeL',
-  },
-  {
-    title: 'The Next Time I Fall (with Amy Grant)',
-    artist: 'Peter Cetera',
-    spotifyTrackId: '7zSDDsIlks515d0tZGM64x',
-  },
-  {
-    title: 'The Night Chicago Died',
-    artist: 'Paper Lace',
-    spotifyTrackId: '4f4RRYN3R7glPElFjeoUnC',
-  },
-  {
-    title: 'The Night the Lights Went Out in Georgia',
-    artist: 'Vicki Lawrence',
-    spotifyTrackId: '4ZObql2ASJn1bvasBzjlyI',
-  },
-  {
-    title: 'The One That You Love',
-    artist: 'Air Supply',
-    spotifyTrackId: '3FDAd5vW4P7xe1GBNOLyfD',
-  },
-  {
-    title: 'The Poor Side Of Town',
-    artist: 'Johnny Rivers',
-    spotifyTrackId: '2kt0TS6sYxz25uze84l5Oq',
-  },
-  {
-    title: 'The Power Of Love',
-    artist: 'Huey Lewis & The News',
-    spotifyTrackId: '2olVm1lHicpveMAo4AUDRB',
-  },
-  {
-    title: 'The Power of Love - Radio Edit',
-    artist: 'Céline Dion',
-    spotifyTrackId: '2PFAYhBcNRj1UaluR7ZgUy',
-  },
-  {
-    title: 'The Promise Of A New Day',
-    artist: 'Paula Abdul',
-    spotifyTrackId: '5m8xVZhlM7E2mL9uuxZpF6',
-  },
-  {
-    title: 'The Reflex',
-    artist: 'Duran Duran',
-    spotifyTrackId: '4sz1Ng2Cgidfqqiy0pNL6R',
-  },
-  { title: 'THE SCOTTS', artist: 'THE SCOTTS', spotifyTrackId: '39Yp9wwQiSRIDOvrVg7mbk' },
-  { title: 'The Sign', artist: 'Ace of Base', spotifyTrackId: '0hrBpAOgrt8RXigk83LLNE' },
-  {
-    title: 'The Sound of Silence',
-    artist: 'Simon & Garfunkel',
-    spotifyTrackId: '2YplrdHMBoRdnHgMeHEwHm',
-  },
-  { title: 'The Streak', artist: 'Ray Stevens', spotifyTrackId: '2UNfMwF1yY6wSKQUIOOjFh' },
-  { title: 'The Stripper', artist: 'David Rose', spotifyTrackId: '00vH2PsEQTGRyJYhyIyDbr' },
-  { title: 'The Stroll', artist: 'Frankie Avalon', spotifyTrackId: '0CRxGsJrwOMQUuTr4yT5mX' },
-  {
-    title: 'The Tears Of A Clown',
-    artist: 'Smokey Robinson & The Miracles',
-    spotifyTrackId: '4Dq749x2QP6OXTURJ9GGY8',
-  },
-  {
-    title: 'Theme from a Summer Place',
-    artist: 'Percy Faith',
-    spotifyTrackId: '2kKL5kk4On8YRSKWDgXWMX',
-  },
-  {
-    title: 'The Three Bells (Les Trois Cloches) (feat. Jim Ed Brown)',
-    artist: 'The Browns',
-    spotifyTrackId: '5xghdTMuqQPqtDJ0bn3zkn',
-  },
-  { title: 'The Tide Is High - Edit', artist: 'Blondie', spotifyTrackId: '165NAtd2DRPKNQ6EVY0VG9' },
-  { title: 'The Twist', artist: 'Chubby Checker', spotifyTrackId: '3ohLnESFgYACPMCkoTOzqE' },
-  {
-    title: 'The Way It Is',
-    artist: 'Bruce Hornsby & The Range',
-    spotifyTrackId: '6V50MyHPGhEmwYu0Wdyf0t',
-  },
-  {
-    title: 'The Way We Were',
-    artist: 'Barbra Streisand',
-    spotifyTrackId: '1vZTgn4JXWMahR8r99ug5H',
-  },
-  {
-    title: 'The Way You Make Me Feel',
-    artist: 'Michael Jackson',
-    spotifyTrackId: '7KFThZQCAcj8JXdPRtdrXE',
-  },
-  {
-    title: 'The Way You Move (feat. Sleepy Brown)',
-    artist: 'Outkast',
-    spotifyTrackId: '5z7mYFfhw6N6f23VwrokJD',
-  },
-  {
-    title: "Theme From Mahogany (Do You Know Where You're Going To)",
-    artist: 'Diana Ross',
-    spotifyTrackId: '10VbGCpgC4FtmYSwBLvIDX',
-  },
-  {
-    title: 'Theme From S.W.A.T.',
-    artist: 'Rhythm Heritage',
-    spotifyTrackId: '5x9xxVr7nJ9xMfDIW02Nv3',
-  },
-  { title: 'Theme From Shaft', artist: 'Isaac Hayes', spotifyTrackId: '53DGxOxfTgZk8CovMYD10O' },
-  { title: 'Then Came You', artist: 'The Spinners', spotifyTrackId: '4IrSsxKVRUa8khIqbtDge0' },
-  {
-    title: "There! I've Said It Again",
-    artist: 'Bobby Vinton',
-    spotifyTrackId: '3mwiyHBHfAzOe89MwqJeEb',
-  },
-  {
-    title: "There'll Be Sad Songs (To Make You Cry)",
-    artist: 'Billy Ocean',
-    spotifyTrackId: '1mP8BJQBRZWjSQLVmxQEyG',
-  },
-  {
-    title: "These Boots Are Made For Walkin'",
-    artist: 'Nancy Sinatra',
-    spotifyTrackId: '2nwCO1PqpvyoFIvq3Vrj8N',
-  },
-  { title: 'These Dreams', artist: 'Heart', spotifyTrackId: '30KVqtgpoHSfakhmUknEqM' },
-  {
-    title: 'This Diamond Ring',
-    artist: 'Gary Lewis & The Playboys',
-    spotifyTrackId: '7n9i7x2fXDmgCsGExP5CrW',
-  },
-  {
-    title: "This Guy's In Love With You",
-    artist: 'Herb Alpert & The Tijuana Brass',
-    spotifyTrackId: '7a3g7jILDCvADVN9NQIyYj',
-  },
-  {
-    title: 'This Is America',
-    artist: 'Childish Gambino',
-    spotifyTrackId: '0b9oOr2ZgvyQu88wzixux9',
-  },
-  {
-    title: 'This Is How We Do It',
-    artist: 'Montell Jordan',
-    spotifyTrackId: '6aJ90LBl96bly9zuEH1U2X',
-  },
-  { title: 'This Is The Night', artist: 'Clay Aiken', spotifyTrackId: '2xnVdRMaQBkRfZyefKC2ec' },
-  {
-    title: "This Is Why I'm Hot",
-    artist: 'MiMS',
-    spotifyTrackId: '2fiPLIuqDydwpaOhoUgO3W',
-  },
-  {
-    title: 'This Used to Be My Playground',
-    artist: 'Madonna',
-    spotifyTrackId: '637V2ymBt4Ljlbz4EmRys8',
-  },
-  { title: 'Three Times A Lady', artist: 'Commodores', spotifyTrackId: '4ztwMHfPZhPoruZdBbgriM' },
-  {
-    title: 'Thrift Shop (feat. Wanz)',
-    artist: 'Macklemore & Ryan Lewis',
-    spotifyTrackId: '7bYZBVrnRfqeaPbhRyEvK3',
-  },
-  { title: 'Ticket To Ride', artist: 'The Beatles', spotifyTrackId: '7CZiDzGVjUssMSOXrDNYHL' },
-  {
-    title: 'Tie a Yellow Ribbon Round the Ole Oak Tree (feat. Tony Orlando)ed',
-    artist: 'Dawn',
-    spotifyTrackId: '12UzVR0M7asW2MHAZRJk0I',
-  },
-  {
-    title: 'Tighten Up Pt. 1',
-    artist: 'Archie Bell & The Drells',
-    spotifyTrackId: '6IIcvtmuGpWIasqOpyGlyY',
-  },
-  { title: 'TiK ToK', artist: 'Kesha', spotifyTrackId: '0HPD5WQqrq7wPWR7P7Dw1i' },
-  { title: 'Timber', artist: 'Pitbull', spotifyTrackId: '3cHyrEgdyYRjgJKSOiOtcS' },
-  { title: 'Time After Time', artist: 'Cyndi Lauper', spotifyTrackId: '7o9uu2GDtVDr9nsR7ZRN73' },
-  { title: 'Time In A Bottle', artist: 'Jim Croce', spotifyTrackId: '1pmYAWY7Kwaj84U3xZxLML' },
-  { title: 'To Be With You', artist: 'Mr. Big', spotifyTrackId: '3bP47tw8MOgtrwdO1iahVl' },
-  {
-    title: 'To Know Him Is to Love Him',
-    artist: 'The Teddy Bears',
-    spotifyTrackId: '12UGU3ev7jEYzTG8r25H8J',
-  },
-  { title: 'To Sir with Love', artist: 'Lulu', spotifyTrackId: '0gBFr7N2D1GfhkXIIepIGG' },
-  { title: 'Together Again', artist: 'Janet Jackson', spotifyTrackId: '1GrikfH0jDejDvrxo84n4P' },
-  { title: 'Together Forever', artist: 'Rick Astley', spotifyTrackId: '1N9bMjIVVq2gLMbAecDnul' },
-  { title: 'Tom Dooley', artist: 'The Kingston Trio', spotifyTrackId: '5rivhNukBcqEX41XQDLYi9' },
-  {
-    title: "Tonight's the Night (Gonna Be Alright)",
-    artist: 'Rod Stewart',
-    spotifyTrackId: '0nWDi2ef1KvoBvHsv6z5Ao',
-  },
-  { title: 'Too Close', artist: 'Next', spotifyTrackId: '5IFCyWplye09HytIP80RCF' },
-  { title: 'Too Much Heaven', artist: 'Bee Gees', spotifyTrackId: '6T5GTy1l6dRmagqpNPjdoc' },
-  {
-    title: 'Too Much, Too Little, Too Late (with Deniece Williams)',
-    artist: 'Johnny Mathis',
-    spotifyTrackId: '7c8tlriQMBusKSsXMg8fHm',
-  },
-  { title: 'Too Sweet', artist: 'Hozier', spotifyTrackId: '4IadxL6BUymXlh8RCJJu7T' },
-  { title: 'Toosie Slide', artist: 'Drake', spotifyTrackId: '127QTOFJsJQp5LbJbu3A1y' },
-  { title: 'Top Of The World', artist: 'Carpenters', spotifyTrackId: '1Ehdm1PDlKrdfyBsjwEvd1' },
-  {
-    title: 'Torn Between Two Lovers',
-    artist: 'Mary MacGregor',
-    spotifyTrackId: '0uSrLvAGZPVkO2DgCj6DfC',
-  },
-  {
-    title: 'Tossin And Turnin',
-    artist: 'Bobby Lewis',
-    spotifyTrackId: '0yF3OBOrMDYw3xeHh70OyA',
-  },
-  {
-    title: 'Total Eclipse of the Heart',
-    artist: 'Bonnie Tyler',
-    spotifyTrackId: '7wuJGgpTNzbUyn26IOY6rj',
-  },
-  {
-    title: 'Touch Me In The Morning',
-    artist: 'Diana Ross',
-    spotifyTrackId: '4sIkDCqNjTubfb5UVs8lEA',
-  },
-  { title: 'Touch My Body', artist: 'Mariah Carey', spotifyTrackId: '2aEuXA1KswHlCGPOuPmCOW' },
-  {
-    title: 'Toy Soldiers',
-    artist: 'Martika',
-    spotifyTrackId: '6KEXYxgVSX6dUvXkmFUGuI',
-  },
-  { title: 'Tragedy', artist: 'Bee Gees', spotifyTrackId: '6UXXeFqMBGiqjkzQzkMT3E' },
-  { title: "Travelin' Man", artist: 'Ricky Nelson', spotifyTrackId: '2jc4wyf3ys0zKCpxHRjEYx' },
-  {
-    title: 'TROLLZ (with Nicki Minaj)',
-    artist: '6ix9ine',
-    spotifyTrackId: '3JwxpSpGaXmGqLwWN6D6eC',
-  },
-  { title: 'True Colors', artist: 'Cyndi Lauper', spotifyTrackId: '2A6yzRGMgSQCUapR2ptm6A' },
-  { title: 'Truly', artist: 'Lionel Richie', spotifyTrackId: '7AslBsiVLQAGrmFmi79ZeK' },
-  {
-    title: 'Truly Madly Deeply',
-    artist: 'Savage Garden',
-    spotifyTrackId: '013AWvizllIUEC2FOBzOnh',
-  },
-  { title: 'Truth Hurts', artist: 'Lizzo', spotifyTrackId: '3HWzoMvoF3TQfYg4UPszDq' },
-  { title: 'Try Again', artist: 'Aaliyah', spotifyTrackId: '4FJo9f5wGYnRD6VFjwVGcB' },
-  {
-    title: 'Try That In A Small Town',
-    artist: 'Jason Aldean',
-    spotifyTrackId: '0qIH2poibFsRl64Mc3wwag',
-  },
-  {
-    title: 'TSOP (The Sound of Philadelphia) (feat. The Three Degrees)',
-    artist: 'MFSB',
-    spotifyTrackId: '6B9tR2OEurD4FsZM5btj3X',
-  },
-  {
-    title: 'Turn! Turn! Turn! (To Everything There Is a Season)',
-    artist: 'The Byrds',
-    spotifyTrackId: '5qBqBdfTEIWJwAS0Jm2F5R',
-  },
-  { title: 'Two Hearts', artist: 'Phil Collins', spotifyTrackId: '2BgWv15eKCDfiubKo6o76k' },
-  { title: 'U Got It Bad', artist: 'Usher', spotifyTrackId: '7J41dYQolQJEtj3UmKLu5r' },
-  { title: 'U Remind Me', artist: 'Usher', spotifyTrackId: '2QsZVnbWVSjKMXK6K3uRBL' },
-  { title: 'Umbrella', artist: 'Rihanna', spotifyTrackId: '49FYlytm3dAAraYgpoJZux' },
-  { title: 'Un-Break My Heart', artist: 'Toni Braxton', spotifyTrackId: '5Ihd9HrPvOADyVoonH9ZjB' },
-  { title: 'Unbelievable', artist: 'EMF', spotifyTrackId: '5VYTKiOnHw4iTrB9pG3yum' },
-  {
-    title: 'Uncle Albert / Admiral Halsey',
-    artist: 'Paul & Linda McCartney',
-    spotifyTrackId: '5SwgE4wA0P7f6AEz2UQMB2',
-  },
-  {
-    title: 'Undercover Angel (Rerecorded)',
-    artist: "Alan O'Day",
-    spotifyTrackId: '1omEzCL4mFTnQgbYW9bLHt',
-  },
-  {
-    title: 'Unholy (feat. Kim Petras)',
-    artist: 'Sam Smith',
-    spotifyTrackId: '3nqQXoyQOWXiESFLlDF1hG',
-  },
-  { title: 'Unpretty', artist: 'TLC', spotifyTrackId: '6iFP92AND2nfZrEQyY0mN8' },
-  { title: 'Up', artist: 'Cardi B', spotifyTrackId: '1XXimziG1uhM0eDNCZCrUl' },
-  { title: 'Up Where We Belong', artist: 'Joe Cocker', spotifyTrackId: '0Co8hKbjUy273NrGliGdWZ' },
-  { title: 'Upside Down', artist: 'Diana Ross', spotifyTrackId: '3pbtBomO4Zt5gGiqsYeiBH' },
-  {
-    title: 'Uptown Funk - Radio Edit',
-    artist: 'Mark Ronson',
-    spotifyTrackId: '4QOlcQFud4Z2xFhtgZxyDC',
-  },
-  { title: 'vampire', artist: 'Olivia Rodrigo', spotifyTrackId: '1kuGVB7EU95pJObxwvfwKS' },
-  { title: 'Venus', artist: 'Frankie Avalon', spotifyTrackId: '6feurIHW6vyqq9OGOieSVo' },
-  { title: 'Venus', artist: 'Shocking Blue', spotifyTrackId: '0Z3xhSOhrawLV81YdiDiiJ' },
-  { title: 'Venus', artist: 'Bananarama', spotifyTrackId: '4XX1pFUkQOZTYp6Hb6a6Ae' },
-  { title: 'Vision of Love', artist: 'Mariah Carey', spotifyTrackId: '0gLQ6jhJsyYfl7PrD1RZ7X' },
-  { title: 'Viva La Vida', artist: 'Coldplay', spotifyTrackId: '1mea3bSkSGXuIRvnydlB5b' },
-  { title: 'Vogue - Edit', artist: 'Madonna', spotifyTrackId: '5npMYgysWSKOIVXj2szeLn' },
-  {
-    title: 'WAIT FOR U (feat. Drake & Tems)',
-    artist: 'Future',
-    spotifyTrackId: '59nOXPmaKlBfGMDeOVGrIK',
-  },
-  {
-    title: 'Wake Me Up Before You Go-Go',
-    artist: 'Wham!',
-    spotifyTrackId: '0ikz6tENMONtK6qGkOrU3c',
-  },
-  {
-    title: 'Walk Like a Man',
-    artist: 'Frankie Valli & The Four Seasons',
-    spotifyTrackId: '4C76SOnBa9eQDwOwe11hPz',
-  },
-  {
-    title: 'Walk Like an Egyptian',
-    artist: 'The Bangles',
-    spotifyTrackId: '1Jwc3ODLQxtbnS8M9TflSP',
-  },
-  {
-    title: 'Walk Right In',
-    artist: 'The Rooftop Singers',
-    spotifyTrackId: '4WhT2YADjcU58IUgroWZQZ',
-  },
-  { title: 'Wannabe', artist: 'Spice Girls', spotifyTrackId: '1Je1IMUlBXcx1Fz0WE7oPT' },
-  { title: 'Want Ads', artist: 'Honey Cone', spotifyTrackId: '3YpN9pvaTXKSXurj3HBq8M' },
-  {
-    title: 'WAP (feat. Megan Thee Stallion)',
-    artist: 'Cardi B',
-    spotifyTrackId: '4Oun2ylbjFKMPTiaSbbCih',
-  },
-  { title: 'War', artist: 'Edwin Starr', spotifyTrackId: '4ZEEcEMGjkWOfZNBcIB9yE' },
-  { title: 'Waterfalls', artist: 'TLC', spotifyTrackId: '6qspW4YKycviDFjHBOaqUY' },
-  { title: 'Watermelon Sugar', artist: 'Harry Styles', spotifyTrackId: '6UelLqGlWMcVH1E5c4H7lY' },
-  {
-    title: 'Way 2 Sexy (with Future & Young Thug)',
-    artist: 'Drake',
-    spotifyTrackId: '0k1WUmIRnG3xU6fvvDVfRG',
-  },
-  {
-    title: 'We Are Never Ever Getting Back Together',
-    artist: 'Taylor Swift',
-    spotifyTrackId: '7AEAGTc8cReDqcbPoY9gwo',
-  },
-  {
-    title: 'We Are The World',
-    artist: 'U.S.A. For Africa',
-    spotifyTrackId: '3Z2tPWiNiIpg8UMMoowHIk',
-  },
-  {
-    title: 'We Are Young (feat. Janelle Monáe)',
-    artist: 'fun.',
-    spotifyTrackId: '7a86XRg84qjasly9f6bPSD',
-  },
-  { title: 'We Belong Together', artist: 'Mariah Carey', spotifyTrackId: '3LmvfNUQtglbTrydsdIqFU' },
-  { title: 'We Built This City', artist: 'Starship', spotifyTrackId: '0DYaUucFNAbjEazLh3KDzH' },
-  { title: 'We Can Work It Out', artist: 'The Beatles', spotifyTrackId: '1hTUFqJuQAMjXVGwUPWDqi' },
-  {
-    title: "we can't be friends (wait for your love)",
-    artist: 'Ariana Grande',
-    spotifyTrackId: '6FcKs2bVkEDRKZUF0szYgM',
-  },
-  {
-    title: "We Didn't Start the Fire",
-    artist: 'Billy Joel',
-    spotifyTrackId: '3Cx4yrFaX8CeHwBMReOWXI',
-  },
-  {
-    title: "We Don't Talk About Bruno",
-    artist: 'Carolina Gaitán - La Gaita',
-    spotifyTrackId: '52xJxFP6TqMuO4Yt0eOkMz',
-  },
-  { title: 'We Found Love', artist: 'Rihanna', spotifyTrackId: '6qn9YLKt13AGvpq9jfO8py' },
-  { title: 'We R Who We R', artist: 'Kesha', spotifyTrackId: '3LUWWox8YYykohBbHUrrxd' },
-  {
-    title: "We're An American Band",
-    artist: 'Grand Funk Railroad',
-    spotifyTrackId: '3XcjIvaZVUFAIdIYZqY9bd',
-  },
-  { title: 'Weak', artist: 'SWV', spotifyTrackId: '71EHOyEOhNx1SzTebRRyng' },
-  {
-    title: 'Wedding Bell Blues - Laura Nyro Cover',
-    artist: 'The 5th Dimension',
-    spotifyTrackId: '0bzNvVatHKKtAudmRvar8J',
-  },
-  {
-    title: 'Welcome Back (Theme from Welcome Back, Kotter)',
-    artist: 'John Sebastian',
-    spotifyTrackId: '2pS6zWWQCpO0IVEBIbzJh8',
-  },
-  { title: 'West End Girls', artist: 'Pet Shop Boys', spotifyTrackId: '4koGF4vd2AV8pF7R3TVBVq' },
-  {
-    title: 'What a Fool Believes',
-    artist: 'The Doobie Brothers',
-    spotifyTrackId: '2yBVeksU2EtrPJbTu4ZslK',
-  },
-  {
-    title: 'What a Girl Wants',
-    artist: 'Christina Aguilera',
-    spotifyTrackId: '5bGmuxShUba9maPswDnhCs',
-  },
-  { title: 'What Do You Mean?', artist: 'Justin Bieber', spotifyTrackId: '4B0JvthVoAAuygILe3n4Bs' },
-  {
-    title: 'What Goes Around... Comes Around',
-    artist: 'Justin Timberlake',
-    spotifyTrackId: '0R03f3Axt495bkgGhivLEe',
-  },
-  {
-    title: "What's Love Got to Do with It",
-    artist: 'Tina Turner',
-    spotifyTrackId: '4kOfxxnW1ukZdsNbCKY9br',
-  },
-  { title: "What's My Name?", artist: 'Rihanna', spotifyTrackId: '6DkXLzBQT7cwXmTyzAB1DJ' },
-  { title: "What's Next", artist: 'Drake', spotifyTrackId: '3aQem4jVGdhtg116TmJnHz' },
-  { title: 'Whatcha Say', artist: 'Jason Derulo', spotifyTrackId: '2zJZwWF7BTGIIvrAlgzJEx' },
-  {
-    title: 'Whatever Gets You Thru The Night',
-    artist: 'John Lennon',
-    spotifyTrackId: '4eQPPN2uwGYd7CCRZY6lyt',
-  },
-  { title: 'Whatever You Like', artist: 'T.I.', spotifyTrackId: '1IAzD1muglOxOcPbUHs70R' },
-  {
-    title: 'When a Man Loves a Woman',
-    artist: 'Percy Sledge',
-    spotifyTrackId: '51FpzuGkRYXFgsE2zXt9av',
-  },
-  {
-    title: 'When a Man Loves a Woman',
-    artist: 'Michael Bolton',
-    spotifyTrackId: '3ascnOSOR5MX901ylGuhcl',
-  },
-  {
-    title: 'When Doves Cry',
-    artist: 'Prince',
-    spotifyTrackId: '5aEfPt7OoJhpeeEj5MkXQ4',
-  },
-  { title: 'When I Need You', artist: 'Leo Sayer', spotifyTrackId: '2TcwEYyydQuEMJwdmSgVLD' },
-  {
-    title: 'When I See You Smile',
-    artist: 'Bad English',
-    spotifyTrackId: '0tKjVEJlX3IZ5L1rEJc5hh',
-  },
-  {
-    title: 'When I Think Of You',
-    artist: 'Janet Jackson',
-    spotifyTrackId: '3mJ6pNcFM2CkykCYSREdKT',
-  },
-  { title: 'When I Was Your Man', artist: 'Bruno Mars', spotifyTrackId: '0nJW01T7XtvILxQgC5J7Wh' },
-  { title: "When I'm With You", artist: 'Sheriff', spotifyTrackId: '7qcB8SOQupGcYAidkVXwwf' },
-  {
-    title: 'Where Did Our Love Go',
-    artist: 'The Supremes',
-    spotifyTrackId: '69RH84na5iUNwrwxpgjC5j',
-  },
-  {
-    title: 'Where Do Broken Hearts Go',
-    artist: 'Whitney Houston',
-    spotifyTrackId: '7tLtIZclwLWk54PFAyDv5T',
-  },
-  { title: 'Whistle', artist: 'Flo Rida', spotifyTrackId: '3bC1ahPIYt1btJzSSEyyrF' },
-  { title: 'Who Can It Be Now?', artist: 'Men At Work', spotifyTrackId: '5rfJ2Bq2PEL8yBjZLzouEu' },
-  { title: "Who's That Girl", artist: 'Madonna', spotifyTrackId: '3G0NNqwQ1sqRpySr6soHlH' },
-  { title: 'Why', artist: 'Frankie Avalon', spotifyTrackId: '4bfOSPvUq587Hp1x541CRB' },
-  { title: 'Wild Thing', artist: 'The Troggs', spotifyTrackId: '0D9J4MkQVyn1690CBqLx4u' },
-  { title: 'Wild Wild West', artist: 'The Escape Club', spotifyTrackId: '4Qn1QhHhUT01LfpBnC7xnf' },
-  {
-    title: 'Wild Wild West',
-    artist: 'Will Smith',
-    spotifyTrackId: '78ZzF9pK3foniEnK64XzX5',
-  },
-  {
-    title: 'Will It Go Round In Circles',
-    artist: 'Billy Preston',
-    spotifyTrackId: '0k5YMrVmBTlWTxcCyFv5xA',
-  },
-  {
-    title: 'Will You Love Me Tomorrow',
-    artist: 'The Shirelles',
-    spotifyTrackId: '7vjrRo9zu1pvrqLe6A5Yex',
-  },
-  { title: 'willow', artist: 'Taylor Swift', spotifyTrackId: '0lx2cLdOt3piJbcaXIV74f' },
-  {
-    title: 'Winchester Cathedral',
-    artist: 'New Vaudeville Band',
-    spotifyTrackId: '3Q51jQuzjEDMTyFX4pT2dK',
-  },
-  {
-    title: 'Wind Beneath My Wings',
-    artist: 'Bette Midler',
-    spotifyTrackId: '2Pxqs0WmxxHTV5QaTdmt3Q',
-  },
-  { title: 'Windy', artist: 'The Association', spotifyTrackId: '6RUpOheT93fUdI508K5w6U' },
-  {
-    title: 'Wishing Well',
-    artist: "Terence Trent D'Arby",
-    spotifyTrackId: '2bvzxeD1hPWEYotw40Euq9',
-  },
-  {
-    title: 'With A Little Luck - DJ Edit',
-    artist: 'Wings',
-    spotifyTrackId: '6zfsuf1WpV0PJq8LF1rioS',
-  },
-  { title: 'With Arms Wide Open', artist: 'Creed', spotifyTrackId: '0eKyHwckh9vQb8ncZ2DXCs' },
-  { title: 'With Or Without You', artist: 'U2', spotifyTrackId: '6QPhpvO1pWDS91EsEmzsbc' },
-  { title: 'Without Me', artist: 'Halsey', spotifyTrackId: '5p7ujcrUXASCNwRaWNHR1C' },
-  { title: 'Without You', artist: 'Harry Nilsson', spotifyTrackId: '6MrILERJLA3Jcq0E9poZsp' },
-  { title: 'Woman in Love', artist: 'Barbra Streisand', spotifyTrackId: '1pTGc8pwyo6xtgXBKCBcFn' },
-  { title: 'Womanizer', artist: 'Britney Spears', spotifyTrackId: '4fixebDZAVToLbUCuEloa2' },
-  {
-    title: 'Wonderland by Night',
-    artist: 'Bert Kaempfert',
-    spotifyTrackId: '2kr7M1fNdtsqyo3eUkdZsZ',
-  },
-  { title: 'Wooden Heart', artist: 'Joe Dowell', spotifyTrackId: '2ELAMT68a78OGwhCgj9Kai' },
-  { title: 'Work', artist: 'Rihanna', spotifyTrackId: '72TFWvU3wUYdUuxejTTIzt' },
-  { title: 'Wrecking Ball', artist: 'Miley Cyrus', spotifyTrackId: '2vwlzO0Qp8kfEtzTsCXfyE' },
-  {
-    title: 'Yeah! (feat. Lil Jon & Ludacris)',
-    artist: 'Usher',
-    spotifyTrackId: '5rb9QrpfcKFHM1EUbSIurX',
-  },
-  { title: 'yes, and?', artist: 'Ariana Grande', spotifyTrackId: '7gaA3wERFkFkgivjwbSvkG' },
-  { title: 'Yesterday', artist: 'The Beatles', spotifyTrackId: '3BQHpFgAp4l80e1XslIjNI' },
-  {
-    title: "You Ain't Seen Nothing Yet",
-    artist: 'Bachman-Turner Overdrive',
-    spotifyTrackId: '6D8hZtbS4ul6jYQRICqRAO',
-  },
-  {
-    title: 'You Are Not Alone',
-    artist: 'Michael Jackson',
-    spotifyTrackId: '3AoeaZs8dFemFJr3JdzOL0',
-  },
-  {
-    title: 'You Are The Sunshine Of My Life With Horns',
-    artist: 'Stevie Wonder',
-    spotifyTrackId: '1Qmbu67shyEmjBAaiDFePM',
-  },
-  {
-    title: "You Can't Hurry Love",
-    artist: 'The Supremes',
-    spotifyTrackId: '1OppEieGNdItZbE14gLBEv',
-  },
-  {
-    title: "You Don't Bring Me Flowers",
-    artist: 'Neil Diamond',
-    spotifyTrackId: '7qmqeHzgNQTOnl1NUgRFO4',
-  },
-  {
-    title: "You Don't Have to Be a Star (To Be In My Show)",
-    artist: 'Marilyn McCoo',
-    spotifyTrackId: '2JurHS80N98Yt3CdIBYz9M',
-  },
-  {
-    title: 'You Give Love A Bad Name',
-    artist: 'Bon Jovi',
-    spotifyTrackId: '0rmGAIH9LNJewFw7nKzZnc',
-  },
-  {
-    title: "You Haven't Done Nothin'",
-    artist: 'Stevie Wonder',
-    spotifyTrackId: '1inwt0v9a4ib9yS6Y4KsdM',
-  },
-  {
-    title: "You Keep Me Hangin' On",
-    artist: 'Kim Wilde',
-    spotifyTrackId: '1wEeNtO7z41aUqC80shxqK',
-  },
-  {
-    title: "You Keep Me Hangin' On",
-    artist: 'The Supremes',
-    spotifyTrackId: '4a01ClusxuZiloOK5UgLUn',
-  },
-  {
-    title: 'You Light Up My Life',
-    artist: 'Debby Boone',
-    spotifyTrackId: '3dFR132gzO8jxD57R2gid3',
-  },
-  {
-    title: 'You Make Me Feel Like Dancing',
-    artist: 'Leo Sayer',
-    spotifyTrackId: '7eu8WlAizBndJ0aOpOyNka',
-  },
-  { title: 'You Needed Me', artist: 'Anne Murray', spotifyTrackId: '5d4E1hgkLyb7sXr5J3InnM' },
-  { title: 'You Should Be Dancing', artist: 'Bee Gees', spotifyTrackId: '2xiOdusRnZezQok1RgLNeS' },
-  { title: "You're Beautiful", artist: 'James Blunt', spotifyTrackId: '0vg4WnUWvze6pBOJDTq99k' },
-  {
-    title: "You're In Love",
-    artist: 'Wilson Phillips',
-    spotifyTrackId: '5N9T3mnMdjobR4J6PhiktT',
-  },
-  {
-    title: "You're Makin' Me High / Let It Flow",
-    artist: 'Toni Braxton',
-    spotifyTrackId: '6km8DNeTxW0U9NfXYB6TTc',
-  },
-  { title: "You're No Good", artist: 'Linda Ronstadt', spotifyTrackId: '23DZLSxCK6kM8FF2RlzKDl' },
-  {
-    title: "You're Sixteen (You're Beautiful And You're Mine)",
-    artist: 'Ringo Starr',
-    spotifyTrackId: '4MAxWahEbzU8m4bD6mSZg9',
-  },
-  { title: "You're So Vain", artist: 'Carly Simon', spotifyTrackId: '2DnJjbjNTV9Nd5NOa1KGba' },
-  {
-    title: "You're The One That I Want - From “Grease”",
-    artist: 'John Travolta',
-    spotifyTrackId: '0B9x2BRHqj3Qer7biM3pU3',
-  },
-  {
-    title: "You've Got a Friend",
-    artist: 'James Taylor',
-    spotifyTrackId: '69l8nFPu0LWmnoJX7YSVYc',
-  },
-  {
-    title: "You've Lost That Lovin' Feelin'",
-    artist: 'The Righteous Brothers',
-    spotifyTrackId: '6AeyHqzNHJthYJbn0tvJ4b',
-  },
-];
-
-export const spotifyTracks = tracks;
-
-export const spotifyTrackMap = new Map(
-  tracks.map((track) => [createKey(track.title, track.artist), track] as const)
-);
-
-export const getSpotifyTrackId = (title: string, artist: string) => {
-  const key = createKey(title, artist);
-  const exact = spotifyTrackMap.get(key)?.spotifyTrackId;
-  if (exact) return exact;
-
-  // Fallback: partial match by substring
-  const normalizedTitle = normalize(title);
-  const normalizedArtist = normalize(artist);
-
-  for (const [storedKey, entry] of spotifyTrackMap.entries()) {
-    const [storedTitle, storedArtist] = storedKey.split('::');
-    const titleMatch =
-      storedTitle.includes(normalizedTitle) || normalizedTitle.includes(storedTitle);
-    const artistMatch =
-      storedArtist.includes(normalizedArtist) || normalizedArtist.includes(storedArtist);
-    if (titleMatch && artistMatch) {
-      return entry.spotifyTrackId;
-    }
-  }
-
-  return undefined;
-};
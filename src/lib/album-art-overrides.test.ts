@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessAlbumArtMatch,
+  isAlbumArtOverrideApplied,
+  isAlbumArtOverridePinned,
+  parseAlbumArtOverrides,
+} from './album-art-overrides';
+import type { AlbumArtEntry } from './album-art-pipeline';
+
+const entry: AlbumArtEntry = {
+  title: '(Everything I Do) I Do It for You',
+  artist: 'Bryan Adams',
+  slug: 'everything-i-do-i-do-it-for-you-bryan-adams',
+  status: 'ok',
+  source: 'spotify',
+  imageUrl: 'https://i.scdn.co/image/power-ballads',
+  spotify: { trackId: 't1', albumId: 'power-ballads', albumName: 'Power Ballads' },
+  provenance: {
+    provider: 'spotify',
+    sourceUrl: 'https://open.spotify.com/album/power-ballads',
+    albumName: 'Power Ballads',
+    releaseDate: '2020-10-30',
+    license: 'Cover art provided by Spotify.',
+    retrievedAt: '2025-10-13T00:00:00Z',
+  },
+};
+
+describe('album art overrides', () => {
+  it('validates the overrides file', () => {
+    const overrides = {
+      'heaven-bryan-adams': { spotifyAlbumId: 'reckless', note: 'Original album' },
+      'i-am-a-woman-helen-reddy': { missing: true },
+    };
+    expect(parseAlbumArtOverrides(overrides)).toBe(overrides);
+    expect(() => parseAlbumArtOverrides([])).toThrow(/keyed by album-art slug/);
+    expect(() => parseAlbumArtOverrides({ a: { albumId: 'x' } })).toThrow(
+      /"a" has unknown fields: albumId/
+    );
+    expect(() => parseAlbumArtOverrides({ a: { file: 'a.jpg', missing: true } })).toThrow(
+      /only one of/
+    );
+  });
+
+  it('refetches entries that do not yet reflect their override', () => {
+    expect(isAlbumArtOverrideApplied(entry, undefined)).toBe(true);
+    expect(isAlbumArtOverrideApplied(entry, { approved: entry.imageUrl })).toBe(true);
+    expect(isAlbumArtOverrideApplied(entry, { spotifyAlbumId: 'waking-up' })).toBe(false);
+    expect(isAlbumArtOverrideApplied(entry, { spotifyAlbumId: 'power-ballads' })).toBe(true);
+    expect(isAlbumArtOverrideApplied(entry, { file: 'local-album-art/single.jpg' })).toBe(false);
+    expect(isAlbumArtOverrideApplied(entry, { missing: true })).toBe(false);
+
+    const skipped = { ...entry, status: 'skipped' as const };
+    expect(isAlbumArtOverrideApplied(skipped, { missing: true })).toBe(true);
+    // Removing the override brings the track back into the pipeline.
+    expect(isAlbumArtOverrideApplied(skipped, undefined)).toBe(false);
+
+    expect(isAlbumArtOverridePinned({ file: 'local-album-art/single.jpg' })).toBe(true);
+    expect(isAlbumArtOverridePinned({ approved: entry.imageUrl })).toBe(false);
+  });
+
+  it('flags compilations and releases far from the chart year', () => {
+    expect(assessAlbumArtMatch(entry, 1991)).toEqual([
+      'released in 2020, but first reached #1 in 1991',
+    ]);
+
+    const compilation = {
+      ...entry,
+      spotify: { ...entry.spotify, albumType: 'compilation' },
+      provenance: { ...entry.provenance!, albumName: 'So Far So Good', releaseDate: '1993-11-02' },
+    };
+    expect(assessAlbumArtMatch(compilation, 1991)).toEqual([
+      'Spotify lists the album as a compilation',
+      'released in 1993, but first reached #1 in 1991',
+    ]);
+
+    const ultimateEdit = {
+      ...entry,
+      provenance: { ...entry.provenance!, albumName: 'Ultimate', releaseDate: '1991-06-01' },
+    };
+    expect(assessAlbumArtMatch(ultimateEdit, 1991)).toEqual([
+      'album "Ultimate" looks like a compilation or reissue',
+    ]);
+
+    const original = {
+      ...entry,
+      provenance: {
+        ...entry.provenance!,
+        albumName: 'Waking Up the Neighbours',
+        releaseDate: '1991-09-24',
+      },
+    };
+    expect(assessAlbumArtMatch(original, 1991)).toEqual([]);
+    expect(assessAlbumArtMatch(original)).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Hand corrections for the album-art pipeline, read from `scripts/album-art/overrides.json` and
+ * keyed by album-art slug, plus the checks behind `album-art review`, which flags covers that
+ * were probably matched to the wrong release so a person can pin a better one or approve them.
+ */
+
+import type { AlbumArtEntry } from './album-art-pipeline';
+
+export interface AlbumArtOverride {
+  /** Use this Spotify album's cover rather than the album of the mapped track. */
+  spotifyAlbumId?: string;
+  /** Use this repository-relative image rather than asking any provider. */
+  file?: string;
+  /** The track has no cover on purpose: `fetch` marks it `skipped` and leaves it alone. */
+  missing?: boolean;
+  /** The image URL a reviewer accepted; `review` stops flagging the cover until it changes. */
+  approved?: string;
+  /** Why the override exists. */
+  note?: string;
+}
+
+export type AlbumArtOverrides = Record<string, AlbumArtOverride>;
+
+const overrideFields = ['spotifyAlbumId', 'file', 'missing', 'approved', 'note'];
+
+/** Check the overrides file's shape, naming the slug of the first bad entry. */
+export const parseAlbumArtOverrides = (value: unknown): AlbumArtOverrides => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Album-art overrides must be an object keyed by album-art slug.');
+  }
+
+  for (const [slug, override] of Object.entries(value)) {
+    if (!override || typeof override !== 'object' || Array.isArray(override)) {
+      throw new Error(`Album-art override "${slug}" must be an object.`);
+    }
+    const unknown = Object.keys(override).filter((field) => !overrideFields.includes(field));
+    if (unknown.length) {
+      throw new Error(`Album-art override "${slug}" has unknown fields: ${unknown.join(', ')}.`);
+    }
+    const { spotifyAlbumId, file, missing } = override as AlbumArtOverride;
+    if ([spotifyAlbumId, file, missing].filter(Boolean).length > 1) {
+      throw new Error(
+        `Album-art override "${slug}" can set only one of spotifyAlbumId, file and missing.`
+      );
+    }
+  }
+  return value as AlbumArtOverrides;
+};
+
+/** Whether the override pins a particular cover, so `fetch` skips the usual providers. */
+export const isAlbumArtOverridePinned = (override: AlbumArtOverride | undefined) =>
+  Boolean(override?.spotifyAlbumId || override?.file);
+
+/**
+ * Whether the entry already reflects its override. One that does not is fetched again even when
+ * it is `ok`, so editing the overrides file and rerunning `fetch` is enough to apply it.
+ */
+export const isAlbumArtOverrideApplied = (
+  entry: AlbumArtEntry,
+  override: AlbumArtOverride | undefined
+): boolean => {
+  if (override?.missing) return entry.status === 'skipped';
+  if (override?.spotifyAlbumId) {
+    return entry.source === 'spotify' && entry.spotify?.albumId === override.spotifyAlbumId;
+  }
+  if (override?.file) return entry.source === 'local' && entry.imageUrl === override.file;
+  return entry.status !== 'skipped';
+};
+
+/** Album titles that usually mean a compilation or an alternate version of the single. */
+const compilationPattern =
+  /\b(greatest hits|best of|the very best|hits|collection|compilation|anthology|essentials?|gold|number ones|now that's what|ultimate|edit)\b/i;
+
+/**
+ * Why a cover may not be the single's original artwork: a compilation album, or a release year
+ * more than a year away from the song's first year at #1. Empty when nothing looks wrong.
+ */
+export const assessAlbumArtMatch = (entry: AlbumArtEntry, chartYear?: number): string[] => {
+  const reasons: string[] = [];
+  const { provenance } = entry;
+  const albumName = provenance?.albumName ?? entry.spotify?.albumName;
+  const releaseDate = provenance?.releaseDate ?? entry.spotify?.releaseDate;
+
+  if (entry.spotify?.albumType === 'compilation') {
+    reasons.push('Spotify lists the album as a compilation');
+  } else if (albumName && compilationPattern.test(albumName)) {
+    reasons.push(`album "${albumName}" looks like a compilation or reissue`);
+  }
+
+  const releaseYear = releaseDate ? Number(releaseDate.slice(0, 4)) : NaN;
+  if (chartYear && Number.isInteger(releaseYear) && Math.abs(releaseYear - chartYear) > 1) {
+    reasons.push(`released in ${releaseYear}, but first reached #1 in ${chartYear}`);
+  }
+
+  if (entry.source === 'wikipedia') {
+    reasons.push('found by a Wikipedia search rather than a catalogue match');
+  }
+  return reasons;
+};
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createAlbumArtCache,
+  ensureAlbumArtEntry,
+  findMissingAlbumArtProvenance,
+  isAlbumArtStepDue,
+  markAlbumArtFetched,
+  listAlbumArtVariantFiles,
+  markAlbumArtResized,
+  matchesAlbumArtSelection,
+  parseAlbumArtArgs,
+  reconcileAlbumArtEntry,
+  retireAlbumArtWidths,
+  selectAlbumArtWidths,
+  type AlbumArtVariants,
+} from './album-art-pipeline';
+
+const track = {
+  title: 'Purple Rain',
+  artist: 'Prince',
+  slug: 'purple-rain-prince',
+};
+
+const credit = { sourceUrl: 'https://open.spotify.com/album/1', license: 'Provided by Spotify.' };
+
+const variants: AlbumArtVariants = {
+  widths: [88, 176],
+  webp: 'public/images/covers/purple-rain-prince-{width}.webp',
+  avif: 'public/images/covers/purple-rain-prince-{width}.avif',
+  placeholder: 'data:image/webp;base64,AAAA',
+  color: '#4b2a6d',
+};
+
+describe('album art pipeline', () => {
+  it('walks an entry from pending to ok, one resumable step at a time', () => {
+    const cache = createAlbumArtCache();
+    const entry = ensureAlbumArtEntry(cache, track);
+    expect(entry.status).toBe('pending');
+    expect(isAlbumArtStepDue(entry, 'fetch')).toBe(true);
+    expect(isAlbumArtStepDue(entry, 'resize')).toBe(false);
+
+    markAlbumArtFetched(
+      entry,
+      {
+        rawFile: 'raw-album-art/purple-rain-prince.jpg',
+        source: 'spotify',
+        imageUrl: 'https://a',
+        credit,
+      },
+      '2025-10-01T00:00:00Z'
+    );
+    expect(entry.provenance).toEqual({
+      provider: 'spotify',
+      ...credit,
+      retrievedAt: '2025-10-01T00:00:00Z',
+    });
+    expect(isAlbumArtStepDue(entry, 'fetch')).toBe(false);
+    expect(isAlbumArtStepDue(entry, 'resize')).toBe(true);
+
+    markAlbumArtResized(entry, variants, '2025-10-02T00:00:00Z');
+    expect(entry.status).toBe('ok');
+    expect(isAlbumArtStepDue(entry, 'resize')).toBe(false);
+    expect(isAlbumArtStepDue(entry, 'resize', { force: true })).toBe(true);
+
+    // Refetching invalidates the thumbnails made from the old download.
+    markAlbumArtFetched(
+      entry,
+      {
+        rawFile: 'raw-album-art/purple-rain-prince.png',
+        source: 'local',
+        imageUrl: 'b.png',
+        credit: { sourceUrl: 'b.png', license: 'Supplied by hand.' },
+      },
+      '2025-10-03T00:00:00Z'
+    );
+    expect(entry).toMatchObject({
+      status: 'fetched',
+      source: 'local',
+      rawFile: 'raw-album-art/purple-rain-prince.png',
+    });
+    expect(entry.optimized).toBeUndefined();
+    expect(ensureAlbumArtEntry(cache, track)).toBe(entry);
+  });
+
+  it('demotes entries whose files have gone missing', () => {
+    const entry = ensureAlbumArtEntry(createAlbumArtCache(), track);
+    markAlbumArtFetched(
+      entry,
+      { rawFile: 'raw.jpg', source: 'spotify', imageUrl: 'https://a', credit },
+      '2025-10-01T00:00:00Z'
+    );
+    markAlbumArtResized(entry, variants, '2025-10-01T00:00:00Z');
+
+    expect(reconcileAlbumArtEntry(entry, { raw: true, webp: true, avif: true }, 'now')).toEqual([]);
+    expect(reconcileAlbumArtEntry(entry, { raw: true, webp: true, avif: false }, 'now')).toEqual([
+      'AVIF thumbnails are missing',
+    ]);
+    expect(entry.status).toBe('fetched');
+    expect(reconcileAlbumArtEntry(entry, { raw: false, webp: false, avif: false }, 'now')).toEqual([
+      'raw download is missing',
+    ]);
+    expect(entry.status).toBe('pending');
+    expect(entry.rawFile).toBeUndefined();
+  });
+
+  it('reports covers without complete provenance', () => {
+    const entry = ensureAlbumArtEntry(createAlbumArtCache(), track);
+    expect(findMissingAlbumArtProvenance(entry)).toEqual(['provenance']);
+
+    markAlbumArtFetched(
+      entry,
+      { rawFile: 'raw.jpg', source: 'spotify', imageUrl: 'https://a', credit },
+      '2025-10-01T00:00:00Z'
+    );
+    expect(findMissingAlbumArtProvenance(entry)).toEqual([]);
+
+    entry.provenance = { ...entry.provenance!, sourceUrl: '', license: '' };
+    expect(findMissingAlbumArtProvenance(entry)).toEqual(['sourceUrl', 'license']);
+  });
+
+  it('generates every width the raw download can fill', () => {
+    expect(selectAlbumArtWidths(640)).toEqual([88, 176, 320]);
+    expect(selectAlbumArtWidths(300)).toEqual([88, 176]);
+    expect(selectAlbumArtWidths(50)).toEqual([88]);
+    expect(listAlbumArtVariantFiles(variants)).toEqual([
+      'public/images/covers/purple-rain-prince-88.webp',
+      'public/images/covers/purple-rain-prince-88.avif',
+      'public/images/covers/purple-rain-prince-176.webp',
+      'public/images/covers/purple-rain-prince-176.avif',
+    ]);
+  });
+
+  it('retires widths that are no longer generated', () => {
+    const generated = { ...variants, widths: [88, 176, 640] };
+    expect(retireAlbumArtWidths(generated)).toBe(true);
+    expect(generated.widths).toEqual([88, 176]);
+    expect(retireAlbumArtWidths(generated)).toBe(false);
+
+    // A cover with no current width keeps what it has until it is resized again.
+    const oversized = { ...variants, widths: [640] };
+    expect(retireAlbumArtWidths(oversized)).toBe(false);
+    expect(oversized.widths).toEqual([640]);
+  });
+
+  it('selects entries by slug and update time', () => {
+    const entry = { ...track, status: 'ok' as const, updatedAt: '2025-10-01T12:00:00Z' };
+    const since = new Date('2025-10-02T00:00:00Z');
+    expect(matchesAlbumArtSelection(track.slug, entry, { only: [track.slug] })).toBe(true);
+    expect(matchesAlbumArtSelection(track.slug, entry, { only: ['other'] })).toBe(false);
+    expect(matchesAlbumArtSelection(track.slug, entry, { since })).toBe(false);
+    expect(matchesAlbumArtSelection(track.slug, undefined, { since })).toBe(true);
+  });
+
+  it('parses subcommands and their options', () => {
+    expect(
+      parseAlbumArtArgs(['fetch', '--only', 'a', '--only=b,c', '--since', '2025-10-01', '--force'])
+    ).toEqual({
+      command: 'fetch',
+      only: ['a', 'b', 'c'],
+      since: new Date('2025-10-01T00:00:00Z'),
+      force: true,
+      limit: null,
+      dryRun: false,
+      record: false,
+      approve: false,
+    });
+    expect(
+      parseAlbumArtArgs(['fetch', '--providers', 'fixture,musicbrainz', '--record'])
+    ).toMatchObject({ providers: ['fixture', 'musicbrainz'], record: true });
+    expect(() => parseAlbumArtArgs(['fetch', '--providers', 'napster'])).toThrow(
+      /Unknown artwork provider "napster"/
+    );
+    expect(parseAlbumArtArgs(['review', '--approve', '--only', 'a'])).toMatchObject({
+      command: 'review',
+      approve: true,
+      only: ['a'],
+    });
+    expect(parseAlbumArtArgs(['prune', '--dry-run', '--limit=5'])).toMatchObject({
+      dryRun: true,
+      limit: 5,
+    });
+    expect(() => parseAlbumArtArgs([])).toThrow(/Usage/);
+    expect(() => parseAlbumArtArgs(['refresh'])).toThrow(/Unknown command "refresh"/);
+    expect(() => parseAlbumArtArgs(['fetch', '--since', 'someday'])).toThrow(/--since/);
+    expect(() => parseAlbumArtArgs(['fetch', '--only'])).toThrow(/needs a value/);
+    expect(() => parseAlbumArtArgs(['fetch', '--resume'])).toThrow(/Unknown option/);
+  });
+});
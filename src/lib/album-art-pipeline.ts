@@ -0,0 +1,396 @@
+/**
+ * State shared by the `album-art` CLI subcommands, kept free of file-system access so it can be
+ * tested. Each track's cache entry moves through a small state machine:
+ *
+ *   pending ──fetch──▶ fetched ──resize──▶ ok
+ *      ▲  └──fetch──▶ missing (retried by the next fetch)
+ *      └── validate demotes an entry whose files went missing
+ *
+ * A step only advances an entry after its output is on disk, so a crashed run resumes by
+ * running the same subcommand again.
+ */
+
+import {
+  isArtworkProviderName,
+  type ArtworkCredit,
+  type ArtworkProviderName,
+} from './artwork-providers';
+
+/**
+ * - `pending`: known track without a raw download.
+ * - `fetched`: raw download on disk; thumbnails still need generating.
+ * - `ok`: raw download and thumbnails on disk.
+ * - `missing`: no artwork could be found; `error` says why.
+ * - `skipped`: marked missing on purpose in the overrides file, so no step touches it.
+ */
+export type AlbumArtStatus = 'pending' | 'fetched' | 'ok' | 'missing' | 'skipped';
+
+export type AlbumArtStep = 'fetch' | 'resize';
+
+export interface AlbumArtTrack {
+  title: string;
+  artist: string;
+  slug: string;
+  year?: number;
+}
+
+export interface SpotifyArtMetadata {
+  trackId?: string;
+  trackName?: string;
+  albumId?: string;
+  albumName?: string;
+  /** `album`, `single` or `compilation`. */
+  albumType?: string;
+  releaseDate?: string;
+  releaseDatePrecision?: string;
+  imageUrl?: string;
+  imageWidth?: number;
+  imageHeight?: number;
+}
+
+/** Where a cover came from and the terms it is shown under, as listed on `/credits/`. */
+export interface AlbumArtProvenance {
+  provider: ArtworkProviderName;
+  /** A page describing the artwork or its release; `imageUrl` is the file itself. */
+  sourceUrl: string;
+  albumName?: string;
+  releaseDate?: string;
+  /** The license, or the basis on which the cover is used. */
+  license: string;
+  retrievedAt: string;
+}
+
+const requiredProvenance = ['provider', 'sourceUrl', 'license', 'retrievedAt'] as const;
+
+/**
+ * Cover widths in pixels: the 88px and 160px slots at 1x and 2x. Every width is committed in two
+ * formats for each cover, so add one only when a slot needs it.
+ */
+export const ALBUM_ART_WIDTHS = [88, 176, 320];
+
+/** Stands for each generated width in `AlbumArtVariants` path templates. */
+const WIDTH_TOKEN = '{width}';
+
+/** The optimized files for one cover, as written to the cache and `cover-manifest.json`. */
+export interface AlbumArtVariants {
+  /** Widths generated, never wider than the raw download. */
+  widths: number[];
+  /** Path templates containing `{width}`. */
+  webp: string;
+  avif: string;
+  /** Tiny blurred WebP as a data URI, shown while the cover loads. */
+  placeholder: string;
+  /** Dominant colour as `#rrggbb`. */
+  color: string;
+}
+
+export const albumArtVariantTemplate = (directory: string, slug: string, format: string) =>
+  `${directory}/${slug}-${WIDTH_TOKEN}.${format}`;
+
+export const getAlbumArtVariantPath = (template: string, width: number) =>
+  template.replace(WIDTH_TOKEN, String(width));
+
+/** Every file a cover's variants occupy. */
+export const listAlbumArtVariantFiles = (variants: AlbumArtVariants) =>
+  variants.widths.flatMap((width) => [
+    getAlbumArtVariantPath(variants.webp, width),
+    getAlbumArtVariantPath(variants.avif, width),
+  ]);
+
+/** The widths worth generating from a raw download `sourceWidth` pixels wide. */
+export const selectAlbumArtWidths = (sourceWidth: number, widths = ALBUM_ART_WIDTHS) => {
+  const fitting = widths.filter((width) => width <= sourceWidth);
+  return fitting.length ? fitting : widths.slice(0, 1);
+};
+
+/**
+ * Forget generated widths that `widths` no longer lists, so `prune` can delete their files
+ * without regenerating the rest. Returns whether any were dropped.
+ */
+export const retireAlbumArtWidths = (variants: AlbumArtVariants, widths = ALBUM_ART_WIDTHS) => {
+  const kept = variants.widths.filter((width) => widths.includes(width));
+  if (!kept.length || kept.length === variants.widths.length) return false;
+  variants.widths = kept;
+  return true;
+};
+
+export interface AlbumArtEntry extends AlbumArtTrack {
+  status: AlbumArtStatus;
+  /** The provider the raw download came from. */
+  source?: ArtworkProviderName;
+  note?: string;
+  rawFile?: string;
+  optimized?: AlbumArtVariants;
+  lastFetched?: string;
+  lastResized?: string;
+  lastValidated?: string;
+  updatedAt?: string;
+  error?: string;
+  imageUrl?: string;
+  spotify?: SpotifyArtMetadata;
+  provenance?: AlbumArtProvenance;
+}
+
+export interface AlbumArtCache {
+  meta: {
+    lastFetchRun: string | null;
+    lastResizeRun: string | null;
+    lastValidationRun: string | null;
+  };
+  entries: Record<string, AlbumArtEntry>;
+}
+
+export const albumArtStatuses: readonly AlbumArtStatus[] = [
+  'pending',
+  'fetched',
+  'ok',
+  'missing',
+  'skipped',
+];
+
+/** The statuses each step picks up; `--force` adds entries the step has already completed. */
+const stepInputs: Record<AlbumArtStep, { due: AlbumArtStatus[]; forced: AlbumArtStatus[] }> = {
+  fetch: { due: ['pending', 'missing'], forced: ['fetched', 'ok', 'skipped'] },
+  resize: { due: ['fetched'], forced: ['ok'] },
+};
+
+export const createAlbumArtCache = (): AlbumArtCache => ({
+  meta: { lastFetchRun: null, lastResizeRun: null, lastValidationRun: null },
+  entries: {},
+});
+
+/** Add a cache entry for a track the cache has not seen yet. */
+export const ensureAlbumArtEntry = (cache: AlbumArtCache, track: AlbumArtTrack): AlbumArtEntry => {
+  cache.entries[track.slug] ??= { ...track, status: 'pending' };
+  return cache.entries[track.slug];
+};
+
+export const isAlbumArtStepDue = (
+  entry: AlbumArtEntry,
+  step: AlbumArtStep,
+  { force = false }: { force?: boolean } = {}
+): boolean => {
+  const { due, forced } = stepInputs[step];
+  return due.includes(entry.status) || (force && forced.includes(entry.status));
+};
+
+export const markAlbumArtFetched = (
+  entry: AlbumArtEntry,
+  download: {
+    rawFile: string;
+    source: ArtworkProviderName;
+    imageUrl: string;
+    credit: ArtworkCredit;
+  },
+  at: string
+) => {
+  entry.status = 'fetched';
+  entry.rawFile = download.rawFile;
+  entry.source = download.source;
+  entry.imageUrl = download.imageUrl;
+  entry.provenance = { provider: download.source, ...download.credit, retrievedAt: at };
+  entry.lastFetched = at;
+  entry.updatedAt = at;
+  // Thumbnails of the previous download are stale until the next resize.
+  delete entry.optimized;
+  delete entry.lastResized;
+  delete entry.error;
+  delete entry.note;
+};
+
+export const markAlbumArtMissing = (entry: AlbumArtEntry, error: string, at: string) => {
+  entry.status = 'missing';
+  entry.error = error;
+  entry.updatedAt = at;
+};
+
+export const markAlbumArtSkipped = (entry: AlbumArtEntry, note: string, at: string) => {
+  entry.status = 'skipped';
+  entry.note = note;
+  entry.updatedAt = at;
+  // Its thumbnails leave the manifest, and `prune` deletes them.
+  delete entry.optimized;
+  delete entry.lastResized;
+  delete entry.error;
+};
+
+export const markAlbumArtResized = (
+  entry: AlbumArtEntry,
+  optimized: AlbumArtVariants,
+  at: string
+) => {
+  entry.status = 'ok';
+  entry.optimized = optimized;
+  entry.lastResized = at;
+  entry.updatedAt = at;
+};
+
+/** The provenance fields a cover is missing; `['provenance']` when none is recorded at all. */
+export const findMissingAlbumArtProvenance = ({ provenance }: AlbumArtEntry): string[] => {
+  if (!provenance) return ['provenance'];
+  return requiredProvenance.filter((field) => !provenance[field]);
+};
+
+/** Whether the raw download and every width of each format exist on disk. */
+export interface AlbumArtFileCheck {
+  raw: boolean;
+  webp: boolean;
+  avif: boolean;
+}
+
+/**
+ * Move an entry back to the step that recreates whatever is missing on disk and return the
+ * problems found. `missing` and `skipped` entries have nothing to check.
+ */
+export const reconcileAlbumArtEntry = (
+  entry: AlbumArtEntry,
+  files: AlbumArtFileCheck,
+  at: string
+): string[] => {
+  if (entry.status !== 'fetched' && entry.status !== 'ok') return [];
+
+  const problems: string[] = [];
+  if (!files.raw) problems.push('raw download is missing');
+  if (entry.status === 'ok') {
+    if (!files.webp) problems.push('WebP thumbnails are missing');
+    if (!files.avif) problems.push('AVIF thumbnails are missing');
+  }
+
+  if (!files.raw) {
+    entry.status = 'pending';
+    delete entry.rawFile;
+    delete entry.optimized;
+  } else if (entry.status === 'ok' && (!files.webp || !files.avif)) {
+    entry.status = 'fetched';
+    delete entry.optimized;
+  }
+  if (problems.length) entry.updatedAt = at;
+  return problems;
+};
+
+export interface AlbumArtSelection {
+  /** Only these slugs. */
+  only?: string[];
+  /** Only entries updated at or after this time; tracks new to the cache always match. */
+  since?: Date;
+}
+
+export const matchesAlbumArtSelection = (
+  slug: string,
+  entry: AlbumArtEntry | undefined,
+  { only, since }: AlbumArtSelection
+): boolean => {
+  if (only?.length && !only.includes(slug)) return false;
+  if (since && entry?.updatedAt && Date.parse(entry.updatedAt) < since.getTime()) return false;
+  return true;
+};
+
+export const countAlbumArtStatuses = (entries: Iterable<AlbumArtEntry>) => {
+  const counts = Object.fromEntries(albumArtStatuses.map((status) => [status, 0])) as Record<
+    AlbumArtStatus,
+    number
+  >;
+  for (const entry of entries) counts[entry.status] += 1;
+  return counts;
+};
+
+export type AlbumArtCommand = 'fetch' | 'resize' | 'validate' | 'status' | 'prune' | 'review';
+
+export const albumArtCommands: readonly AlbumArtCommand[] = [
+  'fetch',
+  'resize',
+  'validate',
+  'status',
+  'prune',
+  'review',
+];
+
+export interface AlbumArtOptions extends AlbumArtSelection {
+  command: AlbumArtCommand;
+  /** Redo steps that already completed. */
+  force: boolean;
+  /** Stop after this many entries have been processed. */
+  limit: number | null;
+  /** Report what `prune` would delete without deleting it. */
+  dryRun: boolean;
+  /** Providers `fetch` asks, in order. */
+  providers?: ArtworkProviderName[];
+  /** Fixture file for the `fixture` provider. */
+  fixtures?: string;
+  /** Save every `fetch` lookup to the fixture file. */
+  record: boolean;
+  /** Accept the selected covers `review` flags by recording them in the overrides file. */
+  approve: boolean;
+}
+
+/** `--since` takes a date (`2025-10-01`) or a full ISO timestamp. */
+export const parseAlbumArtSince = (value: string): Date => {
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value);
+  if (!value || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid --since value "${value}"; expected a date such as 2025-10-01.`);
+  }
+  return date;
+};
+
+const isAlbumArtCommand = (value: string | undefined): value is AlbumArtCommand =>
+  albumArtCommands.includes(value as AlbumArtCommand);
+
+const parseProviders = (value: string): ArtworkProviderName[] =>
+  value.split(',').map((name) => {
+    if (!isArtworkProviderName(name)) throw new Error(`Unknown artwork provider "${name}".`);
+    return name;
+  });
+
+/** Parse `<command>` followed by its options; see the usage message for the full list. */
+export const parseAlbumArtArgs = (argv: string[]): AlbumArtOptions => {
+  const [command, ...args] = argv;
+  if (!isAlbumArtCommand(command)) {
+    throw new Error(
+      `${command ? `Unknown command "${command}". ` : ''}Usage: album-art <${albumArtCommands.join('|')}> [--only <slug>] [--since <date>] [--limit <count>] [--force] [--dry-run] [--providers <list>] [--fixtures <file>] [--record] [--approve]`
+    );
+  }
+
+  const options: AlbumArtOptions = {
+    command,
+    force: false,
+    limit: null,
+    dryRun: false,
+    record: false,
+    approve: false,
+  };
+  for (let index = 0; index < args.length; index += 1) {
+    const [flag, inline] = args[index].split(/=(.*)/s, 2);
+    const takeValue = () => {
+      const value = inline ?? args[(index += 1)];
+      if (value === undefined || value === '') throw new Error(`${flag} needs a value.`);
+      return value;
+    };
+
+    if (flag === '--only') {
+      options.only = [...(options.only ?? []), ...takeValue().split(',')];
+    } else if (flag === '--since') {
+      options.since = parseAlbumArtSince(takeValue());
+    } else if (flag === '--limit') {
+      const limit = Number(takeValue());
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error('--limit must be a positive whole number.');
+      }
+      options.limit = limit;
+    } else if (flag === '--force') {
+      options.force = true;
+    } else if (flag === '--dry-run') {
+      options.dryRun = true;
+    } else if (flag === '--providers') {
+      options.providers = parseProviders(takeValue());
+    } else if (flag === '--fixtures') {
+      options.fixtures = takeValue();
+    } else if (flag === '--record') {
+      options.record = true;
+    } else if (flag === '--approve') {
+      options.approve = true;
+    } else {
+      throw new Error(`Unknown option "${args[index]}".`);
+    }
+  }
+  return options;
+};
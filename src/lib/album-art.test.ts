@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { generateAlbumArtSlug, getAlbumArt } from './album-art';
+import { generateAlbumArtSlug, getAlbumArt, getAlbumArtCredits } from './album-art';
 
 describe('album art helpers', () => {
   it('creates a slug matching the manifest format', () => {
@@ -10,14 +10,46 @@ describe('album art helpers', () => {
 
   it('returns manifest-backed artwork when available', () => {
     const art = getAlbumArt('...Baby One More Time', 'Britney Spears');
-    expect(art.webp).toBe('/images/covers/baby-one-more-time-britney-spears.webp');
-    expect(art.avif).toBe('/images/covers/baby-one-more-time-britney-spears.avif');
+    expect(art.src).toBe('/images/covers/baby-one-more-time-britney-spears-176.webp');
+    expect(art.srcset.webp).toContain(
+      '/images/covers/baby-one-more-time-britney-spears-88.webp 88w'
+    );
+    expect(art.srcset.avif).toContain(
+      '/images/covers/baby-one-more-time-britney-spears-176.avif 176w'
+    );
+    expect(art.sizes).toBe('88px');
+    expect(art.placeholder).toMatch(/^data:image\/webp;base64,/);
+    expect(art.color).toMatch(/^#[0-9a-f]{6}$/);
     expect(art.alt).toBe('Album artwork for “...Baby One More Time” by Britney Spears');
   });
 
   it('falls back to the placeholder when missing', () => {
     const art = getAlbumArt('Nonexistent Song', 'Imaginary Artist');
-    expect(art.webp).toBe('/images/placeholder.webp');
-    expect(art.avif).toBeUndefined();
+    expect(art.src).toBe('/images/placeholder.webp');
+    expect(art.srcset).toEqual({ webp: '/images/placeholder.webp' });
+    expect(art.placeholder).toBeUndefined();
+  });
+
+  it('picks the file that covers the display size at 2x', () => {
+    const art = getAlbumArt('...Baby One More Time', 'Britney Spears', {
+      width: 160,
+      sizes: '(max-width: 32rem) 120px, 160px',
+    });
+    expect(art.src).toBe('/images/covers/baby-one-more-time-britney-spears-320.webp');
+    expect(art.sizes).toBe('(max-width: 32rem) 120px, 160px');
+    expect(art.width).toBe(160);
+  });
+
+  it('lists the provenance of every hosted cover', () => {
+    const credits = getAlbumArtCredits();
+    expect(
+      credits.find((credit) => credit.slug === 'baby-one-more-time-britney-spears')
+    ).toMatchObject({
+      title: '...Baby One More Time',
+      artist: 'Britney Spears',
+      provider: 'spotify',
+      sourceUrl: expect.stringMatching(/^https:\/\/open\.spotify\.com\//),
+    });
+    expect(credits.every((credit) => credit.license && credit.retrievedAt)).toBe(true);
   });
 });
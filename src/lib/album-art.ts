@@ -1,22 +1,55 @@
 import coverManifest from '../../scripts/cache/cover-manifest.json';
+import {
+  getAlbumArtVariantPath,
+  type AlbumArtProvenance,
+  type AlbumArtVariants,
+} from './album-art-pipeline.js';
 import { generateAlbumArtSlug as createAlbumArtSlug } from './album-art-slug.js';
 
 export { generateAlbumArtSlug } from './album-art-slug.js';
 
 export interface AlbumArtSource {
-  webp: string;
-  avif?: string;
+  /** `<img src>` fallback: the narrowest WebP that covers the slot at 2x. */
+  src: string;
+  /** `srcset` per format, with a width descriptor per generated size. */
+  srcset: {
+    webp: string;
+    avif?: string;
+  };
+  sizes: string;
+  /** The slot's size in CSS pixels; covers are square. */
+  width: number;
+  height: number;
+  /** Tiny blurred data URI to show while the cover loads. */
+  placeholder?: string;
+  /** Dominant colour, shown before even the placeholder paints. */
+  color?: string;
   alt: string;
   slug: string | null;
 }
 
-interface CoverManifestEntry {
-  webp: string;
-  avif?: string;
+/** How large the cover is drawn: `width` in CSS pixels, and `sizes` when it varies by viewport. */
+export interface AlbumArtDisplay {
+  width: number;
+  sizes?: string;
+}
+
+type CoverManifestEntry = AlbumArtVariants & {
   source?: string;
+  title?: string;
+  artist?: string;
+  provenance?: AlbumArtProvenance;
+};
+
+/** One hosted cover and where it came from. */
+export interface AlbumArtCredit extends AlbumArtProvenance {
+  slug: string;
+  title: string;
+  artist: string;
 }
 
 const PLACEHOLDER_WEBP = '/images/placeholder.webp';
+const DEFAULT_DISPLAY: AlbumArtDisplay = { width: 88 };
 
 const manifest = coverManifest as Record<string, CoverManifestEntry>;
 
@@ -38,26 +71,74 @@ const buildAltText = (title: string, artist: string): string => {
   return 'Album artwork';
 };
 
-export const getAlbumArt = (title: string, artist: string): AlbumArtSource => {
-  const slug = createAlbumArtSlug(title, artist);
-  if (slug) {
-    const entry = manifest[slug];
-    if (entry) {
-      const webp = normalizeManifestPath(entry.webp);
-      const avif = entry.avif ? normalizeManifestPath(entry.avif) : undefined;
-      return {
-        webp,
-        avif,
-        alt: buildAltText(title, artist),
-        slug,
-      };
-    }
+const buildSrcset = (template: string, widths: number[]) =>
+  widths
+    .map((width) => `${normalizeManifestPath(getAlbumArtVariantPath(template, width))} ${width}w`)
+    .join(', ');
+
+/**
+ * The URL of one generated size of a cover: the narrowest at least `minimumWidth` pixels wide,
+ * or the widest there is. For markup that takes a single URL rather than a `srcset`.
+ */
+export const getAlbumArtFile = (
+  slug: string | null | undefined,
+  format: 'webp' | 'avif',
+  minimumWidth: number
+): string | undefined => {
+  const entry = slug ? manifest[slug] : undefined;
+  if (!entry) return undefined;
+  const width = entry.widths.find((size) => size >= minimumWidth) ?? entry.widths.at(-1)!;
+  return normalizeManifestPath(getAlbumArtVariantPath(entry[format], width));
+};
+
+/**
+ * Resolve artwork for a manifest slug directly, e.g. the `albumArt` key stored on a registry song.
+ */
+export const getAlbumArtForSlug = (
+  slug: string | null | undefined,
+  title: string,
+  artist: string,
+  { width, sizes = `${width}px` }: AlbumArtDisplay = DEFAULT_DISPLAY
+): AlbumArtSource => {
+  const entry = slug ? manifest[slug] : undefined;
+  if (slug && entry) {
+    return {
+      src: getAlbumArtFile(slug, 'webp', width * 2)!,
+      srcset: {
+        webp: buildSrcset(entry.webp, entry.widths),
+        avif: buildSrcset(entry.avif, entry.widths),
+      },
+      sizes,
+      width,
+      height: width,
+      placeholder: entry.placeholder,
+      color: entry.color,
+      alt: buildAltText(title, artist),
+      slug,
+    };
   }
 
   return {
-    webp: PLACEHOLDER_WEBP,
+    src: PLACEHOLDER_WEBP,
+    srcset: { webp: PLACEHOLDER_WEBP },
+    sizes,
+    width,
+    height: width,
     alt: buildAltText(title, artist),
-    avif: undefined,
-    slug,
+    slug: slug ?? null,
   };
 };
+
+export const getAlbumArt = (
+  title: string,
+  artist: string,
+  display: AlbumArtDisplay = DEFAULT_DISPLAY
+): AlbumArtSource => getAlbumArtForSlug(createAlbumArtSlug(title, artist), title, artist, display);
+
+/** Every cover in the manifest that records its provenance, ordered by title. */
+export const getAlbumArtCredits = (): AlbumArtCredit[] =>
+  Object.entries(manifest)
+    .flatMap(([slug, { title, artist, provenance }]) =>
+      provenance && title && artist ? [{ ...provenance, slug, title, artist }] : []
+    )
+    .sort((a, b) => a.title.localeCompare(b.title) || a.artist.localeCompare(b.artist));
@@ -0,0 +1,23 @@
+/**
+ * Element ids that pages render and the site search links to. Both sides build them here so a
+ * search hit always lands on the paragraph or row it matched.
+ */
+
+/** Commentary and summary copy is rendered one `<p>` per paragraph, numbered from 1. */
+export const paragraphAnchor = (section: 'commentary' | 'summary', index: number): string =>
+  `${section}-${index + 1}`;
+
+/** A row in a ranking's countdown table. */
+export const rankingEntryAnchor = (position: number): string => `entry-${position}`;
+
+/** A track in a year's weekly #1 list, by its zero-based index in `numberOnes`. */
+export const numberOneAnchor = (sequence: number): string => `number-one-${sequence + 1}`;
+
+/** Split stored copy on blank lines, the way pages render it. */
+export const splitParagraphs = (value: string | undefined): string[] =>
+  value
+    ? value
+        .split(/\n{2,}/)
+        .map((paragraph) => paragraph.trim())
+        .filter(Boolean)
+    : [];
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createArtistSlug, splitArtistCredit } from './artist-credits';
+
+describe('artist credit helpers', () => {
+  it('credits featured and co-billed acts individually', () => {
+    expect(splitArtistCredit('Santana feat. Rob Thomas')).toEqual(['Santana', 'Rob Thomas']);
+    expect(splitArtistCredit('Cardi B, Bad Bunny & J Balvin')).toEqual([
+      'Cardi B',
+      'Bad Bunny',
+      'J Balvin',
+    ]);
+    expect(splitArtistCredit('2Pac feat. K-Ci & Jojo / feat. Dr. Dre & Roger Troutman')).toEqual([
+      '2Pac',
+      'K-Ci & Jojo',
+      'Dr. Dre',
+      'Roger Troutman',
+    ]);
+  });
+
+  it('keeps duos and backing bands together', () => {
+    expect(splitArtistCredit('Simon & Garfunkel')).toEqual(['Simon & Garfunkel']);
+    expect(splitArtistCredit('Diana Ross & The Supremes')).toEqual(['Diana Ross & The Supremes']);
+    expect(splitArtistCredit('John Fred and His Playboy Band')).toEqual([
+      'John Fred and His Playboy Band',
+    ]);
+  });
+
+  it('folds alternate billings onto one act', () => {
+    expect(splitArtistCredit('Silk Sonic (Bruno Mars & Anderson .Paak)')).toEqual([
+      'Silk Sonic',
+      'Bruno Mars',
+      'Anderson .Paak',
+    ]);
+    expect(splitArtistCredit('P!nk feat. Nate Ruess')).toEqual(['Pink', 'Nate Ruess']);
+    expect(createArtistSlug("Lil' Wayne")).toBe(createArtistSlug('Lil Wayne'));
+  });
+});
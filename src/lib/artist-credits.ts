@@ -0,0 +1,93 @@
+import { slugifyHeading } from './slugify';
+
+/**
+ * Acts whose names contain "&", "and", or commas but are a single billing rather than a
+ * collaboration. Compared after lowercasing.
+ */
+const SINGLE_ACTS = new Set([
+  'captain & tennille',
+  'daryl hall & john oates',
+  'dale & grace',
+  'dionne & friends',
+  'earth, wind & fire',
+  'gloria estefan & miami sound machine',
+  'hamilton, joe frank & reynolds',
+  'jan & dean',
+  'k-ci & jojo',
+  'lisa lisa & cult jam',
+  'lisa loeb & nine stories',
+  'macklemore & ryan lewis',
+  'paul & linda mccartney',
+  'paul & paula',
+  'paul mccartney & wings',
+  'peaches & herb',
+  'peter & gordon',
+  'peter, paul and mary',
+  'santo & johnny',
+  'simon & garfunkel',
+  'sonny & cher',
+  'tony orlando & dawn',
+  'zager & evans',
+]);
+
+/** Alternate spellings and billings folded onto one act, keyed by lowercase spelling. */
+const ACT_ALIASES: Record<string, string> = {
+  'alica keys': 'Alicia Keys',
+  dawn: 'Tony Orlando & Dawn',
+  'p!nk': 'Pink',
+  'tony orlando': 'Tony Orlando & Dawn',
+};
+
+const FEATURE_SEPARATOR = /\s*(?:\/|\b(?:featuring|feat\.|ft\.|with)\s)\s*/i;
+const ACT_SEPARATOR = /(\s*(?:,|&|\band\b)\s+)/i;
+// A trailing "& The Drells" or "and His Playboy Band" names a backing band, not a second act.
+const BACKING_BAND = /^(?:the|his|her)\s/i;
+
+const splitAct = (segment: string): string[] => {
+  if (SINGLE_ACTS.has(segment.toLowerCase())) return [segment];
+
+  // Splitting on a capturing group alternates act, separator, act, ... so a backing band can be
+  // re-joined to the act before it with its original separator.
+  const [first, ...rest] = segment.split(ACT_SEPARATOR);
+  const acts = [first];
+  for (let index = 0; index < rest.length; index += 2) {
+    const [separator, act] = [rest[index], rest[index + 1]];
+    if (BACKING_BAND.test(act)) {
+      acts[acts.length - 1] += `${separator}${act}`;
+    } else {
+      acts.push(act);
+    }
+  }
+  return acts;
+};
+
+/**
+ * Split a billing such as "Santana feat. Rob Thomas" or "Cardi B, Bad Bunny & J Balvin" into
+ * the individual acts it credits. Backing bands ("Diana Ross & The Supremes") and known duos
+ * stay whole, and parenthetical members ("Silk Sonic (Bruno Mars & Anderson .Paak)") are
+ * credited alongside the group.
+ */
+export const splitArtistCredit = (credit: string): string[] => {
+  const acts: string[] = [];
+  const members = Array.from(credit.matchAll(/\(([^)]+)\)/g), (match) => match[1]);
+  const billing = credit.replace(/\s*\([^)]*\)/g, '');
+
+  for (const segment of [billing, ...members]) {
+    for (const part of segment.split(FEATURE_SEPARATOR)) {
+      const trimmed = part.trim();
+      if (trimmed) acts.push(...splitAct(trimmed));
+    }
+  }
+
+  const seen = new Set<string>();
+  return acts
+    .map((act) => ACT_ALIASES[act.toLowerCase()] ?? act)
+    .filter((act) => {
+      const slug = createArtistSlug(act);
+      if (!act || seen.has(slug)) return false;
+      seen.add(slug);
+      return true;
+    });
+};
+
+export const createArtistSlug = (name: string): string => slugifyHeading(name);
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createFixtureProvider,
+  createSpotifyArtworkCredit,
+  findArtwork,
+  getArtworkExtension,
+  pickCoverArtArchiveImage,
+  pickLargestImage,
+  pickMusicBrainzReleases,
+  pickWikipediaPageImage,
+  type ArtworkProvider,
+} from './artwork-providers';
+
+const track = { title: 'Purple Rain', artist: 'Prince', slug: 'purple-rain-prince' };
+
+const fixtures = createFixtureProvider({
+  'purple-rain-prince': {
+    url: 'https://example.test/purple-rain.png',
+    width: 2,
+    height: 2,
+    data: btoa('PNG!'),
+  },
+  'when-doves-cry-prince': null,
+});
+
+const failing: ArtworkProvider = {
+  name: 'spotify',
+  find: async () => {
+    throw new Error('Spotify request failed: 503');
+  },
+};
+
+const empty: ArtworkProvider = { name: 'local', find: async () => null };
+
+describe('artwork providers', () => {
+  it('asks providers in order and keeps the first artwork found', async () => {
+    const { artwork, failures } = await findArtwork([empty, failing, fixtures], track);
+    expect(artwork).toMatchObject({ provider: 'fixture', extension: '.png', width: 2 });
+    expect(new TextDecoder().decode(await artwork!.load())).toBe('PNG!');
+    expect(failures).toEqual(['spotify: Spotify request failed: 503']);
+
+    const missing = await findArtwork([fixtures, empty], {
+      ...track,
+      slug: 'when-doves-cry-prince',
+    });
+    expect(missing).toEqual({ artwork: null, failures: [] });
+  });
+
+  it('reads artwork out of provider responses', () => {
+    expect(getArtworkExtension('https://i.scdn.co/image/ab67616d0000b273')).toBe('.jpg');
+    expect(getArtworkExtension('local-album-art/cover.JPEG')).toBe('.jpeg');
+
+    expect(
+      pickLargestImage([
+        { url: 'https://a/64', width: 64 },
+        { url: 'https://a/640', width: 640 },
+        { width: 1000 },
+      ])
+    ).toEqual({ url: 'https://a/640', width: 640 });
+
+    expect(
+      pickMusicBrainzReleases({
+        recordings: [
+          {
+            score: 100,
+            releases: [
+              { id: 'a', title: 'Purple Rain', date: '1984-06-25', status: 'Official' },
+              { id: 'b', status: 'Bootleg' },
+            ],
+          },
+          { score: 95, releases: [{ id: 'a' }, { id: 'c' }] },
+          { score: 40, releases: [{ id: 'd' }] },
+        ],
+      })
+    ).toEqual([
+      { id: 'a', title: 'Purple Rain', date: '1984-06-25', status: 'Official' },
+      { id: 'c' },
+    ]);
+
+    expect(
+      pickCoverArtArchiveImage({
+        images: [
+          { front: false, image: 'http://coverartarchive.org/back.jpg' },
+          {
+            front: true,
+            image: 'http://coverartarchive.org/front.jpg',
+            thumbnails: { '1200': 'http://coverartarchive.org/front-1200.jpg' },
+          },
+        ],
+      })
+    ).toBe('https://coverartarchive.org/front-1200.jpg');
+    expect(pickCoverArtArchiveImage({ images: [] })).toBeNull();
+
+    expect(
+      pickWikipediaPageImage({
+        query: {
+          pages: {
+            '2': {
+              index: 2,
+              title: 'Purple Rain (song)',
+              pageimage: 'Purple_Rain_single.jpg',
+              original: { source: 'https://upload/second.jpg' },
+            },
+            '1': { index: 1 },
+            '3': { index: 3, original: { source: 'https://upload/third.jpg' } },
+          },
+        },
+      })
+    ).toEqual({
+      source: 'https://upload/second.jpg',
+      pageUrl: 'https://en.wikipedia.org/wiki/File:Purple_Rain_single.jpg',
+    });
+  });
+
+  it('credits Spotify artwork to its album', () => {
+    expect(
+      createSpotifyArtworkCredit({
+        trackId: 't1',
+        albumId: 'a1',
+        albumName: 'Purple Rain',
+        releaseDate: '1984-06-25',
+      })
+    ).toEqual({
+      sourceUrl: 'https://open.spotify.com/album/a1',
+      albumName: 'Purple Rain',
+      releaseDate: '1984-06-25',
+      license: 'Cover art provided by Spotify. © the label or rights holder.',
+    });
+    expect(createSpotifyArtworkCredit({ trackId: 't1' }).sourceUrl).toBe(
+      'https://open.spotify.com/track/t1'
+    );
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Where `album-art fetch` looks for covers. Each provider answers "do you have artwork for this
+ * track?" and the pipeline asks them in priority order, keeping the first answer. Network
+ * providers live with the CLI; this module holds the shared contract, the response parsing they
+ * rely on, and the offline fixture provider used by tests.
+ */
+
+import type { AlbumArtProvenance, AlbumArtTrack, SpotifyArtMetadata } from './album-art-pipeline';
+
+export type ArtworkProviderName = 'local' | 'spotify' | 'musicbrainz' | 'wikipedia' | 'fixture';
+
+/** Default lookup order: hand-picked files first, then the most reliable catalogue. */
+export const artworkProviderNames: readonly ArtworkProviderName[] = [
+  'local',
+  'spotify',
+  'musicbrainz',
+  'wikipedia',
+];
+
+/** What each provider's covers may be used for, shown on the credits page. */
+export const artworkUsageNotes: Record<ArtworkProviderName, string> = {
+  local: 'Supplied by the site editors. © the label or rights holder.',
+  spotify: 'Cover art provided by Spotify. © the label or rights holder.',
+  musicbrainz: 'From the Cover Art Archive. © the label or rights holder.',
+  wikipedia: 'From Wikipedia; see the linked file page for its license.',
+  fixture: 'Recorded test fixture.',
+};
+
+/** The provenance a provider knows at lookup time; the pipeline adds who and when. */
+export type ArtworkCredit = Omit<AlbumArtProvenance, 'provider' | 'retrievedAt'>;
+
+export interface Artwork {
+  provider: ArtworkProviderName;
+  /** Where the image came from: a remote URL, or a repository-relative path for local files. */
+  url: string;
+  /** File extension for the raw download, including the dot. */
+  extension: string;
+  width?: number;
+  height?: number;
+  /** Album details, when the provider is Spotify. */
+  spotify?: SpotifyArtMetadata;
+  credit: ArtworkCredit;
+  /** The image bytes; only called for the artwork that is kept. */
+  load: () => Promise<Uint8Array>;
+}
+
+export interface ArtworkProvider {
+  name: ArtworkProviderName;
+  /** Resolve to `null` when the provider has nothing for this track; throw on failures. */
+  find: (track: AlbumArtTrack) => Promise<Artwork | null>;
+}
+
+export const isArtworkProviderName = (value: string): value is ArtworkProviderName =>
+  [...artworkProviderNames, 'fixture'].includes(value as ArtworkProviderName);
+
+export interface ArtworkLookup {
+  artwork: Artwork | null;
+  /** `provider: message` for every provider that failed along the way. */
+  failures: string[];
+}
+
+/** Ask each provider in turn and keep the first artwork found. */
+export const findArtwork = async (
+  providers: readonly ArtworkProvider[],
+  track: AlbumArtTrack
+): Promise<ArtworkLookup> => {
+  const failures: string[] = [];
+  for (const provider of providers) {
+    try {
+      const artwork = await provider.find(track);
+      if (artwork) return { artwork, failures };
+    } catch (error) {
+      failures.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return { artwork: null, failures };
+};
+
+/** File extension of a URL or path, defaulting to `.jpg` when it has none. */
+export const getArtworkExtension = (url: string): string => {
+  const pathname = /^https?:/.test(url) ? new URL(url).pathname : url;
+  const match = /\.(jpe?g|png|webp|gif)$/i.exec(pathname);
+  return match ? `.${match[1].toLowerCase()}` : '.jpg';
+};
+
+/** Credit Spotify artwork to its album page, falling back to the track when the album is unknown. */
+export const createSpotifyArtworkCredit = (spotify: SpotifyArtMetadata): ArtworkCredit => ({
+  sourceUrl: spotify.albumId
+    ? `https://open.spotify.com/album/${spotify.albumId}`
+    : `https://open.spotify.com/track/${spotify.trackId}`,
+  albumName: spotify.albumName,
+  releaseDate: spotify.releaseDate,
+  license: artworkUsageNotes.spotify,
+});
+
+interface SizedImage {
+  url?: string;
+  width?: number;
+  height?: number;
+}
+
+/** The widest image with a URL, as Spotify lists album images in several sizes. */
+export const pickLargestImage = (images: readonly SizedImage[] | undefined) => {
+  const best = [...(images ?? [])]
+    .sort((a, b) => (b.width ?? 0) - (a.width ?? 0))
+    .find((image) => typeof image.url === 'string');
+  return best?.url ? (best as SizedImage & { url: string }) : null;
+};
+
+export interface MusicBrainzRecordingSearch {
+  recordings?: {
+    score?: number;
+    releases?: MusicBrainzRelease[];
+  }[];
+}
+
+export interface MusicBrainzRelease {
+  id: string;
+  title?: string;
+  date?: string;
+  status?: string;
+}
+
+/** Official releases of confidently matched recordings, best match first. */
+export const pickMusicBrainzReleases = (
+  response: MusicBrainzRecordingSearch,
+  minimumScore = 90
+): MusicBrainzRelease[] => {
+  const releases = (response.recordings ?? [])
+    .filter((recording) => (recording.score ?? 0) >= minimumScore)
+    .flatMap((recording) => recording.releases ?? [])
+    .filter((release) => !release.status || release.status === 'Official');
+  return releases.filter(
+    (release, index) => releases.findIndex((other) => other.id === release.id) === index
+  );
+};
+
+export interface CoverArtArchiveRelease {
+  images?: {
+    front?: boolean;
+    approved?: boolean;
+    image?: string;
+    thumbnails?: Record<string, string | undefined>;
+  }[];
+}
+
+/** The front cover, preferring the 1200px thumbnail over a potentially huge original. */
+export const pickCoverArtArchiveImage = (response: CoverArtArchiveRelease) => {
+  const front = response.images?.find((image) => image.front && image.approved !== false);
+  const url = front?.thumbnails?.['1200'] ?? front?.thumbnails?.large ?? front?.image;
+  return url ? url.replace(/^http:/, 'https:') : null;
+};
+
+export interface WikipediaPageImageQuery {
+  query?: {
+    pages?: Record<
+      string,
+      {
+        index?: number;
+        title?: string;
+        /** File name of the lead image. */
+        pageimage?: string;
+        original?: { source: string; width?: number; height?: number };
+      }
+    >;
+  };
+}
+
+/**
+ * The lead image of the best-ranked search result that has one, with the file page that states
+ * its license (or the article, when the file name is not returned).
+ */
+export const pickWikipediaPageImage = (response: WikipediaPageImageQuery) => {
+  const pages = Object.values(response.query?.pages ?? {}).sort(
+    (a, b) => (a.index ?? 0) - (b.index ?? 0)
+  );
+  const page = pages.find((candidate) => candidate.original?.source);
+  if (!page?.original) return null;
+  const wikiPage = page.pageimage
+    ? `File:${encodeURIComponent(page.pageimage)}`
+    : page.title && encodeURIComponent(page.title.replace(/ /g, '_'));
+  return {
+    ...page.original,
+    pageUrl: wikiPage ? `https://en.wikipedia.org/wiki/${wikiPage}` : undefined,
+  };
+};
+
+/** A recorded lookup: the artwork a provider returned, with its bytes base64-encoded. */
+export interface ArtworkFixture {
+  url: string;
+  width?: number;
+  height?: number;
+  /** Base64 image bytes. */
+  data: string;
+}
+
+/** Fixtures by album-art slug; `null` records a lookup that found nothing. */
+export type ArtworkFixtures = Record<string, ArtworkFixture | null>;
+
+/** Serve recorded lookups, so the pipeline runs without network access. */
+export const createFixtureProvider = (fixtures: ArtworkFixtures): ArtworkProvider => ({
+  name: 'fixture',
+  find: async (track) => {
+    const fixture = fixtures[track.slug];
+    if (!fixture) return null;
+    return {
+      provider: 'fixture',
+      url: fixture.url,
+      extension: getArtworkExtension(fixture.url),
+      width: fixture.width,
+      height: fixture.height,
+      credit: { sourceUrl: fixture.url, license: artworkUsageNotes.fixture },
+      load: async () => Uint8Array.from(atob(fixture.data), (char) => char.charCodeAt(0)),
+    };
+  },
+});
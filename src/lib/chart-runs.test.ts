@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { buildChartTimeline, countChartRunWeeks, extractChartRuns } from './chart-runs';
+
+const utc = (value: string) => new Date(`${value}T00:00:00Z`);
+
+describe('chart runs', () => {
+  it('splits the chart-run annotation off a source line', () => {
+    const { line, chartRuns } = extractChartRuns(
+      '2. "Volare (Nel blu dipinto di blu)" - Domenico Modugno {1958-08-18 x1, 1958-09-01 ×4}'
+    );
+
+    expect(line).toBe('2. "Volare (Nel blu dipinto di blu)" - Domenico Modugno');
+    expect(chartRuns).toEqual([
+      { start: utc('1958-08-18'), weeks: 1 },
+      { start: utc('1958-09-01'), weeks: 4 },
+    ]);
+    expect(countChartRunWeeks(chartRuns!)).toBe(5);
+  });
+
+  it('leaves unannotated lines alone and rejects malformed runs', () => {
+    expect(extractChartRuns('3. "Little Star" - The Elegants')).toEqual({
+      line: '3. "Little Star" - The Elegants',
+    });
+    expect(() => extractChartRuns('3. "Little Star" - The Elegants {1958-02-30 x1}')).toThrow(
+      /Unable to parse chart run/
+    );
+    expect(() => extractChartRuns('3. "Little Star" - The Elegants {1958-08-25}')).toThrow();
+  });
+
+  it('builds a week-by-week timeline with returns and cross-year runs counted once', () => {
+    const entries = [
+      {
+        title: 'Volare',
+        artist: 'Domenico Modugno',
+        chartRuns: [
+          { start: utc('1958-08-18'), weeks: 1 },
+          { start: utc('1958-09-01'), weeks: 1 },
+        ],
+      },
+      {
+        title: 'Little Star',
+        artist: 'The Elegants',
+        chartRuns: [{ start: utc('1958-08-25'), weeks: 1 }],
+      },
+      {
+        title: 'The Chipmunk Song',
+        artist: 'The Chipmunks',
+        chartRuns: [{ start: utc('1958-12-29'), weeks: 2 }],
+      },
+      {
+        title: 'The Chipmunk Song',
+        artist: 'The Chipmunks',
+        chartRuns: [{ start: utc('1958-12-29'), weeks: 2 }],
+      },
+    ];
+
+    const timeline = buildChartTimeline(entries, (entry) => entry.title);
+
+    expect(
+      timeline.map(({ date, entry, week, runStart }) => [
+        date.toISOString().slice(0, 10),
+        entry.title,
+        week,
+        runStart,
+      ])
+    ).toEqual([
+      ['1958-08-18', 'Volare', 1, true],
+      ['1958-08-25', 'Little Star', 1, true],
+      ['1958-09-01', 'Volare', 2, true],
+      ['1958-12-29', 'The Chipmunk Song', 1, true],
+      ['1959-01-05', 'The Chipmunk Song', 2, false],
+    ]);
+  });
+});
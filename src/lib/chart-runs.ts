@@ -0,0 +1,90 @@
+import type { SongCredit } from './song-key';
+
+/** One uninterrupted stretch at #1, starting on a Billboard chart date. */
+export interface ChartRun {
+  start: Date;
+  weeks: number;
+}
+
+export interface ChartWeek<T> {
+  /** Billboard chart date (UTC midnight). */
+  date: Date;
+  entry: T;
+  /** 1-based week within the entry's total time at #1. */
+  week: number;
+  /** Whether this week starts a run, including returns after a non-consecutive gap. */
+  runStart: boolean;
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const ANNOTATION_PATTERN = /\s*\{([^}]*)\}\s*$/;
+const RUN_PATTERN = /^(\d{4}-\d{2}-\d{2})\s*[x×]\s*(\d+)$/;
+
+const parseChartDate = (value: string): Date | undefined => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value
+    ? undefined
+    : date;
+};
+
+/**
+ * Split the optional chart-run annotation off a `docs/hot100_#1s.txt` entry line, e.g.
+ * `5. "Venus" - Frankie Avalon {1959-03-09 x5}`. Non-consecutive runs are comma-separated:
+ * `{1958-08-18 x1, 1958-09-01 x4}`. Throws when an annotation is present but malformed.
+ */
+export const extractChartRuns = (line: string): { line: string; chartRuns?: ChartRun[] } => {
+  const match = line.match(ANNOTATION_PATTERN);
+  if (!match || match.index === undefined) return { line };
+
+  const chartRuns = match[1].split(',').map((part) => {
+    const run = part.trim().match(RUN_PATTERN);
+    const start = run ? parseChartDate(run[1]) : undefined;
+    const weeks = run ? Number(run[2]) : 0;
+    if (!start || weeks < 1) {
+      throw new Error(`Unable to parse chart run "${part.trim()}" in: ${line}`);
+    }
+    return { start, weeks };
+  });
+
+  return { line: line.slice(0, match.index), chartRuns };
+};
+
+export const countChartRunWeeks = (runs: readonly ChartRun[]): number =>
+  runs.reduce((total, run) => total + run.weeks, 0);
+
+/** Every chart date covered by the run, one per week. */
+export const getChartRunDates = ({ start, weeks }: ChartRun): Date[] =>
+  Array.from({ length: weeks }, (_, index) => new Date(start.getTime() + index * WEEK_MS));
+
+/**
+ * Expand chart runs into one record per chart week, oldest first. Entries that repeat the same
+ * run (a #1 listed in both years it spanned) are only counted once per week; `getKey` decides
+ * which entries are the same song.
+ */
+export const buildChartTimeline = <T extends SongCredit & { chartRuns?: ChartRun[] }>(
+  entries: readonly T[],
+  getKey: (entry: T) => string
+): ChartWeek<T>[] => {
+  const weeks = new Map<string, ChartWeek<T>>();
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const key = getKey(entry);
+    let week = 0;
+    for (const run of [...(entry.chartRuns ?? [])].sort(
+      (a, b) => a.start.getTime() - b.start.getTime()
+    )) {
+      getChartRunDates(run).forEach((date, index) => {
+        week += 1;
+        const dateKey = date.toISOString().slice(0, 10);
+        if (seen.has(`${key}|${dateKey}`)) return;
+        seen.add(`${key}|${dateKey}`);
+        // The first song listed for a date wins; validation reports the overlap.
+        if (weeks.has(dateKey)) return;
+        weeks.set(dateKey, { date, entry, week, runStart: index === 0 });
+      });
+    }
+  }
+
+  return Array.from(weeks.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+};
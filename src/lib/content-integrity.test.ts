@@ -0,0 +1,272 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkContentIntegrity,
+  type ContentIntegrityInput,
+  type IntegrityRankingDocument,
+} from './content-integrity';
+
+const years: ContentIntegrityInput['years'] = [
+  {
+    file: 'src/content/years/1970.mdx',
+    year: 1970,
+    numberOnes: [
+      { title: 'Bridge Over Troubled Water', artist: 'Simon & Garfunkel' },
+      { title: 'ABC', artist: 'The Jackson 5' },
+    ],
+    overallRanking: [
+      { position: 1, title: 'Bridge Over Troubled Water', artist: 'Simon & Garfunkel' },
+      { position: 2, title: 'ABC', artist: 'The Jackson 5' },
+    ],
+  },
+  {
+    file: 'src/content/years/1971.mdx',
+    year: 1971,
+    numberOnes: [{ title: 'Joy to the World', artist: 'Three Dog Night' }],
+    overallRanking: [{ position: 1, title: 'Joy to the World', artist: 'Three Dog Night' }],
+  },
+];
+
+const songs: ContentIntegrityInput['songs'] = [
+  {
+    id: 'abc-the-jackson-5',
+    title: 'ABC',
+    artist: 'The Jackson 5',
+    aliases: [{ title: 'ABC', artist: 'Jackson 5' }],
+  },
+];
+
+const ranking = (
+  subset: IntegrityRankingDocument['subset'],
+  entries: IntegrityRankingDocument['entries']
+): IntegrityRankingDocument => ({
+  file: `src/content/rankings/${subset}.mdx`,
+  slug: subset ?? 'ranking',
+  subset,
+  chartWeek: new Date('2024-01-01T00:00:00Z'),
+  entries,
+});
+
+const completeRankings = [
+  ranking('top-220', [
+    {
+      position: 2,
+      title: 'Bridge Over Troubled Water',
+      artist: 'Simon & Garfunkel',
+      year: { start: 1970 },
+    },
+    { position: 1, title: 'ABC', artist: 'Jackson 5', year: { start: 1970 } },
+    {
+      position: 3,
+      title: 'Joy to the World',
+      artist: 'Three Dog Night',
+      year: { start: 1970, end: 1971 },
+    },
+  ]),
+  ranking('bottom-60', [
+    { position: 2, title: 'Bridge Over Troubled Water', artist: 'Simon & Garfunkel' },
+    { position: 1, title: 'ABC', artist: 'The Jackson 5', year: { start: 1970 } },
+  ]),
+];
+
+const codes = (input: ContentIntegrityInput) =>
+  checkContentIntegrity(input).map((issue) => `${issue.code}:${issue.path ?? ''}`);
+
+describe('checkContentIntegrity', () => {
+  it('accepts consistent content, resolving registry aliases and year spans', () => {
+    expect(checkContentIntegrity({ years, rankings: completeRankings, songs })).toEqual([]);
+  });
+
+  it('flags overall ranking titles that are not among the year’s #1s', () => {
+    const mismatched = [
+      {
+        ...years[1],
+        overallRanking: [{ position: 1, title: 'Maggie May', artist: 'Rod Stewart' }],
+      },
+    ];
+
+    expect(codes({ years: mismatched, rankings: [], songs })).toEqual([
+      'overall-ranking-unmatched:overallRanking[0]',
+    ]);
+  });
+
+  it('flags duplicate positions and gaps', () => {
+    const rankings = [
+      ranking(undefined, [
+        { position: 1, title: 'ABC', artist: 'The Jackson 5' },
+        { position: 1, title: 'Joy to the World', artist: 'Three Dog Night' },
+        { position: 4, title: 'Bridge Over Troubled Water', artist: 'Simon & Garfunkel' },
+      ]),
+    ];
+
+    expect(codes({ years, rankings, songs })).toEqual([
+      'duplicate-position:entries[1]',
+      'position-gap:entries',
+    ]);
+  });
+
+  it('flags ranking years without a matching years entry', () => {
+    const rankings = [
+      ranking(undefined, [
+        { position: 1, title: 'ABC', artist: 'The Jackson 5', year: { start: 2030, end: 2031 } },
+        {
+          position: 2,
+          title: 'Joy to the World',
+          artist: 'Three Dog Night',
+          year: { start: 1957 },
+        },
+      ]),
+    ];
+
+    expect(codes({ years, rankings, songs })).toEqual([
+      'ranking-year-unknown:entries[0].year',
+      'ranking-year-unknown:entries[1].year',
+    ]);
+  });
+
+  it('checks each Bottom 60 position against the same Top 220 position', () => {
+    const rankings = [
+      completeRankings[0],
+      ranking('bottom-60', [
+        { position: 1, title: 'Bridge Over Troubled Water', artist: 'Simon & Garfunkel' },
+        { position: 2, title: 'Joy to the World', artist: 'Three Dog Night' },
+        { position: 3, title: 'ABC', artist: 'The Jackson 5' },
+        { position: 4, title: 'ABC', artist: 'The Jackson 5' },
+      ]),
+    ];
+
+    expect(codes({ years, rankings, songs })).toEqual([
+      'ranking-duplicate-song:entries[3]',
+      'ranking-subset-mismatch:entries[0]',
+      'ranking-subset-mismatch:entries[1]',
+      'ranking-subset-mismatch:entries[2]',
+      'ranking-subset-mismatch:entries[3]',
+    ]);
+  });
+
+  it('flags a Bottom 60 without a Top 220 to draw from', () => {
+    expect(codes({ years, rankings: [completeRankings[1]], songs })).toEqual([
+      'ranking-subset-mismatch:entries',
+    ]);
+  });
+
+  it('flags songs ranked twice in the same list', () => {
+    const rankings = [
+      ranking('top-220', [
+        { position: 1, title: 'ABC', artist: 'The Jackson 5' },
+        { position: 2, title: 'ABC', artist: 'Jackson 5' },
+      ]),
+    ];
+
+    expect(codes({ years, rankings, songs })).toContain('ranking-duplicate-song:entries[1]');
+  });
+
+  it('flags ranked songs that never reached #1', () => {
+    const rankings = [
+      ranking('top-220', [{ position: 1, title: 'Maggie May', artist: 'Rod Stewart' }]),
+    ];
+
+    expect(codes({ years, rankings, songs })).toContain('ranking-not-number-one:entries[0]');
+  });
+
+  it('warns about #1s missing from the Top 220 only when asked, whatever the Bottom 60 lists', () => {
+    const rankings = [
+      ranking('top-220', completeRankings[0].entries.slice(0, 2)),
+      ranking('bottom-60', [{ position: 1, title: 'Joy to the World', artist: 'Three Dog Night' }]),
+    ];
+
+    expect(codes({ years, rankings, songs })).not.toContain('ranking-missing-number-one:');
+    expect(
+      checkContentIntegrity({ years, rankings, songs, reportUnranked: true }).filter(
+        (issue) => issue.severity === 'warning'
+      )
+    ).toEqual([
+      expect.objectContaining({
+        code: 'ranking-missing-number-one',
+        severity: 'warning',
+        file: 'src/content/years/1971.mdx',
+      }),
+    ]);
+  });
+
+  it('flags chart weeks claimed by two different #1s but not a run listed in both years', () => {
+    const run = (start: string, weeks: number) => [
+      { start: new Date(`${start}T00:00:00Z`), weeks },
+    ];
+    const [bridge, abc] = years[0].numberOnes;
+    const withRuns: ContentIntegrityInput['years'] = [
+      {
+        ...years[0],
+        numberOnes: [
+          { ...bridge, chartRuns: run('1970-02-28', 6) },
+          { ...abc, chartRuns: run('1970-04-25', 2) },
+        ],
+      },
+      {
+        ...years[1],
+        numberOnes: [
+          { ...years[1].numberOnes[0], chartRuns: run('1970-03-14', 1) },
+          { ...abc, chartRuns: run('1970-04-25', 2) },
+        ],
+      },
+    ];
+
+    expect(codes({ years: withRuns, rankings: [], songs })).toEqual([
+      'chart-week-overlap:numberOnes[0].chartRuns',
+    ]);
+  });
+
+  it('flags revisions that are out of order or list unknown or repeated songs', () => {
+    const rankings = [
+      {
+        ...completeRankings[0],
+        revisions: [
+          { chartWeek: new Date('2023-06-01T00:00:00Z'), order: ['abc-the-jackson-5'] },
+          {
+            chartWeek: new Date('2023-01-01T00:00:00Z'),
+            order: ['abc-the-jackson-5', 'maggie-may-rod-stewart', 'abc-the-jackson-5'],
+          },
+        ],
+      },
+      completeRankings[1],
+    ];
+
+    expect(codes({ years, rankings, songs })).toEqual([
+      'revision-out-of-order:revisions[1].chart_week',
+      'revision-unknown-song:revisions[1].order[1]',
+      'revision-duplicate-song:revisions[1].order[2]',
+    ]);
+  });
+
+  it('checks a revision dated at chart_week against the current entries', () => {
+    const withJoy = [
+      ...songs,
+      { id: 'joy-to-the-world-three-dog-night', ...years[1].numberOnes[0], aliases: [] },
+    ];
+    const current = ranking(undefined, [
+      { position: 2, title: 'Joy to the World', artist: 'Three Dog Night' },
+      { position: 1, title: 'ABC', artist: 'Jackson 5' },
+    ]);
+    const revision = (order: string[]) => ({
+      ...current,
+      revisions: [
+        { chartWeek: new Date('2023-01-01T00:00:00Z'), order: [...order].reverse() },
+        { chartWeek: current.chartWeek, order },
+      ],
+    });
+
+    expect(
+      codes({
+        years,
+        rankings: [revision(['abc-the-jackson-5', 'joy-to-the-world-three-dog-night'])],
+        songs: withJoy,
+      })
+    ).toEqual([]);
+    expect(
+      codes({
+        years,
+        rankings: [revision(['joy-to-the-world-three-dog-night', 'abc-the-jackson-5'])],
+        songs: withJoy,
+      })
+    ).toEqual(['revision-current-mismatch:revisions[1].order']);
+  });
+});
@@ -0,0 +1,345 @@
+import { getChartRunDates, type ChartRun } from './chart-runs';
+import { formatRankingYear, getRankingYearRange, type RankingYear } from './ranking-year';
+import { createSongKey, normalizeSongText, type SongCredit } from './song-key';
+
+export type ContentIssueSeverity = 'error' | 'warning';
+
+export type ContentIssueCode =
+  | 'schema'
+  | 'overall-ranking-unmatched'
+  | 'duplicate-position'
+  | 'position-gap'
+  | 'ranking-year-unknown'
+  | 'ranking-not-number-one'
+  | 'ranking-duplicate-song'
+  | 'ranking-subset-mismatch'
+  | 'ranking-missing-number-one'
+  | 'chart-week-overlap'
+  | 'revision-out-of-order'
+  | 'revision-current-mismatch'
+  | 'revision-unknown-song'
+  | 'revision-duplicate-song';
+
+export interface ContentIssue {
+  code: ContentIssueCode;
+  severity: ContentIssueSeverity;
+  /** Path relative to the repository root. */
+  file: string;
+  /** Location within the file's frontmatter, e.g. `overallRanking[3]`. */
+  path?: string;
+  message: string;
+}
+
+export interface IntegrityYearDocument {
+  file: string;
+  year: number;
+  numberOnes: (SongCredit & { chartRuns?: ChartRun[] })[];
+  overallRanking: (SongCredit & { position: number })[];
+}
+
+export interface IntegrityRankingDocument {
+  file: string;
+  slug: string;
+  subset?: 'top-220' | 'bottom-60';
+  chartWeek: Date;
+  entries: (SongCredit & { position: number; year?: RankingYear })[];
+  /** Recorded orders as registry song IDs from position 1 down, the last dated by `chartWeek`. */
+  revisions?: { chartWeek: Date; order: string[] }[];
+}
+
+export interface IntegritySongRecord extends SongCredit {
+  id: string;
+  aliases: SongCredit[];
+}
+
+export interface ContentIntegrityInput {
+  years: IntegrityYearDocument[];
+  rankings: IntegrityRankingDocument[];
+  songs: IntegritySongRecord[];
+  /** Also warn about every #1 the Top 220 leaves out, which is most of them by design. */
+  reportUnranked?: boolean;
+}
+
+const describe = (credit: SongCredit) => `"${credit.title}" by ${credit.artist}`;
+
+/** Report duplicate positions and gaps in what should be a 1…n sequence. */
+const checkPositions = (
+  file: string,
+  field: string,
+  items: { position: number }[],
+  issues: ContentIssue[]
+) => {
+  const seen = new Map<number, number>();
+  items.forEach((item, index) => {
+    const first = seen.get(item.position);
+    if (first !== undefined) {
+      issues.push({
+        code: 'duplicate-position',
+        severity: 'error',
+        file,
+        path: `${field}[${index}]`,
+        message: `Position ${item.position} is already used by ${field}[${first}].`,
+      });
+    } else {
+      seen.set(item.position, index);
+    }
+  });
+
+  const missing: number[] = [];
+  for (let position = 1; position <= items.length; position += 1) {
+    if (!seen.has(position)) missing.push(position);
+  }
+  if (missing.length) {
+    issues.push({
+      code: 'position-gap',
+      severity: 'error',
+      file,
+      path: field,
+      message: `Positions should run 1–${items.length} but ${missing.join(', ')} ${
+        missing.length === 1 ? 'is' : 'are'
+      } missing.`,
+    });
+  }
+};
+
+/**
+ * Cross-file checks that a single collection schema cannot express: overall rankings must
+ * reference that year's #1s, positions must be contiguous, ranking years must exist, and the
+ * Top 220 may only rank #1s, each once. The Bottom 60 replays the last 60 placements of the
+ * Top 220 countdown, so each of its positions must hold the Top 220 song at that position.
+ * Unranked #1s are only reported, as warnings, with `reportUnranked`. Ranking revisions must be
+ * dated in order and list each registry song at most once, and a revision dated at the
+ * ranking's chart_week must match its current entries.
+ */
+export const checkContentIntegrity = ({
+  years,
+  rankings,
+  songs,
+  reportUnranked = false,
+}: ContentIntegrityInput): ContentIssue[] => {
+  const issues: ContentIssue[] = [];
+
+  const songsByKey = new Map<string, IntegritySongRecord>();
+  for (const song of songs) {
+    for (const credit of [song, ...song.aliases]) {
+      const key = createSongKey(credit.title, credit.artist);
+      if (!songsByKey.has(key)) songsByKey.set(key, song);
+    }
+  }
+  const resolveSong = (credit: SongCredit) =>
+    songsByKey.get(createSongKey(credit.title, credit.artist));
+  const songKey = (credit: SongCredit) =>
+    resolveSong(credit)?.id ?? createSongKey(credit.title, credit.artist);
+
+  const knownYears = new Set(years.map((document) => document.year));
+  const numberOneSongs = new Map<string, { credit: SongCredit; year: number; file: string }>();
+
+  for (const document of years) {
+    const titles = new Set(document.numberOnes.map((credit) => normalizeSongText(credit.title)));
+    const songIds = new Set<string>();
+    for (const credit of document.numberOnes) {
+      const song = resolveSong(credit);
+      const key = song?.id ?? createSongKey(credit.title, credit.artist);
+      songIds.add(key);
+      if (!numberOneSongs.has(key)) {
+        numberOneSongs.set(key, { credit, year: document.year, file: document.file });
+      }
+    }
+
+    document.overallRanking.forEach((credit, index) => {
+      const song = resolveSong(credit);
+      const matches =
+        titles.has(normalizeSongText(credit.title)) || (song ? songIds.has(song.id) : false);
+      if (!matches) {
+        issues.push({
+          code: 'overall-ranking-unmatched',
+          severity: 'error',
+          file: document.file,
+          path: `overallRanking[${index}]`,
+          message: `${describe(credit)} is not one of the ${document.year} #1s.`,
+        });
+      }
+    });
+
+    checkPositions(document.file, 'overallRanking', document.overallRanking, issues);
+  }
+
+  // A #1 whose run crossed New Year is listed in both years, so only different songs clash.
+  const chartWeeks = new Map<string, { key: string; credit: SongCredit; file: string }>();
+  for (const document of years) {
+    document.numberOnes.forEach((credit, index) => {
+      const key = songKey(credit);
+      for (const date of (credit.chartRuns ?? []).flatMap(getChartRunDates)) {
+        const chartDate = date.toISOString().slice(0, 10);
+        const holder = chartWeeks.get(chartDate);
+        if (!holder) {
+          chartWeeks.set(chartDate, { key, credit, file: document.file });
+        } else if (holder.key !== key) {
+          issues.push({
+            code: 'chart-week-overlap',
+            severity: 'error',
+            file: document.file,
+            path: `numberOnes[${index}].chartRuns`,
+            message: `${describe(credit)} and ${describe(holder.credit)} (${holder.file}) both claim the ${chartDate} chart.`,
+          });
+        }
+      }
+    });
+  }
+
+  // #1s ranked in the Top 220, for `reportUnranked`.
+  const ranked = new Set<string>();
+  const topList = rankings.find((document) => document.subset === 'top-220');
+
+  for (const document of rankings) {
+    checkPositions(document.file, 'entries', document.entries, issues);
+    const listed = new Map<string, string>();
+
+    document.entries.forEach((entry, index) => {
+      const path = `entries[${index}]`;
+
+      if (entry.year !== undefined) {
+        if (!getRankingYearRange(entry.year).some((year) => knownYears.has(year))) {
+          issues.push({
+            code: 'ranking-year-unknown',
+            severity: 'error',
+            file: document.file,
+            path: `${path}.year`,
+            message: `Year ${formatRankingYear(entry.year)} for ${describe(entry)} does not match any years entry.`,
+          });
+        }
+      }
+
+      if (!document.subset) return;
+
+      const key = songKey(entry);
+      if (!numberOneSongs.has(key)) {
+        issues.push({
+          code: 'ranking-not-number-one',
+          severity: 'error',
+          file: document.file,
+          path,
+          message: `${describe(entry)} does not match any #1 in the years collection.`,
+        });
+        return;
+      }
+
+      const previous = listed.get(key);
+      if (previous) {
+        issues.push({
+          code: 'ranking-duplicate-song',
+          severity: 'error',
+          file: document.file,
+          path,
+          message: `${describe(entry)} is already ranked at ${previous}.`,
+        });
+        return;
+      }
+      listed.set(key, path);
+      if (document.subset === 'top-220') ranked.add(key);
+    });
+
+    if (document.subset !== 'bottom-60') continue;
+    if (!topList) {
+      issues.push({
+        code: 'ranking-subset-mismatch',
+        severity: 'error',
+        file: document.file,
+        path: 'entries',
+        message: 'The Bottom 60 is drawn from the Top 220, but there is no top-220 ranking.',
+      });
+      continue;
+    }
+    const counterparts = new Map(topList.entries.map((entry) => [entry.position, entry]));
+    document.entries.forEach((entry, index) => {
+      const expected = counterparts.get(entry.position);
+      if (expected && songKey(expected) === songKey(entry)) return;
+      issues.push({
+        code: 'ranking-subset-mismatch',
+        severity: 'error',
+        file: document.file,
+        path: `entries[${index}]`,
+        message: expected
+          ? `Position ${entry.position} should be ${describe(expected)}, as in the Top 220.`
+          : `The Top 220 has no position ${entry.position}.`,
+      });
+    });
+  }
+
+  const songIds = new Set(songs.map((song) => song.id));
+  for (const document of rankings) {
+    let previousWeek: Date | undefined;
+    (document.revisions ?? []).forEach((revision, index) => {
+      const path = `revisions[${index}]`;
+      if (
+        revision.chartWeek > document.chartWeek ||
+        (previousWeek && revision.chartWeek <= previousWeek)
+      ) {
+        issues.push({
+          code: 'revision-out-of-order',
+          severity: 'error',
+          file: document.file,
+          path: `${path}.chart_week`,
+          message:
+            'Revisions must be listed oldest first, none dated after the current chart_week.',
+        });
+      }
+      previousWeek = revision.chartWeek;
+
+      if (revision.chartWeek.getTime() === document.chartWeek.getTime()) {
+        const current = [...document.entries]
+          .sort((a, b) => a.position - b.position)
+          .map((entry) => songKey(entry));
+        if (current.join('\n') !== revision.order.join('\n')) {
+          issues.push({
+            code: 'revision-current-mismatch',
+            severity: 'error',
+            file: document.file,
+            path: `${path}.order`,
+            message:
+              'The revision dated at chart_week should list the current entries in order; re-run npm run import:rankings.',
+          });
+        }
+      }
+
+      const listed = new Map<string, number>();
+      revision.order.forEach((id, position) => {
+        if (!songIds.has(id)) {
+          issues.push({
+            code: 'revision-unknown-song',
+            severity: 'error',
+            file: document.file,
+            path: `${path}.order[${position}]`,
+            message: `"${id}" is not a song ID in the registry.`,
+          });
+        }
+        const first = listed.get(id);
+        if (first !== undefined) {
+          issues.push({
+            code: 'revision-duplicate-song',
+            severity: 'error',
+            file: document.file,
+            path: `${path}.order[${position}]`,
+            message: `"${id}" is already listed at ${path}.order[${first}].`,
+          });
+        } else {
+          listed.set(id, position);
+        }
+      });
+    });
+  }
+
+  if (topList && reportUnranked) {
+    for (const [key, { credit, year, file }] of numberOneSongs) {
+      if (ranked.has(key)) continue;
+      issues.push({
+        code: 'ranking-missing-number-one',
+        severity: 'warning',
+        file,
+        message: `${describe(credit)} (${year}) is not ranked in the Top 220.`,
+      });
+    }
+  }
+
+  return issues;
+};
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { resolveGenres } from './genres';
+import { streamingProviderInfo, streamingProviders, type StreamingProvider } from './track-links';
+
+/**
+ * Collection schemas shared by `src/content/config.ts` and the Node validation scripts, which
+ * cannot import `astro:content`. Astro passes `reference('songs')` for the song IDs in ranking
+ * revisions; scripts pass a plain string schema since frontmatter stores the ID.
+ */
+export const createContentSchemas = <TSongReference extends z.ZodTypeAny>(
+  songReference: TSongReference
+) => {
+  const coverImageSchema = z
+    .object({
+      src: z.string(),
+      width: z.number().int().positive(),
+      height: z.number().int().positive(),
+      alt: z.string(),
+      format: z.enum(['jpg', 'png', 'webp', 'avif']).optional(),
+    })
+    .optional();
+
+  const baseTrackSchema = z.object({
+    title: z.string(),
+    slug: z.string().optional(),
+    release_date: z.coerce.date(),
+    artist: z.string(),
+    ranking: z.number().int().min(1),
+    commentary_excerpt: z.string(),
+    commentary: z.string(),
+    cover_image: coverImageSchema,
+    tags: z.array(z.string()).optional(),
+  });
+
+  const songCreditSchema = z.object({
+    title: z.string(),
+    artist: z.string(),
+  });
+
+  /** A stretch of consecutive weeks at #1, keyed by the Billboard chart date it began. */
+  const chartRunSchema = z.object({
+    start: z.coerce.date(),
+    weeks: z.number().int().min(1),
+  });
+
+  const numberOneEntrySchema = z
+    .object({
+      title: z.string(),
+      artist: z.string(),
+      notes: z.array(z.string()).default([]),
+      /** Total weeks at #1, including any that fell in the following year. */
+      weeksAtNumberOne: z.number().int().min(1).optional(),
+      /** One entry per run, so non-consecutive returns to #1 keep their own start dates. */
+      chartRuns: z.array(chartRunSchema).optional(),
+    })
+    .superRefine(({ weeksAtNumberOne, chartRuns }, ctx) => {
+      if (weeksAtNumberOne === undefined || !chartRuns?.length) return;
+      const total = chartRuns.reduce((sum, run) => sum + run.weeks, 0);
+      if (total !== weeksAtNumberOne) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['weeksAtNumberOne'],
+          message: `weeksAtNumberOne is ${weeksAtNumberOne} but chartRuns add up to ${total}.`,
+        });
+      }
+    });
+
+  /** Streaming IDs beside `spotifyTrackId`, in the form `src/lib/track-links.ts` expects. */
+  const trackLinksSchema = z
+    .object(
+      Object.fromEntries(
+        streamingProviders.map((provider) => {
+          const { label, pattern } = streamingProviderInfo[provider];
+          return [provider, z.string().regex(pattern, `Not a ${label} ID.`).optional()];
+        })
+      ) as Record<StreamingProvider, z.ZodOptional<z.ZodString>>
+    )
+    .strict();
+
+  const overallRankingEntrySchema = z.object({
+    position: z.number().int().min(1),
+    title: z.string(),
+    artist: z.string(),
+    spotifyTrackId: z.string().optional(),
+  });
+
+  /** Genre labels must resolve through the taxonomy in `src/lib/genres.ts`. */
+  const genreListSchema = z.array(z.string()).superRefine((labels, ctx) => {
+    const { unknown } = resolveGenres(labels);
+    if (unknown.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unknown genre${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}. Add ${
+          unknown.length === 1 ? 'it' : 'them'
+        } (or an alias) to src/lib/genres.ts.`,
+      });
+    }
+  });
+
+  /** Written by `scripts/import-top-220.mjs`; see `src/lib/ranking-year.ts`. */
+  const rankingYearSchema = z
+    .object({
+      start: z.number().int(),
+      end: z.number().int().optional(),
+    })
+    .refine(({ start, end }) => end === undefined || end > start, {
+      message: 'A year span must end after it starts.',
+      path: ['end'],
+    });
+
+  const rankingEntrySchema = z.object({
+    position: z.number().int().min(1),
+    title: z.string(),
+    artist: z.string(),
+    year: rankingYearSchema.optional(),
+    genres: genreListSchema.optional(),
+    commentary: z.string(),
+  });
+
+  /** Hand-picked highlight row; omitted values are computed from the ranking's entries. */
+  const rankingHighlightSchema = z.object({
+    position: z.number().int().min(1),
+    title: z.string(),
+    artist: z.string(),
+    movement: z.union([z.number().int(), z.literal('new')]).optional(),
+    peak: z.number().int().min(1).optional(),
+    notes: z.string().optional(),
+  });
+
+  /** One dated order of the list, recorded by the importer each time the order changes. */
+  const rankingRevisionSchema = z.object({
+    chart_week: z.coerce.date(),
+    note: z.string().optional(),
+    /** Registry song IDs from position 1 down. */
+    order: z.array(songReference).min(1),
+  });
+
+  return {
+    years: baseTrackSchema.extend({
+      year: z.number().int(),
+      numberOnes: z.array(numberOneEntrySchema).default([]),
+      overallRanking: z.array(overallRankingEntrySchema).default([]),
+      yearSummary: z.string().optional(),
+    }),
+    rankings: baseTrackSchema.extend({
+      chart_week: z.coerce.date(),
+      subset: z.enum(['top-220', 'bottom-60']).optional(),
+      entries: z.array(rankingEntrySchema).default([]),
+      highlights: z.array(rankingHighlightSchema).optional(),
+      /** Every recorded order, oldest first; the last is dated `chart_week` and matches `entries`. */
+      revisions: z.array(rankingRevisionSchema).optional(),
+    }),
+    meta: baseTrackSchema.extend({
+      category: z.string(),
+    }),
+    decades: baseTrackSchema.extend({
+      decade: z.number().int(),
+      summary: z.string(),
+      summaryHighlights: z.array(z.string()).default([]),
+    }),
+    songs: songCreditSchema.extend({
+      /** Alternate credits used for the same recording elsewhere in the archive. */
+      aliases: z.array(songCreditSchema).default([]),
+      spotifyTrackId: z.string().optional(),
+      links: trackLinksSchema.optional(),
+      /** Key into `scripts/cache/cover-manifest.json`. */
+      albumArt: z.string().optional(),
+    }),
+  };
+};
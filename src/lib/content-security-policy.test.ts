@@ -0,0 +1,93 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  applyContentSecurityPolicy,
+  createContentSecurityPolicy,
+  findContentSecurityPolicyViolations,
+  getFrameSources,
+  hashInlineScript,
+} from './content-security-policy';
+
+const headers = `/*
+  Cache-Control: public, max-age=0
+
+/assets/*
+  Cache-Control: public, max-age=31536000, immutable
+`;
+
+/** The sources a built page uses, as Astro and critters write them. */
+const builtPage = `<!DOCTYPE html><html><head>
+<link rel="stylesheet" href="/_astro/index.css" media="print" onload="this.media='all'">
+<link rel="preload" as="style" href="/_astro/noncritical.css" onload="this.rel='stylesheet'">
+<script type="application/ld+json">{"@type":"MusicRecording"}</script>
+</head><body>
+<a class="album-artwork" style="--album-artwork-color: #e81818; --album-artwork-placeholder: url(&#34;data:image/webp;base64,UklGRlg=&#34;)">
+<picture><source type="image/avif" srcset="/images/covers/abc-88.avif 88w, /images/covers/abc-176.avif 176w">
+<img src="/images/covers/abc-88.webp" alt=""></picture></a>
+<script type="module" src="/_astro/SiteLayout.astro_astro_type_script_index_0_lang.js"></script>
+</body></html>`;
+
+describe('content security policy', () => {
+  it('frames only the players of providers that are turned on', () => {
+    expect(getFrameSources()).toEqual([
+      'https://open.spotify.com',
+      'https://embed.music.apple.com',
+      'https://www.youtube-nocookie.com',
+    ]);
+    expect(createContentSecurityPolicy(['https://open.spotify.com'])).toContain(
+      'frame-src https://open.spotify.com;'
+    );
+    expect(createContentSecurityPolicy([])).toContain("frame-src 'none';");
+  });
+
+  it('allows the stylesheet onload handlers by hash', () => {
+    expect(hashInlineScript("this.media='all'")).toBe(
+      "'sha256-MhtPZXr7+LpJUY5qtMutB+qWfQtMaPccfe7QXtCcEYc='"
+    );
+    expect(createContentSecurityPolicy()).not.toMatch(/script-src[^;]*'unsafe-inline'/);
+  });
+
+  it('allows the scripts, handlers and images the built pages use', () => {
+    expect(findContentSecurityPolicyViolations(builtPage, createContentSecurityPolicy())).toEqual(
+      []
+    );
+    expect(
+      findContentSecurityPolicyViolations(
+        builtPage,
+        createContentSecurityPolicy().replace("img-src 'self' data:", "img-src 'self'")
+      )
+    ).toEqual(['img-src: data:image/webp;base64,UklGRlg=']);
+  });
+
+  it('reports inline and data: scripts, unknown handlers and other origins', () => {
+    const page = `<script type="module" defer src="data:video/mp2t;base64,Y29uc3Q="></script>
+<script type="module">document.body.dataset.ready = 'true';</script>
+<button onclick="history.back()">Back</button>
+<img src="https://i.scdn.co/image/abc" alt="">`;
+
+    expect(findContentSecurityPolicyViolations(page, createContentSecurityPolicy())).toEqual([
+      'script-src: data:video/mp2t;base64,Y29uc3Q=',
+      "script-src: inline script document.body.dataset.ready = 'true';",
+      'script-src: onclick="history.back()"',
+      'img-src: https://i.scdn.co/image/abc',
+    ]);
+  });
+
+  it('sets the policy on the catch-all rule, replacing an earlier one', () => {
+    const once = applyContentSecurityPolicy(headers, "default-src 'self'");
+    expect(once.split('\n').slice(0, 3)).toEqual([
+      '/*',
+      '  Cache-Control: public, max-age=0',
+      "  Content-Security-Policy: default-src 'self'",
+    ]);
+    expect(applyContentSecurityPolicy(once, "default-src 'none'")).toBe(
+      once.replace("default-src 'self'", "default-src 'none'")
+    );
+    expect(() => applyContentSecurityPolicy('/assets/*\n', '')).toThrow('"/*" rule');
+  });
+
+  it('matches public/_headers; run `npm run generate:headers` after changing providers', () => {
+    const file = readFileSync(new URL('../../public/_headers', import.meta.url), 'utf8');
+    expect(applyContentSecurityPolicy(file, createContentSecurityPolicy())).toBe(file);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * The Content-Security-Policy that `npm run generate:headers` writes into `public/_headers`.
+ * Pages may only frame the players of providers turned on in `src/lib/track-links.ts`, so
+ * switching one off there and regenerating also closes the policy to it.
+ */
+
+import { createHash } from 'node:crypto';
+import { enabledStreamingProviders, streamingProviderInfo } from './track-links';
+
+/**
+ * The `onload` attributes that swap preloaded stylesheets in: SiteLayout's own, and the one
+ * critters adds for the CSS it defers. Allowed by hash rather than with 'unsafe-inline'.
+ */
+export const inlineEventHandlers = ["this.rel='stylesheet'", "this.media='all'"];
+
+export const hashInlineScript = (source: string): string =>
+  `'sha256-${createHash('sha256').update(source).digest('base64')}'`;
+
+/** Origins serving the players of providers that are turned on. */
+export const getFrameSources = (): string[] =>
+  enabledStreamingProviders.flatMap((provider) => {
+    const { embedOrigin } = streamingProviderInfo[provider];
+    return embedOrigin ? [embedOrigin] : [];
+  });
+
+export const createContentSecurityPolicy = (frameSources = getFrameSources()): string => {
+  const directives: [string, string[]][] = [
+    ['default-src', ["'self'"]],
+    ['script-src', ["'self'", "'unsafe-hashes'", ...inlineEventHandlers.map(hashInlineScript)]],
+    // Critters inlines critical CSS, and album artwork sets its backdrop in a style attribute.
+    ['style-src', ["'self'", "'unsafe-inline'"]],
+    // Blurred artwork placeholders are data: URLs in style attributes.
+    ['img-src', ["'self'", 'data:']],
+    ['font-src', ["'self'"]],
+    ['connect-src', ["'self'"]],
+    ['frame-src', frameSources.length ? frameSources : ["'none'"]],
+    ['worker-src', ["'self'"]],
+    ['object-src', ["'none'"]],
+    ['base-uri', ["'self'"]],
+    ['form-action', ["'self'"]],
+    ['frame-ancestors', ["'self'"]],
+  ];
+  return directives.map(([name, values]) => `${name} ${values.join(' ')}`).join('; ');
+};
+
+const POLICY_HEADER = 'Content-Security-Policy';
+
+/**
+ * Set the policy on the `/*` rule of a `_headers` file, replacing the one written last time and
+ * leaving every other rule as it is.
+ */
+export const applyContentSecurityPolicy = (headers: string, policy: string): string => {
+  const lines = headers.split('\n').filter((line) => !line.trim().startsWith(`${POLICY_HEADER}:`));
+  const rule = lines.indexOf('/*');
+  if (rule === -1) throw new Error('_headers has no "/*" rule to add the policy to.');
+  let end = rule + 1;
+  while (end < lines.length && /^\s+\S/.test(lines[end])) end += 1;
+  lines.splice(end, 0, `  ${POLICY_HEADER}: ${policy}`);
+  return lines.join('\n');
+};
+
+const parsePolicy = (policy: string) =>
+  new Map(
+    policy
+      .split(';')
+      .map((directive) => directive.trim().split(/\s+/))
+      .filter(([name]) => name)
+      .map(([name, ...values]): [string, string[]] => [name, values])
+  );
+
+const decodeAttribute = (value: string) =>
+  value
+    .replace(/&(#34|quot);/g, '"')
+    .replace(/&(#39|apos);/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+/** Whether a URL used by a same-origin page matches one of a fetch directive's sources. */
+const allowsUrl = (sources: string[], url: string) => {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url)?.[1].toLowerCase();
+  if (!scheme) return sources.includes("'self'");
+  if (scheme === 'http' || scheme === 'https') {
+    if (sources.includes(new URL(url).origin)) return true;
+  }
+  return sources.includes(`${scheme}:`);
+};
+
+const SCRIPT_TYPES = new Set(['', 'module', 'text/javascript', 'application/javascript']);
+
+/**
+ * Scripts, inline event handlers and images in a built page that `policy` would block, one
+ * message each. Script elements need a source allowed by `script-src` or, inline, a hash of
+ * their text; handlers need 'unsafe-hashes' and their hash; images, including `url()` values in
+ * style attributes, need a source allowed by `img-src`.
+ */
+export const findContentSecurityPolicyViolations = (html: string, policy: string): string[] => {
+  const directives = parsePolicy(policy);
+  const sourcesFor = (name: string) =>
+    directives.get(name) ?? directives.get('default-src') ?? ["'none'"];
+  const scriptSources = sourcesFor('script-src');
+  const imageSources = sourcesFor('img-src');
+  const violations: string[] = [];
+
+  for (const [, attributes, text] of html.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/gi)) {
+    const type = /\btype="([^"]*)"/i.exec(attributes)?.[1].toLowerCase() ?? '';
+    if (!SCRIPT_TYPES.has(type)) continue;
+    const src = /\bsrc="([^"]*)"/i.exec(attributes)?.[1];
+    if (src !== undefined) {
+      const url = decodeAttribute(src);
+      if (!allowsUrl(scriptSources, url)) violations.push(`script-src: ${url.slice(0, 80)}`);
+    } else if (
+      !scriptSources.includes("'unsafe-inline'") &&
+      !scriptSources.includes(hashInlineScript(text))
+    ) {
+      violations.push(`script-src: inline script ${text.trim().slice(0, 60)}`);
+    }
+  }
+
+  for (const [, name, value] of html.matchAll(/\s(on[a-z]+)="([^"]*)"/gi)) {
+    const handler = decodeAttribute(value);
+    const allowed =
+      scriptSources.includes("'unsafe-inline'") ||
+      (scriptSources.includes("'unsafe-hashes'") &&
+        scriptSources.includes(hashInlineScript(handler)));
+    if (!allowed) violations.push(`script-src: ${name}="${handler}"`);
+  }
+
+  const images = [
+    ...Array.from(html.matchAll(/<img\b[^>]*?\ssrc="([^"]*)"/gi), ([, src]) => src),
+    ...Array.from(html.matchAll(/\ssrcset="([^"]*)"/gi)).flatMap(([, srcset]) =>
+      srcset.split(',').map((candidate) => candidate.trim().split(/\s+/)[0])
+    ),
+    ...Array.from(
+      html.matchAll(/\sstyle="([^"]*)"/gi),
+      ([, style]) => decodeAttribute(style).match(/url\(\s*["']?[^"')\s]+/g) ?? []
+    )
+      .flat()
+      .map((value) => value.replace(/^url\(\s*["']?/, '')),
+  ];
+  for (const image of new Set(images.map(decodeAttribute))) {
+    if (image && !allowsUrl(imageSources, image)) {
+      violations.push(`img-src: ${image.slice(0, 80)}`);
+    }
+  }
+
+  return violations;
+};
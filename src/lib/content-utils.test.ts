@@ -108,6 +108,7 @@ const mockRankings = [
         position: 1,
         title: 'Smooth',
         artist: 'Santana ft. Rob Thomas',
+        genres: ['Latin rock', 'Pop rock'],
         commentary: 'Still at the summit.',
       },
     ],
@@ -126,6 +127,7 @@ const mockRankings = [
         position: 2,
         title: 'Genie in a Bottle',
         artist: 'Christina Aguilera',
+        genres: ['Electro-R&B', 'Dance-pop'],
         commentary: 'Climbing quickly.',
       },
     ],
@@ -168,6 +170,35 @@ const mockRankings = [
   }),
 ];
 
+const createSong = (
+  id: string,
+  data: Omit<CollectionEntry<'songs'>['data'], 'aliases'> & {
+    aliases?: CollectionEntry<'songs'>['data']['aliases'];
+  }
+): CollectionEntry<'songs'> =>
+  ({
+    id,
+    collection: 'songs',
+    data: { aliases: [], ...data },
+  }) as unknown as CollectionEntry<'songs'>;
+
+const mockSongs = [
+  createSong('smooth-santana-feat-rob-thomas', {
+    title: 'Smooth',
+    artist: 'Santana feat. Rob Thomas',
+    albumArt: 'smooth-santana-feat-rob-thomas',
+  }),
+  createSong('genie-in-a-bottle-christina-aguilera', {
+    title: 'Genie in a Bottle',
+    artist: 'Christina Aguilera',
+    aliases: [{ title: 'Genie In A Bottle', artist: 'Xtina' }],
+  }),
+  createSong('independent-women-part-i-destiny-s-child', {
+    title: 'Independent Women Part I',
+    artist: "Destiny's Child",
+  }),
+];
+
 const cloneEntries = <T extends { data: Record<string, unknown> }>(entries: readonly T[]): T[] =>
   entries.map((entry) => ({ ...entry, data: { ...entry.data } })) as T[];
 
@@ -177,6 +208,8 @@ const getCollectionMock = vi.fn(async (collection: string) => {
       return cloneEntries(mockYears);
     case 'rankings':
       return cloneEntries(mockRankings);
+    case 'songs':
+      return cloneEntries(mockSongs);
     default:
       throw new Error(`Unknown collection: ${collection}`);
   }
@@ -187,6 +220,10 @@ vi.mock('astro:content', () => ({
 }));
 
 import {
+  getArtists,
+  getGenreIndex,
+  getSongIndex,
+  getSongReferences,
   getYearGroups,
   getYearSlugIndex,
   getRankingSlugIndex,
@@ -225,3 +262,64 @@ describe('slug index helpers', () => {
     expect(index.size).toBe(mockRankings.length);
   });
 });
+
+describe('song registry helpers', () => {
+  it('resolves credits through normalized spellings and aliases', async () => {
+    const index = await getSongIndex();
+
+    expect(index.resolve({ title: 'Smooth', artist: 'Santana ft. Rob Thomas' })?.id).toBe(
+      'smooth-santana-feat-rob-thomas'
+    );
+    expect(index.resolve({ title: 'genie in a bottle', artist: 'XTINA' })?.id).toBe(
+      'genie-in-a-bottle-christina-aguilera'
+    );
+    expect(index.resolve({ title: 'Obscure Hit', artist: 'Unknown Artist' })).toBeUndefined();
+  });
+
+  it('builds the song index and references once', async () => {
+    expect(await getSongIndex()).toBe(await getSongIndex());
+    expect(await getSongReferences()).toBe(await getSongReferences());
+  });
+
+  it('gathers year, overall ranking, and ranking references for each song', async () => {
+    const references = await getSongReferences();
+    const smooth = references.get('smooth-santana-feat-rob-thomas');
+
+    expect(smooth?.numberOnes).toEqual([
+      { year: 1999, slug: '1999-chart-toppers', sequence: 0, notes: ['Dominated radio rotation.'] },
+    ]);
+    expect(smooth?.overallRankings).toEqual([
+      { year: 1999, slug: '1999-chart-toppers', position: 1, total: 1 },
+    ]);
+    expect(smooth?.rankingEntries.map((entry) => entry.slug)).toEqual(['smooth-number-one']);
+    expect(references.get('genie-in-a-bottle-christina-aguilera')?.rankingEntries).toHaveLength(1);
+  });
+});
+
+describe('artist helpers', () => {
+  it('credits featured artists with their songs', async () => {
+    const artists = await getArtists();
+    const names = artists.map((artist) => artist.name);
+
+    expect(names).toEqual(['Christina Aguilera', "Destiny's Child", 'Rob Thomas', 'Santana']);
+    const robThomas = artists.find((artist) => artist.slug === 'rob-thomas');
+    expect(robThomas?.songs.map((reference) => reference.song.id)).toEqual([
+      'smooth-santana-feat-rob-thomas',
+    ]);
+    expect(robThomas?.noteCount).toBe(2);
+  });
+});
+
+describe('genre helpers', () => {
+  it('lists ranked songs under their tagged genres and every ancestor', async () => {
+    const genreIndex = await getGenreIndex();
+    const titles = (slug: string) => genreIndex.get(slug)?.songs.map((item) => item.title);
+
+    expect(titles('latin-rock')).toEqual(['Smooth']);
+    expect(titles('rock')).toEqual(['Smooth']);
+    expect(titles('electro-r-and-b')).toEqual(['Genie in a Bottle']);
+    expect(titles('r-and-b')).toEqual(['Genie in a Bottle']);
+    expect(titles('pop')).toEqual(['Genie in a Bottle']);
+    expect(genreIndex.get('rock')?.songs[0].song?.id).toBe('smooth-santana-feat-rob-thomas');
+  });
+});
@@ -1,8 +1,27 @@
 import { getCollection, type CollectionEntry } from 'astro:content';
+import { createArtistSlug, splitArtistCredit } from './artist-credits';
+import { buildChartTimeline, type ChartRun, type ChartWeek } from './chart-runs';
+import {
+  genres as genreTaxonomy,
+  getGenreAncestors,
+  resolveGenres,
+  type GenreDefinition,
+} from './genres';
+import {
+  buildRankingHighlights,
+  type ChartPeak,
+  type HighlightCredit,
+  type RankingHighlight,
+} from './ranking-highlights';
+import type { RankingRevision, RevisionEntry } from './ranking-revisions';
+import type { RankingYear } from './ranking-year';
+import { createSongKey, type SongCredit } from './song-key';
 
 export type YearEntry = CollectionEntry<'years'>;
 export type RankingEntry = CollectionEntry<'rankings'>;
 export type DecadeEntry = CollectionEntry<'decades'>;
+export type SongEntry = CollectionEntry<'songs'>;
+export type MetaEntry = CollectionEntry<'meta'>;
 
 export type YearGroups = Record<number, YearEntry[]>;
 
@@ -11,6 +30,93 @@ export interface DecadeBucket {
   years: { year: number; entries: YearEntry[] }[];
 }
 
+export interface SongIndex {
+  songs: Map<string, SongEntry>;
+  resolve: (credit: SongCredit) => SongEntry | undefined;
+}
+
+export interface SongNumberOneAppearance {
+  year: number;
+  slug: string;
+  /** Zero-based index of the track within the year's #1 list. */
+  sequence: number;
+  notes: string[];
+}
+
+export interface SongOverallPlacement {
+  year: number;
+  slug: string;
+  position: number;
+  /** Number of songs ranked in that year's overall list. */
+  total: number;
+}
+
+export interface SongRankingPlacement {
+  slug: string;
+  title: string;
+  subset?: RankingEntry['data']['subset'];
+  position: number;
+  commentary: string;
+}
+
+export interface SongReferences {
+  song: SongEntry;
+  numberOnes: SongNumberOneAppearance[];
+  overallRankings: SongOverallPlacement[];
+  rankingEntries: SongRankingPlacement[];
+}
+
+export interface ArtistPlacement extends SongRankingPlacement {
+  song: SongEntry;
+}
+
+export interface ArtistSummary {
+  slug: string;
+  name: string;
+  /** Every #1 the artist is credited on, ordered by the first year it topped the chart. */
+  songs: SongReferences[];
+  /** Highest and lowest spots across the subset rankings (Top 220 / Bottom 60). */
+  bestPlacement?: ArtistPlacement;
+  worstPlacement?: ArtistPlacement;
+  /** Year notes plus distinct ranking commentary written about the artist's songs. */
+  noteCount: number;
+}
+
+export interface GenreSong {
+  song?: SongEntry;
+  title: string;
+  artist: string;
+  year?: RankingYear;
+  position: number;
+  rankingSlug: string;
+  /** Genres tagged directly on the ranking entry. */
+  genres: GenreDefinition[];
+}
+
+export interface GenreSummary {
+  genre: GenreDefinition;
+  /** Ranked songs tagged with the genre or any of its subgenres, best position first. */
+  songs: GenreSong[];
+}
+
+export interface ChartWeekEntry extends SongCredit {
+  song?: SongEntry;
+  /** Year page the #1 is listed on; a run spanning New Year uses the first listing. */
+  year: number;
+  yearSlug: string;
+  notes: string[];
+  weeksAtNumberOne?: number;
+  chartRuns?: ChartRun[];
+}
+
+export type NumberOneWeek = ChartWeek<ChartWeekEntry>;
+
+export interface RankingRevisionEntry extends RevisionEntry {
+  song?: SongEntry;
+  /** Only the current revision keeps commentary. */
+  commentary?: string;
+}
+
 const byAscendingRanking = <T extends { data: { ranking: number } }>(a: T, b: T) =>
   a.data.ranking - b.data.ranking;
 
@@ -71,6 +177,12 @@ export async function getDecades(): Promise<DecadeEntry[]> {
   return entries.sort((a, b) => a.data.decade - b.data.decade);
 }
 
+/** The `meta` entry rendered at `/about/`. */
+export async function getAboutEntry(): Promise<MetaEntry | undefined> {
+  const entries = await getCollection('meta');
+  return entries.find(({ slug }) => slug === 'about-the-archive') ?? entries[0];
+}
+
 export function getYearsForDecade(decade: number, groups: YearGroups): YearEntry[] {
   const start = Math.floor(decade / 10) * 10;
   const end = start + 9;
@@ -106,3 +218,331 @@ export async function getRankingSlugIndex(): Promise<Map<string, RankingEntry>>
   const entries = await getCollection('rankings');
   return buildSlugIndex(entries);
 }
+
+let songIndex: Promise<SongIndex> | undefined;
+let songReferences: Promise<Map<string, SongReferences>> | undefined;
+
+/**
+ * The canonical song lookup: a credit is matched against each registry song's primary credit
+ * and its aliases. Built once per build, since every page that links a song needs it.
+ */
+export function getSongIndex(): Promise<SongIndex> {
+  songIndex ??= loadSongIndex();
+  return songIndex;
+}
+
+async function loadSongIndex(): Promise<SongIndex> {
+  const entries = await getCollection('songs');
+  const songs = new Map(entries.map((entry) => [entry.id, entry]));
+  const byKey = new Map<string, SongEntry>();
+
+  for (const entry of entries) {
+    for (const credit of [entry.data, ...entry.data.aliases]) {
+      const key = createSongKey(credit.title, credit.artist);
+      if (!byKey.has(key)) {
+        byKey.set(key, entry);
+      }
+    }
+  }
+
+  const resolve = (credit: SongCredit) => byKey.get(createSongKey(credit.title, credit.artist));
+
+  return { songs, resolve };
+}
+
+/**
+ * Every year and ranking record that points at each registry song, keyed by song ID. Songs
+ * without any references are still included so every ID resolves. Built once per build.
+ */
+export function getSongReferences(): Promise<Map<string, SongReferences>> {
+  songReferences ??= loadSongReferences();
+  return songReferences;
+}
+
+async function loadSongReferences(): Promise<Map<string, SongReferences>> {
+  const [index, yearEntries, rankingEntries] = await Promise.all([
+    getSongIndex(),
+    getCollection('years'),
+    getCollection('rankings'),
+  ]);
+
+  const references = new Map<string, SongReferences>();
+  for (const song of index.songs.values()) {
+    references.set(song.id, {
+      song,
+      numberOnes: [],
+      overallRankings: [],
+      rankingEntries: [],
+    });
+  }
+
+  const lookup = (credit: SongCredit) => {
+    const song = index.resolve(credit);
+    return song ? references.get(song.id) : undefined;
+  };
+
+  for (const entry of yearEntries) {
+    const { year, numberOnes = [], overallRanking = [] } = entry.data;
+
+    numberOnes.forEach((track, sequence) => {
+      lookup(track)?.numberOnes.push({
+        year,
+        slug: entry.slug,
+        sequence,
+        notes: track.notes ?? [],
+      });
+    });
+
+    overallRanking.forEach((track) => {
+      lookup(track)?.overallRankings.push({
+        year,
+        slug: entry.slug,
+        position: track.position,
+        total: overallRanking.length,
+      });
+    });
+  }
+
+  for (const entry of rankingEntries) {
+    for (const track of entry.data.entries ?? []) {
+      lookup(track)?.rankingEntries.push({
+        slug: entry.slug,
+        title: entry.data.title,
+        subset: entry.data.subset,
+        position: track.position,
+        commentary: track.commentary,
+      });
+    }
+  }
+
+  for (const reference of references.values()) {
+    reference.numberOnes.sort((a, b) => a.year - b.year || a.sequence - b.sequence);
+    reference.overallRankings.sort((a, b) => a.year - b.year);
+    reference.rankingEntries.sort((a, b) => a.position - b.position);
+  }
+
+  return references;
+}
+
+const firstYear = (reference: SongReferences) =>
+  reference.numberOnes[0]?.year ?? Number.POSITIVE_INFINITY;
+
+/**
+ * Group registry songs by every act in their credit, so "Santana feat. Rob Thomas" is listed
+ * under both Santana and Rob Thomas. Returned alphabetically by artist name.
+ */
+export async function getArtists(): Promise<ArtistSummary[]> {
+  const references = await getSongReferences();
+  const artists = new Map<string, ArtistSummary>();
+
+  for (const reference of references.values()) {
+    if (!reference.numberOnes.length) continue;
+    for (const name of splitArtistCredit(reference.song.data.artist)) {
+      const slug = createArtistSlug(name);
+      const artist = artists.get(slug) ?? { slug, name, songs: [], noteCount: 0 };
+      artist.songs.push(reference);
+      artists.set(slug, artist);
+    }
+  }
+
+  for (const artist of artists.values()) {
+    artist.songs.sort(
+      (a, b) => firstYear(a) - firstYear(b) || a.song.data.title.localeCompare(b.song.data.title)
+    );
+
+    const placements = artist.songs
+      .flatMap((reference) =>
+        reference.rankingEntries
+          .filter((placement) => placement.subset)
+          .map((placement) => ({ ...placement, song: reference.song }))
+      )
+      // The Bottom 60 repeats Top 220 positions, so prefer the Top 220 listing on ties.
+      .sort(
+        (a, b) =>
+          a.position - b.position || Number(b.subset === 'top-220') - Number(a.subset === 'top-220')
+      );
+    artist.bestPlacement = placements[0];
+    artist.worstPlacement = placements.length > 1 ? placements[placements.length - 1] : undefined;
+
+    artist.noteCount = artist.songs.reduce((total, reference) => {
+      const yearNotes = reference.numberOnes.reduce((sum, item) => sum + item.notes.length, 0);
+      const commentary = new Set(
+        reference.rankingEntries.map((placement) => placement.commentary.trim()).filter(Boolean)
+      );
+      return total + yearNotes + commentary.size;
+    }, 0);
+  }
+
+  return Array.from(artists.values()).sort((a, b) =>
+    a.name.localeCompare(b.name, 'en', { sensitivity: 'base' })
+  );
+}
+
+/**
+ * Index every ranked song by genre slug. Songs count toward their tagged genres and each
+ * ancestor, so "Electro-R&B" entries also appear under R&B. The Bottom 60 repeats Top 220
+ * entries, so each song is listed once, preferring its Top 220 placement.
+ */
+export async function getGenreIndex(): Promise<Map<string, GenreSummary>> {
+  const [index, rankingEntries] = await Promise.all([getSongIndex(), getCollection('rankings')]);
+  const summaries = new Map<string, GenreSummary>(
+    genreTaxonomy.map((genre) => [genre.slug, { genre, songs: [] }])
+  );
+
+  const subsetOrder = (entry: RankingEntry) => (entry.data.subset === 'top-220' ? 0 : 1);
+  const listed = new Set<string>();
+
+  for (const entry of [...rankingEntries].sort((a, b) => subsetOrder(a) - subsetOrder(b))) {
+    for (const track of entry.data.entries ?? []) {
+      const song = index.resolve(track);
+      const key = song?.id ?? createSongKey(track.title, track.artist);
+      if (listed.has(key) || !track.genres?.length) continue;
+      listed.add(key);
+
+      const tagged = resolveGenres(track.genres).genres;
+      const genreSong: GenreSong = {
+        song,
+        title: track.title,
+        artist: track.artist,
+        year: track.year,
+        position: track.position,
+        rankingSlug: entry.slug,
+        genres: tagged,
+      };
+
+      const slugs = new Set(
+        tagged.flatMap((genre) => [genre, ...getGenreAncestors(genre)]).map((genre) => genre.slug)
+      );
+      slugs.forEach((slug) => summaries.get(slug)?.songs.push(genreSong));
+    }
+  }
+
+  for (const summary of summaries.values()) {
+    summary.songs.sort((a, b) => a.position - b.position);
+  }
+
+  return summaries;
+}
+
+/**
+ * Every chart week covered by `chartRuns` data in the years collection, oldest first. Years
+ * without chart-run data simply contribute no weeks.
+ */
+export async function getChartWeeks(): Promise<NumberOneWeek[]> {
+  const [index, entries] = await Promise.all([getSongIndex(), getCollection('years')]);
+  const items = entries
+    .sort((a, b) => a.data.year - b.data.year || a.data.ranking - b.data.ranking)
+    .flatMap((entry) =>
+      (entry.data.numberOnes ?? []).map(
+        (item): ChartWeekEntry => ({
+          title: item.title,
+          artist: item.artist,
+          song: index.resolve(item),
+          year: entry.data.year,
+          yearSlug: entry.slug,
+          notes: item.notes ?? [],
+          weeksAtNumberOne: item.weeksAtNumberOne,
+          chartRuns: item.chartRuns,
+        })
+      )
+    );
+
+  return buildChartTimeline(
+    items,
+    (item) => item.song?.id ?? createSongKey(item.title, item.artist)
+  );
+}
+
+/**
+ * Every recorded order of a ranking, oldest first. Earlier revisions store registry song IDs, so
+ * their credits come from the registry; the last revision is the current `entries`, which takes
+ * the note of the revision dated at the ranking's `chart_week`.
+ */
+export async function getRankingRevisions(
+  entry: RankingEntry
+): Promise<RankingRevision<RankingRevisionEntry>[]> {
+  const index = await getSongIndex();
+
+  const recorded = entry.data.revisions ?? [];
+  const isCurrent = (revision: (typeof recorded)[number]) =>
+    revision.chart_week.getTime() === entry.data.chart_week.getTime();
+
+  const earlier = recorded
+    .filter((revision) => !isCurrent(revision))
+    .map((revision) => ({
+      chartWeek: revision.chart_week,
+      note: revision.note,
+      entries: revision.order.flatMap((reference, position): RankingRevisionEntry[] => {
+        const song = index.songs.get(reference.id);
+        return song
+          ? [{ position: position + 1, title: song.data.title, artist: song.data.artist, song }]
+          : [];
+      }),
+    }));
+
+  const current = {
+    chartWeek: entry.data.chart_week,
+    note: recorded.find(isCurrent)?.note,
+    entries: (entry.data.entries ?? []).map(
+      (item): RankingRevisionEntry => ({
+        position: item.position,
+        title: item.title,
+        artist: item.artist,
+        song: index.resolve(item),
+        commentary: item.commentary,
+      })
+    ),
+  };
+
+  return [...earlier, current].sort((a, b) => a.chartWeek.getTime() - b.chartWeek.getTime());
+}
+
+/** Key that identifies a ranking entry across revisions. */
+export const getRevisionEntryKey = (entry: RankingRevisionEntry) =>
+  entry.song?.id ?? createSongKey(entry.title, entry.artist);
+
+/**
+ * Highlight rows for a ranking page. Movement compares against the ranking's previous revision,
+ * or failing that the previous list with the same `subset` (latest earlier `chart_week`). Every
+ * song in the years collection peaked at #1, with weeks from the chart-run data.
+ */
+export async function getRankingHighlights(entry: RankingEntry): Promise<RankingHighlight[]> {
+  const [index, yearEntries, rankingEntries, revisions] = await Promise.all([
+    getSongIndex(),
+    getCollection('years'),
+    getCollection('rankings'),
+    getRankingRevisions(entry),
+  ]);
+
+  const getKey = (credit: HighlightCredit) =>
+    index.resolve(credit)?.id ?? createSongKey(credit.title, credit.artist);
+
+  const chartPeaks = new Map<string, ChartPeak>();
+  for (const year of yearEntries) {
+    for (const item of year.data.numberOnes ?? []) {
+      const key = getKey(item);
+      chartPeaks.set(key, {
+        peak: 1,
+        weeksAtPeak: item.weeksAtNumberOne ?? chartPeaks.get(key)?.weeksAtPeak,
+      });
+    }
+  }
+
+  const { subset, chart_week: chartWeek } = entry.data;
+  const previousList = subset
+    ? rankingEntries
+        .filter(
+          (item) =>
+            item.data.subset === subset && item.data.chart_week.getTime() < chartWeek.getTime()
+        )
+        .sort((a, b) => b.data.chart_week.getTime() - a.data.chart_week.getTime())[0]
+    : undefined;
+
+  return buildRankingHighlights({
+    entries: entry.data.entries ?? [],
+    previousEntries: revisions.at(-2)?.entries ?? previousList?.data.entries,
+    overrides: entry.data.highlights,
+    getKey,
+    getChartPeak: (credit) => chartPeaks.get(getKey(credit)),
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EMBED_CONSENT_STORAGE_KEY,
+  consentProviders,
+  getEmbedConsentMessage,
+  grantEmbedConsent,
+  grantSessionEmbedConsent,
+  hasEmbedConsent,
+  readEmbedConsent,
+  revokeEmbedConsent,
+} from './embed-consent';
+
+const createStorage = (initial?: string) => {
+  const values = new Map<string, string>();
+  if (initial !== undefined) values.set(EMBED_CONSENT_STORAGE_KEY, initial);
+  return {
+    values,
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => void values.set(key, value),
+    removeItem: (key: string) => void values.delete(key),
+  };
+};
+
+describe('embed consent', () => {
+  it('asks for every provider with a player', () => {
+    expect(consentProviders).toEqual(['spotify', 'appleMusic', 'youtube']);
+    expect(hasEmbedConsent(createStorage(), 'spotify')).toBe(false);
+    expect(hasEmbedConsent(undefined, 'spotify')).toBe(false);
+  });
+
+  it('remembers and revokes choices per provider', () => {
+    const storage = createStorage();
+    grantEmbedConsent(storage, 'youtube');
+    grantEmbedConsent(storage, 'spotify');
+    grantEmbedConsent(storage, 'spotify');
+    expect(readEmbedConsent(storage)).toEqual(['spotify', 'youtube']);
+
+    revokeEmbedConsent(storage, 'spotify');
+    expect(readEmbedConsent(storage)).toEqual(['youtube']);
+    revokeEmbedConsent(storage);
+    expect(storage.values.has(EMBED_CONSENT_STORAGE_KEY)).toBe(false);
+  });
+
+  it('keeps a one-time choice for the page without storing it', () => {
+    const storage = createStorage();
+    grantSessionEmbedConsent('appleMusic');
+    expect(hasEmbedConsent(storage, 'appleMusic')).toBe(true);
+    expect(hasEmbedConsent(undefined, 'appleMusic')).toBe(true);
+    expect(hasEmbedConsent(storage, 'youtube')).toBe(false);
+    expect(storage.values.has(EMBED_CONSENT_STORAGE_KEY)).toBe(false);
+
+    revokeEmbedConsent(storage, 'appleMusic');
+    expect(hasEmbedConsent(storage, 'appleMusic')).toBe(false);
+    grantSessionEmbedConsent('youtube');
+    revokeEmbedConsent(storage);
+    expect(hasEmbedConsent(storage, 'youtube')).toBe(false);
+  });
+
+  it('ignores stored values it does not understand', () => {
+    expect(readEmbedConsent(createStorage('not json'))).toEqual([]);
+    expect(readEmbedConsent(createStorage('{"spotify":true}'))).toEqual([]);
+    expect(readEmbedConsent(createStorage('["tidal","bandcamp","appleMusic"]'))).toEqual([
+      'appleMusic',
+    ]);
+  });
+
+  it('names the host a player loads from', () => {
+    expect(getEmbedConsentMessage('youtube')).toContain('from www.youtube-nocookie.com');
+  });
+});
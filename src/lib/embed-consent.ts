@@ -0,0 +1,107 @@
+/**
+ * Consent for third-party players. Nothing from a provider loads until the visitor agrees, once
+ * or for good. Agreeing once lasts until the page reloads, so the playlist player can move on to
+ * the next track without asking again; lasting choices are kept in `localStorage` per provider
+ * and can be revoked from the about page. Used by `src/scripts/track-embeds.ts` and
+ * `src/scripts/embed-consent-settings.ts`.
+ */
+
+import {
+  enabledStreamingProviders,
+  streamingProviderInfo,
+  type StreamingProvider,
+} from './track-links';
+
+/**
+ * `window.localStorage`, or `undefined` where the browser blocks it. Shared by every script that
+ * reads the visitor's consent or preferred provider.
+ */
+export const getStorage = (): Storage | undefined => {
+  try {
+    return window.localStorage;
+  } catch {
+    return undefined;
+  }
+};
+
+/** The `localStorage` key holding the providers a visitor always allows. */
+export const EMBED_CONSENT_STORAGE_KEY = 'embed-consent';
+
+/** Providers turned on that embed a player, and so need consent. */
+export const consentProviders: readonly StreamingProvider[] = enabledStreamingProviders.filter(
+  (provider) => streamingProviderInfo[provider].getEmbed
+);
+
+export const readEmbedConsent = (
+  storage: Pick<Storage, 'getItem'> | undefined
+): StreamingProvider[] => {
+  try {
+    const parsed: unknown = JSON.parse(storage?.getItem(EMBED_CONSENT_STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed)
+      ? consentProviders.filter((provider) => parsed.includes(provider))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Providers the visitor agreed to once, for as long as this page stays loaded. */
+const sessionConsent = new Set<StreamingProvider>();
+
+export const hasEmbedConsent = (
+  storage: Pick<Storage, 'getItem'> | undefined,
+  provider: StreamingProvider
+): boolean => sessionConsent.has(provider) || readEmbedConsent(storage).includes(provider);
+
+const writeEmbedConsent = (
+  storage: Pick<Storage, 'setItem' | 'removeItem'> | undefined,
+  providers: StreamingProvider[]
+) => {
+  try {
+    if (providers.length) {
+      storage?.setItem(EMBED_CONSENT_STORAGE_KEY, JSON.stringify(providers));
+    } else {
+      storage?.removeItem(EMBED_CONSENT_STORAGE_KEY);
+    }
+  } catch {
+    /* storage blocked: the visitor is asked again next time */
+  }
+};
+
+/** Let the provider's player load without asking again until the page reloads. */
+export const grantSessionEmbedConsent = (provider: StreamingProvider) => {
+  sessionConsent.add(provider);
+};
+
+/** Remember that the visitor always allows the provider's player. */
+export const grantEmbedConsent = (
+  storage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> | undefined,
+  provider: StreamingProvider
+) => {
+  sessionConsent.add(provider);
+  const granted = new Set([...readEmbedConsent(storage), provider]);
+  writeEmbedConsent(
+    storage,
+    consentProviders.filter((item) => granted.has(item))
+  );
+};
+
+/** Forget the visitor's consent, once or lasting, for one provider or for all of them. */
+export const revokeEmbedConsent = (
+  storage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> | undefined,
+  provider?: StreamingProvider
+) => {
+  if (provider) sessionConsent.delete(provider);
+  else sessionConsent.clear();
+  writeEmbedConsent(
+    storage,
+    provider ? readEmbedConsent(storage).filter((item) => item !== provider) : []
+  );
+};
+
+/** What the consent prompt tells a visitor before a provider's player loads. */
+export const getEmbedConsentMessage = (provider: StreamingProvider): string => {
+  const { label, embedOrigin } = streamingProviderInfo[provider];
+  const host = embedOrigin ? new URL(embedOrigin).host : label;
+  return `Playing here loads ${label}’s player from ${host}, which can set cookies and see your IP address.`;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { genres, getGenre, getGenreAncestors, resolveGenres } from './genres';
+
+describe('genre taxonomy', () => {
+  it('gives every subgenre a parent that exists in the taxonomy', () => {
+    const orphans = genres.filter((genre) => genre.parent && !getGenre(genre.parent));
+    expect(orphans).toEqual([]);
+  });
+
+  it('resolves aliases, spelling variants, and combined labels', () => {
+    const { genres: resolved, unknown } = resolveGenres([
+      'Hip-hop',
+      'Soft Rock',
+      'Rock & Roll',
+      'Swamp Rock / Rock',
+      'Psychedelia',
+    ]);
+
+    expect(resolved.map((genre) => genre.name)).toEqual([
+      'Hip hop',
+      'Soft rock',
+      'Rock and roll',
+      'Swamp rock',
+      'Rock',
+      'Psychedelic rock',
+    ]);
+    expect(unknown).toEqual([]);
+  });
+
+  it('reports labels missing from the taxonomy', () => {
+    expect(resolveGenres(['Pop', 'Vaporwave']).unknown).toEqual(['Vaporwave']);
+  });
+
+  it('walks parent genres from nearest to root', () => {
+    const electroRnb = getGenre('electro-r-and-b');
+    const crunk = getGenre('crunk');
+
+    expect(electroRnb && getGenreAncestors(electroRnb).map((genre) => genre.name)).toEqual(['R&B']);
+    expect(crunk && getGenreAncestors(crunk).map((genre) => genre.name)).toEqual([
+      'Southern hip hop',
+      'Hip hop',
+    ]);
+  });
+});
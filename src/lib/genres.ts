@@ -0,0 +1,219 @@
+import { slugifyHeading } from './slugify';
+
+export interface GenreDefinition {
+  name: string;
+  slug: string;
+  /** Slug of the broader genre this one rolls up into. */
+  parent?: string;
+  /** Alternate spellings used in ranking frontmatter. */
+  aliases: string[];
+}
+
+type GenreSeed = [name: string, parent?: string, aliases?: string[]];
+
+/**
+ * The canonical genre taxonomy. Each seed is `[name, parent name, aliases]`; labels are matched
+ * by slug, so casing and hyphen/space differences ("Hip-hop" / "Hip hop") need no alias.
+ */
+const GENRE_SEEDS: GenreSeed[] = [
+  ['Pop'],
+  ['Acoustic pop', 'Pop'],
+  ['Art pop', 'Pop'],
+  ['Avant-pop', 'Experimental pop'],
+  ['Baroque pop', 'Pop'],
+  ['Chamber pop', 'Pop'],
+  ['Dance-pop', 'Pop'],
+  ['Dream pop', 'Pop'],
+  ['Easy listening', 'Pop'],
+  ['Electropop', 'Pop', ['Electro-pop']],
+  ['Emo pop', 'Pop'],
+  ['Europop', 'Pop'],
+  ['Experimental pop', 'Pop'],
+  ['J-pop', 'Pop'],
+  ['Jangle pop', 'Pop'],
+  ['Progressive pop', 'Pop'],
+  ['Psychedelic pop', 'Pop'],
+  ['Sophisti-pop', 'Pop'],
+  ['Synth-pop', 'Pop'],
+  ['Traditional pop', 'Pop', ['Vocal']],
+
+  ['Rock'],
+  ['Acoustic rock', 'Rock'],
+  ['Alternative rock', 'Rock'],
+  ['Art rock', 'Rock'],
+  ['Blues rock', 'Rock', ['Blue rock']],
+  ['Country rock', 'Rock'],
+  ['Dance-rock', 'Rock'],
+  ['Electronic rock', 'Rock'],
+  ['Folk rock', 'Rock'],
+  ['Funk rock', 'Rock'],
+  ['Glam rock', 'Rock'],
+  ['Hard rock', 'Rock'],
+  ['Glam metal', 'Hard rock'],
+  ['Instrumental rock', 'Rock'],
+  ['Latin rock', 'Rock'],
+  ['New wave', 'Rock'],
+  ['Pop rock', 'Rock'],
+  ['Post-grunge', 'Alternative rock'],
+  ['Power pop', 'Rock'],
+  ['Progressive rock', 'Rock'],
+  ['Proto-prog', 'Progressive rock'],
+  ['Psychedelic rock', 'Rock', ['Psychedelia']],
+  ['Acid rock', 'Psychedelic rock'],
+  ['Neo-psychedelia', 'Psychedelic rock'],
+  ['Raga rock', 'Psychedelic rock'],
+  ['Rap rock', 'Rock'],
+  ['Rock and roll', 'Rock'],
+  ['Roots rock', 'Rock'],
+  ['Swamp rock', 'Roots rock'],
+  ['Soft rock', 'Rock'],
+  ['Yacht rock', 'Soft rock'],
+  ['Southern rock', 'Rock'],
+  ['Surf rock', 'Rock'],
+
+  ['R&B'],
+  ['Alternative R&B', 'R&B'],
+  ['Doo-wop', 'R&B'],
+  ['Electro-R&B', 'R&B'],
+  ['Hip hop soul', 'R&B'],
+  ['New jack swing', 'R&B'],
+
+  ['Soul'],
+  ['Blue-eyed soul', 'Soul'],
+  ['Neo-soul', 'Soul'],
+  ['Progressive soul', 'Soul'],
+  ['Psychedelic soul', 'Soul'],
+
+  ['Funk'],
+  ['Boogie', 'Funk'],
+  ['Funk-pop', 'Funk'],
+  ['Jazz-funk', 'Funk'],
+  ['Minneapolis sound', 'Funk'],
+  ['Psychedelic funk', 'Funk'],
+  ['Synth-funk', 'Funk'],
+
+  ['Disco'],
+  ['Disco-pop', 'Disco'],
+  ['Hi-NRG', 'Disco'],
+  ['Post-disco', 'Disco'],
+
+  ['Hip hop'],
+  ['Alternative hip hop', 'Hip hop'],
+  ['Bounce', 'Southern hip hop'],
+  ['Cloud rap', 'Hip hop'],
+  ['Country rap', 'Hip hop'],
+  ['Crunk', 'Southern hip hop'],
+  ['Dirty rap', 'Hip hop'],
+  ['East Coast hip hop', 'Hip hop'],
+  ['Emo rap', 'Hip hop'],
+  ['G-funk', 'Gangsta rap'],
+  ['Gangsta rap', 'Hip hop'],
+  ['Hardcore hip hop', 'Hip hop'],
+  ['Hip house', 'Hip hop'],
+  ['Hip-pop', 'Hip hop'],
+  ['Mafioso rap', 'Gangsta rap'],
+  ['Pop-rap', 'Hip hop'],
+  ['Progressive rap', 'Hip hop'],
+  ['Southern hip hop', 'Hip hop'],
+  ['Trap', 'Southern hip hop'],
+
+  ['Electronic', undefined, ['Electronica']],
+  ['Downtempo', 'Electronic'],
+  ['Electro', 'Electronic'],
+  ['Electro house', 'Electronic'],
+  ['Minimal', 'Electronic'],
+  ['Synthwave', 'Electronic'],
+
+  ['Country'],
+  ['Bluegrass', 'Country'],
+  ['Country folk', 'Country'],
+  ['Country pop', 'Country'],
+  ['Tex-Mex', 'Country'],
+
+  ['Folk'],
+  ['Chamber folk', 'Folk'],
+  ['Folk pop', 'Folk'],
+  ['Progressive folk', 'Folk'],
+
+  ['Blues'],
+  ['Boogie-woogie', 'Blues'],
+  ['Country blues', 'Blues'],
+
+  ['Jazz'],
+  ['Vocal jazz', 'Jazz'],
+
+  ['Gospel', undefined, ['Religious']],
+  ['African-American spiritual', 'Gospel'],
+
+  ['Reggae'],
+  ['Reggae fusion', 'Reggae'],
+
+  ['Afrobeat'],
+  ['A cappella'],
+];
+
+/** Slugs spell out "&" so "R&B" becomes `r-and-b` rather than `r-b`. */
+export const createGenreSlug = (label: string): string =>
+  slugifyHeading(label.replace(/&/g, ' and '));
+
+const genreList: GenreDefinition[] = GENRE_SEEDS.map(([name, parent, aliases = []]) => ({
+  name,
+  slug: createGenreSlug(name),
+  parent: parent ? createGenreSlug(parent) : undefined,
+  aliases,
+}));
+
+const genresBySlug = new Map(genreList.map((genre) => [genre.slug, genre]));
+const genresByLabel = new Map<string, GenreDefinition>();
+for (const genre of genreList) {
+  for (const label of [genre.name, ...genre.aliases]) {
+    genresByLabel.set(createGenreSlug(label), genre);
+  }
+}
+
+export const genres: readonly GenreDefinition[] = genreList;
+
+export const getGenre = (slug: string): GenreDefinition | undefined => genresBySlug.get(slug);
+
+/** Split combined labels such as "Soft rock / Pop rock" into their individual genres. */
+const splitGenreLabel = (label: string) =>
+  label
+    .split('/')
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+/**
+ * Resolve frontmatter genre labels to taxonomy entries. Unknown labels are returned separately
+ * so callers can decide whether to fail.
+ */
+export const resolveGenres = (
+  labels: readonly string[]
+): { genres: GenreDefinition[]; unknown: string[] } => {
+  const resolved: GenreDefinition[] = [];
+  const unknown: string[] = [];
+
+  for (const part of labels.flatMap(splitGenreLabel)) {
+    const genre = genresByLabel.get(createGenreSlug(part));
+    if (!genre) {
+      unknown.push(part);
+    } else if (!resolved.includes(genre)) {
+      resolved.push(genre);
+    }
+  }
+
+  return { genres: resolved, unknown };
+};
+
+/** The genre's parents from nearest to root, not including the genre itself. */
+export const getGenreAncestors = (genre: GenreDefinition): GenreDefinition[] => {
+  const ancestors: GenreDefinition[] = [];
+  let current = genre.parent ? genresBySlug.get(genre.parent) : undefined;
+  while (current && !ancestors.includes(current)) {
+    ancestors.push(current);
+    current = current.parent ? genresBySlug.get(current.parent) : undefined;
+  }
+  return ancestors;
+};
+
+export const getGenreChildren = (genre: GenreDefinition): GenreDefinition[] =>
+  genreList.filter((item) => item.parent === genre.slug);
@@ -1,104 +1,66 @@
 import { getCollection } from 'astro:content';
-import { getSpotifyTrackId } from '../data/spotify-tracks';
+import { getSpotifyTrackId } from './spotify-catalog';
+import { createTrackLinks } from './track-links';
+import { getAlbumArtFile } from './album-art';
+import { getSongIndex } from './content-utils';
+import { getGenreAncestors, resolveGenres } from './genres';
+import {
+  createNumberOneSearch,
+  type NumberOneSearchRecord,
+  type NumberOneSearchRecordAppearance,
+} from './number-one-search';
+import { normalizeSearchText } from './search-engine';
+import { matchesSearchFilters, parseSearchQuery } from './search-query';
+
+export type { NumberOneSearchRecord, NumberOneSearchRecordAppearance };
 
 interface NumberOneEntry {
   title: string;
   artist: string;
+  song?: { id: string };
   notes?: string[];
 }
 
-export interface NumberOneSearchRecordAppearance {
-  year: number;
-  slug: string;
-  /** Ranking of the year in the overall list. */
-  yearRanking: number;
-  /** Zero-based index of the track within the year's #1 list. */
-  sequence: number;
-}
-
-export interface NumberOneSearchRecord {
-  id: string;
-  title: string;
-  artist: string;
-  notes: string[];
-  appearances: NumberOneSearchRecordAppearance[];
-  spotifyTrackId?: string;
-  coverWebp?: string;
-  coverAvif?: string;
-  /** Normalized search tokens used by the client-side search script. */
-  tokens: string[];
-}
-
-// Import cover manifest statically (for search indexing album art)
-import coverManifest from '../../scripts/cache/cover-manifest.json';
-interface CoverManifestEntry { webp?: string; avif?: string; }
-const manifest = coverManifest as Record<string, CoverManifestEntry>;
-const normalize = (value: string) =>
-  value
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .toLowerCase();
-
-const tokenize = (value: string): string[] => {
-  const normalized = normalize(value);
-  return normalized
-    .split(/[^a-z0-9]+/i)
-    .map((token) => token.trim())
-    .filter((token) => token.length > 0);
-};
-
-const buildTokens = (entry: NumberOneSearchRecord): string[] => {
-  const tokenSet = new Set<string>();
-  const add = (value: string | number | undefined) => {
-    if (value === undefined || value === null) {
-      return;
-    }
-    const stringValue = String(value);
-    if (!stringValue) return;
-    for (const token of tokenize(stringValue)) {
-      tokenSet.add(token);
-    }
-  };
-
-  add(entry.title);
-  add(entry.artist);
-  entry.appearances.forEach((appearance) => {
-    add(appearance.year);
-    add(appearance.slug);
-    add(appearance.yearRanking);
-    add(appearance.sequence);
-  });
-  entry.notes.forEach(add);
-
-  return Array.from(tokenSet);
-};
+// Search result covers are drawn at 80px, so one 2x file per format is enough.
+const SEARCH_COVER_WIDTH = 160;
 
+/**
+ * #1s matching every filter and free-text term of `query`, most relevant first. A query of only
+ * filters keeps the records in their original order.
+ */
 export function filterNumberOneSearchRecords(
   records: NumberOneSearchRecord[],
   query: string
 ): NumberOneSearchRecord[] {
-  const terms = tokenize(query);
-  if (!terms.length) {
-    return [];
-  }
-  return records
-    .filter((record) => terms.every((term) => record.tokens.some((token) => token.includes(term))))
-    .sort((a, b) => {
-      const aFirst = a.appearances[0];
-      const bFirst = b.appearances[0];
-      if (!aFirst || !bFirst) return 0;
-      if (aFirst.year === bFirst.year) {
-        return aFirst.sequence - bFirst.sequence;
-      }
-      return aFirst.year - bFirst.year;
-    });
+  const { text, filters } = parseSearchQuery(query);
+  const matching = records.filter((record) => matchesSearchFilters(record, filters));
+  if (!text) return filters.length ? matching : [];
+  return createNumberOneSearch(matching)
+    .search(text)
+    .map((result) => result.record);
 }
 
 export async function loadNumberOneSearchIndex(): Promise<NumberOneSearchRecord[]> {
-  const yearEntries = await getCollection('years');
+  const [yearEntries, rankingEntries, songIndex] = await Promise.all([
+    getCollection('years'),
+    getCollection('rankings', ({ data }) => data.subset === 'top-220'),
+    getSongIndex(),
+  ]);
 
   const normalizeKey = (title: string, artist: string) =>
-    normalize(`${title}::${artist}`).replace(/[^a-z0-9]+/g, '-');
+    normalizeSearchText(`${title}::${artist}`).replace(/[^a-z0-9]+/g, '-');
+
+  const placements = new Map<string, { rank: number; genres: string[] }>();
+  rankingEntries.forEach((entry) => {
+    entry.data.entries.forEach((track) => {
+      const key = songIndex.resolve(track)?.id ?? normalizeKey(track.title, track.artist);
+      const tagged = resolveGenres(track.genres ?? []).genres;
+      const genres = new Set(
+        tagged.flatMap((genre) => [genre, ...getGenreAncestors(genre)]).map((genre) => genre.slug)
+      );
+      placements.set(key, { rank: track.position, genres: Array.from(genres) });
+    });
+  });
 
   const grouped = new Map<string, NumberOneSearchRecord>();
 
@@ -115,31 +77,34 @@ export async function loadNumberOneSearchIndex(): Promise<NumberOneSearchRecord[
         sequence: index,
       } satisfies NumberOneSearchRecordAppearance;
 
-      const key = normalizeKey(track.title, track.artist);
+      const song = songIndex.resolve(track);
+      const key = song?.id ?? normalizeKey(track.title, track.artist);
       const existing = grouped.get(key);
-      const spotifyTrackId = getSpotifyTrackId(track.title, track.artist) ?? undefined;
+      const links = createTrackLinks(song?.data.links, {
+        spotify: song?.data.spotifyTrackId ?? getSpotifyTrackId(track.title, track.artist),
+      });
 
       if (existing) {
         existing.appearances.push(appearance);
-        if (spotifyTrackId && !existing.spotifyTrackId) {
-          existing.spotifyTrackId = spotifyTrackId;
-        }
+        existing.links = createTrackLinks(existing.links, links);
         track.notes?.forEach((note) => existing.notes.push(note));
       } else {
         const sanitizedKey = key.replace(/^-+|-+$/g, '');
         const idBase = sanitizedKey || `${year}-${index + 1}`;
-        // Reuse album-art manifest import (static import keeps code synchronous)
-        const coverEntry = manifest[sanitizedKey];
+        const coverSlug = song?.data.albumArt ?? sanitizedKey;
+        const placement = placements.get(key);
         grouped.set(key, {
           id: `track-${idBase}`,
+          songId: song?.id,
           title: track.title,
           artist: track.artist,
           notes: [...(track.notes ?? [])],
           appearances: [appearance],
-          spotifyTrackId,
-          coverWebp: coverEntry?.webp?.replace(/^public\//, '/') ?? undefined,
-          coverAvif: coverEntry?.avif?.replace(/^public\//, '/') ?? undefined,
-          tokens: [],
+          links,
+          coverWebp: getAlbumArtFile(coverSlug, 'webp', SEARCH_COVER_WIDTH),
+          coverAvif: getAlbumArtFile(coverSlug, 'avif', SEARCH_COVER_WIDTH),
+          rank: placement?.rank,
+          genres: placement?.genres.length ? placement.genres : undefined,
         });
       }
     });
@@ -154,7 +119,6 @@ export async function loadNumberOneSearchIndex(): Promise<NumberOneSearchRecord[
       }
       return a.year - b.year;
     });
-    record.tokens = buildTokens(record);
     return record;
   });
 
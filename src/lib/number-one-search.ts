@@ -0,0 +1,51 @@
+import { createSearchEngine, type SearchField, type SearchResult } from './search-engine';
+import type { TrackLinks } from './track-links';
+
+export interface NumberOneSearchRecordAppearance {
+  year: number;
+  slug: string;
+  /** Ranking of the year in the overall list. */
+  yearRanking: number;
+  /** Zero-based index of the track within the year's #1 list. */
+  sequence: number;
+}
+
+export interface NumberOneSearchRecord {
+  id: string;
+  /** Registry song ID (see the `songs` collection) when the track resolves to one. */
+  songId?: string;
+  title: string;
+  artist: string;
+  notes: string[];
+  appearances: NumberOneSearchRecordAppearance[];
+  /** Streaming IDs for the play toggle; see `src/lib/track-links.ts`. */
+  links?: TrackLinks;
+  coverWebp?: string;
+  coverAvif?: string;
+  /** Position in the Top 220 countdown, when the song made it. */
+  rank?: number;
+  /** Genre slugs from the Top 220 entry, including each genre's ancestors. */
+  genres?: string[];
+}
+
+export type NumberOneSearchResult = SearchResult<NumberOneSearchRecord>;
+
+/** Title beats artist, artist beats the year, and the year beats Cody's notes. */
+export const numberOneSearchFields: SearchField<NumberOneSearchRecord>[] = [
+  { name: 'title', weight: 4, getText: (record) => record.title },
+  { name: 'artist', weight: 3, getText: (record) => record.artist },
+  {
+    name: 'year',
+    weight: 2,
+    exact: true,
+    getText: (record) => record.appearances.map((appearance) => String(appearance.year)),
+  },
+  { name: 'notes', weight: 1, getText: (record) => record.notes },
+];
+
+/**
+ * Build the #1 search used by both the `/search/` page render and its client script, so the
+ * two always agree on which hits match and in what order.
+ */
+export const createNumberOneSearch = (records: readonly NumberOneSearchRecord[]) =>
+  createSearchEngine(records, numberOneSearchFields);
@@ -0,0 +1,81 @@
+import { getChartWeeks, getSongReferences, type NumberOneWeek } from './content-utils';
+import type {
+  OnThisDayIndex,
+  OnThisDayPlacement,
+  OnThisDaySong,
+  OnThisDayWeek,
+} from './on-this-day';
+import { hashContent } from './site-search-index';
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Build the compact lookup the `/on-this-day/` page loads, so the browser can answer any date
+ * without another request. Songs are stored once and referenced by index from each week.
+ */
+export async function loadOnThisDayIndex(): Promise<OnThisDayIndex> {
+  const [chartWeeks, references] = await Promise.all([getChartWeeks(), getSongReferences()]);
+  const songs: OnThisDaySong[] = [];
+  const songIndexes = new Map<NumberOneWeek['entry'], number>();
+
+  const addSong = (entry: NumberOneWeek['entry']) => {
+    const existing = songIndexes.get(entry);
+    if (existing !== undefined) return existing;
+
+    const reference = entry.song ? references.get(entry.song.id) : undefined;
+    const placements: OnThisDayPlacement[] = [
+      ...(reference?.overallRankings ?? []).map((placement) => ({
+        label: `#${placement.position} of ${placement.total} in ${placement.year}`,
+        href: `/years/${placement.slug}/`,
+      })),
+      ...(reference?.rankingEntries ?? []).map((placement) => ({
+        label: `#${placement.position} in ${placement.title}`,
+        href: `/rankings/${placement.slug}/`,
+      })),
+    ];
+
+    songs.push({
+      title: entry.title,
+      artist: entry.artist,
+      href: entry.song ? `/songs/${entry.song.id}/` : undefined,
+      year: entry.year,
+      yearHref: `/years/${entry.yearSlug}/`,
+      weeksAtNumberOne: entry.weeksAtNumberOne,
+      notes: entry.notes,
+      placements,
+    });
+    songIndexes.set(entry, songs.length - 1);
+    return songs.length - 1;
+  };
+
+  const weeks = chartWeeks.map(
+    (week): OnThisDayWeek => [toIsoDate(week.date), addSong(week.entry), week.week]
+  );
+
+  return { songs, weeks };
+}
+
+export interface OnThisDayIndexFile {
+  index: OnThisDayIndex;
+  /** File name under `/on-this-day-index/`, including its content hash. */
+  name: string;
+  href: string;
+  body: string;
+}
+
+export const ON_THIS_DAY_INDEX_PATH = '/on-this-day-index/';
+
+let onThisDayIndexFile: Promise<OnThisDayIndexFile> | undefined;
+
+/**
+ * The lookup as a static JSON file named by content hash, like the search shards, so the page
+ * stays small and browsers and the service worker can keep the file forever. Built once per build.
+ */
+export function getOnThisDayIndexFile() {
+  onThisDayIndexFile ??= loadOnThisDayIndex().then((index) => {
+    const body = JSON.stringify(index);
+    const name = `index.${hashContent(body)}.json`;
+    return { index, name, href: `${ON_THIS_DAY_INDEX_PATH}${name}`, body };
+  });
+  return onThisDayIndexFile;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { buildChartTimeline, extractChartRuns } from './chart-runs';
+import { findOnThisDayWeek, type OnThisDayWeek } from './on-this-day';
+
+const weeks: OnThisDayWeek[] = [
+  ['1958-08-04', 0, 1],
+  ['1958-08-11', 0, 2],
+  ['1958-08-18', 1, 1],
+  ['1959-12-28', 2, 1],
+];
+
+/** Chart weeks built the way the page builds them, from `docs/hot100_#1s.txt` annotations. */
+const timeline = (lines: string[]): OnThisDayWeek[] => {
+  const entries = lines.map((source) => {
+    const { line, chartRuns } = extractChartRuns(source);
+    return { title: line, artist: '', chartRuns };
+  });
+  return buildChartTimeline(entries, (entry) => entry.title).map(({ date, entry, week }) => [
+    date.toISOString().slice(0, 10),
+    entries.indexOf(entry),
+    week,
+  ]);
+};
+
+describe('findOnThisDayWeek', () => {
+  it('returns the chart dated on or before the date', () => {
+    expect(findOnThisDayWeek(weeks, '1958-08-04')).toEqual(['1958-08-04', 0, 1]);
+    expect(findOnThisDayWeek(weeks, '1958-08-17')).toEqual(['1958-08-11', 0, 2]);
+    expect(findOnThisDayWeek(weeks, '1960-01-03')).toEqual(['1959-12-28', 2, 1]);
+  });
+
+  it('ignores dates outside the recorded chart weeks', () => {
+    expect(findOnThisDayWeek(weeks, '1958-08-03')).toBeUndefined();
+    expect(findOnThisDayWeek(weeks, '1958-08-25')).toBeUndefined();
+    expect(findOnThisDayWeek(weeks, '1960-01-04')).toBeUndefined();
+    expect(findOnThisDayWeek(weeks, 'not-a-date')).toBeUndefined();
+  });
+
+  it('covers the days between the last Monday chart and the first Saturday chart', () => {
+    const switchover = timeline([
+      '22. "The Lion Sleeps Tonight" - The Tokens {1961-12-18 x2, 1962-01-06 x1}',
+      '2. "Peppermint Twist - Part 1" - Joey Dee & the Starliters {1962-01-27 x3}',
+      '1. "The Twist" - Chubby Checker {1962-01-13 x2}',
+    ]);
+
+    expect(findOnThisDayWeek(switchover, '1962-01-01')).toEqual(['1961-12-25', 0, 2]);
+    expect(findOnThisDayWeek(switchover, '1962-01-05')).toEqual(['1961-12-25', 0, 2]);
+    expect(findOnThisDayWeek(switchover, '1962-01-06')).toEqual(['1962-01-06', 0, 3]);
+    expect(findOnThisDayWeek(switchover, '1962-01-20')).toEqual(['1962-01-20', 2, 2]);
+    expect(findOnThisDayWeek(switchover, '1962-02-16')).toEqual(['1962-02-10', 1, 3]);
+    expect(findOnThisDayWeek(switchover, '1962-02-17')).toBeUndefined();
+  });
+
+  it('answers dates in later decades, including runs that return to #1', () => {
+    const recent = timeline([
+      '20. "Hey Jude" - The Beatles {1968-09-28 x9}',
+      '15. "Easy On Me" - Adele {2021-10-30 x4, 2021-12-04 x6}',
+      '16. "All Too Well (Taylor\'s Version)" - Taylor Swift {2021-11-27 x1}',
+    ]);
+
+    expect(findOnThisDayWeek(recent, '1968-11-29')).toEqual(['1968-11-23', 0, 9]);
+    expect(findOnThisDayWeek(recent, '1968-11-30')).toBeUndefined();
+    expect(findOnThisDayWeek(recent, '2021-11-30')).toEqual(['2021-11-27', 2, 1]);
+    expect(findOnThisDayWeek(recent, '2021-12-04')).toEqual(['2021-12-04', 1, 5]);
+    expect(findOnThisDayWeek(recent, '2022-01-14')).toEqual(['2022-01-08', 1, 10]);
+    expect(findOnThisDayWeek(recent, '2022-01-15')).toBeUndefined();
+  });
+});
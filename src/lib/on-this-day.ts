@@ -0,0 +1,62 @@
+export interface OnThisDayPlacement {
+  label: string;
+  href: string;
+}
+
+export interface OnThisDaySong {
+  title: string;
+  artist: string;
+  href?: string;
+  year: number;
+  yearHref: string;
+  weeksAtNumberOne?: number;
+  notes: string[];
+  /** Where the song sits in Cody's year-end and Top 220 / Bottom 60 lists. */
+  placements: OnThisDayPlacement[];
+}
+
+/** `[chart date, index into songs, week number within the song's time at #1]` */
+export type OnThisDayWeek = [date: string, song: number, week: number];
+
+export interface OnThisDayIndex {
+  songs: OnThisDaySong[];
+  /** Chart weeks in ascending date order. */
+  weeks: OnThisDayWeek[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+/**
+ * Find the chart week covering `date` (`YYYY-MM-DD`): the latest chart dated on or before it. A
+ * chart covers the days until the next one, which is a week later except where Billboard moved
+ * its chart day from Monday to Saturday (25 December 1961 to 6 January 1962); the last chart, or
+ * one followed by a gap in the annotated runs, covers a week. Other dates return `undefined`.
+ */
+export const findOnThisDayWeek = (
+  weeks: readonly OnThisDayWeek[],
+  date: string
+): OnThisDayWeek | undefined => {
+  const target = toTime(date);
+  if (Number.isNaN(target)) return undefined;
+
+  let low = 0;
+  let high = weeks.length - 1;
+  let match = -1;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (toTime(weeks[middle][0]) <= target) {
+      match = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  if (match === -1) return undefined;
+  const start = toTime(weeks[match][0]);
+  const next = match + 1 < weeks.length ? toTime(weeks[match + 1][0]) : undefined;
+  const end = next !== undefined && next - start < 14 * DAY_MS ? next : start + 7 * DAY_MS;
+  return target < end ? weeks[match] : undefined;
+};
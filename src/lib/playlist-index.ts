@@ -0,0 +1,99 @@
+import { getCollection } from 'astro:content';
+import {
+  getSongIndex,
+  type RankingEntry,
+  type SongEntry,
+  type SongIndex,
+  type YearEntry,
+} from './content-utils';
+import { createPlaylist, type Playlist, type PlaylistKind } from './playlist';
+import { getSpotifyTrackId } from './spotify-catalog';
+import { createTrackLinks } from './track-links';
+
+export interface PlaylistFile {
+  kind: PlaylistKind;
+  slug: string;
+  playlist: Playlist;
+}
+
+interface PlaylistCredit {
+  position: number;
+  title: string;
+  artist: string;
+  song?: { id: string };
+  spotifyTrackId?: string;
+}
+
+const toSourceTrack = (
+  songIndex: SongIndex,
+  credit: PlaylistCredit,
+  notes: (song: SongEntry | undefined) => (string | undefined)[]
+) => {
+  const song = songIndex.resolve(credit);
+  return {
+    position: credit.position,
+    title: credit.title,
+    artist: credit.artist,
+    href: song ? `/songs/${song.id}/` : undefined,
+    notes: notes(song),
+    links: createTrackLinks({ spotify: credit.spotifyTrackId }, song?.data.links, {
+      spotify: song?.data.spotifyTrackId ?? getSpotifyTrackId(credit.title, credit.artist),
+    }),
+  };
+};
+
+/** A year's overall ranking, each song carrying its notes from the year's #1 list. */
+export async function getYearPlaylist(entry: YearEntry, songIndex?: SongIndex): Promise<Playlist> {
+  const index = songIndex ?? (await getSongIndex());
+  const { year, numberOnes = [], overallRanking = [] } = entry.data;
+  const notesBySong = new Map<string, string[]>();
+  numberOnes.forEach((numberOne) => {
+    const id = index.resolve(numberOne)?.id;
+    if (id) notesBySong.set(id, [...(notesBySong.get(id) ?? []), ...numberOne.notes]);
+  });
+
+  return createPlaylist(
+    `${year} overall ranking`,
+    `/years/${entry.slug}/`,
+    overallRanking.map((credit) =>
+      toSourceTrack(index, credit, (song) => (song ? (notesBySong.get(song.id) ?? []) : []))
+    )
+  );
+}
+
+/** A ranking's entries, each song carrying the ranking's commentary on it. */
+export async function getRankingPlaylist(
+  entry: RankingEntry,
+  songIndex?: SongIndex
+): Promise<Playlist> {
+  const index = songIndex ?? (await getSongIndex());
+  return createPlaylist(
+    entry.data.title,
+    `/rankings/${entry.slug}/`,
+    (entry.data.entries ?? []).map((credit) =>
+      toSourceTrack(index, credit, () => [credit.commentary])
+    )
+  );
+}
+
+/** Every year and ranking with at least one playable song. */
+export async function loadPlaylists(): Promise<PlaylistFile[]> {
+  const [years, rankings, songIndex] = await Promise.all([
+    getCollection('years'),
+    getCollection('rankings'),
+    getSongIndex(),
+  ]);
+  const files = await Promise.all([
+    ...years.map(async (entry) => ({
+      kind: 'years' as const,
+      slug: entry.slug,
+      playlist: await getYearPlaylist(entry, songIndex),
+    })),
+    ...rankings.map(async (entry) => ({
+      kind: 'rankings' as const,
+      slug: entry.slug,
+      playlist: await getRankingPlaylist(entry, songIndex),
+    })),
+  ]);
+  return files.filter(({ playlist }) => playlist.tracks.length > 0);
+}
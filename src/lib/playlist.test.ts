@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createPlaylist, formatPlaylistProgress, getPlaylistSrc, parsePlaylist } from './playlist';
+
+const spotify = (id: string) => ({ spotify: id.padEnd(22, '0') });
+
+describe('playlists', () => {
+  const playlist = createPlaylist('1985 overall ranking', '/years/1985/', [
+    { position: 3, title: 'Careless Whisper', artist: 'Wham!', links: spotify('c') },
+    {
+      position: 1,
+      title: 'Say You, Say Me',
+      artist: 'Lionel Richie',
+      href: '/songs/say-you-say-me-lionel-richie/',
+      notes: ['From White Nights.', ' ', undefined, 'From White Nights.'],
+      links: spotify('a'),
+    },
+    { position: 2, title: 'Money for Nothing', artist: 'Dire Straits' },
+  ]);
+
+  it('keeps playable songs in position order with their notes', () => {
+    expect(playlist.tracks.map((track) => track.position)).toEqual([1, 3]);
+    expect(playlist.tracks[0]).toMatchObject({
+      href: '/songs/say-you-say-me-lionel-richie/',
+      notes: ['From White Nights.'],
+    });
+    expect(playlist.tracks[1].notes).toEqual([]);
+  });
+
+  it('reads a fetched playlist back', () => {
+    expect(parsePlaylist(JSON.parse(JSON.stringify(playlist)))).toEqual(playlist);
+    expect(
+      parsePlaylist({
+        title: 'Ranking',
+        href: '/rankings/top/',
+        tracks: [
+          null,
+          { position: 1, title: 'No links', artist: 'Nobody', links: { tidal: 'x' } },
+          { position: 2, title: 'Song', artist: 'Singer', notes: ['ok', 7], links: spotify('b') },
+        ],
+      })?.tracks
+    ).toEqual([
+      { position: 2, title: 'Song', artist: 'Singer', notes: ['ok'], links: spotify('b') },
+    ]);
+    expect(parsePlaylist({ title: 'Missing tracks', href: '/' })).toBeUndefined();
+    expect(parsePlaylist('nope')).toBeUndefined();
+  });
+
+  it('shows the list position when songs were left out', () => {
+    expect(formatPlaylistProgress(playlist, 0)).toBe('1 of 2');
+    expect(formatPlaylistProgress(playlist, 1)).toBe('2 of 2 (#3)');
+    expect(getPlaylistSrc('rankings', 'top-220')).toBe('/playlists/rankings/top-220.json');
+  });
+});
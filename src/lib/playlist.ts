@@ -0,0 +1,96 @@
+/**
+ * The queue behind "Play this year" and "Play this ranking": a list's playable songs in order,
+ * with the notes the mini-player shows for each one. Built at compile time by
+ * `src/lib/playlist-index.ts` and played by `src/scripts/playlist-player.ts`.
+ */
+
+import { createTrackLinks, readTrackLinks, type TrackLinks } from './track-links';
+
+export type PlaylistKind = 'years' | 'rankings';
+
+export interface PlaylistTrack {
+  /** Place in the list being played, kept when unplayable songs are left out. */
+  position: number;
+  title: string;
+  artist: string;
+  /** The song's page, when the registry knows it. */
+  href?: string;
+  notes: string[];
+  links: TrackLinks;
+}
+
+export interface Playlist {
+  title: string;
+  /** The page the list comes from. */
+  href: string;
+  tracks: PlaylistTrack[];
+}
+
+export interface PlaylistSourceTrack extends Omit<PlaylistTrack, 'notes' | 'links'> {
+  notes?: (string | undefined)[];
+  links?: TrackLinks;
+}
+
+/** Where the playlist for a year recap or ranking is published as JSON. */
+export const getPlaylistSrc = (kind: PlaylistKind, slug: string): string =>
+  `/playlists/${kind}/${slug}.json`;
+
+/**
+ * A playlist of the tracks in position order. Songs without a streaming link are left out,
+ * and blank or repeated notes are dropped.
+ */
+export const createPlaylist = (
+  title: string,
+  href: string,
+  tracks: readonly PlaylistSourceTrack[]
+): Playlist => ({
+  title,
+  href,
+  tracks: [...tracks]
+    .sort((a, b) => a.position - b.position)
+    .flatMap(({ notes = [], links, ...track }) => {
+      const playable = createTrackLinks(links);
+      if (!playable) return [];
+      const trimmed = notes.map((note) => note?.trim()).filter((note): note is string => !!note);
+      return [{ ...track, notes: Array.from(new Set(trimmed)), links: playable }];
+    }),
+});
+
+/** Read a fetched playlist back, dropping tracks that cannot be played. */
+export const parsePlaylist = (value: unknown): Playlist | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const { title, href, tracks } = value as Partial<Record<keyof Playlist, unknown>>;
+  if (typeof title !== 'string' || typeof href !== 'string' || !Array.isArray(tracks)) {
+    return undefined;
+  }
+  return createPlaylist(
+    title,
+    href,
+    tracks.flatMap((track: Partial<Record<keyof PlaylistTrack, unknown>> | null) =>
+      track &&
+      typeof track.position === 'number' &&
+      typeof track.title === 'string' &&
+      typeof track.artist === 'string'
+        ? [
+            {
+              position: track.position,
+              title: track.title,
+              artist: track.artist,
+              href: typeof track.href === 'string' ? track.href : undefined,
+              notes: Array.isArray(track.notes)
+                ? track.notes.filter((note): note is string => typeof note === 'string')
+                : [],
+              links: readTrackLinks(track.links),
+            },
+          ]
+        : []
+    )
+  );
+};
+
+/** "3 of 40", or "3 of 40 (#12)" when songs before it were left out. */
+export const formatPlaylistProgress = (playlist: Playlist, index: number): string => {
+  const track = playlist.tracks[index];
+  const progress = `${index + 1} of ${playlist.tracks.length}`;
+  return track && track.position !== index + 1 ? `${progress} (#${track.position})` : progress;
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRankingHighlights,
+  NEW_ENTRY_MOVEMENT,
+  summarizeCommentary,
+} from './ranking-highlights';
+import { createSongKey } from './song-key';
+
+const getKey = ({ title, artist }: { title: string; artist: string }) =>
+  createSongKey(title, artist);
+
+const entry = (position: number, title: string, commentary = `${title} notes.`) => ({
+  position,
+  title,
+  artist: 'Various',
+  commentary,
+});
+
+describe('ranking highlights', () => {
+  it('shows the top positions without movement when there is no previous version', () => {
+    const entries = Array.from({ length: 12 }, (_, index) => entry(12 - index, `Song ${index}`));
+    const highlights = buildRankingHighlights({ entries, getKey });
+
+    expect(highlights).toHaveLength(10);
+    expect(highlights.map((row) => row.position)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(highlights[0]).toMatchObject({ movement: '—', movementValue: null, peak: 1 });
+  });
+
+  it('computes movement against the previous version and surfaces the biggest moves', () => {
+    const previousEntries = [
+      entry(1, 'Leader'),
+      entry(2, 'Runner Up'),
+      entry(3, 'Steady'),
+      entry(4, 'Faller'),
+      entry(5, 'Climber'),
+      entry(6, 'Dropped'),
+    ];
+    const entries = [
+      entry(1, 'Climber'),
+      entry(2, 'Leader'),
+      entry(3, 'Runner Up'),
+      entry(4, 'Steady'),
+      entry(5, 'Debut'),
+      entry(6, 'Faller'),
+    ];
+
+    const highlights = buildRankingHighlights({ entries, previousEntries, getKey, limit: 4 });
+
+    expect(highlights.map((row) => [row.title, row.movement])).toEqual([
+      ['Climber', '+4'],
+      ['Leader', '-1'],
+      ['Debut', 'new'],
+      ['Faller', '-2'],
+    ]);
+    expect(highlights[2].movementValue).toBe(NEW_ENTRY_MOVEMENT);
+    expect(
+      buildRankingHighlights({ entries, previousEntries, getKey, limit: 8 }).map(
+        (row) => row.position
+      )
+    ).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('takes peaks from chart data and notes from the first sentence of the commentary', () => {
+    const [row] = buildRankingHighlights({
+      entries: [entry(7, 'Volare', 'A worldwide smash. It also won the first Grammy.')],
+      getKey,
+      getChartPeak: ({ title }) => (title === 'Volare' ? { peak: 1, weeksAtPeak: 5 } : undefined),
+    });
+
+    expect(row).toMatchObject({
+      position: 7,
+      peak: 1,
+      weeksAtPeak: 5,
+      notes: 'A worldwide smash.',
+    });
+    expect(summarizeCommentary(`${'a'.repeat(200)}.`)).toHaveLength(160);
+    expect(summarizeCommentary('  ')).toBeUndefined();
+  });
+
+  it('lets frontmatter overrides pick the rows and fills in what they leave out', () => {
+    const highlights = buildRankingHighlights({
+      entries: [entry(1, 'Smooth', 'Latin rock at the top.'), entry(2, 'Genie')],
+      overrides: [
+        { position: 2, title: 'Genie', artist: 'Various', movement: 3, peak: 2 },
+        { position: 12, title: "Someday We'll Know", artist: 'Various', movement: 'new' },
+      ],
+      getKey,
+    });
+
+    expect(highlights).toEqual([
+      {
+        position: 2,
+        title: 'Genie',
+        artist: 'Various',
+        movement: '+3',
+        movementValue: 3,
+        peak: 2,
+        weeksAtPeak: undefined,
+        notes: 'Genie notes.',
+      },
+      {
+        position: 12,
+        title: "Someday We'll Know",
+        artist: 'Various',
+        movement: 'new',
+        movementValue: NEW_ENTRY_MOVEMENT,
+        peak: 12,
+        weeksAtPeak: undefined,
+        notes: undefined,
+      },
+    ]);
+  });
+});
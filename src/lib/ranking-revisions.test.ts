@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  diffRankingRevisions,
+  diffRevisionHistory,
+  type RankingRevision,
+} from './ranking-revisions';
+
+const revision = (date: string, titles: string[]): RankingRevision => ({
+  chartWeek: new Date(`${date}T00:00:00Z`),
+  entries: titles.map((title, index) => ({ position: index + 1, title, artist: 'Various' })),
+});
+
+const getKey = (entry: { title: string }) => entry.title;
+
+describe('ranking revisions', () => {
+  it('classifies each song as up, down, new, dropped, or unchanged', () => {
+    const diff = diffRankingRevisions(
+      revision('2023-01-01', ['Hey Jude', 'El Paso', 'Dreams', 'Low']),
+      revision('2024-01-01', ['Dreams', 'El Paso', 'Hey Jude', 'American Pie']),
+      getKey
+    );
+
+    expect(
+      diff.changes.map(({ status, entry, position, previousPosition, change }) => [
+        status,
+        entry.title,
+        position,
+        previousPosition,
+        change,
+      ])
+    ).toEqual([
+      ['up', 'Dreams', 1, 3, 2],
+      ['same', 'El Paso', 2, 2, 0],
+      ['down', 'Hey Jude', 3, 1, -2],
+      ['new', 'American Pie', 4, undefined, 0],
+      ['dropped', 'Low', undefined, 4, 0],
+    ]);
+    expect(diff.counts).toEqual({ up: 1, down: 1, new: 1, dropped: 1, same: 1 });
+  });
+
+  it('diffs each revision against the one before it, newest first', () => {
+    const history = diffRevisionHistory(
+      [
+        revision('2022-01-01', ['A', 'B']),
+        revision('2023-01-01', ['B', 'A']),
+        revision('2024-01-01', ['B', 'C']),
+      ],
+      getKey
+    );
+
+    expect(history.map((diff) => diff.to.chartWeek.getUTCFullYear())).toEqual([2024, 2023]);
+    expect(history[0].counts).toMatchObject({ same: 1, new: 1, dropped: 1 });
+    expect(history[1].counts).toMatchObject({ up: 1, down: 1 });
+    expect(diffRevisionHistory([revision('2024-01-01', ['A'])], getKey)).toEqual([]);
+  });
+});
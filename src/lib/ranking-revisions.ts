@@ -0,0 +1,96 @@
+import type { SongCredit } from './song-key';
+
+export interface RevisionEntry extends SongCredit {
+  position: number;
+}
+
+/** One dated order of a ranking; the current frontmatter `entries` are the latest revision. */
+export interface RankingRevision<T extends RevisionEntry = RevisionEntry> {
+  chartWeek: Date;
+  note?: string;
+  entries: T[];
+}
+
+export type RankingChangeStatus = 'up' | 'down' | 'new' | 'dropped' | 'same';
+
+export interface RankingChange<T extends RevisionEntry = RevisionEntry> {
+  status: RankingChangeStatus;
+  /** The entry in the newer revision, or in the older one for dropped songs. */
+  entry: T;
+  position?: number;
+  previousPosition?: number;
+  /** Places gained (positive) or lost (negative); zero for new and dropped songs. */
+  change: number;
+}
+
+export interface RankingDiff<T extends RevisionEntry = RevisionEntry> {
+  from: RankingRevision<T>;
+  to: RankingRevision<T>;
+  /** Songs in the newer revision by position, followed by dropped songs by their old position. */
+  changes: RankingChange<T>[];
+  counts: Record<RankingChangeStatus, number>;
+}
+
+/**
+ * Compare two revisions of a ranking. Position 1 is the top, so moving from 5 to 2 is `up` by 3.
+ * `getKey` decides when two entries are the same song, e.g. by registry song ID.
+ */
+export function diffRankingRevisions<T extends RevisionEntry>(
+  from: RankingRevision<T>,
+  to: RankingRevision<T>,
+  getKey: (entry: T) => string
+): RankingDiff<T> {
+  const previous = new Map(from.entries.map((entry) => [getKey(entry), entry]));
+  const current = new Set(to.entries.map(getKey));
+
+  const changes: RankingChange<T>[] = [...to.entries]
+    .sort((a, b) => a.position - b.position)
+    .map((entry) => {
+      const previousPosition = previous.get(getKey(entry))?.position;
+      if (previousPosition === undefined) {
+        return { status: 'new', entry, position: entry.position, change: 0 };
+      }
+      const change = previousPosition - entry.position;
+      return {
+        status: change > 0 ? 'up' : change < 0 ? 'down' : 'same',
+        entry,
+        position: entry.position,
+        previousPosition,
+        change,
+      };
+    });
+
+  const dropped = [...from.entries]
+    .filter((entry) => !current.has(getKey(entry)))
+    .sort((a, b) => a.position - b.position)
+    .map(
+      (entry): RankingChange<T> => ({
+        status: 'dropped',
+        entry,
+        previousPosition: entry.position,
+        change: 0,
+      })
+    );
+  changes.push(...dropped);
+
+  const counts: Record<RankingChangeStatus, number> = {
+    up: 0,
+    down: 0,
+    new: 0,
+    dropped: 0,
+    same: 0,
+  };
+  for (const { status } of changes) counts[status] += 1;
+
+  return { from, to, changes, counts };
+}
+
+/** Diffs between each revision and the one before it, newest first. */
+export const diffRevisionHistory = <T extends RevisionEntry>(
+  revisions: readonly RankingRevision<T>[],
+  getKey: (entry: T) => string
+): RankingDiff<T>[] =>
+  revisions
+    .slice(1)
+    .map((revision, index) => diffRankingRevisions(revisions[index], revision, getKey))
+    .reverse();
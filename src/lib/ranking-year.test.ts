@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatRankingYear,
+  getRankingYearRange,
+  getRankingYearSortValue,
+  parseRankingYear,
+} from './ranking-year';
+
+describe('ranking years', () => {
+  it('parses single years and spans, including the century rollover', () => {
+    expect(parseRankingYear('2008')).toEqual({ start: 2008 });
+    expect(parseRankingYear(' 2010/11 ')).toEqual({ start: 2010, end: 2011 });
+    expect(parseRankingYear('1999/00')).toEqual({ start: 1999, end: 2000 });
+  });
+
+  it('rejects values that are not a year or span', () => {
+    expect(parseRankingYear('71')).toBeUndefined();
+    expect(parseRankingYear('2010-2011')).toBeUndefined();
+    expect(parseRankingYear('')).toBeUndefined();
+  });
+
+  it('round-trips the compact label', () => {
+    for (const label of ['1958', '1966/67', '1999/00']) {
+      expect(formatRankingYear(parseRankingYear(label)!)).toBe(label);
+    }
+  });
+
+  it('lists covered years and sorts spans after the single year they start in', () => {
+    expect(getRankingYearRange({ start: 1999, end: 2000 })).toEqual([1999, 2000]);
+
+    const sorted = [{ start: 2011 }, { start: 2010, end: 2011 }, { start: 2010 }].sort(
+      (a, b) => getRankingYearSortValue(a) - getRankingYearSortValue(b)
+    );
+    expect(sorted.map(formatRankingYear)).toEqual(['2010', '2010/11', '2011']);
+  });
+});
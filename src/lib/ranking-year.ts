@@ -0,0 +1,38 @@
+/** The year a song topped the chart, or the span of a #1 run that crossed New Year. */
+export interface RankingYear {
+  start: number;
+  /** Final calendar year of the run; omitted when it stayed within `start`. */
+  end?: number;
+}
+
+const RANKING_YEAR_PATTERN = /^(\d{4})(?:\/(\d{2}))?$/;
+
+/**
+ * Parse the compact labels used by the source ranking list, such as `2008`, `2010/11`, or
+ * `1999/00`. Returns `undefined` for anything that is not a year or year span.
+ */
+export const parseRankingYear = (value: string): RankingYear | undefined => {
+  const match = value.trim().match(RANKING_YEAR_PATTERN);
+  if (!match) return undefined;
+  const start = Number(match[1]);
+  if (!match[2]) return { start };
+  const century = Math.floor(start / 100) * 100;
+  let end = century + Number(match[2]);
+  if (end < start) end += 100;
+  return end === start ? { start } : { start, end };
+};
+
+/** Every calendar year the ranking year covers, in order. */
+export const getRankingYearRange = ({ start, end = start }: RankingYear): number[] => {
+  const years: number[] = [];
+  for (let year = start; year <= end; year += 1) years.push(year);
+  return years;
+};
+
+/** Format back to the compact label, e.g. `2008` or `2010/11`. */
+export const formatRankingYear = ({ start, end }: RankingYear): string =>
+  end === undefined ? String(start) : `${start}/${String(end % 100).padStart(2, '0')}`;
+
+/** Numeric sort key: chronological by start year, with single years before spans. */
+export const getRankingYearSortValue = ({ start, end = start }: RankingYear): number =>
+  start * 100 + (end - start);
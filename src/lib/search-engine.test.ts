@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { createNumberOneSearch, type NumberOneSearchRecord } from './number-one-search';
+import { editDistance, highlightSearchMatches } from './search-engine';
+
+const record = (
+  title: string,
+  artist: string,
+  year: number,
+  notes: string[] = []
+): NumberOneSearchRecord => ({
+  id: `track-${title.toLowerCase().replace(/\W+/g, '-')}`,
+  title,
+  artist,
+  notes,
+  appearances: [{ year, slug: String(year), yearRanking: 1, sequence: 0 }],
+});
+
+const records = [
+  record('Saving All My Love for You', 'Whitney Houston', 1985),
+  record('How Will I Know', 'Whitney Houston', 1986),
+  record('Houston', 'Dean Martin', 1965, ['Not actually a #1, but useful here.']),
+  record('Greatest Love of All', 'Whitney Houston', 1986),
+  record('Higher Love', 'Steve Winwood', 1986, ['Chaka Khan sings backup; Whitney fans love it.']),
+];
+
+const titles = (query: string) =>
+  createNumberOneSearch(records)
+    .search(query)
+    .map((result) => result.record.title);
+
+describe('search engine', () => {
+  it('tolerates typos', () => {
+    expect(titles('whitny huston')).toEqual([
+      'Saving All My Love for You',
+      'How Will I Know',
+      'Greatest Love of All',
+    ]);
+    expect(editDistance('huston', 'houston')).toBe(1);
+    expect(editDistance('teh', 'the')).toBe(1);
+  });
+
+  it('ranks title matches above artist matches above notes', () => {
+    expect(titles('houston')[0]).toBe('Houston');
+    expect(titles('whitney')).toEqual([
+      'Saving All My Love for You',
+      'How Will I Know',
+      'Greatest Love of All',
+      'Higher Love',
+    ]);
+  });
+
+  it('boosts whole words and prefixes over fuzzy and substring matches, keeping ties in order', () => {
+    expect(titles('love')).toEqual([
+      'Saving All My Love for You',
+      'Greatest Love of All',
+      'Higher Love',
+    ]);
+    expect(titles('know')[0]).toBe('How Will I Know');
+    expect(titles('greatest love')[0]).toBe('Greatest Love of All');
+    expect(titles('winwod')).toEqual(['Higher Love']);
+  });
+
+  it('matches years exactly or by prefix, never fuzzily', () => {
+    expect(titles('1986 love')).toEqual(['Greatest Love of All', 'Higher Love']);
+    expect(titles('1987')).toEqual([]);
+    expect(titles('196')).toEqual(['Houston']);
+  });
+
+  it('reports matched tokens per field for highlighting', () => {
+    const [result] = createNumberOneSearch(records).search('whitny');
+    expect(result.matches).toEqual({ artist: ['whitney'] });
+    expect(highlightSearchMatches('Whitney Houston', result.matches.artist)).toEqual([
+      { text: 'Whitney', match: true },
+      { text: ' Houston', match: false },
+    ]);
+    expect(highlightSearchMatches('Beyoncé', ['beyonce'])).toEqual([
+      { text: 'Beyoncé', match: true },
+    ]);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Relevance-ranked, typo-tolerant search shared by server-rendered pages and client scripts, so
+ * it must not import anything that only runs at build time.
+ */
+
+export interface SearchField<T> {
+  name: string;
+  /** Relative importance; a title match should outrank the same match in the notes. */
+  weight: number;
+  /** Numeric fields such as years only match exactly or by prefix, never fuzzily. */
+  exact?: boolean;
+  getText: (record: T) => string | readonly string[];
+}
+
+export interface SearchResult<T> {
+  record: T;
+  score: number;
+  /** Normalized record tokens each field matched, for highlighting. */
+  matches: Record<string, string[]>;
+}
+
+export interface SearchEngine<T> {
+  search: (query: string, options?: { limit?: number }) => SearchResult<T>[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.8;
+const FUZZY_SCORE = 0.6;
+const SUBSTRING_SCORE = 0.4;
+/** Added when the whole query appears in a field, in order. */
+const PHRASE_BONUS = 0.5;
+
+export const normalizeSearchText = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+export const tokenizeSearchText = (value: string): string[] =>
+  normalizeSearchText(value)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+/** Allowed edits grow with the term: short terms are too easy to confuse. */
+const maxEditsFor = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions), giving up once
+ * the distance is known to exceed `limit`.
+ */
+export const editDistance = (a: string, b: string, limit = Number.POSITIVE_INFINITY): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+    if (rowMinimum > limit) return limit + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** How well a single query term matches a single record token, from 0 to 1. */
+export const scoreSearchToken = (term: string, token: string, exact: boolean): number => {
+  if (token === term) return EXACT_SCORE;
+  if (token.startsWith(term)) return PREFIX_SCORE * (term.length / token.length) ** 0.25;
+  if (exact) return 0;
+
+  const maxEdits = maxEditsFor(term);
+  if (maxEdits) {
+    const distance = Math.min(
+      editDistance(term, token, maxEdits),
+      // A typo in a word that is still being typed, e.g. "whitn" for "whitney".
+      editDistance(term, token.slice(0, term.length), maxEdits) + 0.5
+    );
+    if (distance <= maxEdits) return FUZZY_SCORE * (1 - distance / (term.length + 1));
+  }
+
+  return term.length >= 3 && token.includes(term) ? SUBSTRING_SCORE : 0;
+};
+
+interface PreparedField {
+  name: string;
+  weight: number;
+  exact: boolean;
+  tokens: string[];
+  text: string;
+}
+
+/**
+ * Every query term has to match somewhere in the record. A term scores its best match across
+ * fields (exact beats prefix beats typo beats substring, scaled by field weight), and records
+ * are ordered by their total. Ties keep the input order.
+ */
+export function createSearchEngine<T>(
+  records: readonly T[],
+  fields: readonly SearchField<T>[]
+): SearchEngine<T> {
+  const prepared = records.map((record) => ({
+    record,
+    fields: fields.map((field): PreparedField => {
+      const value = field.getText(record);
+      const text = normalizeSearchText(typeof value === 'string' ? value : value.join(' \n '));
+      return {
+        name: field.name,
+        weight: field.weight,
+        exact: field.exact ?? false,
+        tokens: Array.from(new Set(tokenizeSearchText(text))),
+        text: tokenizeSearchText(text).join(' '),
+      };
+    }),
+  }));
+
+  const search: SearchEngine<T>['search'] = (query, { limit } = {}) => {
+    const terms = Array.from(new Set(tokenizeSearchText(query)));
+    if (!terms.length) return [];
+    const phrase = terms.length > 1 ? tokenizeSearchText(query).join(' ') : '';
+
+    const results: (SearchResult<T> & { order: number })[] = [];
+    prepared.forEach((item, order) => {
+      const matches: Record<string, string[]> = {};
+      let score = 0;
+
+      for (const term of terms) {
+        let best = 0;
+        for (const field of item.fields) {
+          for (const token of field.tokens) {
+            const tokenScore = scoreSearchToken(term, token, field.exact);
+            if (!tokenScore) continue;
+            (matches[field.name] ??= []).push(token);
+            best = Math.max(best, tokenScore * field.weight);
+          }
+        }
+        if (!best) return;
+        score += best;
+      }
+
+      if (phrase) {
+        const phraseField = item.fields.find((field) => field.text.includes(phrase));
+        if (phraseField) score += PHRASE_BONUS * phraseField.weight;
+      }
+
+      results.push({ record: item.record, score, matches, order });
+    });
+
+    results.sort((a, b) => b.score - a.score || a.order - b.order);
+    return results.slice(0, limit).map(({ record, score, matches }) => ({
+      record,
+      score,
+      matches: Object.fromEntries(
+        Object.entries(matches).map(([name, tokens]) => [name, Array.from(new Set(tokens))])
+      ),
+    }));
+  };
+
+  return { search };
+}
+
+/**
+ * Split `text` into runs, marking the words whose normalized tokens are in `tokens`. Renderers
+ * wrap the matched runs in `<mark>`.
+ */
+export const highlightSearchMatches = (
+  text: string,
+  tokens: readonly string[] | undefined
+): HighlightSegment[] => {
+  if (!tokens?.length) return [{ text, match: false }];
+  const matched = new Set(tokens);
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+
+  for (const word of text.matchAll(/[\p{L}\p{M}\p{N}]+/gu)) {
+    if (!tokenizeSearchText(word[0]).some((token) => matched.has(token))) continue;
+    const start = word.index ?? 0;
+    if (start > lastIndex) segments.push({ text: text.slice(lastIndex, start), match: false });
+    segments.push({ text: word[0], match: true });
+    lastIndex = start + word[0].length;
+  }
+
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), match: false });
+  return segments;
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { NumberOneSearchRecord } from './number-one-search';
+import { filterNumberOneSearchRecords } from './number-one-search-index';
+import {
+  formatSearchQuery,
+  matchesSearchFilters,
+  parseNumberRange,
+  parseSearchQuery,
+} from './search-query';
+
+vi.mock('astro:content', () => ({ getCollection: vi.fn() }));
+
+const record = (
+  title: string,
+  artist: string,
+  year: number,
+  extra: Partial<NumberOneSearchRecord> = {}
+): NumberOneSearchRecord => ({
+  id: `track-${title.toLowerCase().replace(/\W+/g, '-')}`,
+  title,
+  artist,
+  notes: [],
+  appearances: [{ year, slug: String(year), yearRanking: 1, sequence: 0 }],
+  ...extra,
+});
+
+const records = [
+  record('Saving All My Love for You', 'Whitney Houston', 1985, {
+    rank: 40,
+    genres: ['soft-rock', 'rock'],
+    links: { spotify: 'abc' },
+  }),
+  record('How Will I Know', 'Whitney Houston', 1986, { rank: 75, genres: ['dance-pop', 'pop'] }),
+  record('Greatest Love of All', 'Whitney Houston', 1986, { notes: ['A big one.'] }),
+  record('Purple Rain', 'Prince', 1984),
+  record('Kiss', 'Prince', 1986, { rank: 12 }),
+];
+
+const titles = (query: string) =>
+  filterNumberOneSearchRecords(records, query).map((item) => item.title);
+
+describe('search query syntax', () => {
+  it('separates filters from free text', () => {
+    const parsed = parseSearchQuery(
+      'love artist:"Whitney Houston" year:1985..1989 genre:"soft rock" rank:<50 has:spotify'
+    );
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.text).toBe('love');
+    expect(parsed.filters).toEqual([
+      { field: 'artist', value: 'Whitney Houston' },
+      { field: 'year', value: '1985..1989', range: { min: 1985, max: 1989 } },
+      { field: 'genre', value: 'soft rock', slug: 'soft-rock' },
+      { field: 'rank', value: '<50', range: { max: 49 } },
+      { field: 'has', value: 'spotify' },
+    ]);
+  });
+
+  it('parses open ranges and comparisons', () => {
+    expect(parseNumberRange('1985')).toEqual({ min: 1985, max: 1985 });
+    expect(parseNumberRange('..1979')).toEqual({ max: 1979 });
+    expect(parseNumberRange('1990..')).toEqual({ min: 1990 });
+    expect(parseNumberRange('>=10')).toEqual({ min: 10 });
+    expect(parseNumberRange('1989..1985')).toBeUndefined();
+    expect(parseNumberRange('..')).toBeUndefined();
+  });
+
+  it('reports malformed terms with their position and keeps the rest', () => {
+    const query = 'kiss year:19x5 mood:happy has:vinyl genre:ballad';
+    const parsed = parseSearchQuery(query);
+    expect(parsed.text).toBe('kiss');
+    expect(parsed.filters).toEqual([]);
+    expect(parsed.errors.map(({ start, end }) => query.slice(start, end))).toEqual([
+      'year:19x5',
+      'mood:happy',
+      'has:vinyl',
+      'genre:ballad',
+    ]);
+    expect(parseSearchQuery('artist:"Whitney').errors[0].message).toBe('Close the quote.');
+  });
+
+  it('round-trips through its canonical form', () => {
+    const query = 'has:spotify  artist:"Whitney Houston" love year:>=1985';
+    const canonical = formatSearchQuery(parseSearchQuery(query));
+    expect(canonical).toBe('love has:spotify artist:"Whitney Houston" year:>=1985');
+    expect(parseSearchQuery(canonical)).toEqual(parseSearchQuery(query));
+  });
+
+  it('evaluates filters against #1 records', () => {
+    const [saving] = records;
+    expect(matchesSearchFilters(saving, parseSearchQuery('genre:rock rank:..40').filters)).toBe(
+      true
+    );
+    expect(matchesSearchFilters(saving, parseSearchQuery('has:notes').filters)).toBe(false);
+    expect(titles('artist:prince')).toEqual(['Purple Rain', 'Kiss']);
+    expect(titles('artist:"Whitney Houston" year:1986')).toEqual([
+      'How Will I Know',
+      'Greatest Love of All',
+    ]);
+    expect(titles('love rank:<50')).toEqual(['Saving All My Love for You']);
+    expect(titles('has:rank year:1986..')).toEqual(['How Will I Know', 'Kiss']);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Field filters for the search box, e.g. `artist:"Whitney Houston" year:1985..1989 rank:<50`.
+ * Client-safe like the search engine: the `/search/` page and its script share this parser.
+ */
+
+import { getGenre, resolveGenres } from './genres';
+import type { NumberOneSearchRecord } from './number-one-search';
+import { tokenizeSearchText } from './search-engine';
+
+/** Inclusive bounds; an omitted bound is open. */
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+export type SearchHasValue = 'spotify' | 'notes' | 'art' | 'rank';
+
+export type SearchFilter =
+  | { field: 'artist' | 'title'; value: string }
+  | { field: 'year' | 'rank'; value: string; range: NumberRange }
+  | { field: 'genre'; value: string; slug: string }
+  | { field: 'has'; value: SearchHasValue };
+
+export type SearchFilterField = SearchFilter['field'];
+
+export interface SearchQueryError {
+  message: string;
+  /** Offsets of the offending term in the raw query. */
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  /** Free text left after the filters are removed, for the relevance search. */
+  text: string;
+  filters: SearchFilter[];
+  errors: SearchQueryError[];
+}
+
+const FILTER_FIELDS: readonly SearchFilterField[] = [
+  'artist',
+  'title',
+  'year',
+  'genre',
+  'rank',
+  'has',
+];
+const HAS_VALUES: readonly SearchHasValue[] = ['spotify', 'notes', 'art', 'rank'];
+
+const isFilterField = (value: string): value is SearchFilterField =>
+  (FILTER_FIELDS as readonly string[]).includes(value);
+
+const isHasValue = (value: string): value is SearchHasValue =>
+  (HAS_VALUES as readonly string[]).includes(value);
+
+/** A bare word, a `"quoted phrase"`, or `field:value` where the value may be quoted. */
+const TERM_PATTERN = /(?:([a-z]+):)?(?:"([^"]*)("?)|(\S+))/gi;
+
+const RANGE_PATTERN = /^(\d+)?\.\.(\d+)?$/;
+const COMPARISON_PATTERN = /^(<=|>=|<|>|=)?(\d+)$/;
+
+/** Parse `1985`, `1985..1989`, `..1979`, `<50`, or `>=10`; `undefined` when malformed. */
+export const parseNumberRange = (value: string): NumberRange | undefined => {
+  const range = value.match(RANGE_PATTERN);
+  if (range) {
+    if (range[1] === undefined && range[2] === undefined) return undefined;
+    const min = range[1] === undefined ? undefined : Number(range[1]);
+    const max = range[2] === undefined ? undefined : Number(range[2]);
+    if (min !== undefined && max !== undefined && min > max) return undefined;
+    return { min, max };
+  }
+
+  const comparison = value.match(COMPARISON_PATTERN);
+  if (!comparison) return undefined;
+  const bound = Number(comparison[2]);
+  switch (comparison[1]) {
+    case '<':
+      return { max: bound - 1 };
+    case '<=':
+      return { max: bound };
+    case '>':
+      return { min: bound + 1 };
+    case '>=':
+      return { min: bound };
+    default:
+      return { min: bound, max: bound };
+  }
+};
+
+const parseFilter = (field: SearchFilterField, value: string): SearchFilter | { error: string } => {
+  if (!value) return { error: `Add a value after ${field}:.` };
+
+  switch (field) {
+    case 'artist':
+    case 'title':
+      return tokenizeSearchText(value).length
+        ? { field, value }
+        : { error: `Add a word to match after ${field}:.` };
+    case 'year':
+    case 'rank': {
+      const range = parseNumberRange(value);
+      if (range) return { field, value, range };
+      return {
+        error:
+          field === 'year'
+            ? `"${value}" is not a year. Try 1985, 1985..1989, or >=1990.`
+            : `"${value}" is not a rank. Try 10, 1..20, or <50.`,
+      };
+    }
+    case 'genre': {
+      const [genre] = resolveGenres([value]).genres;
+      return genre
+        ? { field, value, slug: genre.slug }
+        : { error: `There is no "${value}" genre.` };
+    }
+    case 'has': {
+      const normalized = value.toLowerCase();
+      return isHasValue(normalized)
+        ? { field, value: normalized }
+        : { error: `Try has:${HAS_VALUES.join(', has:')}.` };
+    }
+  }
+};
+
+/**
+ * Split a query into free text and filters. Malformed terms are reported with their position
+ * and otherwise ignored, so the rest of the query still runs.
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const words: string[] = [];
+  const filters: SearchFilter[] = [];
+  const errors: SearchQueryError[] = [];
+
+  for (const term of query.matchAll(TERM_PATTERN)) {
+    const [raw, key, quoted, closingQuote, bare] = term;
+    const start = term.index ?? 0;
+    const end = start + raw.length;
+    const value = (quoted ?? bare ?? '').trim();
+
+    if (quoted !== undefined && !closingQuote) {
+      errors.push({ message: 'Close the quote.', start, end });
+      continue;
+    }
+
+    if (key === undefined) {
+      words.push(value);
+      continue;
+    }
+
+    const field = key.toLowerCase();
+    if (!isFilterField(field)) {
+      errors.push({
+        message: `Unknown filter "${key}:". Try ${FILTER_FIELDS.map((name) => `${name}:`).join(', ')}.`,
+        start,
+        end,
+      });
+      continue;
+    }
+
+    const filter = parseFilter(field, value);
+    if ('error' in filter) {
+      errors.push({ message: filter.error, start, end });
+    } else {
+      filters.push(filter);
+    }
+  }
+
+  return { text: words.filter(Boolean).join(' '), filters, errors };
+};
+
+const formatValue = (value: string) =>
+  /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+/** The canonical query string for `?q=`: free text first, then each filter. */
+export const formatSearchQuery = ({ text, filters }: Pick<ParsedSearchQuery, 'text' | 'filters'>) =>
+  [text, ...filters.map((filter) => `${filter.field}:${formatValue(filter.value)}`)]
+    .filter(Boolean)
+    .join(' ');
+
+/** Describe a filter for the result count, e.g. "genre: Soft rock". */
+export const describeSearchFilter = (filter: SearchFilter): string =>
+  filter.field === 'genre'
+    ? `genre: ${getGenre(filter.slug)?.name ?? filter.value}`
+    : `${filter.field}: ${filter.value}`;
+
+const inRange = (value: number | undefined, { min, max }: NumberRange) =>
+  value !== undefined && (min === undefined || value >= min) && (max === undefined || value <= max);
+
+/** Whole-word match, so `artist:prince` finds Prince but not Princess. */
+const containsWords = (text: string, value: string) =>
+  ` ${tokenizeSearchText(text).join(' ')} `.includes(` ${tokenizeSearchText(value).join(' ')} `);
+
+const hasValue = (record: NumberOneSearchRecord, value: SearchHasValue): boolean => {
+  switch (value) {
+    case 'spotify':
+      return Boolean(record.links?.spotify);
+    case 'notes':
+      return record.notes.length > 0;
+    case 'art':
+      return Boolean(record.coverWebp || record.coverAvif);
+    case 'rank':
+      return record.rank !== undefined;
+  }
+};
+
+/** True when the #1 satisfies every filter. */
+export const matchesSearchFilters = (
+  record: NumberOneSearchRecord,
+  filters: readonly SearchFilter[]
+): boolean =>
+  filters.every((filter) => {
+    switch (filter.field) {
+      case 'artist':
+        return containsWords(record.artist, filter.value);
+      case 'title':
+        return containsWords(record.title, filter.value);
+      case 'year':
+        return record.appearances.some((appearance) => inRange(appearance.year, filter.range));
+      case 'rank':
+        return inRange(record.rank, filter.range);
+      case 'genre':
+        return record.genres?.includes(filter.slug) ?? false;
+      case 'has':
+        return hasValue(record, filter.value);
+    }
+  });
+
+/** An error as shown under the search box, led by the term that caused it. */
+export const formatSearchQueryError = (query: string, { message, start, end }: SearchQueryError) =>
+  `${query.slice(start, end)} — ${message}`;
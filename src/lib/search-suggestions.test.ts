@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchSuggestions } from './search-suggestions';
+import { createSiteSearch, type SiteSearchRecord } from './site-search';
+
+const song = (title: string, artist: string, year: number, songId?: string): SiteSearchRecord => ({
+  type: 'song',
+  id: `track-${title}`,
+  href: songId ? `/songs/${songId}/` : `/years/${year}/#number-one-1`,
+  song: {
+    id: `track-${title}`,
+    songId,
+    title,
+    artist,
+    notes: [],
+    appearances: [{ year, slug: String(year), yearRanking: 1, sequence: 0 }],
+  },
+});
+
+const records: SiteSearchRecord[] = [
+  song('Smooth', 'Santana feat. Rob Thomas', 1999, 'smooth-santana'),
+  song('Maria Maria', 'Santana feat. The Product G&B', 2000, 'maria-maria-santana'),
+  song('Lonely Boy', 'Paul Anka', 1959),
+  {
+    type: 'year',
+    id: 'year-1999',
+    href: '/years/1999/',
+    title: '1999',
+    label: 'Year recap',
+    years: [1999],
+    sections: [{ text: 'Santana ruled the fall.' }],
+  },
+];
+
+const suggest = (query: string) =>
+  buildSearchSuggestions(createSiteSearch(records).search(query).results);
+
+describe('search suggestions', () => {
+  it('lists songs, then the matched acts, then year recaps', () => {
+    expect(suggest('santana')).toEqual([
+      {
+        kind: 'song',
+        label: 'Smooth',
+        detail: 'Santana feat. Rob Thomas · 1999',
+        href: '/songs/smooth-santana/',
+      },
+      {
+        kind: 'song',
+        label: 'Maria Maria',
+        detail: 'Santana feat. The Product G&B · 2000',
+        href: '/songs/maria-maria-santana/',
+      },
+      { kind: 'artist', label: 'Santana', href: '/artists/santana/' },
+      { kind: 'year', label: '1999', href: '/years/1999/' },
+    ]);
+  });
+
+  it('only suggests acts whose names matched and whose songs have artist pages', () => {
+    expect(suggest('rob thomas').map((suggestion) => suggestion.label)).toEqual([
+      'Smooth',
+      'Rob Thomas',
+    ]);
+    expect(suggest('anka').map((suggestion) => suggestion.kind)).toEqual(['song']);
+  });
+});
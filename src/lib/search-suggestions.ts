@@ -0,0 +1,64 @@
+import { createArtistSlug, splitArtistCredit } from './artist-credits';
+import { tokenizeSearchText } from './search-engine';
+import type { SiteSearchResult } from './site-search';
+
+export type SearchSuggestionKind = 'song' | 'artist' | 'year';
+
+export interface SearchSuggestion {
+  kind: SearchSuggestionKind;
+  label: string;
+  /** Secondary line, such as a song's artist and years. */
+  detail?: string;
+  href: string;
+}
+
+export interface SearchSuggestionLimits {
+  songs?: number;
+  artists?: number;
+  years?: number;
+}
+
+/**
+ * Turn site search results into header suggestions: the best songs, the acts whose names
+ * matched, and the matching year recaps, in that order. Artists only link when the song is in
+ * the registry, since only registry songs have artist pages.
+ */
+export const buildSearchSuggestions = (
+  results: readonly SiteSearchResult[],
+  { songs = 4, artists = 3, years = 2 }: SearchSuggestionLimits = {}
+): SearchSuggestion[] => {
+  const songSuggestions: SearchSuggestion[] = [];
+  const artistSuggestions = new Map<string, SearchSuggestion>();
+  const yearSuggestions: SearchSuggestion[] = [];
+
+  for (const { record, matches } of results) {
+    if (record.type === 'year') {
+      if (yearSuggestions.length < years) {
+        yearSuggestions.push({ kind: 'year', label: record.title, href: record.href });
+      }
+      continue;
+    }
+    if (record.type !== 'song') continue;
+
+    const { song } = record;
+    if (songSuggestions.length < songs) {
+      songSuggestions.push({
+        kind: 'song',
+        label: song.title,
+        detail: `${song.artist} · ${song.appearances.map((appearance) => appearance.year).join(', ')}`,
+        href: record.href,
+      });
+    }
+
+    const matchedArtistTokens = new Set(matches.subtitle ?? []);
+    if (!song.songId || !matchedArtistTokens.size) continue;
+    for (const act of splitArtistCredit(song.artist)) {
+      const slug = createArtistSlug(act);
+      if (artistSuggestions.size >= artists || artistSuggestions.has(slug)) continue;
+      if (!tokenizeSearchText(act).some((token) => matchedArtistTokens.has(token))) continue;
+      artistSuggestions.set(slug, { kind: 'artist', label: act, href: `/artists/${slug}/` });
+    }
+  }
+
+  return [...songSuggestions, ...artistSuggestions.values(), ...yearSuggestions];
+};
@@ -0,0 +1,205 @@
+import { createHash } from 'node:crypto';
+import { getCollection } from 'astro:content';
+import { numberOneAnchor, paragraphAnchor, rankingEntryAnchor, splitParagraphs } from './anchors';
+import { getAboutEntry, getDecades } from './content-utils';
+import { loadNumberOneSearchIndex } from './number-one-search-index';
+import { getRankingYearRange } from './ranking-year';
+import type { SiteSearchRecord, SiteSearchSection } from './site-search';
+import {
+  buildSiteSearchShards,
+  DEFAULT_RECORDS_PER_SHARD,
+  type SiteSearchManifest,
+} from './site-search-shards';
+
+/** Reduce an MDX body to its words: drop imports, tags, and Markdown punctuation. */
+const toPlainText = (body: string | undefined): string =>
+  (body ?? '')
+    .replace(/^(?:import|export)\s.*$/gm, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#*_`>]+/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const paragraphSections = (
+  section: 'commentary' | 'summary',
+  value: string | undefined
+): SiteSearchSection[] =>
+  splitParagraphs(value).map((text, index) => ({ anchor: paragraphAnchor(section, index), text }));
+
+/** The MDX body renders without an id of its own, so it links to the top of the page. */
+const bodySections = (body: string | undefined): SiteSearchSection[] => {
+  const text = toPlainText(body);
+  return text ? [{ text }] : [];
+};
+
+/**
+ * Everything `/search/` can find: each #1 hit, every year and decade recap, each ranking row
+ * with commentary, and the long-form ranking and about pages.
+ */
+export async function loadSiteSearchIndex(): Promise<SiteSearchRecord[]> {
+  const [numberOnes, years, decades, rankings, about] = await Promise.all([
+    loadNumberOneSearchIndex(),
+    getCollection('years'),
+    getDecades(),
+    getCollection('rankings'),
+    getAboutEntry(),
+  ]);
+
+  const records: SiteSearchRecord[] = numberOnes.map((song) => {
+    const [first] = song.appearances;
+    return {
+      type: 'song',
+      id: song.id,
+      href: song.songId
+        ? `/songs/${song.songId}/`
+        : `/years/${first.slug}/#${numberOneAnchor(first.sequence)}`,
+      song,
+    };
+  });
+
+  [...years]
+    .sort((a, b) => a.data.year - b.data.year)
+    .forEach((entry) => {
+      const commentary = entry.data.commentary
+        ? [{ anchor: paragraphAnchor('commentary', 0), text: entry.data.commentary }]
+        : [];
+      records.push({
+        type: 'year',
+        id: `year-${entry.slug}`,
+        href: `/years/${entry.slug}/`,
+        title: String(entry.data.year),
+        label: 'Year recap',
+        years: [entry.data.year],
+        sections: [
+          ...commentary,
+          ...paragraphSections('summary', entry.data.yearSummary),
+          ...bodySections(entry.body),
+        ],
+      });
+    });
+
+  decades.forEach((entry) => {
+    const highlights = entry.data.summaryHighlights.length
+      ? [{ anchor: 'decade-highlights-heading', text: entry.data.summaryHighlights.join(' ') }]
+      : [];
+    records.push({
+      type: 'decade',
+      id: `decade-${entry.slug}`,
+      href: `/decades/${entry.slug}/`,
+      title: `${entry.data.decade}s`,
+      label: entry.data.title,
+      years: Array.from({ length: 10 }, (_, offset) => entry.data.decade + offset),
+      sections: [
+        ...paragraphSections('commentary', entry.data.commentary),
+        ...paragraphSections('summary', entry.data.summary),
+        ...highlights,
+        ...bodySections(entry.body),
+      ],
+    });
+  });
+
+  const rankingEntries: SiteSearchRecord[] = [];
+  [...rankings]
+    .sort((a, b) => a.data.ranking - b.data.ranking)
+    .forEach((entry) => {
+      const href = `/rankings/${entry.slug}/`;
+      records.push({
+        type: 'essay',
+        id: `ranking-${entry.slug}`,
+        href,
+        title: entry.data.title,
+        label: 'Ranking',
+        years: [entry.data.chart_week.getUTCFullYear()],
+        sections: [
+          { anchor: paragraphAnchor('commentary', 0), text: entry.data.commentary },
+          ...bodySections(entry.body),
+        ],
+      });
+
+      entry.data.entries.forEach((item) => {
+        rankingEntries.push({
+          type: 'ranking-entry',
+          id: `ranking-${entry.slug}-${item.position}`,
+          href,
+          title: item.title,
+          subtitle: item.artist,
+          label: `#${item.position} · ${entry.data.title}`,
+          years: item.year ? getRankingYearRange(item.year) : [],
+          sections: [{ anchor: rankingEntryAnchor(item.position), text: item.commentary }],
+        });
+      });
+    });
+
+  if (about) {
+    records.push({
+      type: 'essay',
+      id: `meta-${about.slug}`,
+      href: '/about/',
+      title: about.data.title,
+      label: 'About the archive',
+      years: [],
+      sections: [
+        { anchor: paragraphAnchor('commentary', 0), text: about.data.commentary },
+        ...bodySections(about.body),
+      ],
+    });
+  }
+
+  return [...records, ...rankingEntries];
+}
+
+export interface SiteSearchFile {
+  /** File name under `/search-index/`, including its content hash. */
+  name: string;
+  body: string;
+}
+
+export const SITE_SEARCH_INDEX_PATH = '/search-index/';
+
+/** A short content hash for file names, so a file can be cached until its content changes. */
+export const hashContent = (body: string) =>
+  createHash('sha256').update(body).digest('hex').slice(0, 10);
+
+export interface SiteSearchFiles {
+  manifest: SiteSearchManifest;
+  /** The manifest as a file of its own, for pages that only search on demand. */
+  manifestHref: string;
+  files: SiteSearchFile[];
+}
+
+let siteSearchFiles: Promise<SiteSearchFiles> | undefined;
+
+/**
+ * The shards the search page loads, named by content hash so they can be cached forever; the
+ * search page embeds the manifest that points at the current names, and other pages link to
+ * the hashed manifest file. Built once per build.
+ */
+export function getSiteSearchFiles() {
+  siteSearchFiles ??= loadSiteSearchIndex().then((records) => {
+    const shards = buildSiteSearchShards(records);
+    const files: SiteSearchFile[] = [];
+    const emit = (base: string, content: unknown) => {
+      const body = JSON.stringify(content);
+      const name = `${base}.${hashContent(body)}.json`;
+      files.push({ name, body });
+      return `${SITE_SEARCH_INDEX_PATH}${name}`;
+    };
+
+    const manifest: SiteSearchManifest = {
+      tokens: Object.fromEntries(
+        Object.entries(shards.tokens)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([key, shard]) => [key, emit(`tokens-${key}`, shard)])
+      ),
+      records: shards.records.map((chunk, index) => emit(`records-${index}`, chunk)),
+      recordsPerShard: DEFAULT_RECORDS_PER_SHARD,
+      songCount: shards.songCount,
+    };
+
+    return { manifest, manifestHref: emit('manifest', manifest), files };
+  });
+  return siteSearchFiles;
+}
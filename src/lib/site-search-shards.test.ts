@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createSiteSearch, type SiteSearchRecord } from './site-search';
+import {
+  buildSiteSearchShards,
+  createShardedSiteSearch,
+  type SiteSearchManifest,
+} from './site-search-shards';
+
+const song = (title: string, artist: string, year: number): SiteSearchRecord => {
+  const id = `track-${title.toLowerCase().replace(/\W+/g, '-')}`;
+  return {
+    type: 'song',
+    id,
+    href: `/songs/${id}/`,
+    song: {
+      id,
+      title,
+      artist,
+      notes: [],
+      appearances: [{ year, slug: String(year), yearRanking: 1, sequence: 0 }],
+    },
+  };
+};
+
+const records: SiteSearchRecord[] = [
+  {
+    type: 'year',
+    id: 'year-1986',
+    href: '/years/1986/',
+    title: '1986',
+    label: 'Year recap',
+    years: [1986],
+    sections: [{ anchor: 'commentary-1', text: 'Whitney and Winwood owned the summer.' }],
+  },
+  song('How Will I Know', 'Whitney Houston', 1986),
+  song('Higher Love', 'Steve Winwood', 1986),
+  song('Greatest Love of All', 'Whitney Houston', 1986),
+  song('Purple Rain', 'Prince', 1984),
+];
+
+/** Serve the shards from memory, recording every URL requested. */
+const serve = (recordsPerShard: number) => {
+  const shards = buildSiteSearchShards(records, recordsPerShard);
+  const files = new Map<string, unknown>();
+  const manifest: SiteSearchManifest = {
+    tokens: Object.fromEntries(
+      Object.entries(shards.tokens).map(([key, shard]) => {
+        files.set(`tokens-${key}`, shard);
+        return [key, `tokens-${key}`];
+      })
+    ),
+    records: shards.records.map((chunk, index) => {
+      files.set(`records-${index}`, chunk);
+      return `records-${index}`;
+    }),
+    recordsPerShard,
+    songCount: shards.songCount,
+  };
+  const requested: string[] = [];
+  const search = createShardedSiteSearch(manifest, async (url) => {
+    requested.push(url);
+    return files.get(url);
+  });
+  return { search, requested, shards };
+};
+
+const ids = (results: { record: SiteSearchRecord }[]) => results.map(({ record }) => record.id);
+
+describe('site search shards', () => {
+  it('puts songs first and indexes every field by token prefix', () => {
+    const { shards } = serve(2);
+    expect(shards.songCount).toBe(4);
+    expect(shards.records.flat().map((record) => record.type)).toEqual([
+      'song',
+      'song',
+      'song',
+      'song',
+      'year',
+    ]);
+    expect(shards.tokens.w).toMatchObject({ whitney: [0, 2, 4], winwood: [1, 4] });
+  });
+
+  it('matches the unsharded search while loading only the shards a query needs', async () => {
+    const { search, requested } = serve(2);
+    const full = createSiteSearch(buildSiteSearchShards(records).records.flat());
+
+    for (const query of ['whitny love', 'winwood', '1986', 'artist:prince', 'purple year:1980..']) {
+      expect(ids((await search.search(query)).results)).toEqual(ids(full.search(query).results));
+    }
+
+    requested.length = 0;
+    await search.search('purple');
+    expect(requested).toEqual([]);
+    await search.search('houston');
+    expect(requested).toEqual(['tokens-h']);
+  });
+});
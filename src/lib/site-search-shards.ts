@@ -0,0 +1,151 @@
+/**
+ * The site search split into static JSON shards, so `/search/` downloads only what a query
+ * needs. An inverted index maps each token to the records that contain it and is split by the
+ * token's first character; records are stored separately in fixed-size chunks. Client-safe.
+ */
+
+import { scoreSearchToken, tokenizeSearchText } from './search-engine';
+import { parseSearchQuery } from './search-query';
+import {
+  createSiteSearch,
+  siteSearchFields,
+  type SiteSearchRecord,
+  type SiteSearchType,
+} from './site-search';
+
+/** Token → ascending record numbers. */
+export type SiteSearchTokenShard = Record<string, number[]>;
+
+export interface SiteSearchManifest {
+  /** Token shard URL by shard key (see `getTokenShardKey`). */
+  tokens: Record<string, string>;
+  /** Record shard URLs; record `n` lives in `records[Math.floor(n / recordsPerShard)]`. */
+  records: string[];
+  recordsPerShard: number;
+  /** Songs come first, so records `0` to `songCount - 1` are the #1 hits. */
+  songCount: number;
+}
+
+export interface SiteSearchShards {
+  tokens: Record<string, SiteSearchTokenShard>;
+  records: SiteSearchRecord[][];
+  songCount: number;
+}
+
+export const DEFAULT_RECORDS_PER_SHARD = 100;
+
+export const getTokenShardKey = (token: string): string => token.charAt(0);
+
+/** Order records songs first and build the shard contents; callers name and write the files. */
+export const buildSiteSearchShards = (
+  records: readonly SiteSearchRecord[],
+  recordsPerShard = DEFAULT_RECORDS_PER_SHARD
+): SiteSearchShards => {
+  const ordered = [
+    ...records.filter((record) => record.type === 'song'),
+    ...records.filter((record) => record.type !== 'song'),
+  ];
+
+  const tokens: Record<string, SiteSearchTokenShard> = {};
+  ordered.forEach((record, index) => {
+    const recordTokens = new Set(
+      siteSearchFields.flatMap((field) => {
+        const value = field.getText(record);
+        return tokenizeSearchText(typeof value === 'string' ? value : value.join(' '));
+      })
+    );
+    recordTokens.forEach((token) => {
+      const shard = (tokens[getTokenShardKey(token)] ??= {});
+      (shard[token] ??= []).push(index);
+    });
+  });
+
+  const chunks: SiteSearchRecord[][] = [];
+  for (let start = 0; start < ordered.length; start += recordsPerShard) {
+    chunks.push(ordered.slice(start, start + recordsPerShard));
+  }
+
+  return {
+    tokens,
+    records: chunks,
+    songCount: ordered.filter((record) => record.type === 'song').length,
+  };
+};
+
+/**
+ * Records that could match every term: a superset of what the engine accepts, since any token
+ * the term might match counts. Typos in a term's first letter are not found.
+ */
+const findCandidates = (terms: string[], shards: (SiteSearchTokenShard | undefined)[]) => {
+  let candidates: Set<number> | undefined;
+  terms.forEach((term, index) => {
+    const matched = new Set<number>();
+    Object.entries(shards[index] ?? {}).forEach(([token, postings]) => {
+      if (scoreSearchToken(term, token, false)) postings.forEach((id) => matched.add(id));
+    });
+    candidates = candidates
+      ? new Set(Array.from(candidates).filter((id) => matched.has(id)))
+      : matched;
+  });
+  return Array.from(candidates ?? []).sort((a, b) => a - b);
+};
+
+/**
+ * Search against the shards in `manifest`, fetching each shard at most once. Results match
+ * `createSiteSearch` over the full index, because the matching records are handed to it.
+ */
+export const createShardedSiteSearch = (
+  manifest: SiteSearchManifest,
+  fetchShard: (url: string) => Promise<unknown>
+) => {
+  const loaded = new Map<string, Promise<unknown>>();
+  const load = <T>(url: string): Promise<T> => {
+    let shard = loaded.get(url);
+    if (!shard) {
+      shard = fetchShard(url).catch((error: unknown) => {
+        loaded.delete(url);
+        throw error;
+      });
+      loaded.set(url, shard);
+    }
+    return shard as Promise<T>;
+  };
+
+  const search = async (query: string, options: { type?: SiteSearchType } = {}) => {
+    const { text, filters } = parseSearchQuery(query);
+    const terms = Array.from(new Set(tokenizeSearchText(text)));
+
+    let ids: number[] = [];
+    if (terms.length) {
+      const shards = await Promise.all(
+        terms.map((term) => {
+          const url = manifest.tokens[getTokenShardKey(term)];
+          return url ? load<SiteSearchTokenShard>(url) : undefined;
+        })
+      );
+      ids = findCandidates(terms, shards);
+      // Filters only describe #1 hits.
+      if (filters.length) ids = ids.filter((id) => id < manifest.songCount);
+    } else if (filters.length) {
+      ids = Array.from({ length: manifest.songCount }, (_, id) => id);
+    }
+
+    const chunkIndexes = Array.from(
+      new Set(ids.map((id) => Math.floor(id / manifest.recordsPerShard)))
+    );
+    const chunks = new Map(
+      await Promise.all(
+        chunkIndexes.map(
+          async (chunk) => [chunk, await load<SiteSearchRecord[]>(manifest.records[chunk])] as const
+        )
+      )
+    );
+    const records = ids.map(
+      (id) => chunks.get(Math.floor(id / manifest.recordsPerShard))![id % manifest.recordsPerShard]
+    );
+
+    return createSiteSearch(records).search(query, options);
+  };
+
+  return { search };
+};
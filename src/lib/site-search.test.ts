@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSiteSearch,
+  getSiteSearchTarget,
+  type SiteSearchDocument,
+  type SiteSearchRecord,
+} from './site-search';
+
+const rankingEntry: SiteSearchDocument = {
+  type: 'ranking-entry',
+  id: 'ranking-top-220-12',
+  href: '/rankings/top-220/',
+  title: 'Take On Me',
+  subtitle: 'a-ha',
+  label: '#12 · Top 220',
+  years: [1985],
+  sections: [
+    {
+      anchor: 'entry-12',
+      text: 'That falsetto is absurd. The rotoscoped video carried it, but the synth riff is the real hook.',
+    },
+  ],
+};
+
+const year: SiteSearchDocument = {
+  type: 'year',
+  id: 'year-1985',
+  href: '/years/1985/',
+  title: '1985',
+  label: 'Year recap',
+  years: [1985],
+  sections: [
+    { anchor: 'commentary-1', text: 'A decent year for new wave.' },
+    { anchor: 'summary-1', text: 'Synth-pop ruled the spring.' },
+  ],
+};
+
+const records: SiteSearchRecord[] = [
+  {
+    type: 'song',
+    id: 'track-take-on-me',
+    href: '/songs/take-on-me/',
+    song: {
+      id: 'track-take-on-me',
+      title: 'Take On Me',
+      artist: 'a-ha',
+      notes: [],
+      appearances: [{ year: 1985, slug: '1985', yearRanking: 20, sequence: 14 }],
+    },
+  },
+  year,
+  rankingEntry,
+];
+
+describe('site search', () => {
+  it('searches every record type and counts each facet', () => {
+    const { results, facets, total } = createSiteSearch(records).search('take on me');
+    expect(results.map((result) => result.record.type)).toEqual(['song', 'ranking-entry']);
+    expect(total).toBe(2);
+    expect(facets).toEqual({ song: 1, year: 0, decade: 0, 'ranking-entry': 1, essay: 0 });
+  });
+
+  it('narrows to one type while keeping facet counts for the full result set', () => {
+    const { results, facets } = createSiteSearch(records).search('synth', {
+      type: 'year',
+    });
+    expect(results.map((result) => result.record.id)).toEqual(['year-1985']);
+    expect(facets).toMatchObject({ year: 1, 'ranking-entry': 1 });
+  });
+
+  it('limits filtered queries to songs and highlights filter matches', () => {
+    const { results, facets } = createSiteSearch(records).search('artist:a-ha year:1985');
+    expect(results.map((result) => result.record.id)).toEqual(['track-take-on-me']);
+    expect(results[0].matches.subtitle).toEqual(['a', 'ha']);
+    expect(facets).toMatchObject({ song: 1, year: 0, 'ranking-entry': 0 });
+  });
+
+  it('links to the section that matched and quotes it', () => {
+    const [result] = createSiteSearch([year]).search('synth').results;
+    const target = getSiteSearchTarget(year, result.matches);
+    expect(target.href).toBe('/years/1985/#summary-1');
+    expect(target.snippet).toEqual([
+      { text: 'Synth', match: true },
+      { text: '-pop ruled the spring.', match: false },
+    ]);
+    expect(getSiteSearchTarget(year, {}).href).toBe('/years/1985/#commentary-1');
+  });
+
+  it('trims long sections to a snippet around the first match', () => {
+    const text = `${'Filler words here. '.repeat(30)}The falsetto lands. ${'More filler. '.repeat(30)}`;
+    const document = { ...rankingEntry, sections: [{ anchor: 'entry-12', text }] };
+    const { snippet } = getSiteSearchTarget(document, { text: ['falsetto'] });
+    const excerpt = snippet.map((segment) => segment.text).join('');
+    expect(excerpt.startsWith('…')).toBe(true);
+    expect(excerpt.endsWith('…')).toBe(true);
+    expect(excerpt.length).toBeLessThanOrEqual(243);
+    expect(snippet.filter((segment) => segment.match)).toEqual([{ text: 'falsetto', match: true }]);
+  });
+});
@@ -0,0 +1,191 @@
+import type { NumberOneSearchRecord } from './number-one-search';
+import {
+  createSearchEngine,
+  highlightSearchMatches,
+  tokenizeSearchText,
+  type HighlightSegment,
+  type SearchField,
+  type SearchResult,
+} from './search-engine';
+import { matchesSearchFilters, parseSearchQuery, type SearchFilter } from './search-query';
+
+export type SiteSearchType = 'song' | 'year' | 'decade' | 'ranking-entry' | 'essay';
+
+export const siteSearchTypes: { type: SiteSearchType; label: string }[] = [
+  { type: 'song', label: 'Songs' },
+  { type: 'year', label: 'Years' },
+  { type: 'decade', label: 'Decades' },
+  { type: 'ranking-entry', label: 'Ranking entries' },
+  { type: 'essay', label: 'Essays' },
+];
+
+/** A run of copy on the target page; `anchor` is the id of the element that renders it. */
+export interface SiteSearchSection {
+  anchor?: string;
+  text: string;
+}
+
+/** A #1 hit, rendered with its recap links and Spotify preview. */
+export interface SiteSearchSongRecord {
+  type: 'song';
+  id: string;
+  href: string;
+  song: NumberOneSearchRecord;
+}
+
+/** Anything else worth finding: a year or decade recap, a ranking row, or an essay. */
+export interface SiteSearchDocument {
+  type: Exclude<SiteSearchType, 'song'>;
+  id: string;
+  /** Page path without an anchor; the matched section supplies one. */
+  href: string;
+  title: string;
+  /** Searchable byline, such as the artist of a ranking entry. */
+  subtitle?: string;
+  /** Display-only context, such as "#12 · Top 220 Hot 100 Number Ones". */
+  label: string;
+  years: number[];
+  sections: SiteSearchSection[];
+}
+
+export type SiteSearchRecord = SiteSearchSongRecord | SiteSearchDocument;
+
+export type SiteSearchResult = SearchResult<SiteSearchRecord>;
+
+export type SiteSearchFacets = Record<SiteSearchType, number>;
+
+/** Same weights as the #1 search, so song hits rank the same way they always have. */
+export const siteSearchFields: SearchField<SiteSearchRecord>[] = [
+  {
+    name: 'title',
+    weight: 4,
+    getText: (record) => (record.type === 'song' ? record.song.title : record.title),
+  },
+  {
+    name: 'subtitle',
+    weight: 3,
+    getText: (record) => (record.type === 'song' ? record.song.artist : (record.subtitle ?? '')),
+  },
+  {
+    name: 'year',
+    weight: 2,
+    exact: true,
+    getText: (record) =>
+      record.type === 'song'
+        ? record.song.appearances.map((appearance) => String(appearance.year))
+        : record.years.map(String),
+  },
+  {
+    name: 'text',
+    weight: 1,
+    getText: (record) =>
+      record.type === 'song' ? record.song.notes : record.sections.map((section) => section.text),
+  },
+];
+
+/** Mark the words an `artist:` or `title:` filter matched, as if they had been typed as text. */
+const withFilterMatches = (
+  result: SiteSearchResult,
+  filters: readonly SearchFilter[]
+): SiteSearchResult => {
+  const matches = { ...result.matches };
+  filters.forEach((filter) => {
+    if (filter.field !== 'artist' && filter.field !== 'title') return;
+    const name = filter.field === 'artist' ? 'subtitle' : 'title';
+    matches[name] = Array.from(
+      new Set([...(matches[name] ?? []), ...tokenizeSearchText(filter.value)])
+    );
+  });
+  return { ...result, matches };
+};
+
+/**
+ * Search every collection at once. Field filters (see `search-query.ts`) describe #1 hits, so a
+ * filtered query only returns songs; filters alone list every song that passes, in index order.
+ * `search` returns facet counts for the whole result set alongside the hits narrowed to `type`,
+ * so the filter buttons can show what each type holds.
+ */
+export const createSiteSearch = (records: readonly SiteSearchRecord[]) => {
+  const engine = createSearchEngine(records, siteSearchFields);
+
+  const search = (query: string, { type }: { type?: SiteSearchType } = {}) => {
+    const parsed = parseSearchQuery(query);
+    const { text, filters } = parsed;
+    const passes = (record: SiteSearchRecord) =>
+      record.type === 'song' && matchesSearchFilters(record.song, filters);
+
+    let all: SiteSearchResult[] = engine.search(text);
+    if (filters.length) {
+      const hits = text
+        ? all.filter((result) => passes(result.record))
+        : records.filter(passes).map((record) => ({ record, score: 0, matches: {} }));
+      all = hits.map((result) => withFilterMatches(result, filters));
+    }
+
+    const facets = Object.fromEntries(
+      siteSearchTypes.map(({ type: facet }) => [facet, 0])
+    ) as SiteSearchFacets;
+    all.forEach((result) => {
+      facets[result.record.type] += 1;
+    });
+    const results = type ? all.filter((result) => result.record.type === type) : all;
+    return { results, facets, total: all.length, query: parsed };
+  };
+
+  return { search };
+};
+
+export const isSiteSearchType = (value: string | null | undefined): value is SiteSearchType =>
+  siteSearchTypes.some(({ type }) => type === value);
+
+const SNIPPET_LENGTH = 240;
+/** Characters of context kept before the first matched word. */
+const SNIPPET_LEAD = 60;
+
+/**
+ * Where a document hit should link and what to quote: the first section whose text matched,
+ * trimmed to a snippet around the first matched word. Falls back to the opening section.
+ */
+export const getSiteSearchTarget = (
+  document: SiteSearchDocument,
+  matches: Record<string, string[]>
+): { href: string; snippet: HighlightSegment[] } => {
+  const tokens = matches.text;
+  let section = document.sections[0];
+  let matchIndex = -1;
+
+  for (const candidate of document.sections) {
+    let offset = 0;
+    for (const segment of highlightSearchMatches(candidate.text, tokens)) {
+      if (segment.match) {
+        matchIndex = offset;
+        break;
+      }
+      offset += segment.text.length;
+    }
+    if (matchIndex >= 0) {
+      section = candidate;
+      break;
+    }
+  }
+
+  if (!section) return { href: document.href, snippet: [] };
+
+  const { text } = section;
+  let start = 0;
+  if (matchIndex > SNIPPET_LEAD && text.length > SNIPPET_LENGTH) {
+    start = Math.min(matchIndex - SNIPPET_LEAD, text.length - SNIPPET_LENGTH);
+    start = text.indexOf(' ', start) + 1;
+  }
+  let end = start + SNIPPET_LENGTH;
+  if (end < text.length) {
+    const lastSpace = text.lastIndexOf(' ', end);
+    end = lastSpace > start ? lastSpace : end;
+  }
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+
+  return {
+    href: section.anchor ? `${document.href}#${section.anchor}` : document.href,
+    snippet: highlightSearchMatches(excerpt, tokens),
+  };
+};
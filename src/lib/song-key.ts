@@ -0,0 +1,30 @@
+import { generateAlbumArtSlugStrict } from './album-art-slug.js';
+
+export interface SongCredit {
+  title: string;
+  artist: string;
+}
+
+/**
+ * Normalize a title or artist credit so spelling variants ("ft." vs "feat.", "&" vs "and",
+ * casing, diacritics, punctuation) collapse onto the same comparison string.
+ */
+export const normalizeSongText = (value: string): string =>
+  String(value ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\b(?:featuring|feat\.?|ft\.?)(?=\s)/g, ' feat ')
+    .replace(/&/g, ' and ')
+    .replace(/[\u2019']/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+export const createSongKey = (title: string, artist: string): string =>
+  `${normalizeSongText(title)}::${normalizeSongText(artist)}`;
+
+/**
+ * Song IDs reuse the album-art slug format so a registry entry and its cover share one key.
+ */
+export const createSongId = (title: string, artist: string): string =>
+  generateAlbumArtSlugStrict(title, artist);
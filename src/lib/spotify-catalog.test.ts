@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cleanSpotifyTitle,
+  createSpotifyCatalog,
+  parseSpotifyCatalog,
+  reportSpotifyCatalogCoverage,
+  type SpotifyCatalogEntry,
+} from './spotify-catalog';
+
+const entries: SpotifyCatalogEntry[] = [
+  {
+    title: '(Everything I Do) I Do It For You - 2017 Ultimate Edit',
+    artist: 'Bryan Adams',
+    spotifyTrackId: 'everything',
+  },
+  { title: 'Come Together', artist: 'The Beatles', spotifyTrackId: 'come-together' },
+  { title: 'Something', artist: 'The Beatles', spotifyTrackId: 'something' },
+  {
+    title: 'Hey Mickey',
+    artist: 'Toni Basil',
+    spotifyTrackId: 'mickey',
+    aliases: [{ title: 'Mickey', artist: 'Toni Basil' }],
+  },
+  { title: 'Heaven', artist: 'Bryan Adams', spotifyTrackId: 'heaven' },
+];
+
+const catalog = createSpotifyCatalog(entries);
+
+describe('spotify catalog', () => {
+  it('strips Spotify version notes from titles', () => {
+    expect(cleanSpotifyTitle('Heaven - 2011 Remaster')).toBe('Heaven');
+    expect(cleanSpotifyTitle('Over and Over - 2019')).toBe('Over and Over');
+    expect(
+      cleanSpotifyTitle('Exhale (Shoop Shoop) - from "Waiting to Exhale" - Original Soundtrack')
+    ).toBe('Exhale (Shoop Shoop)');
+    expect(cleanSpotifyTitle('Ob-La-Di, Ob-La-Da')).toBe('Ob-La-Di, Ob-La-Da');
+    expect(cleanSpotifyTitle('Get Back - Naked')).toBe('Get Back - Naked');
+  });
+
+  it('matches exact credits and aliases', () => {
+    expect(catalog.find('Come Together', 'the beatles')?.spotifyTrackId).toBe('come-together');
+    expect(catalog.find('Mickey', 'Toni Basil')?.spotifyTrackId).toBe('mickey');
+  });
+
+  it('matches cleaned titles by an artist named in the credit', () => {
+    expect(catalog.find('(Everything I Do) I Do It for You', 'Bryan Adams')?.spotifyTrackId).toBe(
+      'everything'
+    );
+    expect(catalog.find('Come Together / Something', 'The Beatles')?.spotifyTrackId).toBe(
+      'come-together'
+    );
+    expect(catalog.find('Heaven', 'Bryan Adams & Friends')?.spotifyTrackId).toBe('heaven');
+  });
+
+  it('does not match titles or artists that only share a substring', () => {
+    expect(catalog.find('Heaven Knows', 'Bryan Adams')).toBeUndefined();
+    expect(catalog.find('Heaven', 'Bryan Adamson')).toBeUndefined();
+    expect(catalog.find('Come Together', 'Aerosmith')).toBeUndefined();
+  });
+
+  it('validates the catalog file', () => {
+    expect(parseSpotifyCatalog(entries)).toBe(entries);
+    expect(() => parseSpotifyCatalog({})).toThrow(/must be an array/);
+    expect(() => parseSpotifyCatalog([{ title: 'Heaven', artist: 'Bryan Adams' }])).toThrow(
+      /"Heaven" by Bryan Adams needs a title, artist and spotifyTrackId/
+    );
+    expect(() => parseSpotifyCatalog([{ ...entries[0], aliases: [{ title: 'Heaven' }] }])).toThrow(
+      /has aliases without a title and artist/
+    );
+  });
+
+  it('reports songs without a track and tracks without a song', () => {
+    const songs = [
+      { id: 'heaven', title: 'Heaven', artist: 'Bryan Adams' },
+      { id: 'mickey', title: 'Mickey!', artist: 'Basil', aliases: [entries[3]] },
+      { id: 'missing', title: 'Summer of 69', artist: 'Bryan Adams' },
+    ];
+    const report = reportSpotifyCatalogCoverage(songs, catalog);
+    expect(report.matched).toBe(2);
+    expect(report.unmatched.map((song) => song.id)).toEqual(['missing']);
+    expect(report.unused.map((entry) => entry.spotifyTrackId)).toEqual([
+      'everything',
+      'come-together',
+      'something',
+    ]);
+  });
+});
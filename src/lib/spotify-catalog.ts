@@ -0,0 +1,137 @@
+/**
+ * The Spotify catalog: one entry per Spotify track in `src/data/spotify-catalog.json`, as synced
+ * from the archive playlist, with optional aliases for other spellings of the same recording.
+ * Lookups try an exact credit first, then the same title with Spotify's version suffixes and
+ * parenthetical subtitles removed, by an artist that matches the start or whole words of the
+ * other credit.
+ */
+
+import catalogData from '../data/spotify-catalog.json';
+import { createSongKey, normalizeSongText, type SongCredit } from './song-key.js';
+
+export interface SpotifyCatalogEntry extends SongCredit {
+  spotifyTrackId: string;
+  /** Other credits for the same recording, such as the archive's spelling of the title. */
+  aliases?: SongCredit[];
+}
+
+/**
+ * A ` - …` title suffix that is a version note rather than part of the title: one naming a
+ * remaster, mix, edit, live recording, soundtrack and the like, or a bare year. Everything from
+ * that dash on goes, so ' - Live at …, New York - March 1992' is dropped whole.
+ */
+const versionNote =
+  /\s+[-–]\s+(?=[^-–]*\b(?:remaster(?:ed)?|version|(?:re)?mix|edit|mono|stereo|from|live|single|soundtrack|recording|cover)\b|\d{4}\s*$).*$/i;
+
+/**
+ * Strip the version notes Spotify appends to titles, such as " - 2011 Remaster",
+ * " - 2017 Ultimate Edit" or ' - From "Grease"'. The playlist sync stores titles cleaned this way.
+ */
+export const cleanSpotifyTitle = (title: string): string =>
+  title
+    .replace(versionNote, '')
+    .replace(/[\s\-–]+$/, '')
+    .trim();
+
+const matchTitle = (title: string) => normalizeSongText(cleanSpotifyTitle(title));
+
+/** The title without parenthetical subtitles, and only the A-side of "A / B" double sides. */
+const baseTitle = (title: string) =>
+  matchTitle(title.replace(/\s*\([^)]*\)/g, ' ').split(/\s+\/\s+/)[0]);
+
+/** Whether one artist credit is the other, or names it as whole words ("Walter Murphy & …"). */
+const artistsMatch = (a: string, b: string) => {
+  const [left, right] = [` ${normalizeSongText(a)} `, ` ${normalizeSongText(b)} `];
+  return left.includes(right) || right.includes(left);
+};
+
+const isCredit = (value: unknown): value is SongCredit =>
+  Boolean(value) &&
+  typeof (value as SongCredit).title === 'string' &&
+  typeof (value as SongCredit).artist === 'string';
+
+/** Check the catalog file's shape, naming the first bad entry. */
+export const parseSpotifyCatalog = (value: unknown): SpotifyCatalogEntry[] => {
+  if (!Array.isArray(value)) throw new Error('The Spotify catalog must be an array of tracks.');
+  value.forEach((entry, index) => {
+    const label = isCredit(entry) ? `"${entry.title}" by ${entry.artist}` : `#${index + 1}`;
+    const { spotifyTrackId, aliases } = (entry ?? {}) as Partial<SpotifyCatalogEntry>;
+    if (!isCredit(entry) || typeof spotifyTrackId !== 'string' || !spotifyTrackId) {
+      throw new Error(`Spotify catalog entry ${label} needs a title, artist and spotifyTrackId.`);
+    }
+    if (aliases !== undefined && !(Array.isArray(aliases) && aliases.every(isCredit))) {
+      throw new Error(`Spotify catalog entry ${label} has aliases without a title and artist.`);
+    }
+  });
+  return value as SpotifyCatalogEntry[];
+};
+
+export interface SpotifyCatalog {
+  entries: readonly SpotifyCatalogEntry[];
+  find: (title: string, artist: string) => SpotifyCatalogEntry | undefined;
+}
+
+export const createSpotifyCatalog = (entries: readonly SpotifyCatalogEntry[]): SpotifyCatalog => {
+  const exact = new Map<string, SpotifyCatalogEntry>();
+  const byTitle = new Map<string, { entry: SpotifyCatalogEntry; artist: string }[]>();
+  const byBaseTitle = new Map<string, { entry: SpotifyCatalogEntry; artist: string }[]>();
+  const add = (
+    index: Map<string, { entry: SpotifyCatalogEntry; artist: string }[]>,
+    key: string,
+    value: { entry: SpotifyCatalogEntry; artist: string }
+  ) => index.set(key, [...(index.get(key) ?? []), value]);
+
+  for (const entry of entries) {
+    for (const credit of [entry, ...(entry.aliases ?? [])]) {
+      const key = createSongKey(credit.title, credit.artist);
+      if (!exact.has(key)) exact.set(key, entry);
+      add(byTitle, matchTitle(credit.title), { entry, artist: credit.artist });
+      add(byBaseTitle, baseTitle(credit.title), { entry, artist: credit.artist });
+    }
+  }
+
+  const find = (title: string, artist: string) => {
+    const candidates = (index: typeof byTitle, key: string) =>
+      key ? index.get(key)?.find((candidate) => artistsMatch(candidate.artist, artist)) : undefined;
+    return (
+      exact.get(createSongKey(title, artist)) ??
+      candidates(byTitle, matchTitle(title))?.entry ??
+      candidates(byBaseTitle, baseTitle(title))?.entry
+    );
+  };
+
+  return { entries, find };
+};
+
+export const spotifyCatalog = createSpotifyCatalog(parseSpotifyCatalog(catalogData));
+
+export const getSpotifyTrackId = (title: string, artist: string): string | undefined =>
+  spotifyCatalog.find(title, artist)?.spotifyTrackId;
+
+export interface SpotifyCatalogCoverage<Song extends SongCredit> {
+  matched: number;
+  /** Songs none of whose credits match a catalog entry. */
+  unmatched: Song[];
+  /** Catalog entries no song matches, e.g. tracks left in the playlist by mistake. */
+  unused: SpotifyCatalogEntry[];
+}
+
+/** Which archive songs, tried under each of their aliases, have a Spotify track. */
+export const reportSpotifyCatalogCoverage = <Song extends SongCredit & { aliases?: SongCredit[] }>(
+  songs: readonly Song[],
+  catalog: SpotifyCatalog = spotifyCatalog
+): SpotifyCatalogCoverage<Song> => {
+  const used = new Set<SpotifyCatalogEntry>();
+  const unmatched = songs.filter((song) => {
+    const entry = [song, ...(song.aliases ?? [])]
+      .map((credit) => catalog.find(credit.title, credit.artist))
+      .find(Boolean);
+    if (entry) used.add(entry);
+    return !entry;
+  });
+  return {
+    matched: songs.length - unmatched.length,
+    unmatched,
+    unused: catalog.entries.filter((entry) => !used.has(entry)),
+  };
+};
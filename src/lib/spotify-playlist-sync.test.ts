@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { SpotifyCatalogEntry } from './spotify-catalog';
+import {
+  createFixtureFetch,
+  fetchSpotifyPlaylist,
+  formatSpotifyCatalogDiff,
+  getSpotifyPlaylistUrl,
+  mergeSpotifyCatalog,
+  parseSpotifySyncArgs,
+  type SpotifyPlaylistFixtures,
+} from './spotify-playlist-sync';
+
+const track = (id: string, name: string, artist: string) => ({
+  track: { id, name, artists: [{ name: artist }, { name: 'Someone Else' }] },
+});
+
+const secondPage = 'https://api.spotify.com/v1/playlists/eighties/tracks?offset=2&limit=2';
+const fixtures: SpotifyPlaylistFixtures = {
+  [getSpotifyPlaylistUrl('eighties')]: {
+    items: [
+      track('heaven', 'Heaven - 2011 Remaster', 'Bryan Adams'),
+      track('mickey-2', 'Hey Mickey', 'Toni Basil'),
+    ],
+    next: secondPage,
+  },
+  [secondPage]: { items: [{ track: null }, track('jump', 'Jump', 'Van Halen')], next: null },
+  [getSpotifyPlaylistUrl('nineties')]: {
+    items: [
+      track('everything', '(Everything I Do) I Do It For You', 'Bryan Adams'),
+      track('heaven-live', 'Heaven', 'Bryan Adams'),
+    ],
+    next: null,
+  },
+};
+
+const existing: SpotifyCatalogEntry[] = [
+  {
+    title: '(Everything I Do) I Do It For You - 2017 Ultimate Edit',
+    artist: 'Bryan Adams',
+    spotifyTrackId: 'everything',
+  },
+  { title: 'Heaven', artist: 'Bryan Adams', spotifyTrackId: 'heaven' },
+  {
+    title: 'Hey Mickey',
+    artist: 'Toni Basil',
+    spotifyTrackId: 'mickey-1',
+    aliases: [{ title: 'Mickey', artist: 'Toni Basil' }],
+  },
+  { title: 'Like a Virgin', artist: 'Madonna', spotifyTrackId: 'virgin' },
+];
+
+const readPlaylists = async (...playlistIds: string[]) => {
+  const fetch = createFixtureFetch(fixtures);
+  const playlists = await Promise.all(playlistIds.map((id) => fetchSpotifyPlaylist(id, { fetch })));
+  return playlists.flat();
+};
+
+describe('spotify playlist sync', () => {
+  it('reads every page of a recorded playlist', async () => {
+    expect(await readPlaylists('eighties')).toEqual([
+      { title: 'Heaven', artist: 'Bryan Adams', spotifyTrackId: 'heaven' },
+      { title: 'Hey Mickey', artist: 'Toni Basil', spotifyTrackId: 'mickey-2' },
+      { title: 'Jump', artist: 'Van Halen', spotifyTrackId: 'jump' },
+    ]);
+    await expect(readPlaylists('seventies')).rejects.toThrow(/seventies request failed \(404\)/);
+  });
+
+  it('merges playlists into the catalog, keeping aliases and stored titles', async () => {
+    const { catalog, diff } = mergeSpotifyCatalog(
+      existing,
+      await readPlaylists('eighties', 'nineties')
+    );
+
+    expect(catalog.map((entry) => entry.spotifyTrackId)).toEqual([
+      'everything',
+      'heaven',
+      'mickey-2',
+      'jump',
+      'virgin',
+    ]);
+    expect(catalog[0].title).toBe('(Everything I Do) I Do It For You - 2017 Ultimate Edit');
+    expect(catalog[2].aliases).toEqual([{ title: 'Mickey', artist: 'Toni Basil' }]);
+    expect(diff.added.map((entry) => entry.spotifyTrackId)).toEqual(['jump']);
+    expect(diff.remapped).toEqual([{ entry: catalog[2], previousTrackId: 'mickey-1' }]);
+    expect(diff.removed.map((entry) => entry.spotifyTrackId)).toEqual(['virgin']);
+    expect(diff.unchanged).toBe(2);
+  });
+
+  it('drops entries missing from every playlist only when pruning', async () => {
+    const tracks = await readPlaylists('eighties', 'nineties');
+    const { catalog, diff } = mergeSpotifyCatalog(existing, tracks, { prune: true });
+    expect(catalog.map((entry) => entry.spotifyTrackId)).not.toContain('virgin');
+    expect(formatSpotifyCatalogDiff(diff, { prune: true })).toEqual([
+      '+ Jump — Van Halen (jump)',
+      '~ Hey Mickey — Toni Basil (mickey-1 → mickey-2)',
+      '- Like a Virgin — Madonna (virgin)',
+      '1 track added, 1 remapped, 1 removed, 2 unchanged.',
+    ]);
+  });
+
+  it('parses playlist IDs and options', () => {
+    expect(parseSpotifySyncArgs(['eighties,nineties', 'noughties', '--dry-run'])).toEqual({
+      playlistIds: ['eighties', 'nineties', 'noughties'],
+      dryRun: true,
+      prune: false,
+      record: false,
+    });
+    expect(parseSpotifySyncArgs(['eighties', '--fixtures=playlists.json']).fixtures).toBe(
+      'playlists.json'
+    );
+    expect(() => parseSpotifySyncArgs(['--dry-run'])).toThrow(/Usage/);
+    expect(() => parseSpotifySyncArgs(['eighties', '--record'])).toThrow(/--fixtures/);
+    expect(() => parseSpotifySyncArgs(['eighties', '--force'])).toThrow(/Unknown option/);
+  });
+});
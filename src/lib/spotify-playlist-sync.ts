@@ -0,0 +1,215 @@
+/**
+ * The Spotify playlist sync behind `npm run sync:spotify`: reading playlists through an
+ * injectable `fetch` (so tests and `--fixtures` runs replay recorded API responses), and merging
+ * their tracks into the existing catalog so hand-written aliases and stored titles survive.
+ */
+
+import { createSongKey } from './song-key.js';
+import {
+  cleanSpotifyTitle,
+  createSpotifyCatalog,
+  type SpotifyCatalogEntry,
+} from './spotify-catalog.js';
+
+export type SpotifyFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+/** The fields of a playlist tracks page the sync asks Spotify for. */
+export interface SpotifyPlaylistPage {
+  items?: { track?: { id?: string; name?: string; artists?: { name: string }[] } | null }[];
+  next?: string | null;
+}
+
+/** Recorded API responses keyed by request URL, as written by `sync:spotify --record`. */
+export type SpotifyPlaylistFixtures = Record<string, SpotifyPlaylistPage>;
+
+export const getSpotifyPlaylistUrl = (playlistId: string): string => {
+  const url = new URL(
+    `https://api.spotify.com/v1/playlists/${encodeURIComponent(playlistId)}/tracks`
+  );
+  url.searchParams.set('fields', 'items(track(id,name,artists(name))),next');
+  url.searchParams.set('limit', '100');
+  return url.toString();
+};
+
+/** A `fetch` that answers from recorded responses and fails on anything not recorded. */
+export const createFixtureFetch =
+  (fixtures: SpotifyPlaylistFixtures): SpotifyFetch =>
+  async (url) =>
+    url in fixtures
+      ? new Response(JSON.stringify(fixtures[url]), {
+          headers: { 'Content-Type': 'application/json' },
+        })
+      : new Response(`No recorded response for ${url}`, { status: 404 });
+
+/**
+ * Every track in the playlist, page by page, with its title cleaned and credited to its first
+ * artist. Local files and tracks Spotify no longer has are skipped.
+ */
+export const fetchSpotifyPlaylist = async (
+  playlistId: string,
+  { fetch, token }: { fetch: SpotifyFetch; token?: string }
+): Promise<SpotifyCatalogEntry[]> => {
+  const tracks: SpotifyCatalogEntry[] = [];
+  let next: string | null | undefined = getSpotifyPlaylistUrl(playlistId);
+  while (next) {
+    const res = await fetch(next, token ? { headers: { Authorization: `Bearer ${token}` } } : {});
+    if (!res.ok) {
+      throw new Error(
+        `Spotify playlist ${playlistId} request failed (${res.status}): ${await res.text()}`
+      );
+    }
+
+    const page = (await res.json()) as SpotifyPlaylistPage;
+    for (const { track } of page.items ?? []) {
+      if (!track?.id || !track.name || !track.artists?.length) continue;
+      tracks.push({
+        title: cleanSpotifyTitle(track.name),
+        artist: track.artists[0].name,
+        spotifyTrackId: track.id,
+      });
+    }
+    next = page.next;
+  }
+  return tracks;
+};
+
+export interface SpotifyCatalogRemap {
+  entry: SpotifyCatalogEntry;
+  previousTrackId: string;
+}
+
+export interface SpotifyCatalogDiff {
+  added: SpotifyCatalogEntry[];
+  /** Entries whose song now points at a different track, such as a better release. */
+  remapped: SpotifyCatalogRemap[];
+  /** Entries whose track is in none of the playlists; removed only with `prune`. */
+  removed: SpotifyCatalogEntry[];
+  unchanged: number;
+}
+
+const byTitle = (a: SpotifyCatalogEntry, b: SpotifyCatalogEntry) => a.title.localeCompare(b.title);
+
+/**
+ * Merge playlist tracks into the catalog. A track already in it keeps its entry as is, aliases
+ * and stored title included, so cover slugs stay put. A new track that matches an existing
+ * entry whose own track has left the playlists takes that entry over as a remap; any other new
+ * track is added. Entries left without a track stay unless `prune` is set.
+ */
+export const mergeSpotifyCatalog = (
+  existing: readonly SpotifyCatalogEntry[],
+  tracks: readonly SpotifyCatalogEntry[],
+  { prune = false }: { prune?: boolean } = {}
+): { catalog: SpotifyCatalogEntry[]; diff: SpotifyCatalogDiff } => {
+  const fetchedIds = new Set(tracks.map((track) => track.spotifyTrackId));
+  const existingIds = new Set(existing.map((entry) => entry.spotifyTrackId));
+  const lookup = createSpotifyCatalog(existing);
+  const replaced = new Map<SpotifyCatalogEntry, SpotifyCatalogEntry>();
+  const diff: SpotifyCatalogDiff = { added: [], remapped: [], removed: [], unchanged: 0 };
+
+  // One track per credit: a new track credited like an entry that is still in the playlists is
+  // a duplicate, whichever playlist or position it comes from.
+  const seen = new Set(
+    existing
+      .filter((entry) => fetchedIds.has(entry.spotifyTrackId))
+      .map((entry) => createSongKey(entry.title, entry.artist))
+  );
+  for (const track of tracks) {
+    if (existingIds.has(track.spotifyTrackId)) continue;
+    const key = createSongKey(track.title, track.artist);
+    if (seen.has(track.spotifyTrackId) || seen.has(key)) continue;
+    seen.add(track.spotifyTrackId).add(key);
+
+    const match = lookup.find(track.title, track.artist);
+    if (match && !fetchedIds.has(match.spotifyTrackId) && !replaced.has(match)) {
+      const entry = { ...match, spotifyTrackId: track.spotifyTrackId };
+      replaced.set(match, entry);
+      diff.remapped.push({ entry, previousTrackId: match.spotifyTrackId });
+    } else {
+      diff.added.push(track);
+    }
+  }
+
+  const catalog: SpotifyCatalogEntry[] = [];
+  for (const entry of existing) {
+    const replacement = replaced.get(entry);
+    if (replacement) {
+      catalog.push(replacement);
+    } else if (fetchedIds.has(entry.spotifyTrackId)) {
+      catalog.push(entry);
+      diff.unchanged += 1;
+    } else {
+      diff.removed.push(entry);
+      if (!prune) catalog.push(entry);
+    }
+  }
+  // Insert rather than re-sort, so a sync's diff of the catalog file shows only its changes.
+  for (const track of [...diff.added].sort(byTitle)) {
+    const index = catalog.findIndex((entry) => byTitle(entry, track) > 0);
+    catalog.splice(index === -1 ? catalog.length : index, 0, track);
+  }
+  return { catalog, diff };
+};
+
+/** A readable summary of a merge, one line per change and a count line last. */
+export const formatSpotifyCatalogDiff = (diff: SpotifyCatalogDiff, { prune = false } = {}) => {
+  const credit = (entry: SpotifyCatalogEntry) => `${entry.title} — ${entry.artist}`;
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+  return [
+    ...diff.added.map((entry) => `+ ${credit(entry)} (${entry.spotifyTrackId})`),
+    ...diff.remapped.map(
+      ({ entry, previousTrackId }) =>
+        `~ ${credit(entry)} (${previousTrackId} → ${entry.spotifyTrackId})`
+    ),
+    ...diff.removed.map(
+      (entry) =>
+        `${prune ? '-' : '?'} ${credit(entry)} (${entry.spotifyTrackId}${prune ? '' : ', kept; not in any playlist'})`
+    ),
+    `${plural(diff.added.length, 'track')} added, ${diff.remapped.length} remapped, ${diff.removed.length} ${prune ? 'removed' : 'not in any playlist'}, ${diff.unchanged} unchanged.`,
+  ];
+};
+
+export interface SpotifySyncOptions {
+  playlistIds: string[];
+  /** Print the diff without writing the catalog. */
+  dryRun: boolean;
+  /** Drop entries whose track is in none of the playlists. */
+  prune: boolean;
+  /** Replay recorded responses from this file rather than calling Spotify. */
+  fixtures?: string;
+  /** Save every response to the fixture file. */
+  record: boolean;
+}
+
+const syncUsage =
+  'Usage: sync:spotify <playlistId...> [--dry-run] [--prune] [--fixtures <file>] [--record]';
+
+/** Parse playlist IDs and options; see the usage message for the full list. */
+export const parseSpotifySyncArgs = (args: string[]): SpotifySyncOptions => {
+  const options: SpotifySyncOptions = {
+    playlistIds: [],
+    dryRun: false,
+    prune: false,
+    record: false,
+  };
+  for (let index = 0; index < args.length; index += 1) {
+    const [flag, inline] = args[index].split(/=(.*)/s, 2);
+    if (flag === '--dry-run') {
+      options.dryRun = true;
+    } else if (flag === '--prune') {
+      options.prune = true;
+    } else if (flag === '--record') {
+      options.record = true;
+    } else if (flag === '--fixtures') {
+      const value = inline ?? args[(index += 1)];
+      if (value === undefined || value === '') throw new Error('--fixtures needs a value.');
+      options.fixtures = value;
+    } else if (flag.startsWith('--')) {
+      throw new Error(`Unknown option "${args[index]}". ${syncUsage}`);
+    } else {
+      options.playlistIds.push(...flag.split(',').filter(Boolean));
+    }
+  }
+  if (!options.playlistIds.length) throw new Error(syncUsage);
+  if (options.record && !options.fixtures) throw new Error('--record needs --fixtures <file>.');
+  return options;
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PREFERRED_PROVIDER_STORAGE_KEY,
+  createTrackLinks,
+  getTrackToggleLabel,
+  isPlaybackEndedMessage,
+  listTrackLinks,
+  parseTrackLinks,
+  pickTrackLink,
+  readPreferredProvider,
+  streamingProviderInfo,
+} from './track-links';
+
+const links = {
+  spotify: '4uLU6hMCjMI75M1A2tKUQC',
+  youtube: 'dQw4w9WgXcQ',
+  bandcamp: 'https://rickastley.bandcamp.com/track/never-gonna-give-you-up',
+};
+
+describe('track links', () => {
+  it('merges sources, earlier ones winning', () => {
+    expect(createTrackLinks({ spotify: 'a' }, { spotify: 'b', youtube: 'c' })).toEqual({
+      spotify: 'a',
+      youtube: 'c',
+    });
+    expect(createTrackLinks({ spotify: undefined }, undefined)).toBeUndefined();
+  });
+
+  it('reads links back from a data attribute', () => {
+    expect(parseTrackLinks(JSON.stringify({ ...links, tidal: 'x', appleMusic: 42 }))).toEqual(
+      links
+    );
+    expect(parseTrackLinks('not json')).toBeUndefined();
+    expect(parseTrackLinks(undefined)).toBeUndefined();
+  });
+
+  it('prefers the visitor’s provider when the song has it', () => {
+    expect(pickTrackLink(links, 'youtube')).toMatchObject({
+      provider: 'youtube',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      embed: {
+        src: 'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?autoplay=1&enablejsapi=1',
+      },
+    });
+    expect(pickTrackLink(links, 'appleMusic')?.provider).toBe('spotify');
+    expect(pickTrackLink(undefined, 'spotify')).toBeUndefined();
+    expect(listTrackLinks(links).map((link) => link.provider)).toEqual([
+      'spotify',
+      'youtube',
+      'bandcamp',
+    ]);
+  });
+
+  it('falls back to an outbound link for providers without an embed', () => {
+    const bandcamp = pickTrackLink(links, 'bandcamp')!;
+    expect(bandcamp.embed).toBeUndefined();
+    expect(bandcamp.url).toBe(links.bandcamp);
+    expect(getTrackToggleLabel(bandcamp)).toBe('Listen on Bandcamp');
+    expect(getTrackToggleLabel(bandcamp, true)).toBe('Hide Bandcamp link');
+    expect(getTrackToggleLabel(pickTrackLink(links)!, true)).toBe('Hide Spotify player');
+  });
+
+  it('serves each player from its provider’s embed origin', () => {
+    for (const info of Object.values(streamingProviderInfo)) {
+      if (info.getEmbed) expect(new URL(info.getEmbed('x').src).origin).toBe(info.embedOrigin);
+      else expect(info.embedOrigin).toBeUndefined();
+    }
+  });
+
+  it('validates stored IDs per provider', () => {
+    expect(streamingProviderInfo.spotify.pattern.test(links.spotify)).toBe(true);
+    expect(streamingProviderInfo.appleMusic.pattern.test('1440833098')).toBe(true);
+    expect(streamingProviderInfo.youtube.pattern.test('https://youtu.be/dQw4w9WgXcQ')).toBe(false);
+    expect(streamingProviderInfo.bandcamp.pattern.test('https://bandcamp.com/')).toBe(false);
+  });
+
+  it('recognises the end of a track in player messages', () => {
+    const spotify = (position: number, duration = 200_000) => ({
+      type: 'playback_update',
+      payload: { isPaused: false, position, duration },
+    });
+    expect(isPlaybackEndedMessage('https://open.spotify.com', spotify(199_400))).toBe(true);
+    expect(isPlaybackEndedMessage('https://open.spotify.com', spotify(60_000))).toBe(false);
+    expect(isPlaybackEndedMessage('https://open.spotify.com', spotify(0, 0))).toBe(false);
+    expect(isPlaybackEndedMessage('https://example.com', spotify(199_400))).toBe(false);
+
+    const youtube = 'https://www.youtube-nocookie.com';
+    expect(isPlaybackEndedMessage(youtube, '{"event":"onStateChange","info":0}')).toBe(true);
+    expect(
+      isPlaybackEndedMessage(youtube, '{"event":"infoDelivery","info":{"playerState":0}}')
+    ).toBe(true);
+    expect(isPlaybackEndedMessage(youtube, '{"event":"onStateChange","info":1}')).toBe(false);
+    expect(isPlaybackEndedMessage(youtube, 'not json')).toBe(false);
+  });
+
+  it('reads the preferred provider from storage', () => {
+    const storage = (value: string | null) => ({ getItem: () => value });
+    expect(PREFERRED_PROVIDER_STORAGE_KEY).toBe('preferred-streaming-provider');
+    expect(readPreferredProvider(storage('appleMusic'))).toBe('appleMusic');
+    expect(readPreferredProvider(storage('tidal'))).toBeNull();
+    expect(readPreferredProvider(undefined)).toBeNull();
+    expect(
+      readPreferredProvider({
+        getItem: () => {
+          throw new Error('SecurityError');
+        },
+      })
+    ).toBeNull();
+  });
+});
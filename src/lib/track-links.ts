@@ -0,0 +1,213 @@
+/**
+ * Where a song can be played: one ID per streaming provider, how each provider embeds a player
+ * or links out, and which provider to use for a visitor who prefers one. Shared by the pages that
+ * render play buttons and by `src/scripts/track-embeds.ts`, which builds the players.
+ */
+
+export const streamingProviders = ['spotify', 'appleMusic', 'youtube', 'bandcamp'] as const;
+
+export type StreamingProvider = (typeof streamingProviders)[number];
+
+/** IDs keyed by provider; see `streamingProviderInfo` for the form each one takes. */
+export type TrackLinks = Partial<Record<StreamingProvider, string>>;
+
+export interface TrackEmbed {
+  src: string;
+  height: number;
+  allow: string;
+}
+
+interface StreamingProviderInfo {
+  label: string;
+  /**
+   * Whether the site offers the provider. Songs keep IDs for a provider that is turned off, but
+   * no button offers it and the generated Content-Security-Policy does not allow its player.
+   */
+  enabled: boolean;
+  /** What a stored ID must look like. */
+  pattern: RegExp;
+  getUrl: (id: string) => string;
+  /** Missing when the provider cannot be embedded from the stored ID; the toggle links out. */
+  getEmbed?: (id: string) => TrackEmbed;
+  /** Where `getEmbed` players are served from, for the CSP and for checking their messages. */
+  embedOrigin?: string;
+}
+
+// Spotify reports progress about twice a second, so its last update can fall short of the end.
+const SPOTIFY_END_TOLERANCE_MS = 1000;
+const YOUTUBE_ENDED = 0;
+
+const playerAllow = 'autoplay; clipboard-write; encrypted-media; fullscreen; picture-in-picture';
+
+export const streamingProviderInfo: Record<StreamingProvider, StreamingProviderInfo> = {
+  spotify: {
+    label: 'Spotify',
+    enabled: true,
+    pattern: /^[A-Za-z0-9]{22}$/,
+    getUrl: (id) => `https://open.spotify.com/track/${id}`,
+    getEmbed: (id) => ({
+      src: `https://open.spotify.com/embed/track/${id}?utm_source=oembed`,
+      height: 80,
+      allow: playerAllow,
+    }),
+    embedOrigin: 'https://open.spotify.com',
+  },
+  appleMusic: {
+    label: 'Apple Music',
+    enabled: true,
+    pattern: /^\d+$/,
+    getUrl: (id) => `https://music.apple.com/us/song/${id}`,
+    getEmbed: (id) => ({
+      src: `https://embed.music.apple.com/us/song/${id}`,
+      height: 175,
+      allow: 'autoplay *; encrypted-media *; fullscreen *; clipboard-write',
+    }),
+    embedOrigin: 'https://embed.music.apple.com',
+  },
+  youtube: {
+    label: 'YouTube',
+    enabled: true,
+    pattern: /^[A-Za-z0-9_-]{11}$/,
+    getUrl: (id) => `https://www.youtube.com/watch?v=${id}`,
+    getEmbed: (id) => ({
+      src: `https://www.youtube-nocookie.com/embed/${id}?autoplay=1&enablejsapi=1`,
+      height: 180,
+      allow: playerAllow,
+    }),
+    embedOrigin: 'https://www.youtube-nocookie.com',
+  },
+  // Bandcamp's player takes a numeric track ID that only the track page exposes, so the
+  // stored ID is the track page itself and the toggle links to it.
+  bandcamp: {
+    label: 'Bandcamp',
+    enabled: true,
+    pattern: /^https:\/\/[a-z0-9-]+\.bandcamp\.com\/track\/[a-z0-9-]+$/,
+    getUrl: (id) => id,
+  },
+};
+
+export const isStreamingProvider = (value: unknown): value is StreamingProvider =>
+  streamingProviders.includes(value as StreamingProvider);
+
+/** The providers turned on in `streamingProviderInfo`, in provider order. */
+export const enabledStreamingProviders: readonly StreamingProvider[] = streamingProviders.filter(
+  (provider) => streamingProviderInfo[provider].enabled
+);
+
+const isEnabledProvider = (value: unknown): value is StreamingProvider =>
+  enabledStreamingProviders.includes(value as StreamingProvider);
+
+/** Merge link sources, earlier ones winning per provider; undefined when none has an ID. */
+export const createTrackLinks = (
+  ...sources: (TrackLinks | null | undefined)[]
+): TrackLinks | undefined => {
+  const links: TrackLinks = {};
+  for (const provider of streamingProviders) {
+    const id = sources.find((source) => source?.[provider])?.[provider];
+    if (id) links[provider] = id;
+  }
+  return Object.keys(links).length ? links : undefined;
+};
+
+/** Links from loosely typed data such as fetched JSON, ignoring unknown providers. */
+export const readTrackLinks = (value: unknown): TrackLinks | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  return createTrackLinks(
+    Object.fromEntries(
+      Object.entries(value).filter(
+        ([provider, id]) => isStreamingProvider(provider) && typeof id === 'string'
+      )
+    )
+  );
+};
+
+/** Read links back from a `data-track-links` attribute, ignoring unknown providers. */
+export const parseTrackLinks = (value: string | undefined): TrackLinks | undefined => {
+  if (!value) return undefined;
+  try {
+    return readTrackLinks(JSON.parse(value));
+  } catch {
+    return undefined;
+  }
+};
+
+export interface TrackLink {
+  provider: StreamingProvider;
+  id: string;
+  label: string;
+  url: string;
+  embed?: TrackEmbed;
+}
+
+const toTrackLink = (provider: StreamingProvider, id: string): TrackLink => {
+  const info = streamingProviderInfo[provider];
+  return { provider, id, label: info.label, url: info.getUrl(id), embed: info.getEmbed?.(id) };
+};
+
+/** Every available link from a provider that is turned on, in provider order. */
+export const listTrackLinks = (links: TrackLinks | undefined): TrackLink[] =>
+  enabledStreamingProviders.flatMap((provider) => {
+    const id = links?.[provider];
+    return id ? [toTrackLink(provider, id)] : [];
+  });
+
+/** The visitor's preferred provider when the song has it, otherwise the first available. */
+export const pickTrackLink = (
+  links: TrackLinks | undefined,
+  preferred?: StreamingProvider | null
+): TrackLink | undefined => {
+  const id = isEnabledProvider(preferred) ? links?.[preferred] : undefined;
+  return preferred && id ? toTrackLink(preferred, id) : listTrackLinks(links)[0];
+};
+
+/** Text for the play toggle: embeddable providers play in place, the rest reveal a link. */
+export const getTrackToggleLabel = (link: TrackLink, open = false): string => {
+  if (open) return `Hide ${link.label} ${link.embed ? 'player' : 'link'}`;
+  return `${link.embed ? 'Play' : 'Listen'} on ${link.label}`;
+};
+
+/** The `localStorage` key holding the visitor's preferred provider. */
+export const PREFERRED_PROVIDER_STORAGE_KEY = 'preferred-streaming-provider';
+
+export const readPreferredProvider = (
+  storage: Pick<Storage, 'getItem'> | undefined
+): StreamingProvider | null => {
+  try {
+    const value = storage?.getItem(PREFERRED_PROVIDER_STORAGE_KEY);
+    return isEnabledProvider(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether a `message` event from an embedded player says its track has finished. Spotify posts
+ * `playback_update` objects with times in milliseconds; YouTube posts JSON strings once the page
+ * has sent it a `listening` message. Apple Music posts nothing a page can use.
+ */
+export const isPlaybackEndedMessage = (origin: string, data: unknown): boolean => {
+  if (origin === streamingProviderInfo.spotify.embedOrigin) {
+    if (!data || typeof data !== 'object') return false;
+    const { type, payload } = data as { type?: unknown; payload?: Record<string, unknown> };
+    if (type !== 'playback_update' || !payload) return false;
+    const { duration, position } = payload;
+    return (
+      typeof duration === 'number' &&
+      typeof position === 'number' &&
+      duration > 0 &&
+      position >= duration - SPOTIFY_END_TOLERANCE_MS
+    );
+  }
+  if (origin === streamingProviderInfo.youtube.embedOrigin && typeof data === 'string') {
+    try {
+      const { event, info } = JSON.parse(data) as { event?: unknown; info?: unknown };
+      if (event === 'onStateChange') return info === YOUTUBE_ENDED;
+      if (event === 'infoDelivery' && info && typeof info === 'object') {
+        return (info as { playerState?: unknown }).playerState === YOUTUBE_ENDED;
+      }
+    } catch {
+      return false;
+    }
+  }
+  return false;
+};
@@ -0,0 +1,12 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getOnThisDayIndexFile } from '../../lib/on-this-day-index';
+
+export const getStaticPaths = (async () => {
+  const { name, body } = await getOnThisDayIndexFile();
+  return [{ params: { file: name }, props: { body } }];
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = ({ props }) =>
+  new Response(props.body as string, {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
@@ -0,0 +1,12 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { loadPlaylists } from '../../../lib/playlist-index';
+
+export const getStaticPaths = (async () => {
+  const files = await loadPlaylists();
+  return files.map(({ kind, slug, playlist }) => ({ params: { kind, slug }, props: { playlist } }));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = ({ props }) =>
+  new Response(JSON.stringify(props.playlist), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
@@ -0,0 +1,12 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getSiteSearchFiles } from '../../lib/site-search-index';
+
+export const getStaticPaths = (async () => {
+  const { files } = await getSiteSearchFiles();
+  return files.map(({ name, body }) => ({ params: { file: name }, props: { body } }));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = ({ props }) =>
+  new Response(props.body as string, {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
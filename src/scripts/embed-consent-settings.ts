@@ -0,0 +1,55 @@
+import {
+  EMBED_CONSENT_STORAGE_KEY,
+  getStorage,
+  readEmbedConsent,
+  revokeEmbedConsent,
+} from '../lib/embed-consent';
+import { isStreamingProvider } from '../lib/track-links';
+
+const STATUS_SELECTOR = '[data-embed-consent-status]';
+const REVOKE_SELECTOR = 'button[data-embed-consent-revoke]';
+const INITIALIZED_FLAG = '__embedConsentSettingsInitialized';
+
+const hasDOM = typeof window !== 'undefined' && typeof document !== 'undefined';
+
+if (hasDOM) {
+  const globalScope = window as typeof window & Record<string, unknown>;
+  if (globalScope[INITIALIZED_FLAG]) {
+    // prevent duplicate init
+  } else {
+    globalScope[INITIALIZED_FLAG] = true;
+
+    /** Show each provider's remembered choice; the about page renders them all as unknown. */
+    const render = () => {
+      const granted = readEmbedConsent(getStorage());
+      document.querySelectorAll<HTMLElement>(STATUS_SELECTOR).forEach((status) => {
+        const provider = status.dataset.embedConsentStatus;
+        status.textContent =
+          isStreamingProvider(provider) && granted.includes(provider)
+            ? 'Always loads'
+            : 'Asks first';
+      });
+      document.querySelectorAll<HTMLButtonElement>(REVOKE_SELECTOR).forEach((button) => {
+        const provider = button.dataset.embedConsentRevoke;
+        button.disabled = provider
+          ? !isStreamingProvider(provider) || !granted.includes(provider)
+          : !granted.length;
+      });
+    };
+
+    document.addEventListener('click', (event) => {
+      const button = (event.target as Element | null)?.closest<HTMLButtonElement>(REVOKE_SELECTOR);
+      if (!button) return;
+      const provider = button.dataset.embedConsentRevoke;
+      revokeEmbedConsent(getStorage(), isStreamingProvider(provider) ? provider : undefined);
+      render();
+    });
+
+    window.addEventListener('storage', (event) => {
+      if (event.key === EMBED_CONSENT_STORAGE_KEY || event.key === null) render();
+    });
+
+    render();
+    document.addEventListener('prefetch:navigated', render);
+  }
+}
@@ -0,0 +1,61 @@
+const hasDOM = typeof window !== 'undefined' && typeof document !== 'undefined';
+
+const FACETS_SELECTOR = '[data-genre-facets]';
+const FACET_HANDLER_INITIALIZED_ATTR = 'facetHandlerInitialized';
+
+export function initializeGenreFacets() {
+  if (!hasDOM) {
+    return;
+  }
+
+  const facetGroups = Array.from(document.querySelectorAll<HTMLElement>(FACETS_SELECTOR));
+
+  facetGroups.forEach((group) => {
+    if (group.dataset[FACET_HANDLER_INITIALIZED_ATTR] === 'true') {
+      return;
+    }
+
+    const tableId = group.dataset.genreFacets;
+    const table = tableId ? document.getElementById(tableId) : null;
+    const body = table instanceof HTMLTableElement ? table.tBodies[0] : null;
+    if (!body) return;
+
+    const buttons = Array.from(group.querySelectorAll<HTMLButtonElement>('[data-genre-facet]'));
+    const status = group.querySelector<HTMLElement>('[data-genre-facet-status]');
+    const rows = Array.from(body.querySelectorAll<HTMLTableRowElement>('tr'));
+
+    const applyFacet = (slug: string) => {
+      let visible = 0;
+      rows.forEach((row) => {
+        const genres = (row.dataset.genres ?? '').split(' ');
+        const matches = !slug || genres.includes(slug);
+        row.hidden = !matches;
+        if (matches) visible += 1;
+      });
+
+      buttons.forEach((button) => {
+        button.setAttribute('aria-pressed', String(button.dataset.genreFacet === slug));
+      });
+
+      if (status) {
+        status.textContent = slug ? `Showing ${visible} of ${rows.length} songs` : '';
+      }
+    };
+
+    buttons.forEach((button) => {
+      button.addEventListener('click', () => {
+        const slug = button.dataset.genreFacet ?? '';
+        const isActive = button.getAttribute('aria-pressed') === 'true';
+        applyFacet(isActive ? '' : slug);
+      });
+    });
+
+    group.hidden = false;
+    group.dataset[FACET_HANDLER_INITIALIZED_ATTR] = 'true';
+  });
+}
+
+if (hasDOM) {
+  initializeGenreFacets();
+  document.addEventListener('prefetch:navigated', initializeGenreFacets);
+}
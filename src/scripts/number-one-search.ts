@@ -1,39 +1,49 @@
 /**
  * Billboard Hot 100 Archive – Client-Side Search (Progressive + Fade-In)
  * ----------------------------------------------------------------------
- * - Loads search index from inline data, sessionStorage, or JSON file
- * - Dynamically renders results when searched
+ * - Loads only the static index shards a query needs (`src/lib/site-search-shards.ts`)
+ * - Searches every collection with the same engine as the server render
+ *   (`src/lib/site-search.ts`), highlights the matched words, and filters by result type
  * - Fades in list once initialized
  */
 
+import { getStorage } from '../lib/embed-consent';
+import { highlightSearchMatches, type HighlightSegment } from '../lib/search-engine';
+import {
+  getSiteSearchTarget,
+  isSiteSearchType,
+  type SiteSearchDocument,
+  type SiteSearchResult,
+  type SiteSearchSongRecord,
+  type SiteSearchType,
+} from '../lib/site-search';
+import {
+  describeSearchFilter,
+  formatSearchQuery,
+  formatSearchQueryError,
+  type ParsedSearchQuery,
+} from '../lib/search-query';
+import { createShardedSiteSearch, type SiteSearchManifest } from '../lib/site-search-shards';
+import { getTrackToggleLabel, pickTrackLink, readPreferredProvider } from '../lib/track-links';
+
 (() => {
-  interface NumberOneSearchRecordAppearance {
-    year: number;
-    slug: string;
-    yearRanking: number;
-    sequence: number;
-  }
-
-  interface NumberOneSearchRecord {
-    id: string;
-    title: string;
-    artist: string;
-    notes: string[];
-    appearances: NumberOneSearchRecordAppearance[];
-    spotifyTrackId?: string;
-    tokens: string[];
-  }
-
-  const normalize = (value: string): string =>
+  const escapeHtml = (value: string): string =>
     value
-      .normalize('NFD')
-      .replace(/[\u0300-\u036f]/g, '')
-      .toLowerCase();
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+
+  const renderSegments = (segments: HighlightSegment[]): string =>
+    segments
+      .map((segment) =>
+        segment.match ? `<mark>${escapeHtml(segment.text)}</mark>` : escapeHtml(segment.text)
+      )
+      .join('');
 
-  const tokenize = (value: string): string[] =>
-    normalize(value)
-      .split(/[^a-z0-9]+/i)
-      .filter(Boolean);
+  /** Same output as `SearchHighlight.astro`, as an HTML string. */
+  const highlight = (text: string, tokens: string[] | undefined): string =>
+    renderSegments(highlightSearchMatches(text, tokens));
 
   /* ----------------------------- DOM Elements ----------------------------- */
 
@@ -41,65 +51,84 @@
   const input = document.querySelector<HTMLInputElement>('[data-number-one-search-input]');
   const empty = document.querySelector<HTMLElement>('[data-number-one-search-empty]');
   const count = document.querySelector<HTMLElement>('[data-number-one-search-count]');
-  const container = document.querySelector<HTMLElement>('[data-number-one-search-index-json]');
+  const errorList = document.querySelector<HTMLElement>('[data-number-one-search-errors]');
+  const container = document.querySelector<HTMLElement>('[data-site-search-manifest]');
   const form = document.querySelector<HTMLFormElement>('[data-number-one-search-form]');
+  const facets = document.querySelector<HTMLElement>('[data-site-search-facets]');
+  const facetButtons = Array.from(
+    document.querySelectorAll<HTMLButtonElement>('[data-site-search-type]')
+  );
   const clearButtons = Array.from(
     document.querySelectorAll<HTMLButtonElement>('[data-number-one-search-clear]')
   );
   const triggerButtons = Array.from(
     document.querySelectorAll<HTMLButtonElement>('[data-number-one-search-trigger]')
   );
-  const defaultCountMessage = 'Type to search for #1 hits…';
+  const defaultCountMessage = 'Type to search the archive…';
 
   if (!list || !input) return;
 
   /* ------------------------- Load Search Index ---------------------------- */
 
-  const loadIndex = async (): Promise<NumberOneSearchRecord[]> => {
-    // 1. Check sessionStorage cache
-    const cached = sessionStorage.getItem('number-one-search-index');
-    if (cached) {
-      try {
-        return JSON.parse(cached) as NumberOneSearchRecord[];
-      } catch {
-        sessionStorage.removeItem('number-one-search-index');
-      }
-    }
-
-    // 2. Try inline data from Astro
-    const payload = container?.getAttribute('data-number-one-search-index-json');
-    if (payload) {
-      try {
-        const data = JSON.parse(payload) as NumberOneSearchRecord[];
-        sessionStorage.setItem('number-one-search-index', JSON.stringify(data));
-        return data;
-      } catch (err) {
-        console.error('Failed to parse embedded search index:', err);
-      }
-    }
-
-    // 3. Progressive load from JSON file
+  const readManifest = (): SiteSearchManifest | undefined => {
+    const payload = container?.getAttribute('data-site-search-manifest');
+    if (!payload) return undefined;
     try {
-      const res = await fetch('/number-one-search-index.json', { cache: 'force-cache' });
-      if (!res.ok) throw new Error(`Request failed: ${res.status}`);
-      const data = (await res.json()) as NumberOneSearchRecord[];
-      sessionStorage.setItem('number-one-search-index', JSON.stringify(data));
-      return data;
+      return JSON.parse(payload) as SiteSearchManifest;
     } catch (err) {
-      console.error('❌ Could not load search index:', err);
-      return [];
+      console.error('Failed to parse search index manifest:', err);
+      return undefined;
     }
   };
 
+  // Shard names carry a content hash, so the browser and service worker may keep them forever.
+  const fetchShard = async (url: string): Promise<unknown> => {
+    const res = await fetch(url, { cache: 'force-cache' });
+    if (!res.ok) throw new Error(`Request failed: ${res.status}`);
+    return res.json();
+  };
+
   /* --------------------------- Rendering Logic ---------------------------- */
 
-  const createResultItem = (entry: NumberOneSearchRecord): HTMLLIElement => {
+  const createDocumentItem = (
+    record: SiteSearchDocument,
+    matches: SiteSearchResult['matches']
+  ): HTMLLIElement => {
+    const li = document.createElement('li');
+    li.className = 'number-one-search-results__item site-search-result';
+    li.dataset.entryId = record.id;
+    const { href, snippet } = getSiteSearchTarget(record, matches);
+
+    const subtitleMarkup = record.subtitle
+      ? `<span class="number-one-search-results__artist">by ${highlight(record.subtitle, matches.subtitle)}</span>`
+      : '';
+    const snippetMarkup = snippet.length
+      ? `<p class="site-search-result__snippet">${renderSegments(snippet)}</p>`
+      : '';
+
+    li.innerHTML = `
+      <header class="number-one-search-results__header">
+        <span class="number-one-search-results__year">${escapeHtml(record.label)}</span>
+        <h3 class="number-one-search-results__title">
+          <a class="number-one-search-results__song site-search-result__link" href="${escapeHtml(href)}">${highlight(record.title, matches.title)}</a>
+          ${subtitleMarkup}
+        </h3>
+      </header>
+      ${snippetMarkup}
+    `;
+    return li;
+  };
+
+  const createSongItem = (
+    { song: entry }: SiteSearchSongRecord,
+    matches: SiteSearchResult['matches']
+  ): HTMLLIElement => {
     const li = document.createElement('li');
     li.className = 'number-one-search-results__item';
     li.dataset.entryId = entry.id;
     const embedId = `search-${entry.id}`;
 
-    const notes = entry.notes.map((note) => `<li>${note}</li>`).join('');
+    const notes = entry.notes.map((note) => `<li>${highlight(note, matches.text)}</li>`).join('');
 
     const notesMarkup = notes ? `<ul class="number-one-search-results__notes">${notes}</ul>` : '';
     const yearsLabel = entry.appearances.map((appearance) => appearance.year).join(', ');
@@ -117,18 +146,20 @@
       })
       .join('');
 
-    const spotifyMarkup = entry.spotifyTrackId
-      ? `<div class="number-one-search-results__spotify">
+    const trackLink = pickTrackLink(entry.links, readPreferredProvider(getStorage()));
+    const playerMarkup = trackLink
+      ? `<div class="number-one-search-results__player">
             <button
               type="button"
-              class="overall-ranking-list__spotify-toggle"
-              data-track-id="${entry.spotifyTrackId}"
+              class="overall-ranking-list__play-toggle"
+              data-track-links="${escapeHtml(JSON.stringify(entry.links))}"
+              data-track-title="${escapeHtml(entry.title)}"
               aria-controls="${embedId}"
               aria-expanded="false"
             >
-              Play on Spotify
+              ${escapeHtml(getTrackToggleLabel(trackLink))}
             </button>
-            <div id="${embedId}" class="overall-ranking-list__spotify" hidden></div>
+            <div id="${embedId}" class="overall-ranking-list__player" hidden></div>
           </div>`
       : '';
 
@@ -136,33 +167,25 @@
       <header class="number-one-search-results__header">
         <span class="number-one-search-results__year">${yearsLabel}</span>
         <h3 class="number-one-search-results__title">
-          <span class="number-one-search-results__song">“${entry.title}”</span>
+          <span class="number-one-search-results__song">“${highlight(entry.title, matches.title)}”</span>
           <span class="number-one-search-results__artist">
-            by <a class="number-one-search-results__artist-link" href="/search/?q=${encodeURIComponent(entry.artist)}">${entry.artist}</a>
+            by <a class="number-one-search-results__artist-link" href="/search/?q=${encodeURIComponent(entry.artist)}">${highlight(entry.artist, matches.subtitle)}</a>
           </span>
         </h3>
       </header>
       ${notesMarkup}
       <div class="number-one-search-results__actions">
         <div class="number-one-search-results__recaps">${recapLinks}</div>
-        ${spotifyMarkup}
+        ${playerMarkup}
       </div>
     `;
     return li;
   };
 
-  const sortResults = (items: NumberOneSearchRecord[]) =>
-    items.slice().sort((a, b) => {
-      const aFirst = a.appearances[0];
-      const bFirst = b.appearances[0];
-      if (!aFirst || !bFirst) return 0;
-      if (aFirst.year === bFirst.year) {
-        return aFirst.sequence - bFirst.sequence;
-      }
-      return aFirst.year - bFirst.year;
-    });
+  const createResultItem = ({ record, matches }: SiteSearchResult): HTMLLIElement =>
+    record.type === 'song' ? createSongItem(record, matches) : createDocumentItem(record, matches);
 
-  const renderResults = (results: NumberOneSearchRecord[]) => {
+  const renderResults = (results: SiteSearchResult[]) => {
     list.innerHTML = '';
     if (!results.length) return;
     const fragment = document.createDocumentFragment();
@@ -170,64 +193,144 @@
     list.append(fragment);
   };
 
+  let activeType: SiteSearchType | undefined;
+
+  const renderFacets = (counts: Record<SiteSearchType, number> | undefined, total: number) => {
+    if (facets) facets.hidden = !counts;
+    facetButtons.forEach((button) => {
+      const type = button.dataset.siteSearchType;
+      const facetType = isSiteSearchType(type) ? type : undefined;
+      const facetCount = facetType ? (counts?.[facetType] ?? 0) : total;
+      const countLabel = button.querySelector('.site-search-facets__count');
+      if (countLabel) countLabel.textContent = String(facetCount);
+      button.setAttribute('aria-pressed', String(facetType === activeType));
+      button.disabled = facetType !== activeType && facetCount === 0;
+    });
+  };
+
   /* --------------------------- Search Filtering --------------------------- */
 
-  const filterResults = (
-    query: string,
-    index: NumberOneSearchRecord[]
-  ): NumberOneSearchRecord[] => {
-    const terms = tokenize(query);
-    if (!terms.length) return [];
-    const matches = index.filter((record) =>
-      terms.every((term) => record.tokens.some((token) => token.includes(term)))
-    );
-    return sortResults(matches);
+  const renderErrors = (query: string, parsed: ParsedSearchQuery | undefined) => {
+    const errors = parsed?.errors ?? [];
+    if (errorList) {
+      errorList.innerHTML = errors
+        .map((error) => `<li>${escapeHtml(formatSearchQueryError(query, error))}</li>`)
+        .join('');
+      errorList.hidden = !errors.length;
+    }
+    if (errors.length) {
+      input.setAttribute('aria-invalid', 'true');
+    } else {
+      input.removeAttribute('aria-invalid');
+    }
   };
 
-  const updateUI = (query: string, index: NumberOneSearchRecord[]) => {
-    const results = filterResults(query, index);
+  /**
+   * Keep `?q=` and `?type=` in step with the box so searches can be shared and reloaded. Valid
+   * queries are written in canonical form; a query with errors is kept as typed.
+   */
+  const syncUrl = (query: string, parsed: ParsedSearchQuery | undefined) => {
+    const url = new URL(window.location.href);
+    const value = parsed && !parsed.errors.length ? formatSearchQuery(parsed) : query.trim();
+    if (value) {
+      url.searchParams.set('q', value);
+    } else {
+      url.searchParams.delete('q');
+    }
+    if (activeType) {
+      url.searchParams.set('type', activeType);
+    } else {
+      url.searchParams.delete('type');
+    }
+    if (url.href !== window.location.href) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  };
+
+  const resetResults = () => {
+    list.innerHTML = '';
+    renderFacets(undefined, 0);
+    renderErrors('', undefined);
+    syncUrl('', undefined);
+    if (empty) empty.hidden = true;
+    if (count) count.textContent = defaultCountMessage;
+  };
+
+  /** Bumped on every search so a slow shard load cannot overwrite newer results. */
+  let latestSearch = 0;
+
+  const updateUI = async (query: string, search: ReturnType<typeof createShardedSiteSearch>) => {
+    const searchId = ++latestSearch;
+    if (!query.trim()) {
+      resetResults();
+      return;
+    }
+    let response: Awaited<ReturnType<typeof search.search>>;
+    try {
+      response = await search.search(query, { type: activeType });
+    } catch (err) {
+      console.error('❌ Could not load search index:', err);
+      if (searchId === latestSearch && count) count.textContent = 'Failed to load search index.';
+      return;
+    }
+    if (searchId !== latestSearch) return;
+    const { results, facets: counts, total, query: parsed } = response;
     renderResults(results);
+    renderFacets(counts, total);
+    renderErrors(query, parsed);
+    syncUrl(query, parsed);
     const visible = results.length;
+    const filterSummary = parsed.filters
+      .map((filter) => ` · ${describeSearchFilter(filter)}`)
+      .join('');
 
     if (empty) empty.hidden = visible > 0;
     if (count)
       count.textContent = visible
-        ? `${visible} matching #1 hit${visible > 1 ? 's' : ''}`
-        : 'No #1 hits match your search.';
+        ? `${visible} matching result${visible > 1 ? 's' : ''}${filterSummary}`
+        : 'Nothing in the archive matches your search.';
   };
 
   /* ---------------------------- Initialization ---------------------------- */
 
   (async () => {
-    const index = await loadIndex();
-    if (!index.length) {
+    const manifest = readManifest();
+    if (!manifest) {
       if (count) count.textContent = 'Failed to load search index.';
       return;
     }
 
     if (count) count.textContent = defaultCountMessage;
+    const search = createShardedSiteSearch(manifest, fetchShard);
 
-    const handleInput = (event: Event) => updateUI((event.target as HTMLInputElement).value, index);
+    const handleInput = (event: Event) =>
+      updateUI((event.target as HTMLInputElement).value, search);
 
     input.addEventListener('input', handleInput);
     input.addEventListener('search', handleInput);
     form?.addEventListener('submit', (event) => {
       event.preventDefault();
-      updateUI(input.value, index);
+      updateUI(input.value, search);
     });
 
     triggerButtons.forEach((button) => {
       button.addEventListener('click', (event) => {
         event.preventDefault();
-        updateUI(input.value, index);
+        updateUI(input.value, search);
+      });
+    });
+
+    facetButtons.forEach((button) => {
+      button.addEventListener('click', () => {
+        const type = button.dataset.siteSearchType;
+        activeType = isSiteSearchType(type) ? type : undefined;
+        updateUI(input.value, search);
       });
     });
 
     const resetSearch = () => {
       input.value = '';
-      list.innerHTML = '';
-      if (empty) empty.hidden = true;
-      if (count) count.textContent = defaultCountMessage;
+      resetResults();
       input.focus();
     };
 
@@ -238,38 +341,20 @@
       });
     });
 
-    // Optional: prefetch JSON after idle time for smoother future loads
-    if (!sessionStorage.getItem('number-one-search-index')) {
-      const prefetch = async () => {
-        try {
-          await loadIndex();
-        } catch {
-          /* ignore */
-        }
-      };
-
-      if ('requestIdleCallback' in window) {
-        (
-          window as Window & { requestIdleCallback: typeof requestIdleCallback }
-        ).requestIdleCallback(prefetch);
-      } else {
-        window.setTimeout(prefetch, 200);
-      }
-    }
-
-    const urlQuery = new URLSearchParams(window.location.search).get('q')?.trim() ?? '';
+    const params = new URLSearchParams(window.location.search);
+    const urlQuery = params.get('q')?.trim() ?? '';
+    const urlType = params.get('type');
+    activeType = isSiteSearchType(urlType) ? urlType : undefined;
 
     if (urlQuery) {
       input.value = urlQuery;
-      updateUI(urlQuery, index);
+      updateUI(urlQuery, search);
     } else {
       const initialQueryValue = input.value.trim();
       if (initialQueryValue) {
-        updateUI(initialQueryValue, index);
+        updateUI(initialQueryValue, search);
       } else {
-        list.innerHTML = '';
-        if (empty) empty.hidden = true;
-        if (count) count.textContent = defaultCountMessage;
+        resetResults();
       }
     }
 
@@ -0,0 +1,170 @@
+/**
+ * "What was #1 on this date?" lookup. The chart-week index is a content-hashed JSON file the
+ * page links to; it is fetched on the first lookup, after which lookups never hit the network
+ * and keep working offline once the service worker has cached it.
+ */
+
+import {
+  findOnThisDayWeek,
+  type OnThisDayIndex,
+  type OnThisDaySong,
+  type OnThisDayWeek,
+} from '../lib/on-this-day';
+
+const hasDOM = typeof window !== 'undefined' && typeof document !== 'undefined';
+
+const ROOT_SELECTOR = '[data-on-this-day-index-href]';
+const INITIALIZED_ATTR = 'onThisDayInitialized';
+
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const formatDate = (date: string) =>
+  new Date(toTime(date)).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const createElement = <K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  className: string,
+  text?: string
+) => {
+  const element = document.createElement(tag);
+  element.className = className;
+  if (text !== undefined) element.textContent = text;
+  return element;
+};
+
+const createLink = (href: string, text: string, className: string) => {
+  const link = createElement('a', className, text);
+  link.href = href;
+  return link;
+};
+
+const renderSong = (song: OnThisDaySong, [chartDate, , week]: OnThisDayWeek) => {
+  const article = createElement('article', 'on-this-day__song');
+
+  const kicker = createElement('p', 'on-this-day__kicker', `Chart dated ${formatDate(chartDate)}`);
+  const title = createElement('h2', 'on-this-day__title');
+  title.append(
+    song.href
+      ? createLink(song.href, `“${song.title}”`, 'on-this-day__title-link')
+      : `“${song.title}”`
+  );
+  const artist = createElement('p', 'on-this-day__artist', song.artist);
+  const weeks = createElement(
+    'p',
+    'on-this-day__weeks',
+    song.weeksAtNumberOne ? `Week ${week} of ${song.weeksAtNumberOne} at #1` : `Week ${week} at #1`
+  );
+  article.append(kicker, title, artist, weeks);
+
+  if (song.notes.length) {
+    const notes = createElement('ul', 'on-this-day__notes');
+    song.notes.forEach((note) => notes.append(createElement('li', '', note)));
+    article.append(notes);
+  }
+
+  const links = createElement('ul', 'on-this-day__placements');
+  song.placements.forEach((placement) => {
+    const item = createElement('li', '');
+    item.append(createLink(placement.href, placement.label, 'tag-chip'));
+    links.append(item);
+  });
+  const recap = createElement('li', '');
+  recap.append(createLink(song.yearHref, `${song.year} recap`, 'tag-chip'));
+  links.append(recap);
+  article.append(links);
+
+  return article;
+};
+
+export function initializeOnThisDay() {
+  if (!hasDOM) return;
+
+  const root = document.querySelector<HTMLElement>(ROOT_SELECTOR);
+  if (!root || root.dataset[INITIALIZED_ATTR] === 'true') return;
+
+  const form = root.querySelector<HTMLFormElement>('[data-on-this-day-form]');
+  const input = root.querySelector<HTMLInputElement>('[data-on-this-day-input]');
+  const result = root.querySelector<HTMLElement>('[data-on-this-day-result]');
+  const status = root.querySelector<HTMLElement>('[data-on-this-day-status]');
+  const indexHref = root.dataset.onThisDayIndexHref;
+  if (!form || !input || !result || !status || !indexHref) return;
+
+  let indexPromise: Promise<OnThisDayIndex> | undefined;
+  // The file name carries a content hash, so the browser may keep it forever.
+  const getIndex = () => {
+    indexPromise ??= fetch(indexHref, { cache: 'force-cache' })
+      .then((response) => {
+        if (!response.ok) throw new Error(`Request failed: ${response.status}`);
+        return response.json() as Promise<OnThisDayIndex>;
+      })
+      .catch((error: unknown) => {
+        indexPromise = undefined;
+        throw error;
+      });
+    return indexPromise;
+  };
+
+  let latestLookup = 0;
+
+  const lookup = async (date: string, updateUrl: boolean) => {
+    const lookupId = ++latestLookup;
+    result.replaceChildren();
+    if (!date) {
+      status.textContent = 'Pick a date to see which song was #1 that week.';
+      return;
+    }
+
+    if (updateUrl) {
+      const url = new URL(window.location.href);
+      url.searchParams.set('date', date);
+      window.history.replaceState(window.history.state, '', url);
+    }
+
+    status.textContent = 'Loading the chart weeks…';
+    let index: OnThisDayIndex;
+    try {
+      index = await getIndex();
+    } catch (error) {
+      console.error('Could not load the chart weeks:', error);
+      if (lookupId === latestLookup) status.textContent = 'The chart lookup could not be loaded.';
+      return;
+    }
+    if (lookupId !== latestLookup) return;
+
+    const week = findOnThisDayWeek(index.weeks, date);
+    const song = week ? index.songs[week[1]] : undefined;
+    if (!week || !song) {
+      status.textContent = `No chart-run data covers ${formatDate(date)} yet.`;
+    } else {
+      status.textContent = `The #1 song on ${formatDate(date)}:`;
+      result.append(renderSong(song, week));
+    }
+  };
+
+  form.addEventListener('submit', (event) => {
+    event.preventDefault();
+    lookup(input.value, true);
+  });
+  input.addEventListener('change', () => lookup(input.value, true));
+
+  root.dataset[INITIALIZED_ATTR] = 'true';
+  form.hidden = false;
+
+  const initialDate = new URLSearchParams(window.location.search).get('date') ?? '';
+  if (/^\d{4}-\d{2}-\d{2}$/.test(initialDate)) {
+    input.value = initialDate;
+    lookup(initialDate, false);
+  } else {
+    lookup('', false);
+  }
+}
+
+if (hasDOM) {
+  initializeOnThisDay();
+  document.addEventListener('prefetch:navigated', initializeOnThisDay);
+}
@@ -0,0 +1,168 @@
+import { getStorage } from '../lib/embed-consent';
+import { formatPlaylistProgress, parsePlaylist, type Playlist } from '../lib/playlist';
+import { isPlaybackEndedMessage, pickTrackLink, readPreferredProvider } from '../lib/track-links';
+import { TRACK_PLAYER_OPEN_EVENT, announcePlayerOpen, createTrackEmbed } from './track-embeds';
+
+const PLAY_SELECTOR = 'button[data-playlist-src]';
+const PLAYER_SELECTOR = '[data-playlist-player]';
+const INITIALIZED_FLAG = '__playlistPlayerInitialized';
+
+const hasDOM = typeof window !== 'undefined' && typeof document !== 'undefined';
+const player = hasDOM ? document.querySelector<HTMLElement>(PLAYER_SELECTOR) : null;
+
+if (player) {
+  const globalScope = window as typeof window & Record<string, unknown>;
+  if (globalScope[INITIALIZED_FLAG]) {
+    // prevent duplicate init
+  } else {
+    globalScope[INITIALIZED_FLAG] = true;
+
+    const part = (name: string) => player.querySelector<HTMLElement>(`[data-playlist-${name}]`)!;
+    const action = (name: string) =>
+      player.querySelector<HTMLButtonElement>(`[data-playlist-action="${name}"]`)!;
+
+    const source = part('source');
+    const progress = part('progress');
+    const title = part('title');
+    const artist = part('artist');
+    const notes = part('notes');
+    const embed = part('embed');
+    const previous = action('previous');
+    const resume = action('resume');
+    const next = action('next');
+
+    const requests = new Map<string, Promise<Playlist | undefined>>();
+    let current: { playlist: Playlist; index: number } | null = null;
+    // The playing iframe; end-of-track messages from any other window are ignored.
+    let frame: HTMLIFrameElement | null = null;
+
+    const loadPlaylist = (src: string) => {
+      let request = requests.get(src);
+      if (!request) {
+        request = fetch(src, { credentials: 'same-origin' })
+          .then((response) => (response.ok ? response.json() : undefined))
+          .then(parsePlaylist)
+          .catch(() => undefined)
+          .then((playlist) => {
+            if (!playlist) requests.delete(src);
+            return playlist;
+          });
+        requests.set(src, request);
+      }
+      return request;
+    };
+
+    const showLink = (target: HTMLElement, text: string, href?: string) => {
+      if (!href) {
+        target.textContent = text;
+        return;
+      }
+      const anchor = document.createElement('a');
+      anchor.href = href;
+      anchor.textContent = text;
+      target.replaceChildren(anchor);
+    };
+
+    const play = (index: number) => {
+      const track = current?.playlist.tracks[index];
+      if (!current || !track) return;
+      const { playlist } = current;
+      current.index = index;
+
+      showLink(source, playlist.title, playlist.href);
+      progress.textContent = formatPlaylistProgress(playlist, index);
+      showLink(title, track.title, track.href);
+      artist.textContent = track.artist;
+      notes.replaceChildren(
+        ...track.notes.map((note) => {
+          const item = document.createElement('li');
+          item.textContent = note;
+          return item;
+        })
+      );
+      previous.disabled = index === 0;
+      next.disabled = index === playlist.tracks.length - 1;
+      resume.hidden = true;
+
+      const link = pickTrackLink(track.links, readPreferredProvider(getStorage()));
+      frame = null;
+      const element = link
+        ? createTrackEmbed(link, track.title, {
+            // Only a loaded player stops the others; a consent prompt leaves them playing.
+            onPlayer: (iframe) => {
+              frame = iframe;
+              announcePlayerOpen(player);
+            },
+          })
+        : null;
+      embed.replaceChildren(...(element ? [element] : []));
+
+      player.hidden = false;
+    };
+
+    /** Drop the embed but keep the place in the playlist, so Resume picks up the same song. */
+    const stop = () => {
+      embed.replaceChildren();
+      frame = null;
+      resume.hidden = !current;
+    };
+
+    const close = () => {
+      stop();
+      current = null;
+      player.hidden = true;
+    };
+
+    document.addEventListener('click', async (event) => {
+      const button = (event.target as Element | null)?.closest<HTMLButtonElement>(PLAY_SELECTOR);
+      const src = button?.dataset.playlistSrc;
+      if (!button || !src) return;
+
+      button.setAttribute('aria-busy', 'true');
+      const playlist = await loadPlaylist(src);
+      button.removeAttribute('aria-busy');
+      if (!playlist?.tracks.length) return;
+      current = { playlist, index: 0 };
+      play(0);
+    });
+
+    player.addEventListener('click', (event) => {
+      const button = (event.target as Element | null)?.closest<HTMLButtonElement>(
+        'button[data-playlist-action]'
+      );
+      if (!button || !current) return;
+      const { index } = current;
+      switch (button.dataset.playlistAction) {
+        case 'previous':
+          play(index - 1);
+          break;
+        case 'next':
+          play(index + 1);
+          break;
+        case 'resume':
+          play(index);
+          break;
+        case 'close':
+          close();
+          break;
+      }
+    });
+
+    window.addEventListener('message', (event) => {
+      if (!current || !frame || event.source !== frame.contentWindow) return;
+      if (!isPlaybackEndedMessage(event.origin, event.data)) return;
+      if (current.index < current.playlist.tracks.length - 1) {
+        play(current.index + 1);
+      } else {
+        // The last song stays loaded; its later progress messages should not restart anything.
+        frame = null;
+      }
+    });
+
+    // A row's own play button takes over; the playlist waits to be resumed.
+    document.addEventListener(TRACK_PLAYER_OPEN_EVENT, (event) => {
+      const { owner } = (event as CustomEvent<{ owner: Element }>).detail;
+      if (owner !== player && frame !== null) stop();
+    });
+  }
+}
@@ -351,6 +351,19 @@
     true
   );
 
+  // Scripts without a link to click (e.g. the header search suggestions) dispatch a cancelable
+  // `prefetch:navigate` event instead; preventDefault() tells them the navigation is handled.
+  document.addEventListener('prefetch:navigate', (event) => {
+    const href = (event as CustomEvent<{ url?: string }>).detail?.url;
+    if (!href) return;
+    const url = new URL(href, window.location.href);
+    if (url.origin !== window.location.origin) return;
+    if (isSameDocumentNavigation(url) || shouldForceReloadPath(url.pathname)) return;
+
+    event.preventDefault();
+    if (url.href !== currentUrl) navigateTo(url);
+  });
+
   document.addEventListener('submit', (event) => {
     const form = event.target as HTMLFormElement;
     if (form?.matches('[data-no-spa]')) return; // let browser handle it normally
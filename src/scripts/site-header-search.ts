@@ -0,0 +1,215 @@
+/**
+ * Header search suggestions: an ARIA 1.2 combobox over the site search index. Suggestions load
+ * the same static shards as `/search/` and open through prefetch navigation, so picking one
+ * swaps the page content instead of reloading it. Without a selection the form still submits
+ * to `/search/`.
+ */
+
+import { buildSearchSuggestions, type SearchSuggestion } from '../lib/search-suggestions';
+import { createShardedSiteSearch, type SiteSearchManifest } from '../lib/site-search-shards';
+
+(() => {
+  const form = document.querySelector<HTMLFormElement>('[data-site-header-search]');
+  const input = form?.querySelector<HTMLInputElement>('[role="combobox"]');
+  const listbox = form?.querySelector<HTMLElement>('[role="listbox"]');
+  const status = form?.querySelector<HTMLElement>('[data-site-header-search-status]');
+  const manifestHref = form?.dataset.siteSearchManifestHref;
+  if (!form || !input || !listbox || !manifestHref) return;
+
+  const kindLabels: Record<SearchSuggestion['kind'], string> = {
+    song: 'Song',
+    artist: 'Artist',
+    year: 'Year',
+  };
+  const DEBOUNCE_MS = 120;
+
+  let suggestions: SearchSuggestion[] = [];
+  let activeIndex = -1;
+  let latestQuery = 0;
+  let debounceTimer: number | undefined;
+  let searchPromise: Promise<ReturnType<typeof createShardedSiteSearch>> | undefined;
+
+  const fetchJson = async (url: string): Promise<unknown> => {
+    const response = await fetch(url, { cache: 'force-cache' });
+    if (!response.ok) throw new Error(`Request failed: ${response.status}`);
+    return response.json();
+  };
+
+  // The manifest is only fetched once someone starts typing.
+  const getSearch = () => {
+    searchPromise ??= fetchJson(manifestHref)
+      .then((manifest) => createShardedSiteSearch(manifest as SiteSearchManifest, fetchJson))
+      .catch((error: unknown) => {
+        searchPromise = undefined;
+        throw error;
+      });
+    return searchPromise;
+  };
+
+  const optionId = (index: number) => `${listbox.id}-option-${index}`;
+
+  const setActive = (index: number) => {
+    activeIndex = index;
+    Array.from(listbox.children).forEach((option, optionIndex) => {
+      option.setAttribute('aria-selected', String(optionIndex === index));
+    });
+    if (index >= 0) {
+      input.setAttribute('aria-activedescendant', optionId(index));
+      document.getElementById(optionId(index))?.scrollIntoView({ block: 'nearest' });
+    } else {
+      input.removeAttribute('aria-activedescendant');
+    }
+  };
+
+  const close = () => {
+    listbox.hidden = true;
+    input.setAttribute('aria-expanded', 'false');
+    setActive(-1);
+  };
+
+  const render = (items: SearchSuggestion[]) => {
+    suggestions = items;
+    listbox.replaceChildren(
+      ...items.map((suggestion, index) => {
+        const option = document.createElement('div');
+        option.id = optionId(index);
+        option.className = 'site-header__suggestion';
+        option.setAttribute('role', 'option');
+        option.setAttribute('aria-selected', 'false');
+        option.dataset.index = String(index);
+
+        const kind = document.createElement('span');
+        kind.className = 'site-header__suggestion-kind';
+        kind.textContent = kindLabels[suggestion.kind];
+        const label = document.createElement('span');
+        label.className = 'site-header__suggestion-label';
+        label.textContent = suggestion.label;
+        option.append(kind, label);
+
+        if (suggestion.detail) {
+          const detail = document.createElement('span');
+          detail.className = 'site-header__suggestion-detail';
+          detail.textContent = suggestion.detail;
+          option.append(detail);
+        }
+        return option;
+      })
+    );
+
+    const open = items.length > 0;
+    listbox.hidden = !open;
+    input.setAttribute('aria-expanded', String(open));
+    setActive(-1);
+    if (status) {
+      status.textContent = open
+        ? `${items.length} suggestion${items.length > 1 ? 's' : ''} available.`
+        : '';
+    }
+  };
+
+  const navigate = (href: string) => {
+    const handled = !document.dispatchEvent(
+      new CustomEvent('prefetch:navigate', { detail: { url: href }, cancelable: true })
+    );
+    if (!handled) window.location.href = href;
+  };
+
+  const select = (index: number) => {
+    const suggestion = suggestions[index];
+    if (!suggestion) return;
+    close();
+    input.value = '';
+    input.blur();
+    navigate(suggestion.href);
+  };
+
+  const update = async () => {
+    const query = input.value.trim();
+    const queryId = ++latestQuery;
+    if (!query) {
+      render([]);
+      return;
+    }
+
+    try {
+      const search = await getSearch();
+      const { results } = await search.search(query);
+      if (queryId === latestQuery) render(buildSearchSuggestions(results));
+    } catch (error) {
+      console.error('Could not load search suggestions:', error);
+      if (queryId === latestQuery) render([]);
+    }
+  };
+
+  input.addEventListener('input', () => {
+    window.clearTimeout(debounceTimer);
+    debounceTimer = window.setTimeout(update, DEBOUNCE_MS);
+  });
+
+  input.addEventListener('keydown', (event) => {
+    const open = !listbox.hidden && suggestions.length > 0;
+    switch (event.key) {
+      case 'ArrowDown':
+        if (!open) return;
+        event.preventDefault();
+        setActive((activeIndex + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        if (!open) return;
+        event.preventDefault();
+        setActive(activeIndex <= 0 ? suggestions.length - 1 : activeIndex - 1);
+        break;
+      case 'Home':
+      case 'End':
+        if (!open || activeIndex < 0) return;
+        event.preventDefault();
+        setActive(event.key === 'Home' ? 0 : suggestions.length - 1);
+        break;
+      case 'Enter':
+        // With no suggestion chosen, Enter submits the form to the full search page.
+        if (!open || activeIndex < 0) return;
+        event.preventDefault();
+        select(activeIndex);
+        break;
+      case 'Escape':
+        if (open) {
+          event.preventDefault();
+          close();
+        } else if (input.value) {
+          event.preventDefault();
+          input.value = '';
+          latestQuery += 1;
+          render([]);
+        }
+        break;
+      case 'Tab':
+        close();
+        break;
+    }
+  });
+
+  // Keep focus in the input while picking with the mouse.
+  listbox.addEventListener('mousedown', (event) => event.preventDefault());
+  listbox.addEventListener('click', (event) => {
+    const option = (event.target as HTMLElement).closest<HTMLElement>('[role="option"]');
+    if (option) select(Number(option.dataset.index));
+  });
+  listbox.addEventListener('mousemove', (event) => {
+    const option = (event.target as HTMLElement).closest<HTMLElement>('[role="option"]');
+    if (option && Number(option.dataset.index) !== activeIndex) {
+      setActive(Number(option.dataset.index));
+    }
+  });
+
+  input.addEventListener('focus', () => {
+    if (suggestions.length) {
+      listbox.hidden = false;
+      input.setAttribute('aria-expanded', 'true');
+    }
+  });
+  input.addEventListener('blur', close);
+  form.addEventListener('reset', () => {
+    latestQuery += 1;
+    render([]);
+  });
+})();
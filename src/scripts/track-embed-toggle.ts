@@ -0,0 +1,121 @@
+import { getStorage } from '../lib/embed-consent';
+import {
+  PREFERRED_PROVIDER_STORAGE_KEY,
+  getTrackToggleLabel,
+  isStreamingProvider,
+  parseTrackLinks,
+  pickTrackLink,
+  readPreferredProvider,
+} from '../lib/track-links';
+import { TRACK_PLAYER_OPEN_EVENT, announcePlayerOpen, createTrackEmbed } from './track-embeds';
+
+const BUTTON_SELECTOR = 'button[data-track-links]';
+const PREFERENCE_SELECTOR = 'select[data-streaming-provider]';
+const INITIALIZED_FLAG = '__trackEmbedToggleInitialized';
+
+const hasDOM = typeof window !== 'undefined' && typeof document !== 'undefined';
+
+if (hasDOM) {
+  const globalScope = window as typeof window & Record<string, unknown>;
+  if (globalScope[INITIALIZED_FLAG]) {
+    // prevent duplicate init
+  } else {
+    globalScope[INITIALIZED_FLAG] = true;
+
+    const getContainer = (button: HTMLButtonElement): HTMLElement | null => {
+      const id = button.getAttribute('aria-controls');
+      return id ? (document.getElementById(id) as HTMLElement | null) : null;
+    };
+
+    const getLink = (button: HTMLButtonElement) =>
+      pickTrackLink(
+        parseTrackLinks(button.dataset.trackLinks),
+        readPreferredProvider(getStorage())
+      );
+
+    const closeButton = (button: HTMLButtonElement) => {
+      const container = getContainer(button);
+      if (!container) return;
+      container.hidden = true;
+      container.innerHTML = '';
+      button.setAttribute('aria-expanded', 'false');
+      const link = getLink(button);
+      if (link) button.textContent = getTrackToggleLabel(link);
+    };
+
+    const closeOtherWidgets = (current?: HTMLButtonElement) => {
+      document
+        .querySelectorAll<HTMLButtonElement>(`${BUTTON_SELECTOR}[aria-expanded="true"]`)
+        .forEach((btn) => {
+          if (btn !== current) closeButton(btn);
+        });
+    };
+
+    /** Server-rendered labels name the default provider; match them to the visitor's choice. */
+    const relabelButtons = () => {
+      document
+        .querySelectorAll<HTMLButtonElement>(`${BUTTON_SELECTOR}[aria-expanded="false"]`)
+        .forEach((button) => {
+          const link = getLink(button);
+          if (link) button.textContent = getTrackToggleLabel(link);
+        });
+      const preferred = readPreferredProvider(getStorage());
+      document.querySelectorAll<HTMLSelectElement>(PREFERENCE_SELECTOR).forEach((select) => {
+        select.value = preferred ?? '';
+      });
+    };
+
+    document.addEventListener('click', (event) => {
+      const target = event.target as Element | null;
+      const button = target?.closest<HTMLButtonElement>(BUTTON_SELECTOR);
+      if (!button) return;
+
+      const link = getLink(button);
+      const container = getContainer(button);
+      if (!link || !container) return;
+
+      const isOpen = button.getAttribute('aria-expanded') === 'true';
+      if (isOpen) {
+        closeButton(button);
+        return;
+      }
+
+      closeOtherWidgets(button);
+
+      const title = button.dataset.trackTitle ?? '';
+      container.hidden = false;
+      container.innerHTML = '';
+      container.append(createTrackEmbed(link, title));
+
+      button.setAttribute('aria-expanded', 'true');
+      button.textContent = getTrackToggleLabel(link, true);
+      announcePlayerOpen(button);
+    });
+
+    // A player opened elsewhere, such as the playlist player, stops the open row.
+    document.addEventListener(TRACK_PLAYER_OPEN_EVENT, (event) => {
+      const { owner } = (event as CustomEvent<{ owner: Element }>).detail;
+      if (!owner.matches(BUTTON_SELECTOR)) closeOtherWidgets();
+    });
+
+    document.addEventListener('change', (event) => {
+      const select = (event.target as Element | null)?.closest<HTMLSelectElement>(
+        PREFERENCE_SELECTOR
+      );
+      if (!select) return;
+      try {
+        if (isStreamingProvider(select.value)) {
+          getStorage()?.setItem(PREFERRED_PROVIDER_STORAGE_KEY, select.value);
+        } else {
+          getStorage()?.removeItem(PREFERRED_PROVIDER_STORAGE_KEY);
+        }
+      } catch {
+        /* storage blocked: keep offering the default provider */
+      }
+      relabelButtons();
+    });
+
+    relabelButtons();
+    document.addEventListener('prefetch:navigated', relabelButtons);
+  }
+}
@@ -0,0 +1,119 @@
+import {
+  getEmbedConsentMessage,
+  getStorage,
+  grantEmbedConsent,
+  grantSessionEmbedConsent,
+  hasEmbedConsent,
+} from '../lib/embed-consent';
+import { streamingProviderInfo, type TrackEmbed, type TrackLink } from '../lib/track-links';
+
+/**
+ * Fired on `document` whenever a player starts, so the row toggles and the playlist player can
+ * stop their own; `detail.owner` is the element that opened it.
+ */
+export const TRACK_PLAYER_OPEN_EVENT = 'track-player:open';
+
+export const announcePlayerOpen = (owner: Element) =>
+  document.dispatchEvent(new CustomEvent(TRACK_PLAYER_OPEN_EVENT, { detail: { owner } }));
+
+const createIframe = (embed: TrackEmbed, label: string, title: string): HTMLIFrameElement => {
+  const iframe = document.createElement('iframe');
+  iframe.src = embed.src;
+  iframe.allow = embed.allow;
+  iframe.loading = 'lazy';
+  iframe.title = title ? `${label} player: ${title}` : `${label} player`;
+  iframe.width = '100%';
+  iframe.height = String(embed.height);
+  iframe.style.border = '0';
+  iframe.style.borderRadius = '12px';
+
+  iframe.addEventListener('load', () => {
+    const { origin } = new URL(iframe.src);
+    if (origin === streamingProviderInfo.youtube.embedOrigin) {
+      // YouTube only reports state changes to pages that have asked for them.
+      iframe.contentWindow?.postMessage(JSON.stringify({ event: 'listening' }), origin);
+      return;
+    }
+    if (origin !== streamingProviderInfo.spotify.embedOrigin) return;
+    // Spotify ignores autoplay parameters, so ask the player to start once its JS is ready.
+    setTimeout(() => {
+      try {
+        iframe.contentWindow?.postMessage({ type: 'play' }, origin);
+      } catch {
+        /* fallback: user can hit play manually */
+      }
+    }, 400);
+  });
+  return iframe;
+};
+
+// Providers that cannot be embedded get an outbound link in place of a player.
+const createOutboundLink = ({ url, label }: TrackLink, title: string): HTMLAnchorElement => {
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.target = '_blank';
+  anchor.rel = 'noopener noreferrer';
+  anchor.textContent = title ? `Open “${title}” on ${label}` : `Open on ${label}`;
+  return anchor;
+};
+
+/** Asks before anything loads from the provider; agreeing swaps the prompt for the player. */
+const createConsentPrompt = (
+  link: TrackLink,
+  embed: TrackEmbed,
+  title: string,
+  onPlayer?: (iframe: HTMLIFrameElement) => void
+): HTMLElement => {
+  const prompt = document.createElement('div');
+  prompt.className = 'embed-consent';
+  prompt.setAttribute('role', 'group');
+  prompt.setAttribute('aria-label', `Load the ${link.label} player?`);
+
+  const message = document.createElement('p');
+  message.textContent = getEmbedConsentMessage(link.provider);
+
+  const remember = document.createElement('input');
+  remember.type = 'checkbox';
+  const rememberLabel = document.createElement('label');
+  rememberLabel.append(remember, ` Always load ${link.label} players`);
+
+  const load = document.createElement('button');
+  load.type = 'button';
+  load.textContent = `Load ${link.label} player`;
+  load.addEventListener('click', () => {
+    if (remember.checked) grantEmbedConsent(getStorage(), link.provider);
+    else grantSessionEmbedConsent(link.provider);
+    const iframe = createIframe(embed, link.label, title);
+    prompt.replaceWith(iframe);
+    onPlayer?.(iframe);
+  });
+
+  const outbound = createOutboundLink(link, title);
+  outbound.textContent = `Open on ${link.label} instead`;
+
+  const actions = document.createElement('p');
+  actions.className = 'embed-consent__actions';
+  actions.append(load, outbound);
+  prompt.append(message, rememberLabel, actions);
+  return prompt;
+};
+
+/**
+ * The player for a link: straight away when the visitor has already allowed the provider, on
+ * this page or for good, otherwise behind a consent prompt. `onPlayer` receives the iframe
+ * whenever it loads.
+ */
+export const createTrackEmbed = (
+  link: TrackLink,
+  title: string,
+  { onPlayer }: { onPlayer?: (iframe: HTMLIFrameElement) => void } = {}
+): HTMLElement => {
+  const { embed } = link;
+  if (!embed) return createOutboundLink(link, title);
+  if (!hasEmbedConsent(getStorage(), link.provider)) {
+    return createConsentPrompt(link, embed, title, onPlayer);
+  }
+  const iframe = createIframe(embed, link.label, title);
+  onPlayer?.(iframe);
+  return iframe;
+};